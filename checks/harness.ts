@@ -0,0 +1,27 @@
+/**
+ * harness.ts
+ * Minimal registry for the fixture checks run by `npm test` (see run.mjs).
+ */
+
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+export interface Check {
+    name: string;
+    run: () => void;
+}
+
+export const checks: Check[] = [];
+
+export const check = (name: string, run: () => void): void => {
+    checks.push({ name, run });
+};
+
+/** Contents of a file under checks/fixtures (paths relative to the repo root, where npm runs the script) */
+export const fixture = (path: string): string => readFileSync(resolve('checks/fixtures', path), 'utf8');
+
+export const assertClose = (actual: number | undefined, expected: number, label = 'value'): void => {
+    if (actual === undefined || Math.abs(actual - expected) > 1e-9 * Math.max(1, Math.abs(expected))) {
+        throw new Error(`${label}: expected ${expected}, got ${actual}`);
+    }
+};
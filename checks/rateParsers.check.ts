@@ -0,0 +1,90 @@
+/**
+ * rateParsers.check.ts
+ * Pins the exchange-rate parsers to sample ECB, MNB, Frankfurter and CSV payloads (checks/fixtures/rates).
+ */
+
+import assert from 'node:assert/strict';
+import { assertClose, check, fixture } from './harness';
+import {
+    RateParseError, parseEcbXml, parseFrankfurterJson, parseMnbXml, parseRateCsv, parseRateFile
+} from '../src/utils/rateParsers';
+
+check('ECB: rates per EUR are rebased on the same day HUF rate, newest day first', () => {
+    const snapshots = parseEcbXml(fixture('rates/ecb-hist.xml'));
+    assert.deepEqual(snapshots.map(s => s.date), ['2024-03-15', '2024-03-14']);
+    const [latest] = snapshots;
+    assertClose(latest.rates.EUR, 395.2, 'EUR');
+    assertClose(latest.rates.USD, 395.2 / 1.0892, 'USD');
+    assertClose(latest.rates.JPY, 395.2 / 161.85, 'JPY');
+    assert.equal(latest.rates.HUF, undefined);
+});
+
+check('ECB: a day without a HUF rate is skipped, a file without any is rejected', () => {
+    assert.ok(!parseEcbXml(fixture('rates/ecb-hist.xml')).some(s => s.date === '2024-03-13'));
+    assert.throws(() => parseEcbXml("<Cube><Cube time='2024-03-13'><Cube currency='USD' rate='1.09'/></Cube></Cube>"), RateParseError);
+    assert.throws(() => parseEcbXml('<Envelope/>'), RateParseError);
+});
+
+check('MNB: SOAP envelope with an escaped result, decimal comma and unit divisor', () => {
+    const snapshots = parseMnbXml(fixture('rates/mnb-soap.xml'));
+    assert.deepEqual(snapshots.map(s => s.date), ['2024-03-15', '2024-03-14']);
+    const [latest, previous] = snapshots;
+    assertClose(latest.rates.EUR, 395.5, 'EUR');
+    assertClose(latest.rates.USD, 363.25, 'USD');
+    assertClose(latest.rates.JPY, 2.4312, 'JPY per 1 unit');
+    assertClose(previous.rates.EUR, 394.8, 'EUR previous day');
+});
+
+check('MNB: bare MNBCurrentExchangeRates document', () => {
+    const [snapshot] = parseMnbXml(fixture('rates/mnb-current.xml'));
+    assert.equal(snapshot.date, '2024-03-15');
+    assertClose(snapshot.rates.CHF, 411.37, 'CHF');
+    assertClose(snapshot.rates.KRW, 0.2741, 'KRW per 1 unit');
+    assert.throws(() => parseMnbXml('<MNBCurrentExchangeRates/>'), RateParseError);
+});
+
+check('Frankfurter: HUF based rates are inverted to HUF per unit', () => {
+    const [snapshot] = parseFrankfurterJson(JSON.parse(fixture('rates/frankfurter-latest.json')));
+    assert.equal(snapshot.date, '2024-03-15');
+    assertClose(snapshot.rates.EUR, 1 / 0.0025284, 'EUR');
+    assertClose(snapshot.rates.JPY, 1 / 0.41128, 'JPY');
+});
+
+check('Frankfurter: other bases and missing dates are rejected', () => {
+    assert.throws(() => parseFrankfurterJson({ base: 'EUR', date: '2024-03-15', rates: { HUF: 395 } }), RateParseError);
+    assert.throws(() => parseFrankfurterJson({ base: 'HUF', rates: { EUR: 0.0025 } }), RateParseError);
+    assert.throws(() => parseFrankfurterJson(null), RateParseError);
+});
+
+check('CSV: semicolons with a decimal comma, header and unit column', () => {
+    const snapshots = parseRateCsv(fixture('rates/rates.csv'));
+    assert.deepEqual(snapshots.map(s => s.date), ['2024-03-15', '2024-03-14']);
+    assertClose(snapshots[0].rates.EUR, 395.5, 'EUR');
+    assertClose(snapshots[0].rates.JPY, 2.4312, 'JPY per 1 unit');
+    assertClose(snapshots[1].rates.EUR, 394.8, 'EUR previous day');
+});
+
+check('CSV: comma separated lines need a decimal point', () => {
+    const [snapshot] = parseRateCsv('2024-03-15,EUR,390.12');
+    assertClose(snapshot.rates.EUR, 390.12, 'EUR');
+    assert.throws(() => parseRateCsv('2024-03-15,EUR,390,12'), /ambiguous decimal comma/);
+});
+
+check('CSV: a header naming the unit column allows a 4th comma separated cell', () => {
+    const [snapshot] = parseRateCsv('date,currency,rate,unit\n2024-03-15,JPY,243.12,100');
+    assertClose(snapshot.rates.JPY, 2.4312, 'JPY per 1 unit');
+});
+
+check('CSV: undated lines use the default date', () => {
+    const [snapshot] = parseRateCsv('EUR;395,5\nUSD;363,25', '2024-03-15');
+    assert.equal(snapshot.date, '2024-03-15');
+    assertClose(snapshot.rates.USD, 363.25, 'USD');
+    assert.throws(() => parseRateCsv('EUR;395,5'), RateParseError);
+});
+
+check('Rate files are routed to the matching parser', () => {
+    assertClose(parseRateFile(fixture('rates/ecb-hist.xml'))[0].rates.EUR, 395.2, 'ECB EUR');
+    assertClose(parseRateFile(fixture('rates/mnb-current.xml'))[0].rates.CHF, 411.37, 'MNB CHF');
+    assertClose(parseRateFile(`\uFEFF${fixture('rates/rates.csv')}`)[0].rates.EUR, 395.5, 'CSV EUR');
+    assert.throws(() => parseRateFile('<rates/>'), RateParseError);
+});
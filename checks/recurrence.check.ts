@@ -0,0 +1,136 @@
+/**
+ * recurrence.check.ts
+ * Pins the RRULE expansion (checks/fixtures/recurrence) and the recurring catch-up, including the guard that
+ * drops a catch-up computed from a stale copy of a master.
+ */
+
+import assert from 'node:assert/strict';
+import { check, fixture } from './harness';
+import { Transaction } from '../src/types/planner';
+import { RRuleError, iterateOccurrences, parseRRule, ruleFromPeriod, toLocalYMD } from '../src/utils/rrule';
+import { applyRecurringCatchUp, catchUpRecurring, historyIdFor } from '../src/utils/recurringCatchUp';
+
+interface RRuleCase {
+    name: string;
+    rrule: string;
+    /** Local date-time */
+    dtstart: string;
+    exdates?: string[];
+    /** Occurrences to take (default: as many as expected); more than expected means the series must end */
+    take?: number;
+    expected: string[];
+}
+
+const firstOccurrences = (occurrences: Iterable<Date>, take: number): string[] => {
+    const days: string[] = [];
+    for (const occurrence of occurrences) {
+        if (days.length >= take) break;
+        days.push(toLocalYMD(occurrence));
+    }
+    return days;
+};
+
+(JSON.parse(fixture('recurrence/rrule-cases.json')) as RRuleCase[]).forEach(rule => {
+    check(`RRULE: ${rule.name}`, () => {
+        const occurrences = iterateOccurrences(parseRRule(rule.rrule), new Date(rule.dtstart), rule.exdates);
+        assert.deepEqual(firstOccurrences(occurrences, rule.take ?? rule.expected.length), rule.expected);
+    });
+});
+
+check('RRULE: occurrences keep the wall-clock time of DTSTART', () => {
+    const [, second] = iterateOccurrences(parseRRule('FREQ=WEEKLY;BYDAY=MO,TH'), new Date('2024-03-04T07:45:00'));
+    assert.equal(toLocalYMD(second), '2024-03-07');
+    assert.deepEqual([second.getHours(), second.getMinutes()], [7, 45]);
+});
+
+check('RRULE: invalid combinations are rejected', () => {
+    assert.throws(() => parseRRule('FREQ=DAILY;COUNT=3;UNTIL=20240305'), RRuleError);
+    assert.throws(() => parseRRule('FREQ=WEEKLY;BYDAY=2FR'), RRuleError);
+    assert.throws(() => parseRRule('INTERVAL=2'), RRuleError);
+    assert.throws(() => parseRRule('FREQ=HOURLY'), RRuleError);
+});
+
+check('RRULE: a legacy monthly period from the 31st clamps to the end of shorter months', () => {
+    const start = new Date('2024-01-31T09:00:00');
+    const occurrences = iterateOccurrences(ruleFromPeriod('monthly', start)!, start);
+    assert.deepEqual(firstOccurrences(occurrences, 4), ['2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30']);
+});
+
+// --- Catch-up ---
+
+const NOW = new Date('2024-04-15T23:59:59.999');
+
+const master = (overrides: Partial<Transaction> = {}): Transaction => ({
+    id: 'rent',
+    amount: 1000,
+    description: 'Rent',
+    date: new Date('2024-01-31T09:00:00'),
+    type: 'expense',
+    category: 'housing',
+    period: 'monthly',
+    recurring: true,
+    kind: 'master',
+    ...overrides,
+});
+
+check('Catch-up: missed month-end occurrences become history and the master moves to the next one', () => {
+    const catchUp = catchUpRecurring([master()], new Set(), NOW);
+    assert.deepEqual(catchUp.history.map(h => h.id), ['rent_2024-01-31', 'rent_2024-02-29', 'rent_2024-03-31']);
+    assert.ok(catchUp.history.every(h => h.kind === 'history' && h.originId === 'rent' && !h.recurring && !h.rrule));
+    const [advanced] = catchUp.masters;
+    assert.equal(toLocalYMD(advanced.date), '2024-04-30');
+    assert.equal(advanced.previousDate, new Date('2024-01-31T09:00:00').getTime());
+    assert.equal(advanced.recurrenceStart, new Date('2024-01-31T09:00:00').toISOString());
+});
+
+check('Catch-up: existing and skipped occurrences are not generated again', () => {
+    const existing = { ...master(), id: historyIdFor('rent', '2024-01-31'), kind: 'history' as const, recurring: false };
+    const catchUp = catchUpRecurring([master(), existing], new Set([historyIdFor('rent', '2024-02-29')]), NOW);
+    assert.deepEqual(catchUp.history.map(h => h.id), ['rent_2024-03-31']);
+});
+
+check('Catch-up: EXDATEs are not generated', () => {
+    const catchUp = catchUpRecurring([master({ rrule: 'FREQ=MONTHLY;BYMONTHDAY=-1', exdates: ['2024-02-29'] })], new Set(), NOW);
+    assert.deepEqual(catchUp.history.map(h => h.id), ['rent_2024-01-31', 'rent_2024-03-31']);
+});
+
+check('Catch-up: a series that reached COUNT ends and stops being recurring', () => {
+    const finite = master({ id: 'loan', rrule: 'FREQ=MONTHLY;COUNT=2', date: new Date('2024-01-10T09:00:00') });
+    const catchUp = catchUpRecurring([finite], new Set(), NOW);
+    assert.deepEqual(catchUp.history.map(h => h.id), ['loan_2024-01-10', 'loan_2024-02-10']);
+    assert.equal(catchUp.masters[0].ended, true);
+    const applied = applyRecurringCatchUp([finite], catchUp, new Set());
+    assert.equal(applied.find(t => t.id === 'loan')?.recurring, false);
+});
+
+check('Catch-up: a master in the future is left alone', () => {
+    const catchUp = catchUpRecurring([master({ date: new Date('2024-05-31T09:00:00') })], new Set(), NOW);
+    assert.deepEqual(catchUp, { masters: [], history: [] });
+});
+
+check('Apply: advances the master and adds its history', () => {
+    const transactions = [master()];
+    const applied = applyRecurringCatchUp(transactions, catchUpRecurring(transactions, new Set(), NOW), new Set());
+    assert.equal(toLocalYMD(new Date(applied[0].date)), '2024-04-30');
+    assert.equal(applied.length, 4);
+});
+
+check('Apply: a master edited since the catch-up was computed (previousDate differs) is not touched', () => {
+    const catchUp = catchUpRecurring([master()], new Set(), NOW);
+    const edited = [master({ date: new Date('2024-02-15T09:00:00') })];
+    assert.equal(applyRecurringCatchUp(edited, catchUp, new Set()), edited);
+});
+
+check('Apply: occurrences skipped or created meanwhile are dropped, unknown masters are ignored', () => {
+    const catchUp = catchUpRecurring([master()], new Set(), NOW);
+    const applied = applyRecurringCatchUp([master()], catchUp, new Set([historyIdFor('rent', '2024-02-29')]));
+    assert.deepEqual(applied.slice(1).map(t => t.id), ['rent_2024-01-31', 'rent_2024-03-31']);
+    const unrelated = [master({ id: 'other' })];
+    assert.equal(applyRecurringCatchUp(unrelated, catchUp, new Set()), unrelated);
+});
+
+check('Apply: a trashed master is not advanced', () => {
+    const catchUp = catchUpRecurring([master()], new Set(), NOW);
+    const trashed = [master({ deletedAt: '2024-04-01T10:00:00.000Z' })];
+    assert.equal(applyRecurringCatchUp(trashed, catchUp, new Set()), trashed);
+});
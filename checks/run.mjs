@@ -0,0 +1,38 @@
+/**
+ * run.mjs
+ * Runs every checks/*.check.ts file through Vite's SSR loader (no extra test framework needed).
+ * Exits with 1 when any check fails.
+ */
+
+import { readdirSync } from 'node:fs';
+import { createServer } from 'vite';
+
+const server = await createServer({
+    configFile: false,
+    logLevel: 'error',
+    appType: 'custom',
+    optimizeDeps: { noDiscovery: true, include: [] },
+    server: { middlewareMode: true, hmr: false, watch: null },
+});
+
+let failed = 0;
+try {
+    const files = readdirSync('checks').filter(file => file.endsWith('.check.ts')).sort();
+    for (const file of files) await server.ssrLoadModule(`/checks/${file}`);
+    const { checks } = await server.ssrLoadModule('/checks/harness.ts');
+
+    for (const { name, run } of checks) {
+        try {
+            run();
+            console.log(`  ok   ${name}`);
+        } catch (error) {
+            failed++;
+            console.log(`  FAIL ${name}\n       ${error instanceof Error ? error.message : error}`);
+        }
+    }
+    console.log(`\n${checks.length - failed} passed, ${failed} failed`);
+} finally {
+    await server.close();
+}
+
+process.exit(failed > 0 ? 1 : 0);
@@ -1,35 +1,27 @@
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { ThemeProvider } from './contexts/ThemeContext';
 import { LanguageProvider, useLanguage } from './contexts/LanguageContext';
 import { useSettings, SettingsProvider } from './contexts/SettingsContext';
 import { DataProvider, useData } from './contexts/DataContext';
+import { NavigationProvider } from './contexts/NavigationContext';
 import Header from './components/Header';
 import Sidebar from './components/Sidebar';
 import MainContent from './components/MainContent';
 import { VoiceAssistant } from './components/VoiceAssistant';
+import StorageErrorBanner from './components/common/StorageErrorBanner';
+import UndoToast from './components/common/UndoToast';
+import TabSyncIndicator from './components/common/TabSyncIndicator';
+import VaultGate from './components/common/VaultGate';
 import { ViewType } from './types/planner';
 import { CurrencyService } from './services/CurrencyService';
-import { MigrationService } from './services/MigrationService'; // Import added
 
 function AppContent() {
   const { language } = useLanguage();
   const { settings } = useSettings();
   const [activeView, setActiveView] = useState<ViewType>('daily');
   const [sidebarOpen, setSidebarOpen] = useState(false);
-  const { invoices, clients, addPlan, addTransaction, addGoal, addNote } = useData();
-
-  // Run migration on mount
-  useEffect(() => {
-    // We don't await this because it might be the old synchronous version (returning undefined)
-    // or the new async version (returning a Promise).
-    // In either case, the service handles its own errors internally, so we don't need to .catch here.
-    try {
-      MigrationService.run();
-    } catch (e) {
-      console.error('Migration run failed:', e);
-    }
-  }, []);
+  const { invoices, clients, addPlan, addTransaction, addGoal, addNote, withOrigin } = useData();
 
   const handleSettingsClick = () => {
     setActiveView('settings');
@@ -60,6 +52,7 @@ function AppContent() {
         'goals': 'goals',
         'drawing': 'drawing',
         'budget': 'budget',
+        'subscriptions': 'subscriptions',
         'invoicing': 'invoicing',
         'pomodoro': 'pomodoro',
         'statistics': 'statistics',
@@ -203,6 +196,7 @@ radial - gradient(at 20 % 20 %, hsla(228, 89 %, 60 %, 0.1) 0px, transparent 50 %
             sidebarOpen={sidebarOpen}
             onSettingsClick={handleSettingsClick}
             activeView={activeView}
+            onViewChange={setActiveView}
           />
 
           <MainContent
@@ -212,10 +206,17 @@ radial - gradient(at 20 % 20 %, hsla(228, 89 %, 60 %, 0.1) 0px, transparent 50 %
         </div>
       </div>
 
+      {/* Persistence failures (quota exceeded etc.) */}
+      <StorageErrorBanner />
+
+      {/* Undo/redo shortcuts and "Undo" toast after deletes */}
+      <UndoToast />
+      <TabSyncIndicator />
+
       {/* Voice Assistant - Floating button */}
       <VoiceAssistant
         apiKey={settings.aiConfig?.provider === 'gemini' ? settings.aiConfig.apiKey : (import.meta.env.VITE_GEMINI_API_KEY || '')}
-        onCommand={handleVoiceCommand}
+        onCommand={command => withOrigin('assistant', () => handleVoiceCommand(command))}
         currentLanguage={language}
         currentView={activeView}
       />
@@ -227,11 +228,15 @@ function App() {
   return (
     <ThemeProvider>
       <LanguageProvider>
-        <SettingsProvider>
-          <DataProvider>
-            <AppContent />
-          </DataProvider>
-        </SettingsProvider>
+        <VaultGate>
+          <SettingsProvider>
+            <DataProvider>
+              <NavigationProvider>
+                <AppContent />
+              </NavigationProvider>
+            </DataProvider>
+          </SettingsProvider>
+        </VaultGate>
       </LanguageProvider>
     </ThemeProvider>
   );
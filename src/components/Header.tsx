@@ -1,8 +1,11 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Menu, Moon, Sun, Calendar, Download, Settings, Sparkles, Globe, ChevronDown } from 'lucide-react';
+import { Menu, Moon, Sun, Calendar, Download, Settings, Sparkles, Globe, ChevronDown, Cloud, CloudOff, RefreshCw, AlertTriangle, Search } from 'lucide-react';
 import { useTheme } from '../contexts/ThemeContext';
 import { useLanguage, Language, LANGUAGE_NAMES } from '../contexts/LanguageContext';
 import ImportExportModal from './common/ImportExportModal';
+import CommandPalette from './common/CommandPalette';
+import { useSyncState } from '../hooks/useSyncState';
+import { SyncService } from '../services/SyncService';
 
 import { ViewType } from '../types/planner';
 
@@ -11,14 +14,17 @@ interface HeaderProps {
   sidebarOpen: boolean;
   onSettingsClick?: () => void;
   activeView: ViewType;
+  onViewChange: (view: ViewType) => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ onMenuClick, sidebarOpen, onSettingsClick, activeView }) => {
+const Header: React.FC<HeaderProps> = ({ onMenuClick, sidebarOpen, onSettingsClick, activeView, onViewChange }) => {
   const { isDark, toggleTheme } = useTheme();
   const { t, language, setLanguage } = useLanguage();
   const [showImportExport, setShowImportExport] = useState(false);
   const [showLangDropdown, setShowLangDropdown] = useState(false);
+  const [showPalette, setShowPalette] = useState(false);
   const langDropdownRef = useRef<HTMLDivElement>(null);
+  const sync = useSyncState();
 
   // Close language dropdown when clicking outside
   useEffect(() => {
@@ -31,6 +37,18 @@ const Header: React.FC<HeaderProps> = ({ onMenuClick, sidebarOpen, onSettingsCli
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
+  // Ctrl+K / Cmd+K toggles the command palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setShowPalette(open => !open);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   // Language flag/code mapping
   const languageFlags: Record<Language, string> = {
     en: '🇺🇸', hu: '🇭🇺', ro: '🇷🇴', sk: '🇸🇰', hr: '🇭🇷',
@@ -51,10 +69,12 @@ const Header: React.FC<HeaderProps> = ({ onMenuClick, sidebarOpen, onSettingsCli
       case 'goals': return { title: t('goals.title'), subtitle: t('goals.subtitle') };
       case 'drawing': return { title: t('visual.title'), subtitle: t('visual.subtitle') };
       case 'budget': return { title: t('budget.title'), subtitle: t('budget.subtitle') };
+      case 'subscriptions': return { title: t('subscriptions.title'), subtitle: t('subscriptions.subtitle') };
       case 'invoicing': return { title: t('invoicing.title'), subtitle: t('invoicing.subtitle') };
       case 'pomodoro': return { title: t('pomodoro.title'), subtitle: t('pomodoro.subtitle') };
       case 'statistics': return { title: t('statistics.title'), subtitle: t('statistics.subtitle') };
       case 'integrations': return { title: t('integrations.title'), subtitle: t('integrations.subtitle') };
+      case 'trash': return { title: t('trash.title'), subtitle: t('trash.subtitle') };
       case 'settings': return { title: t('settings.title'), subtitle: t('settings.subtitle') };
       default: return { title: 'Digital Planner Pro', subtitle: 'Manage your life' };
 
@@ -63,6 +83,16 @@ const Header: React.FC<HeaderProps> = ({ onMenuClick, sidebarOpen, onSettingsCli
 
   const { title, subtitle } = getHeaderInfo();
 
+  const syncTitle = (() => {
+    switch (sync.status) {
+      case 'signed-out': return t('sync.signedOut');
+      case 'offline': return t('sync.offline');
+      case 'syncing': return t('sync.syncing');
+      case 'error': return `${t('sync.error')}: ${sync.error ?? ''}`;
+      default: return sync.pending > 0 ? t('sync.pending').replace('{count}', String(sync.pending)) : t('sync.upToDate');
+    }
+  })();
+
   return (
     <>
       <header className="fixed top-0 left-0 right-0 z-30 md:static">
@@ -125,6 +155,21 @@ const Header: React.FC<HeaderProps> = ({ onMenuClick, sidebarOpen, onSettingsCli
 
               {/* Right Section - Action Buttons */}
               <div className="flex items-center gap-1 md:gap-2">
+                {/* Command Palette */}
+                <button
+                  onClick={() => setShowPalette(true)}
+                  className="p-2.5 rounded-xl text-gray-600 dark:text-gray-300 
+                           hover:bg-gray-100 dark:hover:bg-gray-800 
+                           active:scale-95 transition-all duration-200 
+                           min-w-[44px] min-h-[44px] flex items-center justify-center gap-2
+                           group"
+                  title={`${t('palette.title')} (Ctrl+K)`}
+                  aria-label={t('palette.title')}
+                >
+                  <Search size={20} className="group-hover:text-primary-500 transition-colors" />
+                  <kbd className="hidden lg:inline px-1.5 py-0.5 text-[10px] font-mono rounded border border-gray-300 dark:border-gray-600 text-gray-500">Ctrl K</kbd>
+                </button>
+
                 {/* Theme Toggle */}
                 <button
                   onClick={toggleTheme}
@@ -182,6 +227,34 @@ const Header: React.FC<HeaderProps> = ({ onMenuClick, sidebarOpen, onSettingsCli
                   )}
                 </div>
 
+                {/* Cloud Sync Status */}
+                {sync.status !== 'disabled' && (
+                  <button
+                    onClick={() => sync.status === 'signed-out' || sync.conflicts > 0 ? onSettingsClick?.() : SyncService.syncNow()}
+                    className="relative p-2.5 rounded-xl text-gray-600 dark:text-gray-300 
+                             hover:bg-gray-100 dark:hover:bg-gray-800 
+                             active:scale-95 transition-all duration-200 
+                             min-w-[44px] min-h-[44px] flex items-center justify-center"
+                    title={syncTitle}
+                    aria-label={syncTitle}
+                  >
+                    {sync.status === 'syncing' ? (
+                      <RefreshCw size={20} className="animate-spin text-primary-500" />
+                    ) : sync.status === 'error' ? (
+                      <AlertTriangle size={20} className="text-red-500" />
+                    ) : sync.status === 'offline' || sync.status === 'signed-out' ? (
+                      <CloudOff size={20} />
+                    ) : (
+                      <Cloud size={20} className={sync.pending > 0 ? 'text-warning-500' : 'text-success-500'} />
+                    )}
+                    {sync.conflicts > 0 && (
+                      <span className="absolute top-1 right-1 min-w-[16px] h-4 px-1 rounded-full bg-red-500 text-white text-[10px] font-bold flex items-center justify-center">
+                        {sync.conflicts}
+                      </span>
+                    )}
+                  </button>
+                )}
+
                 {/* Import/Export */}
                 <button
                   onClick={() => setShowImportExport(true)}
@@ -219,6 +292,12 @@ const Header: React.FC<HeaderProps> = ({ onMenuClick, sidebarOpen, onSettingsCli
         isOpen={showImportExport}
         onClose={() => setShowImportExport(false)}
       />
+
+      <CommandPalette
+        isOpen={showPalette}
+        onClose={() => setShowPalette(false)}
+        onViewChange={onViewChange}
+      />
     </>
   );
 };
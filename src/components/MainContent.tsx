@@ -9,12 +9,14 @@ import NotesView from './views/NotesView';
 import GoalsView from './views/GoalsView';
 import DrawingView from './views/DrawingView';
 import BudgetView from './views/BudgetView';
+import SubscriptionsView from './views/SubscriptionsView';
 import PomodoroView from './views/PomodoroView';
 import StatisticsView from './views/StatisticsView';
 import HabitView from './views/HabitView';
 import SettingsView from './views/SettingsView';
 import InvoicingView from './views/InvoicingView';
 import IntegrationsView from './views/IntegrationsView';
+import TrashView from './views/TrashView';
 
 
 interface MainContentProps {
@@ -43,6 +45,8 @@ const MainContent: React.FC<MainContentProps> = ({ activeView }) => {
         return <DrawingView />;
       case 'budget':
         return <BudgetView />;
+      case 'subscriptions':
+        return <SubscriptionsView />;
       case 'invoicing':
         return <InvoicingView />;
       case 'pomodoro':
@@ -53,6 +57,8 @@ const MainContent: React.FC<MainContentProps> = ({ activeView }) => {
         return <HabitView />;
       case 'integrations':
         return <IntegrationsView />;
+      case 'trash':
+        return <TrashView />;
 
       case 'settings':
         return <SettingsView />;
@@ -7,6 +7,7 @@ import toast, { Toaster } from 'react-hot-toast';
 import { useLanguage, LANGUAGE_NAMES } from '../contexts/LanguageContext';
 import { useData } from '../contexts/DataContext';
 import { FinancialEngine } from '../utils/FinancialEngine';
+import { sumOccurrences } from '../utils/occurrences';
 import { CurrencyService } from '../services/CurrencyService';
 
 interface VoiceAssistantProps {
@@ -86,7 +87,7 @@ export const VoiceAssistant: React.FC<VoiceAssistantProps> = ({
     currentView,
 }) => {
     const { language: _lang, t } = useLanguage(); // language available via currentLanguage prop
-    const { transactions } = useData();
+    const { transactions, getOccurrences } = useData();
 
     const [isActive, setIsActive] = useState(false);
     const [isConnecting, setIsConnecting] = useState(false);
@@ -187,6 +188,15 @@ export const VoiceAssistant: React.FC<VoiceAssistantProps> = ({
         const baseCurrency = CurrencyService.getBaseCurrency();
         const report = FinancialEngine.getFinancialReport(transactions, baseCurrency);
 
+        // Next 30 days of recurring transactions, subscription payments and plans (nothing is generated for this)
+        const now = new Date();
+        const upcoming = getOccurrences(now, new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000));
+        const upcomingFlow = sumOccurrences(upcoming, (amount, from) => CurrencyService.convert(amount, from, baseCurrency));
+        const upcomingLines = upcoming.slice(0, 15).map((o) => {
+            const money = o.amount !== undefined ? ` ${o.type === 'income' ? '+' : '-'}${Math.round(o.amount)} ${o.currency || baseCurrency}` : '';
+            return `- ${o.ymd} [${o.source}] "${o.title}"${money}`;
+        });
+
         const visible = viewportElements.slice(0, 20).map((el) => {
             const label = el.text || el.attributes?.placeholder || el.id || 'unnamed';
             return `- ${el.type}: "${label}"`;
@@ -203,10 +213,13 @@ Balance: ${Math.round(report.currentBalance)} ${baseCurrency}
 Monthly Net: ${Math.round(report.monthlyNet)} ${baseCurrency}
 Runway: ${report.runway ? report.runway + ' months' : 'N/A'}
 
+UPCOMING 30 DAYS (${upcoming.length} items, income ${Math.round(upcomingFlow.income)} / expense ${Math.round(upcomingFlow.expense)} ${baseCurrency}):
+${upcomingLines.join('\n')}
+
 VIEWPORT (${viewportElements.length} items):
 ${visible.join('\n')}
 `.trim();
-    }, [currentLanguage, currentView, scrollPosition.percent, transactions, viewportElements]);
+    }, [currentLanguage, currentView, scrollPosition.percent, transactions, getOccurrences, viewportElements]);
 
     const getSystemInstruction = useCallback(() => {
         const langName = LANGUAGE_NAMES[currentLanguage as keyof typeof LANGUAGE_NAMES] || 'English';
@@ -218,7 +231,7 @@ You have access to tools that control the UI. Always use these tools to fulfill
 IMPORTANT: You are in "Silent Mode". Do not generate spoken conversational responses if possible. The user prefers visual confirmation (which is handled by the system). 
 If you must reply with text, keep it extremely brief (e.g., "Done", "Opened", "Created").
 You must communicate in ${langName}.
-You can navigate to: daily, weekly, monthly, yearly, notes, goals, budget, invoicing, statistics, settings, integrations.`;
+You can navigate to: daily, weekly, monthly, yearly, notes, goals, budget, subscriptions, invoicing, statistics, settings, integrations.`;
 
         const todayStr = new Date().toLocaleDateString(isHu ? 'hu-HU' : 'en-US');
         const huInstruction = `Te egy profi néma adminisztrátor asszisztens vagy a "Digital Planner Pro" alkalmazáshoz.
@@ -234,6 +247,7 @@ Navigációs célpontok (és szinonimáik):
 - notes (jegyzetek, okos jegyzetek)
 - goals (célok)
 - budget (költségvetés, pénzügyek)
+- subscriptions (előfizetések)
 - invoicing (számlázás)
 - statistics (statisztika)
 - settings (beállítások, beállítás)
@@ -325,7 +339,7 @@ SOHA ne mondd el, hogy mit fogsz csinálni, csak CSINÁLD (hívd a tool-t).`;
                     functionDeclarations: [
                         {
                             name: 'get_system_state',
-                            description: 'Returns UI state and financial summary.',
+                            description: 'Returns UI state, financial summary and what is scheduled in the next 30 days.',
                             parameters: { type: Type.OBJECT, properties: {} },
                         },
                         {
@@ -0,0 +1,36 @@
+import React, { useEffect, useState } from 'react';
+import { Download, ScrollText } from 'lucide-react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { AuditLogService } from '../../services/AuditLogService';
+
+/**
+ * Settings > Data & Privacy: size of the change history and full CSV export
+ */
+const AuditLogPanel: React.FC = () => {
+  const { t } = useLanguage();
+  const [count, setCount] = useState(() => AuditLogService.getAll().length);
+
+  useEffect(() => AuditLogService.subscribe(() => setCount(AuditLogService.getAll().length)), []);
+
+  return (
+    <div className="border-t border-gray-200 dark:border-gray-600 pt-6">
+      <h4 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2 mb-2">
+        <ScrollText size={20} />
+        {t('audit.title')}
+      </h4>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        {t('audit.desc')} {t('audit.count').replace('{count}', String(count))}
+      </p>
+      <button
+        onClick={() => AuditLogService.downloadCsv()}
+        disabled={count === 0}
+        className="flex items-center gap-2 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors duration-200 text-gray-700 dark:text-gray-300"
+      >
+        <Download size={16} />
+        {t('audit.exportAll')}
+      </button>
+    </div>
+  );
+};
+
+export default AuditLogPanel;
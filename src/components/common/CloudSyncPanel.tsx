@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { Cloud, LogIn, LogOut, RefreshCw, UserPlus, GitMerge } from 'lucide-react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useSyncState } from '../../hooks/useSyncState';
+import { SyncService, SyncConflict } from '../../services/SyncService';
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const preview = (value: unknown) => value === null || value === undefined ? '—' : JSON.stringify(value, null, 2);
+
+/**
+ * Settings > Data & Privacy: Supabase account, sync status and the conflict inbox
+ */
+const CloudSyncPanel: React.FC = () => {
+  const { t } = useLanguage();
+  const sync = useSyncState();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+
+  useEffect(() => {
+    setConflicts(SyncService.getConflicts());
+  }, [sync.conflicts, sync.lastSyncedAt]);
+
+  if (sync.status === 'disabled') {
+    return (
+      <div className="border-t border-gray-200 dark:border-gray-600 pt-6">
+        <h4 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2 mb-2">
+          <Cloud size={20} />
+          {t('sync.title')}
+        </h4>
+        <p className="text-sm text-gray-600 dark:text-gray-400">{t('sync.notConfigured')}</p>
+      </div>
+    );
+  }
+
+  const runAuth = async (action: () => Promise<{ success: boolean; message: string }>) => {
+    setBusy(true);
+    const result = await action();
+    setBusy(false);
+    setMessage({ ok: result.success, text: result.message });
+    if (result.success) setPassword('');
+  };
+
+  return (
+    <div className="border-t border-gray-200 dark:border-gray-600 pt-6">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+          <Cloud size={20} />
+          {t('sync.title')}
+        </h4>
+        <span className="text-sm text-gray-500 dark:text-gray-400">
+          {sync.lastSyncedAt ? `${t('sync.lastSynced')}: ${new Date(sync.lastSyncedAt).toLocaleString()}` : t('sync.never')}
+        </span>
+      </div>
+
+      {sync.status === 'signed-out' ? (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600 dark:text-gray-400">{t('sync.desc')}</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <input type="email" autoComplete="email" value={email} onChange={e => setEmail(e.target.value)} placeholder={t('sync.email')} className={inputClass} />
+            <input type="password" autoComplete="current-password" value={password} onChange={e => setPassword(e.target.value)} placeholder={t('sync.password')} className={inputClass} />
+          </div>
+          <div className="flex gap-3">
+            <button
+              onClick={() => runAuth(() => SyncService.signIn(email, password))}
+              disabled={busy || !email || !password}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg transition-colors duration-200"
+            >
+              <LogIn size={16} />
+              {t('sync.signIn')}
+            </button>
+            <button
+              onClick={() => runAuth(() => SyncService.signUp(email, password))}
+              disabled={busy || !email || !password}
+              className="flex items-center gap-2 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors duration-200 text-gray-700 dark:text-gray-300"
+            >
+              <UserPlus size={16} />
+              {t('sync.signUp')}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-sm text-gray-700 dark:text-gray-300">{sync.email}</span>
+          {sync.pending > 0 && (
+            <span className="text-xs px-2 py-0.5 rounded-full bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300">
+              {t('sync.pending').replace('{count}', String(sync.pending))}
+            </span>
+          )}
+          {sync.status === 'offline' && <span className="text-xs text-gray-500 dark:text-gray-400">{t('sync.offline')}</span>}
+          {sync.status === 'error' && <span className="text-xs text-red-600 dark:text-red-400">{sync.error}</span>}
+          <button
+            onClick={() => SyncService.syncNow()}
+            disabled={sync.status === 'syncing'}
+            className="ml-auto flex items-center gap-2 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors duration-200 text-gray-700 dark:text-gray-300"
+          >
+            <RefreshCw size={16} className={sync.status === 'syncing' ? 'animate-spin' : ''} />
+            {t('sync.syncNow')}
+          </button>
+          <button
+            onClick={() => SyncService.signOut()}
+            className="flex items-center gap-2 px-4 py-2 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors duration-200"
+          >
+            <LogOut size={16} />
+            {t('sync.signOut')}
+          </button>
+        </div>
+      )}
+
+      {message && (
+        <div className={`mt-3 text-sm ${message.ok ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+          {message.text}
+        </div>
+      )}
+
+      {conflicts.length > 0 && (
+        <div className="mt-6 space-y-3">
+          <div className="text-sm font-medium text-gray-900 dark:text-white flex items-center gap-2">
+            <GitMerge size={16} />
+            {t('sync.conflictInbox')} ({conflicts.length})
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">{t('sync.conflictDesc')}</p>
+          {conflicts.map(conflict => (
+            <div key={conflict.id} className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg text-sm">
+              <div className="flex items-center justify-between gap-2 mb-2">
+                <div>
+                  <div className="font-medium text-gray-900 dark:text-white">{conflict.label}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {conflict.dataType} · {t('sync.applied')}: {conflict.applied === 'local' ? t('sync.thisDevice') : t('sync.cloud')}
+                  </div>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    onClick={() => SyncService.resolveConflict(conflict.id, 'local')}
+                    className="px-3 py-1.5 text-xs rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-white dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 transition-colors"
+                  >
+                    {t('sync.keepThisDevice')}
+                  </button>
+                  <button
+                    onClick={() => SyncService.resolveConflict(conflict.id, 'remote')}
+                    className="px-3 py-1.5 text-xs rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-white dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 transition-colors"
+                  >
+                    {t('sync.keepCloud')}
+                  </button>
+                </div>
+              </div>
+              <details>
+                <summary className="text-xs text-blue-600 dark:text-blue-400 cursor-pointer">{t('sync.compare')}</summary>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mt-2">
+                  <pre className="text-[11px] p-2 bg-white dark:bg-gray-800 rounded overflow-auto max-h-48">{preview(conflict.local)}</pre>
+                  <pre className="text-[11px] p-2 bg-white dark:bg-gray-800 rounded overflow-auto max-h-48">{preview(conflict.remote)}</pre>
+                </div>
+              </details>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CloudSyncPanel;
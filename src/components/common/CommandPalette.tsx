@@ -0,0 +1,238 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Search, ArrowRight, Plus, FileText, Users, DollarSign, StickyNote, Calendar, Target, Zap, GitBranch, CornerDownLeft
+} from 'lucide-react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useNavigation } from '../../hooks/useNavigation';
+import { useGlobalSearch } from '../../hooks/useGlobalSearch';
+import { ViewType } from '../../types/planner';
+import { parseSearchQuery, scoreText } from '../../utils/searchIndex';
+import { SearchEntityType, SEARCH_TYPE_VIEWS } from '../../utils/searchDocuments';
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onViewChange: (view: ViewType) => void;
+}
+
+interface PaletteItem {
+  key: string;
+  label: string;
+  detail?: string;
+  icon: React.ElementType;
+  run: () => void;
+}
+
+const TYPE_ICONS: Record<SearchEntityType, React.ElementType> = {
+  invoices: FileText,
+  clients: Users,
+  transactions: DollarSign,
+  notes: StickyNote,
+  plans: Calendar,
+  goals: Target,
+  habits: Zap,
+  workflows: GitBranch,
+};
+
+/** View switch actions: view, label key, extra (English) keywords */
+const VIEW_ACTIONS: [ViewType, string, string][] = [
+  ['hourly', 'nav.hourlyPlanning', 'hourly'],
+  ['daily', 'nav.dailyPlanning', 'daily today'],
+  ['weekly', 'nav.weeklyPlanning', 'weekly week'],
+  ['monthly', 'nav.monthlyPlanning', 'monthly month'],
+  ['yearly', 'nav.yearlyPlanning', 'yearly year'],
+  ['notes', 'nav.smartNotes', 'notes'],
+  ['goals', 'nav.goals', 'goals'],
+  ['drawing', 'nav.visualPlanning', 'drawing'],
+  ['budget', 'nav.budgetTracker', 'budget'],
+  ['subscriptions', 'nav.subscriptions', 'subscriptions renewals'],
+  ['invoicing', 'nav.invoicing', 'invoicing invoices'],
+  ['pomodoro', 'nav.pomodoroTimer', 'pomodoro timer'],
+  ['statistics', 'nav.statistics', 'statistics'],
+  ['habits', 'nav.habits', 'habits'],
+  ['integrations', 'nav.integrations', 'integrations'],
+  ['trash', 'nav.trash', 'trash'],
+  ['settings', 'settings.title', 'settings'],
+];
+
+/** Create actions: record type, label key, extra (English) keywords */
+const CREATE_ACTIONS: [SearchEntityType, string, string][] = [
+  ['invoices', 'palette.newInvoice', 'invoice'],
+  ['clients', 'palette.newClient', 'client'],
+  ['transactions', 'palette.newTransaction', 'transaction expense income'],
+  ['plans', 'palette.newTask', 'task plan'],
+  ['notes', 'palette.newNote', 'note'],
+  ['goals', 'palette.newGoal', 'goal'],
+  ['habits', 'palette.newHabit', 'habit'],
+];
+
+const MAX_ACTIONS = 6;
+
+/**
+ * Ctrl+K palette: global record search (with `field:value` filters) and quick actions
+ */
+const CommandPalette: React.FC<CommandPaletteProps> = ({ isOpen, onClose, onViewChange }) => {
+  const { t } = useLanguage();
+  const { navigate } = useNavigation();
+  const search = useGlobalSearch(isOpen);
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setQuery('');
+    setSelected(0);
+    inputRef.current?.focus();
+  }, [isOpen]);
+
+  const actions = useMemo<PaletteItem[]>(() => {
+    const views = VIEW_ACTIONS.map(([view, labelKey, keywords]) => ({
+      key: `view:${view}`,
+      label: `${t('palette.goTo')} ${t(labelKey)}`,
+      keywords: `switch go open view ${keywords}`,
+      icon: ArrowRight,
+      run: () => onViewChange(view),
+    }));
+    const creates = CREATE_ACTIONS.map(([type, labelKey, keywords]) => ({
+      key: `create:${type}`,
+      label: t(labelKey),
+      keywords: `new create add ${keywords}`,
+      icon: Plus,
+      run: () => {
+        onViewChange(SEARCH_TYPE_VIEWS[type]!);
+        navigate({ kind: 'create', type });
+      },
+    }));
+
+    const { terms, filters } = parseSearchQuery(query);
+    if (filters.length > 0) return [];
+    if (terms.length === 0) return creates;
+    return [...creates, ...views]
+      .map(action => ({ action, score: scoreText(terms, `${action.label} ${action.keywords}`) }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_ACTIONS)
+      .map(({ action }) => action);
+  }, [query, t, onViewChange, navigate]);
+
+  const records = useMemo<PaletteItem[]>(() => search(query).map(({ doc }) => {
+    const type = doc.type as SearchEntityType;
+    const view = SEARCH_TYPE_VIEWS[type];
+    return {
+      key: doc.key,
+      label: doc.title,
+      detail: [t(`trash.type.${type}`), doc.subtitle].filter(Boolean).join(' · '),
+      icon: TYPE_ICONS[type],
+      run: () => {
+        if (!view) return;
+        onViewChange(view);
+        navigate({ kind: 'open', type, id: doc.id });
+      },
+    };
+  }), [search, query, t, onViewChange, navigate]);
+
+  const items = useMemo(() => [...actions, ...records], [actions, records]);
+
+  useEffect(() => {
+    setSelected(0);
+  }, [query]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${selected}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [selected]);
+
+  if (!isOpen) return null;
+
+  const runItem = (item: PaletteItem | undefined) => {
+    if (!item) return;
+    item.run();
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelected(i => Math.min(items.length - 1, i + 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelected(i => Math.max(0, i - 1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      runItem(items[selected]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  const renderItem = (item: PaletteItem, index: number) => {
+    const Icon = item.icon;
+    const active = index === selected;
+    return (
+      <button
+        key={item.key}
+        data-index={index}
+        onMouseEnter={() => setSelected(index)}
+        onClick={() => runItem(item)}
+        className={`w-full flex items-center gap-3 px-4 py-2.5 text-left text-sm transition-colors ${active
+          ? 'bg-primary-50 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300'
+          : 'text-gray-700 dark:text-gray-300'}`}
+      >
+        <Icon size={16} className="shrink-0 opacity-70" />
+        <span className="min-w-0 flex-1">
+          <span className="block truncate font-medium">{item.label}</span>
+          {item.detail && <span className="block truncate text-xs text-gray-500 dark:text-gray-400">{item.detail}</span>}
+        </span>
+        {active && <CornerDownLeft size={14} className="shrink-0 opacity-60" />}
+      </button>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-black/40 flex items-start justify-center p-4 pt-[12vh]" onMouseDown={onClose}>
+      <div
+        className="w-full max-w-xl bg-white dark:bg-gray-800 rounded-xl shadow-2xl overflow-hidden"
+        onMouseDown={e => e.stopPropagation()}
+        role="dialog"
+        aria-label={t('palette.title')}
+      >
+        <div className="flex items-center gap-3 px-4 border-b border-gray-200 dark:border-gray-700">
+          <Search size={18} className="text-gray-400" />
+          <input
+            ref={inputRef}
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={t('palette.placeholder')}
+            className="flex-1 py-4 bg-transparent outline-none text-gray-900 dark:text-white placeholder-gray-400"
+          />
+          <kbd className="hidden sm:inline px-1.5 py-0.5 text-[10px] font-mono rounded border border-gray-300 dark:border-gray-600 text-gray-500">Esc</kbd>
+        </div>
+
+        <div ref={listRef} className="max-h-[60vh] overflow-y-auto py-2">
+          {actions.length > 0 && (
+            <>
+              <div className="px-4 py-1 text-xs font-semibold uppercase tracking-wide text-gray-400">{t('palette.actions')}</div>
+              {actions.map((item, index) => renderItem(item, index))}
+            </>
+          )}
+          {records.length > 0 && (
+            <>
+              <div className="px-4 py-1 text-xs font-semibold uppercase tracking-wide text-gray-400">{t('palette.records')}</div>
+              {records.map((item, index) => renderItem(item, actions.length + index))}
+            </>
+          )}
+          {items.length === 0 && (
+            <p className="px-4 py-6 text-sm text-center text-gray-500 dark:text-gray-400">
+              {query.trim() ? t('palette.noResults') : t('palette.hint')}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { Download, History } from 'lucide-react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { AuditLogService } from '../../services/AuditLogService';
+import { AuditEntityType, AuditEntry } from '../../utils/auditLog';
+
+interface EntityHistoryProps {
+  entityType: AuditEntityType;
+  entityId: string;
+  /** CSV file name for the export button */
+  fileName?: string;
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+const ACTION_STYLES: Record<AuditEntry['action'], string> = {
+  create: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+  update: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400',
+  trash: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400',
+  restore: 'bg-teal-100 text-teal-700 dark:bg-teal-900/30 dark:text-teal-400',
+  delete: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+};
+
+/**
+ * Change history of one record from the audit log, newest first
+ */
+const EntityHistory: React.FC<EntityHistoryProps> = ({ entityType, entityId, fileName }) => {
+  const { t } = useLanguage();
+  const [entries, setEntries] = useState<AuditEntry[]>(() => AuditLogService.getForEntity(entityType, entityId));
+
+  useEffect(() => {
+    const refresh = () => setEntries(AuditLogService.getForEntity(entityType, entityId));
+    refresh();
+    return AuditLogService.subscribe(refresh);
+  }, [entityType, entityId]);
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+          <History size={18} />
+          {t('audit.historyTitle')}
+        </h3>
+        <button
+          onClick={() => AuditLogService.downloadCsv(entries, fileName)}
+          disabled={entries.length === 0}
+          className="flex items-center gap-2 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 text-gray-700 dark:text-gray-300 transition-colors"
+        >
+          <Download size={14} />
+          {t('audit.exportCsv')}
+        </button>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">{t('audit.empty')}</p>
+      ) : (
+        <ol className="space-y-3">
+          {entries.map(entry => (
+            <li key={entry.id} className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg text-sm">
+              <div className="flex flex-wrap items-center gap-2 mb-1">
+                <span className={`px-2 py-0.5 rounded text-xs font-medium ${ACTION_STYLES[entry.action]}`}>
+                  {t(`audit.action.${entry.action}`)}
+                </span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">{t(`audit.origin.${entry.origin}`)}</span>
+                <span className="ml-auto text-xs text-gray-500 dark:text-gray-400">{new Date(entry.at).toLocaleString()}</span>
+              </div>
+              {entry.changes.length > 0 && (
+                <table className="w-full text-xs mt-2">
+                  <tbody>
+                    {entry.changes.map(change => (
+                      <tr key={change.field} className="align-top">
+                        <td className="py-0.5 pr-3 font-mono text-gray-600 dark:text-gray-300 whitespace-nowrap">{change.field}</td>
+                        <td className="py-0.5 pr-2 text-red-600 dark:text-red-400 line-through break-all">{formatValue(change.before)}</td>
+                        <td className="py-0.5 text-green-700 dark:text-green-400 break-all">{formatValue(change.after)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default EntityHistory;
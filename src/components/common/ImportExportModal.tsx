@@ -3,6 +3,7 @@ import { Download, Upload, FileText, AlertTriangle, CheckCircle, Plus, RefreshCw
 import { useData } from '../../contexts/DataContext';
 import { useLanguage } from '../../contexts/LanguageContext';
 import Modal from './Modal';
+import { fromLegacyMonthlyHabit, normalizeHabit } from '../../utils/habits';
 
 interface ImportExportModalProps {
   isOpen: boolean;
@@ -11,9 +12,9 @@ interface ImportExportModalProps {
 
 const ImportExportModal: React.FC<ImportExportModalProps> = ({ isOpen, onClose }) => {
   const {
-    notes, goals, plans, drawings, subscriptions, transactions, budgetSettings,
-    addNote, addGoal, addPlan, addDrawing, addSubscription, addTransaction, updateBudgetSettings,
-    clearAllData
+    notes, goals, plans, drawings, subscriptions, transactions, budgetSettings, habits,
+    addNote, addGoal, addPlan, addDrawing, addSubscription, addTransaction, updateBudgetSettings, upsertHabits,
+    clearAllData, withOrigin
   } = useData();
   const { t } = useLanguage();
   const [activeTab, setActiveTab] = useState<'export' | 'import'>('export');
@@ -30,7 +31,7 @@ const ImportExportModal: React.FC<ImportExportModalProps> = ({ isOpen, onClose }
       exportType,
       data: {},
       stats: {},
-      habits: JSON.parse(localStorage.getItem('planner.habits.v2') || '[]')
+      habits
     };
 
     if (exportType === 'all') {
@@ -72,7 +73,7 @@ const ImportExportModal: React.FC<ImportExportModalProps> = ({ isOpen, onClose }
     URL.revokeObjectURL(url);
   };
 
-  const handleImport = () => {
+  const importFromText = () => {
     try {
       setImportStatus('idle');
       setImportMessage('');
@@ -220,11 +221,9 @@ const ImportExportModal: React.FC<ImportExportModalProps> = ({ isOpen, onClose }
       }
 
       if (parsedData.habits && Array.isArray(parsedData.habits)) {
-        const existingHabits = importMode === 'replace' ? [] : JSON.parse(localStorage.getItem('planner.habits.v2') || '[]');
-        const habitMap = new Map();
-        existingHabits.forEach((h: any) => habitMap.set(h.id, h));
-        parsedData.habits.forEach((h: any) => habitMap.set(h.id, h));
-        localStorage.setItem('planner.habits.v2', JSON.stringify(Array.from(habitMap.values())));
+        // Older exports carry the 'planner.habits.v2' shape (check-ins instead of history)
+        upsertHabits(parsedData.habits.map((h: unknown) =>
+          (h && typeof h === 'object' && 'checkins' in h && h.checkins ? fromLegacyMonthlyHabit(h) : normalizeHabit(h))));
         importedCount++;
       }
 
@@ -238,6 +237,9 @@ const ImportExportModal: React.FC<ImportExportModalProps> = ({ isOpen, onClose }
     }
   };
 
+  // Imported records are tagged as such in the change history
+  const handleImport = () => withOrigin('import', importFromText);
+
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -0,0 +1,154 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, FileUp, Sparkles } from 'lucide-react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { CurrencyService } from '../../services/CurrencyService';
+import { FetchedProviderId, ProviderHealthStatus, RateProviderInfo, RateProviderService } from '../../services/RateProviderService';
+import { DEFAULT_RATE_ENDPOINTS } from '../../services/RateProviders';
+
+const STATUS_CLASSES: Record<ProviderHealthStatus, string> = {
+  ok: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+  failing: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+  unknown: 'bg-gray-200 text-gray-600 dark:bg-gray-600 dark:text-gray-300',
+};
+
+const NEEDS_PROXY_CLASS = 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400';
+
+interface RateProvidersPanelProps {
+  /** Called after an imported rate file changed the rates */
+  onRatesImported: () => void;
+}
+
+/**
+ * Settings > Budget > Exchange rates: provider fallback order, endpoints, health, AI opt-in and rate file import
+ */
+const RateProvidersPanel: React.FC<RateProvidersPanelProps> = ({ onRatesImported }) => {
+  const { t } = useLanguage();
+  const [providers, setProviders] = useState<RateProviderInfo[]>(RateProviderService.getProviders());
+  const [importMessage, setImportMessage] = useState<{ ok: boolean; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = useCallback(() => setProviders(RateProviderService.getProviders()), []);
+
+  useEffect(() => RateProviderService.subscribe(refresh), [refresh]);
+
+  const fetched = providers.filter((p): p is RateProviderInfo & { id: FetchedProviderId } => p.id !== 'ai');
+  const ai = providers.find(p => p.id === 'ai');
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const result = CurrencyService.importRatesFile(await file.text());
+    setImportMessage({ ok: result.success, text: result.message });
+    if (result.success) onRatesImported();
+  };
+
+  const healthText = (provider: RateProviderInfo) => {
+    const { health } = provider;
+    const parts = [t(`rateProviders.status.${health.status}`)];
+    if (health.lastSuccess) parts.push(t('rateProviders.lastSuccess').replace('{time}', new Date(health.lastSuccess).toLocaleString()));
+    if (health.status === 'failing' && health.lastError) parts.push(health.lastError);
+    return parts.join(' · ');
+  };
+
+  return (
+    <div className="mt-6">
+      <h5 className="font-medium text-gray-900 dark:text-white mb-1">{t('rateProviders.title')}</h5>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-1">{t('rateProviders.desc')}</p>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">{t('rateProviders.proxyHint')}</p>
+
+      <div className="space-y-2">
+        {fetched.map((provider, index) => (
+          <div key={provider.id} className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg text-sm">
+            <div className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                checked={provider.enabled}
+                onChange={e => RateProviderService.setEnabled(provider.id, e.target.checked)}
+                title={t('rateProviders.enabled')}
+              />
+              <span className="font-medium text-gray-900 dark:text-white w-24">{provider.label}</span>
+              {provider.needsEndpoint ? (
+                <span className={`px-2 py-0.5 rounded text-xs ${NEEDS_PROXY_CLASS}`}>{t('rateProviders.needsProxy')}</span>
+              ) : (
+                <span className={`px-2 py-0.5 rounded text-xs ${STATUS_CLASSES[provider.health.status]}`} title={provider.health.lastError}>
+                  {healthText(provider)}
+                </span>
+              )}
+              <div className="ml-auto flex gap-1">
+                <button
+                  onClick={() => RateProviderService.move(provider.id, -1)}
+                  disabled={index === 0}
+                  title={t('rateProviders.moveUp')}
+                  className="p-1 rounded hover:bg-white dark:hover:bg-gray-600 text-gray-600 dark:text-gray-300 disabled:opacity-30"
+                >
+                  <ArrowUp size={14} />
+                </button>
+                <button
+                  onClick={() => RateProviderService.move(provider.id, 1)}
+                  disabled={index === fetched.length - 1}
+                  title={t('rateProviders.moveDown')}
+                  className="p-1 rounded hover:bg-white dark:hover:bg-gray-600 text-gray-600 dark:text-gray-300 disabled:opacity-30"
+                >
+                  <ArrowDown size={14} />
+                </button>
+              </div>
+            </div>
+            <input
+              type="url"
+              key={provider.endpoint ?? ''}
+              defaultValue={provider.endpoint ?? ''}
+              onBlur={e => {
+                if (e.target.value.trim() !== (provider.endpoint ?? '')) RateProviderService.setEndpoint(provider.id, e.target.value);
+              }}
+              placeholder={provider.needsEndpoint
+                ? t('rateProviders.proxyPlaceholder').replace('{url}', DEFAULT_RATE_ENDPOINTS[provider.id])
+                : t('rateProviders.endpoint')}
+              title={t('rateProviders.endpointHint')}
+              className="mt-2 w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 font-mono text-xs"
+            />
+          </div>
+        ))}
+      </div>
+
+      {ai && (
+        <label className="flex items-start gap-3 mt-3 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            checked={ai.enabled}
+            onChange={e => RateProviderService.setAiEnabled(e.target.checked)}
+            className="mt-0.5"
+          />
+          <span>
+            <span className="flex items-center gap-1 font-medium text-gray-900 dark:text-white">
+              <Sparkles size={14} /> {t('rateProviders.aiOptIn')}
+              {ai.enabled && ai.health.status !== 'unknown' && (
+                <span className={`ml-2 px-2 py-0.5 rounded text-xs font-normal ${STATUS_CLASSES[ai.health.status]}`}>{healthText(ai)}</span>
+              )}
+            </span>
+            <span className="block text-gray-500 dark:text-gray-400">{t('rateProviders.aiOptInDesc')}</span>
+          </span>
+        </label>
+      )}
+
+      <div className="mt-3 flex items-center gap-3 flex-wrap">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-2 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 transition-colors"
+        >
+          <FileUp size={14} />
+          {t('rateProviders.importFile')}
+        </button>
+        <span className="text-xs text-gray-500 dark:text-gray-400">{t('rateProviders.importFileDesc')}</span>
+        <input ref={fileInputRef} type="file" accept=".csv,.xml,.txt,text/csv,text/xml,application/xml" onChange={handleImport} className="hidden" />
+      </div>
+      {importMessage && (
+        <div className={`mt-2 p-2 rounded-lg text-sm ${importMessage.ok ? 'bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-400' : 'bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-400'}`}>
+          {importMessage.text}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RateProvidersPanel;
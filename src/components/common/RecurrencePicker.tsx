@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { Repeat } from 'lucide-react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { RecurrenceRule, WEEKDAYS, formatRRule, isValidRRule, parseRRule, ruleFromPeriod, toLocalYMD } from '../../utils/rrule';
+
+interface RecurrencePickerProps {
+  /** RRULE text, '' = does not repeat */
+  value: string;
+  onChange: (rrule: string) => void;
+  /** First occurrence; presets repeat on its weekday / day of month */
+  start: Date;
+  label?: string;
+  className?: string;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500';
+
+const presetsFor = (start: Date): Record<string, string> => {
+  const weekday = WEEKDAYS[start.getDay()];
+  return {
+    daily: 'FREQ=DAILY',
+    weekdays: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR',
+    weekly: `FREQ=WEEKLY;BYDAY=${weekday}`,
+    biweekly: `FREQ=WEEKLY;INTERVAL=2;BYDAY=${weekday}`,
+    monthly: formatRRule(ruleFromPeriod('monthly', start)!),
+    lastBusinessDay: 'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1',
+    yearly: formatRRule(ruleFromPeriod('yearly', start)!),
+  };
+};
+
+const parseOrNull = (text: string): RecurrenceRule | null => {
+  try {
+    return text ? parseRRule(text) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Recurrence selector: common presets with an end (never / after N times / on a date), or a custom RRULE
+ */
+const RecurrencePicker: React.FC<RecurrencePickerProps> = ({ value, onChange, start, label, className = '' }) => {
+  const { t } = useLanguage();
+  const presets = presetsFor(start);
+  const rule = parseOrNull(value);
+  const repeating = rule ? formatRRule({ ...rule, count: undefined, until: undefined }) : '';
+  const preset = Object.keys(presets).find(key => presets[key] === repeating);
+  const [customMode, setCustomMode] = useState(!!value && !preset);
+  const [draft, setDraft] = useState(value);
+
+  const mode = !value ? 'none' : customMode || !preset ? 'custom' : preset;
+  const end = rule?.count !== undefined ? 'count' : rule?.until ? 'until' : 'never';
+
+  const handleModeChange = (next: string) => {
+    if (next === 'custom') {
+      setCustomMode(true);
+      setDraft(value);
+      return;
+    }
+    setCustomMode(false);
+    if (next === 'none') {
+      onChange('');
+      return;
+    }
+    // Keep the chosen end when switching between presets
+    onChange(formatRRule({ ...parseRRule(presets[next]), count: rule?.count, until: rule?.until }));
+  };
+
+  const handleEndChange = (nextEnd: string, count?: number, until?: string) => {
+    if (!rule) return;
+    onChange(formatRRule({
+      ...rule,
+      count: nextEnd === 'count' ? Math.max(1, count ?? rule.count ?? 10) : undefined,
+      until: nextEnd === 'until' ? until ?? rule.until ?? toLocalYMD(start) : undefined,
+    }));
+  };
+
+  const handleDraftChange = (text: string) => {
+    setDraft(text);
+    const normalized = text.trim().replace(/^RRULE:/i, '');
+    if (isValidRRule(normalized)) onChange(normalized);
+  };
+
+  const draftInvalid = mode === 'custom' && draft.trim() !== '' && !isValidRRule(draft.trim().replace(/^RRULE:/i, ''));
+
+  return (
+    <div className={className}>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 flex items-center gap-1">
+        <Repeat size={14} />
+        {label ?? t('recurrence.label')}
+      </label>
+      <select value={mode} onChange={(e) => handleModeChange(e.target.value)} className={inputClass}>
+        <option value="none">{t('recurrence.none')}</option>
+        {Object.keys(presets).map(key => (
+          <option key={key} value={key}>{t(`recurrence.${key}`)}</option>
+        ))}
+        <option value="custom">{t('recurrence.custom')}</option>
+      </select>
+
+      {mode === 'custom' && (
+        <div className="mt-2">
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => handleDraftChange(e.target.value)}
+            className={`${inputClass} font-mono text-sm ${draftInvalid ? 'border-red-500 dark:border-red-500' : ''}`}
+            placeholder="FREQ=MONTHLY;BYDAY=2TU"
+          />
+          <p className={`text-xs mt-1 ${draftInvalid ? 'text-red-500' : 'text-gray-500 dark:text-gray-400'}`}>
+            {draftInvalid ? t('recurrence.invalid') : t('recurrence.customHint')}
+          </p>
+        </div>
+      )}
+
+      {mode !== 'none' && mode !== 'custom' && rule && (
+        <div className="mt-2 grid grid-cols-2 gap-2">
+          <select value={end} onChange={(e) => handleEndChange(e.target.value)} className={inputClass}>
+            <option value="never">{t('recurrence.endNever')}</option>
+            <option value="count">{t('recurrence.endCount')}</option>
+            <option value="until">{t('recurrence.endUntil')}</option>
+          </select>
+          {end === 'count' && (
+            <input
+              type="number"
+              min={1}
+              value={rule.count}
+              onChange={(e) => handleEndChange('count', parseInt(e.target.value, 10) || 1)}
+              className={inputClass}
+            />
+          )}
+          {end === 'until' && (
+            <input
+              type="date"
+              value={rule.until}
+              min={toLocalYMD(start)}
+              onChange={(e) => e.target.value && handleEndChange('until', undefined, e.target.value)}
+              className={inputClass}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecurrencePicker;
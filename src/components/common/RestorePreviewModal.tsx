@@ -0,0 +1,198 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, Upload } from 'lucide-react';
+import Modal from './Modal';
+import { useLanguage } from '../../contexts/LanguageContext';
+import {
+  DataTransferService,
+  ParsedBackup,
+  RestoreMode,
+  RestoreSelection,
+  RestoreReport,
+  RestoreReason
+} from '../../services/DataTransferService';
+
+interface RestorePreviewModalProps {
+  backup: ParsedBackup;
+  onClose: () => void;
+  /** 'restore' when the backup is a local snapshot */
+  reason?: RestoreReason;
+  title?: string;
+}
+
+const MAX_LISTED = 5;
+
+const listPreview = (items: string[]) =>
+  items.slice(0, MAX_LISTED).join(', ') + (items.length > MAX_LISTED ? ` +${items.length - MAX_LISTED}` : '');
+
+/**
+ * Shows what a backup would change per collection and lets the user pick
+ * which collections to restore and whether to merge or replace each one
+ */
+const RestorePreviewModal: React.FC<RestorePreviewModalProps> = ({ backup, onClose, reason = 'import', title }) => {
+  const { t } = useLanguage();
+  const previews = useMemo(() => DataTransferService.previewRestore(backup), [backup]);
+
+  // Default: every collection that has something to restore, merged
+  const [selection, setSelection] = useState<RestoreSelection>(() => {
+    const initial: RestoreSelection = {};
+    previews.forEach(preview => {
+      if (preview.total > 0) initial[preview.id] = 'merge';
+    });
+    return initial;
+  });
+  const [busy, setBusy] = useState(false);
+  const [report, setReport] = useState<RestoreReport | null>(null);
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelection(prev => {
+      const next = { ...prev };
+      if (checked) next[id] = 'merge';
+      else delete next[id];
+      return next;
+    });
+  };
+
+  const setMode = (id: string, mode: RestoreMode) => setSelection(prev => ({ ...prev, [id]: mode }));
+
+  const totalRejected = previews.reduce((sum, preview) => sum + preview.rejected.length, 0);
+
+  const handleRestore = async () => {
+    const replacing = Object.values(selection).includes('replace');
+    if (replacing && !confirm(t('restore.replaceConfirm'))) return;
+    setBusy(true);
+    setReport(await DataTransferService.restore(backup, selection, reason));
+    setBusy(false);
+  };
+
+  const handleClose = () => {
+    if (report?.success) {
+      window.location.reload();
+      return;
+    }
+    onClose();
+  };
+
+  return (
+    <Modal isOpen onClose={handleClose} title={title ?? t('restore.title')} maxWidth="2xl">
+      {report ? (
+        <div className="space-y-4">
+          <div className={`text-sm ${report.success ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+            {report.message}
+          </div>
+          <ul className="text-sm text-gray-700 dark:text-gray-300 space-y-1">
+            {previews.filter(preview => preview.id in report.restored).map(preview => (
+              <li key={preview.id}>{preview.label}: {report.restored[preview.id]}</li>
+            ))}
+          </ul>
+          <div className="flex justify-end">
+            <button
+              onClick={handleClose}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors duration-200"
+            >
+              {report.success ? t('restore.reload') : t('common.close')}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">{t('restore.desc')}</p>
+
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {backup.manifest
+              ? t('restore.manifestInfo')
+                .replace('{date}', new Date(backup.manifest.createdAt).toLocaleString())
+                .replace('{version}', backup.manifest.appVersion)
+              : t('restore.legacyFile')}
+          </p>
+
+          {totalRejected > 0 && (
+            <div className="flex items-start gap-2 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 text-sm text-amber-800 dark:text-amber-300">
+              <AlertTriangle size={16} className="mt-0.5 shrink-0" />
+              <span>{t('restore.rejectedSummary').replace('{count}', String(totalRejected))}</span>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            {previews.map(preview => {
+              const mode = selection[preview.id];
+              const selected = mode !== undefined;
+              return (
+                <div key={preview.id} className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg text-sm">
+                  <div className="flex flex-wrap items-center gap-3">
+                    <label className="flex items-center gap-2 font-medium text-gray-900 dark:text-white">
+                      <input
+                        type="checkbox"
+                        checked={selected}
+                        disabled={preview.total === 0}
+                        onChange={e => toggle(preview.id, e.target.checked)}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      {preview.label}
+                    </label>
+                    <span className="text-xs text-green-600 dark:text-green-400">+{preview.added.length}</span>
+                    <span className="text-xs text-amber-600 dark:text-amber-400">~{preview.changed.length}</span>
+                    {mode === 'replace' && (
+                      <span className="text-xs text-red-600 dark:text-red-400">−{preview.removed.length}</span>
+                    )}
+                    <span className="text-xs text-gray-500 dark:text-gray-400">={preview.unchanged}</span>
+                    {preview.rejected.length > 0 && (
+                      <span className="text-xs text-red-600 dark:text-red-400">
+                        {t('restore.invalid').replace('{count}', String(preview.rejected.length))}
+                      </span>
+                    )}
+                    <select
+                      value={mode ?? 'merge'}
+                      disabled={!selected}
+                      onChange={e => setMode(preview.id, e.target.value as RestoreMode)}
+                      className="ml-auto px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white disabled:opacity-50"
+                    >
+                      <option value="merge">{t('restore.merge')}</option>
+                      <option value="replace">{t('restore.replace')}</option>
+                    </select>
+                  </div>
+
+                  {(preview.added.length > 0 || preview.changed.length > 0 || (mode === 'replace' && preview.removed.length > 0) || preview.rejected.length > 0) && (
+                    <details className="mt-2">
+                      <summary className="text-xs text-blue-600 dark:text-blue-400 cursor-pointer">{t('restore.details')}</summary>
+                      <div className="mt-2 space-y-1 text-xs text-gray-600 dark:text-gray-300">
+                        {preview.added.length > 0 && <div>{t('restore.added')}: {listPreview(preview.added)}</div>}
+                        {preview.changed.length > 0 && <div>{t('restore.changed')}: {listPreview(preview.changed)}</div>}
+                        {mode === 'replace' && preview.removed.length > 0 && (
+                          <div>{t('restore.removed')}: {listPreview(preview.removed)}</div>
+                        )}
+                        {preview.rejected.map(rejected => (
+                          <div key={`${rejected.index}-${rejected.id ?? ''}`} className="text-red-600 dark:text-red-400">
+                            #{rejected.index + 1}{rejected.id ? ` (${rejected.id})` : ''}: {rejected.issues.join('; ')}
+                          </div>
+                        ))}
+                      </div>
+                    </details>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 transition-colors duration-200"
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              onClick={handleRestore}
+              disabled={busy || Object.keys(selection).length === 0}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg transition-colors duration-200"
+            >
+              <Upload size={16} />
+              {t('restore.confirm')}
+            </button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default RestorePreviewModal;
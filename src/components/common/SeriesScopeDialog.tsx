@@ -0,0 +1,52 @@
+import React from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { SeriesEditScope } from '../../utils/planSeries';
+import Modal from './Modal';
+
+interface SeriesScopeDialogProps {
+  isOpen: boolean;
+  action: 'edit' | 'delete';
+  /** False when the change cannot apply to a single occurrence (time or recurrence changes) */
+  allowThis?: boolean;
+  onChoose: (scope: SeriesEditScope) => void;
+  onClose: () => void;
+}
+
+/**
+ * Asks which occurrences of a recurring series an edit or delete applies to
+ */
+const SeriesScopeDialog: React.FC<SeriesScopeDialogProps> = ({ isOpen, action, allowThis = true, onChoose, onClose }) => {
+  const { t } = useLanguage();
+  const scopes: SeriesEditScope[] = allowThis ? ['this', 'following', 'all'] : ['following', 'all'];
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={action === 'delete' ? t('series.deleteTitle') : t('series.editTitle')}
+      maxWidth="sm"
+    >
+      <div className="space-y-2">
+        {scopes.map(scope => (
+          <button
+            key={scope}
+            onClick={() => onChoose(scope)}
+            className={`w-full text-left px-4 py-3 rounded-lg border border-gray-200 dark:border-gray-700 text-gray-900 dark:text-white transition-colors duration-200 ${
+              action === 'delete' ? 'hover:bg-red-50 dark:hover:bg-red-900/20' : 'hover:bg-blue-50 dark:hover:bg-blue-900/20'
+            }`}
+          >
+            {t(`series.scope.${scope}`)}
+          </button>
+        ))}
+        <button
+          onClick={onClose}
+          className="w-full bg-gray-500 hover:bg-gray-600 text-white py-2 px-4 rounded-lg transition-colors duration-200 mt-2"
+        >
+          {t('common.cancel')}
+        </button>
+      </div>
+    </Modal>
+  );
+};
+
+export default SeriesScopeDialog;
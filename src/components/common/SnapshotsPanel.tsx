@@ -0,0 +1,138 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Archive, Camera, GitCompare, Trash2 } from 'lucide-react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { SnapshotService, SnapshotMeta } from '../../services/SnapshotService';
+import { ParsedBackup } from '../../services/DataTransferService';
+import RestorePreviewModal from './RestorePreviewModal';
+
+const LIMIT_OPTIONS = [3, 5, 10, 20, 30];
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const totalItems = (meta: SnapshotMeta) => Object.values(meta.counts).reduce((sum, n) => sum + n, 0);
+
+/**
+ * Settings > Data & Privacy: automatic snapshots (browse, compare with the current data, restore)
+ */
+const SnapshotsPanel: React.FC = () => {
+  const { t } = useLanguage();
+  const [snapshots, setSnapshots] = useState<SnapshotMeta[]>([]);
+  const [limit, setLimit] = useState(SnapshotService.getLimit());
+  const [busy, setBusy] = useState(false);
+  const [opened, setOpened] = useState<{ meta: SnapshotMeta; backup: ParsedBackup } | null>(null);
+
+  const refresh = useCallback(() => {
+    SnapshotService.list().then(setSnapshots);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return SnapshotService.subscribe(refresh);
+  }, [refresh]);
+
+  const handleCapture = async () => {
+    setBusy(true);
+    const ok = await SnapshotService.capture('manual');
+    setBusy(false);
+    if (!ok) alert(t('snapshots.captureFailed'));
+  };
+
+  const handleOpen = async (meta: SnapshotMeta) => {
+    const result = await SnapshotService.load(meta.id);
+    if (result.success) setOpened({ meta, backup: result.backup });
+    else alert(result.message);
+  };
+
+  const handleDelete = async (meta: SnapshotMeta) => {
+    if (!confirm(t('snapshots.deleteConfirm'))) return;
+    await SnapshotService.remove(meta.id);
+  };
+
+  const handleLimitChange = async (value: number) => {
+    await SnapshotService.setLimit(value);
+    setLimit(SnapshotService.getLimit());
+  };
+
+  return (
+    <div className="border-t border-gray-200 dark:border-gray-600 pt-6">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+          <Archive size={20} />
+          {t('snapshots.title')}
+        </h4>
+        <label className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+          {t('snapshots.keep')}
+          <select
+            value={limit}
+            onChange={e => handleLimitChange(Number(e.target.value))}
+            className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            {LIMIT_OPTIONS.map(option => <option key={option} value={option}>{option}</option>)}
+          </select>
+        </label>
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        {t('snapshots.desc')}
+        {SnapshotService.getStorageName() === 'localstorage' && ` ${t('snapshots.fallbackNote')}`}
+      </p>
+
+      <button
+        onClick={handleCapture}
+        disabled={busy}
+        className="flex items-center gap-2 px-4 py-2 mb-4 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors duration-200 text-gray-700 dark:text-gray-300"
+      >
+        <Camera size={16} />
+        {t('snapshots.captureNow')}
+      </button>
+
+      {snapshots.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">{t('snapshots.empty')}</p>
+      ) : (
+        <div className="space-y-2">
+          {snapshots.map(meta => (
+            <div key={meta.id} className="flex items-center justify-between gap-3 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg text-sm">
+              <div>
+                <div className="font-medium text-gray-900 dark:text-white">
+                  {t(`snapshots.reason.${meta.reason}`)}
+                  {meta.detail && <span className="ml-1 font-mono text-xs text-gray-500 dark:text-gray-400">{meta.detail}</span>}
+                </div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">
+                  {new Date(meta.createdAt).toLocaleString()} · {t('snapshots.items').replace('{count}', String(totalItems(meta)))} · {formatSize(meta.size)}
+                </div>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button
+                  onClick={() => handleOpen(meta)}
+                  className="flex items-center gap-1 px-3 py-1.5 text-xs rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-white dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 transition-colors"
+                >
+                  <GitCompare size={14} />
+                  {t('snapshots.compareRestore')}
+                </button>
+                <button
+                  onClick={() => handleDelete(meta)}
+                  title={t('snapshots.delete')}
+                  className="p-1.5 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {opened && (
+        <RestorePreviewModal
+          key={opened.meta.id}
+          backup={opened.backup}
+          reason="restore"
+          title={`${t('snapshots.restoreTitle')} · ${new Date(opened.meta.createdAt).toLocaleString()}`}
+          onClose={() => setOpened(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default SnapshotsPanel;
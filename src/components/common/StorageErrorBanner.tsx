@@ -0,0 +1,47 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { StorageService } from '../../services/StorageService';
+import { StorageError } from '../../services/StorageDrivers';
+import { useLanguage } from '../../contexts/LanguageContext';
+
+/**
+ * Surfaces StorageService write failures (e.g. quota exceeded) instead of silently losing data.
+ */
+const StorageErrorBanner: React.FC = () => {
+  const { t } = useLanguage();
+  const [error, setError] = useState<StorageError | null>(null);
+
+  useEffect(() => StorageService.onError(setError), []);
+
+  if (!error) return null;
+
+  const message = error.kind === 'quota'
+    ? t('storage.quotaExceeded')
+    : error.kind === 'unavailable'
+      ? t('storage.unavailable')
+      : error.kind === 'migrated'
+        ? t('storage.migratedUnavailable')
+        : t('storage.writeFailed');
+
+  return (
+    <div className="fixed top-4 left-1/2 -translate-x-1/2 z-[70] w-[calc(100%-2rem)] max-w-xl" role="alert">
+      <div className="flex items-start gap-3 px-5 py-4 bg-red-600 text-white rounded-xl shadow-2xl border border-red-700">
+        <AlertTriangle size={20} className="shrink-0 mt-0.5" />
+        <div className="flex-1 text-sm">
+          <div className="font-semibold">{t('storage.errorTitle')}</div>
+          <div className="opacity-90">{message}</div>
+          {error.key && <div className="opacity-75 text-xs mt-1 font-mono">{error.key}</div>}
+        </div>
+        <button
+          onClick={() => setError(null)}
+          className="p-1 rounded-lg hover:bg-red-700 transition-colors"
+          aria-label={t('common.close')}
+        >
+          <X size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default StorageErrorBanner;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { RefreshCw, X } from 'lucide-react';
+import { useData } from '../../contexts/DataContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+
+/**
+ * Lists records that were edited in this tab and in another tab at the same time.
+ * The other tab's values were applied; the user should double-check these records.
+ */
+const TabSyncIndicator: React.FC = () => {
+  const { remoteConflicts, dismissRemoteConflicts } = useData();
+  const { t } = useLanguage();
+
+  if (remoteConflicts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-6 right-6 z-[60] w-80 max-w-[calc(100%-3rem)]" role="status">
+      <div className="px-4 py-3 bg-amber-50 dark:bg-amber-900/40 text-amber-900 dark:text-amber-100 rounded-xl shadow-2xl border border-amber-300 dark:border-amber-700">
+        <div className="flex items-start gap-2">
+          <RefreshCw size={18} className="shrink-0 mt-0.5" />
+          <div className="flex-1 text-sm">
+            <div className="font-semibold">{t('tabSync.conflictTitle')}</div>
+            <div className="opacity-90">{t('tabSync.conflictDesc')}</div>
+          </div>
+          <button
+            onClick={dismissRemoteConflicts}
+            className="p-1 rounded-lg hover:bg-amber-100 dark:hover:bg-amber-800 transition-colors"
+            aria-label={t('common.close')}
+          >
+            <X size={14} />
+          </button>
+        </div>
+        <ul className="mt-2 space-y-1 text-xs max-h-40 overflow-y-auto">
+          {remoteConflicts.map(conflict => (
+            <li key={conflict.key} className="flex justify-between gap-2">
+              <span className="truncate font-medium">{conflict.label}</span>
+              <span className="opacity-70 shrink-0">{new Date(conflict.at).toLocaleTimeString()}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default TabSyncIndicator;
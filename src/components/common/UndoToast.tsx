@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import { Trash2, Undo2, X } from 'lucide-react';
+import { useData } from '../../contexts/DataContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { entrySize } from '../../utils/changeJournal';
+
+const TOAST_DURATION_MS = 6000;
+
+const isEditableTarget = (target: EventTarget | null) => {
+  const el = target as HTMLElement | null;
+  if (!el) return false;
+  const tag = el.tagName;
+  return tag === 'INPUT' || tag === 'TEXTAREA' || tag === 'SELECT' || el.isContentEditable;
+};
+
+/**
+ * Global undo/redo: Ctrl+Z / Ctrl+Shift+Z (Ctrl+Y) bindings and an "Undo" toast after deletes.
+ * Text fields keep their native undo.
+ */
+const UndoToast: React.FC = () => {
+  const { undo, redo, lastChange } = useData();
+  const { t } = useLanguage();
+  const [visibleEntryId, setVisibleEntryId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      if (e.defaultPrevented || isEditableTarget(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // Show the toast whenever a new delete lands on top of the journal
+  useEffect(() => {
+    if (!lastChange || lastChange.kind !== 'delete') return;
+    setVisibleEntryId(lastChange.id);
+    const timer = window.setTimeout(() => setVisibleEntryId(null), TOAST_DURATION_MS);
+    return () => window.clearTimeout(timer);
+  }, [lastChange]);
+
+  if (!lastChange || visibleEntryId !== lastChange.id) return null;
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[60] animate-in slide-in-from-bottom-4 duration-300">
+      <div className="flex items-center gap-3 px-5 py-3 bg-gray-900 text-white rounded-xl shadow-2xl border border-gray-700">
+        <Trash2 size={18} className="text-red-400" />
+        <span className="font-medium">
+          {t('undo.deletedItems').replace('{count}', String(entrySize(lastChange)))}
+        </span>
+        <button
+          onClick={() => {
+            undo();
+            setVisibleEntryId(null);
+          }}
+          className="flex items-center gap-1 px-3 py-1 rounded-lg bg-white/10 hover:bg-white/20 font-semibold transition-colors"
+        >
+          <Undo2 size={16} />
+          {t('common.undo')}
+        </button>
+        <button
+          onClick={() => setVisibleEntryId(null)}
+          className="p-1 rounded-lg hover:bg-white/10 transition-colors"
+          aria-label={t('common.close')}
+        >
+          <X size={14} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default UndoToast;
@@ -0,0 +1,129 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Lock, Unlock, Loader2 } from 'lucide-react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { VaultService, VAULT_META_KEY } from '../../services/VaultService';
+import { StorageService } from '../../services/StorageService';
+import { AIService } from '../../services/AIService';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart', 'mousemove'] as const;
+const IDLE_CHECK_MS = 30 * 1000;
+
+/**
+ * Keeps the data providers unmounted until an enabled vault is unlocked,
+ * locks again after the configured idle time, and follows vault changes made in other tabs.
+ */
+const VaultGate: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { t } = useLanguage();
+  const [unlocked, setUnlocked] = useState(() => !VaultService.isEnabled() || VaultService.isUnlocked());
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const lastActivityRef = useRef(Date.now());
+
+  // Auto-lock after idle time
+  useEffect(() => {
+    if (!unlocked) return;
+    const markActive = () => { lastActivityRef.current = Date.now(); };
+    ACTIVITY_EVENTS.forEach(name => window.addEventListener(name, markActive, { passive: true }));
+
+    const timer = window.setInterval(() => {
+      const meta = VaultService.getMeta();
+      if (!meta || !VaultService.isUnlocked() || meta.autoLockMinutes <= 0) return;
+      if (Date.now() - lastActivityRef.current >= meta.autoLockMinutes * 60 * 1000) {
+        VaultService.lock();
+      }
+    }, IDLE_CHECK_MS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(name => window.removeEventListener(name, markActive));
+      window.clearInterval(timer);
+    };
+  }, [unlocked]);
+
+  // Enabling, disabling or re-keying the vault in another tab invalidates this tab's key
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key !== VAULT_META_KEY) return;
+      StorageService.flush().then(() => window.location.reload());
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || busy) return;
+    setBusy(true);
+    setError(false);
+    const ok = await VaultService.unlock(passphrase);
+    setBusy(false);
+    if (!ok) {
+      setError(true);
+      return;
+    }
+    setPassphrase('');
+    AIService.loadConfig();
+    setUnlocked(true);
+  };
+
+  const handleReset = async () => {
+    if (!confirm(t('vault.resetConfirm'))) return;
+    await StorageService.init();
+    StorageService.clear();
+    await StorageService.flush();
+    localStorage.removeItem(VAULT_META_KEY);
+    window.location.reload();
+  };
+
+  if (unlocked) return <>{children}</>;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 p-4">
+      <form
+        onSubmit={handleUnlock}
+        className="w-full max-w-sm bg-white dark:bg-gray-800 rounded-2xl shadow-2xl border border-gray-200 dark:border-gray-700 p-8 space-y-5"
+      >
+        <div className="flex flex-col items-center text-center gap-3">
+          <div className="p-3 rounded-xl bg-gradient-to-br from-blue-500 to-indigo-600 shadow-lg shadow-blue-500/30">
+            <Lock size={28} className="text-white" />
+          </div>
+          <h1 className="text-xl font-semibold text-gray-900 dark:text-white">{t('vault.lockedTitle')}</h1>
+          <p className="text-sm text-gray-600 dark:text-gray-400">{t('vault.lockedDesc')}</p>
+        </div>
+
+        <input
+          type="password"
+          autoFocus
+          autoComplete="current-password"
+          value={passphrase}
+          onChange={e => {
+            setPassphrase(e.target.value);
+            setError(false);
+          }}
+          placeholder={t('vault.passphrase')}
+          className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        {error && <div className="text-sm text-red-600 dark:text-red-400">{t('vault.wrongPassphrase')}</div>}
+
+        <button
+          type="submit"
+          disabled={!passphrase || busy}
+          className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg font-semibold transition-colors"
+        >
+          {busy ? <Loader2 size={18} className="animate-spin" /> : <Unlock size={18} />}
+          {busy ? t('vault.unlocking') : t('vault.unlock')}
+        </button>
+
+        <button
+          type="button"
+          onClick={handleReset}
+          className="w-full text-xs text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+        >
+          {t('vault.forgot')}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default VaultGate;
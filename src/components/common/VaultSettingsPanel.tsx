@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { Lock, KeyRound, ShieldCheck, ShieldOff } from 'lucide-react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import {
+  VaultService, DEFAULT_AUTO_LOCK_MINUTES, MIN_PASSPHRASE_LENGTH
+} from '../../services/VaultService';
+
+const AUTO_LOCK_OPTIONS = [0, 5, 15, 30, 60];
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+/**
+ * Settings > Data & Privacy: enable/disable the encrypted vault, change the passphrase, configure auto-lock
+ */
+const VaultSettingsPanel: React.FC = () => {
+  const { t } = useLanguage();
+  const [enabled, setEnabled] = useState(VaultService.isEnabled());
+  const [autoLock, setAutoLock] = useState(VaultService.getMeta()?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES);
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirmNext, setConfirmNext] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const resetFields = () => {
+    setCurrent('');
+    setNext('');
+    setConfirmNext('');
+  };
+
+  const run = async (action: () => Promise<{ success: boolean; message: string }>) => {
+    setBusy(true);
+    setMessage(null);
+    const result = await action();
+    setBusy(false);
+    setMessage({ ok: result.success, text: result.message });
+    if (result.success) resetFields();
+    setEnabled(VaultService.isEnabled());
+  };
+
+  const checkNewPassphrase = () => {
+    if (next.length < MIN_PASSPHRASE_LENGTH) {
+      setMessage({ ok: false, text: t('vault.tooShort').replace('{count}', String(MIN_PASSPHRASE_LENGTH)) });
+      return false;
+    }
+    if (next !== confirmNext) {
+      setMessage({ ok: false, text: t('vault.mismatch') });
+      return false;
+    }
+    return true;
+  };
+
+  const handleEnable = () => {
+    if (!checkNewPassphrase()) return;
+    run(() => VaultService.enable(next, autoLock));
+  };
+
+  const handleChange = () => {
+    if (!checkNewPassphrase()) return;
+    run(() => VaultService.changePassphrase(current, next));
+  };
+
+  const handleDisable = () => {
+    if (!confirm(t('vault.disableConfirm'))) return;
+    run(() => VaultService.disable(current));
+  };
+
+  const handleAutoLockChange = (minutes: number) => {
+    setAutoLock(minutes);
+    VaultService.setAutoLockMinutes(minutes);
+  };
+
+  if (!VaultService.isSupported()) {
+    return (
+      <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-lg text-sm text-gray-600 dark:text-gray-400">
+        {t('vault.unsupported')}
+      </div>
+    );
+  }
+
+  return (
+    <div className="border-t border-gray-200 dark:border-gray-600 pt-6">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+          <Lock size={20} />
+          {t('vault.title')}
+        </h4>
+        <span className={`flex items-center gap-1 text-sm font-medium ${enabled ? 'text-green-600 dark:text-green-400' : 'text-gray-500 dark:text-gray-400'}`}>
+          {enabled ? <ShieldCheck size={16} /> : <ShieldOff size={16} />}
+          {enabled ? t('vault.enabled') : t('vault.disabled')}
+        </span>
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">{t('vault.desc')}</p>
+      <p className="text-xs text-amber-700 dark:text-amber-400 mb-1">{t('vault.warning')}</p>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">{t('vault.plaintext')}</p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-4">
+        {enabled && (
+          <input
+            type="password"
+            autoComplete="current-password"
+            value={current}
+            onChange={e => setCurrent(e.target.value)}
+            placeholder={t('vault.currentPassphrase')}
+            className={inputClass}
+          />
+        )}
+        <input
+          type="password"
+          autoComplete="new-password"
+          value={next}
+          onChange={e => setNext(e.target.value)}
+          placeholder={t('vault.newPassphrase')}
+          className={inputClass}
+        />
+        <input
+          type="password"
+          autoComplete="new-password"
+          value={confirmNext}
+          onChange={e => setConfirmNext(e.target.value)}
+          placeholder={t('vault.confirmPassphrase')}
+          className={inputClass}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        {!enabled ? (
+          <button
+            onClick={handleEnable}
+            disabled={busy || !next}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg transition-colors duration-200"
+          >
+            <ShieldCheck size={16} />
+            {t('vault.enable')}
+          </button>
+        ) : (
+          <>
+            <button
+              onClick={handleChange}
+              disabled={busy || !current || !next}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg transition-colors duration-200"
+            >
+              <KeyRound size={16} />
+              {t('vault.changePassphrase')}
+            </button>
+            <button
+              onClick={() => VaultService.lock()}
+              disabled={busy}
+              className="flex items-center gap-2 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors duration-200 text-gray-700 dark:text-gray-300"
+            >
+              <Lock size={16} />
+              {t('vault.lockNow')}
+            </button>
+            <button
+              onClick={handleDisable}
+              disabled={busy || !current}
+              className="flex items-center gap-2 px-4 py-2 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50 rounded-lg transition-colors duration-200"
+            >
+              <ShieldOff size={16} />
+              {t('vault.disable')}
+            </button>
+          </>
+        )}
+
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 ml-auto">
+          {t('vault.autoLock')}
+          <select
+            value={autoLock}
+            onChange={e => handleAutoLockChange(Number(e.target.value))}
+            className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            {AUTO_LOCK_OPTIONS.map(minutes => (
+              <option key={minutes} value={minutes}>
+                {minutes === 0 ? t('vault.autoLockNever') : t('vault.minutes').replace('{count}', String(minutes))}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {busy && <div className="mt-3 text-sm text-gray-500 dark:text-gray-400">{t('vault.working')}</div>}
+      {message && (
+        <div className={`mt-3 text-sm ${message.ok ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+          {message.text}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VaultSettingsPanel;
@@ -47,17 +47,23 @@ import {
   FileText,
   BellRing,
   PieChart as PieChartIcon,
-  ShoppingBag as ShoppingBagIcon
+  ShoppingBag as ShoppingBagIcon,
+  Repeat,
+  Undo2,
+  CreditCard
 } from "lucide-react";
 
 // Context imports
 import { useLanguage } from "../../contexts/LanguageContext";
 import { useData } from "../../contexts/DataContext";
+import { useNavigationRequest } from "../../hooks/useNavigation";
 import { AVAILABLE_CURRENCIES } from "../../constants/currencyData";
 import { CurrencyService } from "../../services/CurrencyService";
+import { TimeZoneService } from "../../services/TimeZoneService";
 import { useBudgetAnalytics } from "./useBudgetAnalytics";
 import CurrencyConverterModal from "./CurrencyConverterModal";
-import { Transaction } from "../../types/planner";
+import { BudgetGoal, Transaction } from "../../types/planner";
+import { getBudgetGoalProgress, BudgetGoalProgress } from "../../utils/budgetGoals";
 
 const EMPTY_ARRAY: Transaction[] = [];
 
@@ -104,7 +110,9 @@ export type BudgetTransaction = {
   // Compatibility fields for useBudgetAnalytics
   date: Date | string;
   kind?: 'master' | 'history';
+  originId?: string;
   recurring?: boolean;
+  subscriptionId?: string;
 };
 
 type TransactionPatch = Partial<Omit<BudgetTransaction, "id" | "createdAtISO">>;
@@ -125,17 +133,6 @@ type CategoryDef = {
   icon: ReactNode;
 };
 
-type BudgetGoal = {
-  id: string;
-  name: string;
-  targetAmount: number;
-  currentAmount: number;
-  deadlineYMD: string;
-  category: CategoryKey;
-  currency: string;
-  isCompleted: boolean;
-};
-
 type Notification = {
   id: string;
   title: string;
@@ -488,7 +485,6 @@ const useEnhancedBudgetEngine = () => {
   const [balanceMode, setBalanceMode] = useState<BalanceMode>("realizedOnly");
   const [viewMode, setViewMode] = useState<ViewMode>("cards");
   const [activeChart, setActiveChart] = useState<ChartType>("area");
-  const [budgetGoals, setBudgetGoals] = useState<BudgetGoal[]>([]);
   const [notifications, setNotifications] = useState<Notification[]>(() => {
     if (typeof window === 'undefined') return [];
     try {
@@ -520,7 +516,7 @@ const useEnhancedBudgetEngine = () => {
   }, [notifications]);
 
   // Today's date (Moved up to fix use before declaration)
-  const todayYMD = useMemo(() => toYMDLocal(new Date()), []);
+  const todayYMD = useMemo(() => TimeZoneService.todayYMD(), []);
 
   // Categories with enhanced data
   const categories = useMemo<Record<CategoryKey, CategoryDef>>(() => ({
@@ -681,7 +677,9 @@ const useEnhancedBudgetEngine = () => {
         // Compat fields
         date: (tx.date ?? effectiveDateYMD) as Date | string,
         kind: tx.kind as 'master' | 'history' | undefined,
+        originId: tx.originId as string | undefined,
         recurring: Boolean(tx.recurring),
+        subscriptionId: tx.subscriptionId as string | undefined,
       } as BudgetTransaction;
     });
   }, [transactions, safeCategory, safeYMD]);
@@ -698,6 +696,16 @@ const useEnhancedBudgetEngine = () => {
 
   // Today's date removed from here (moved up)
 
+  // Upcoming recurring transactions and subscription payments over the projection window (1 year ahead).
+  // Like the masters themselves, they only count when scheduled items are included.
+  const { getOccurrences } = dataContext;
+  const scheduledOccurrences = useMemo(() => {
+    if (balanceMode !== "includeScheduled") return [];
+    const now = new Date();
+    const projectionEnd = new Date(now.getFullYear() + 1, now.getMonth() + 1, 0, 23, 59, 59);
+    return getOccurrences(now, projectionEnd, { sources: ["transaction", "subscription"] });
+  }, [getOccurrences, balanceMode]);
+
   // Balance calculations
   // --- INTEGRATED ANALYTICS ENGINE (PhD Refactor) ---
   const {
@@ -710,8 +718,9 @@ const useEnhancedBudgetEngine = () => {
   } = useBudgetAnalytics(
     visibleTransactions as Transaction[],
     currency,
-    (amount, from, to) => CurrencyService.convert(amount, from, to),
-    1
+    (amount, from, to, onDate) => CurrencyService.convert(amount, from, to, onDate),
+    1,
+    scheduledOccurrences
   );
 
   // Map hook data to view requirements
@@ -981,24 +990,15 @@ const useEnhancedBudgetEngine = () => {
     }
   }, [dataContext]);
 
-  // Add budget goal
-  const addBudgetGoal = useCallback((goal: Omit<BudgetGoal, 'id'>) => {
-    const newGoal: BudgetGoal = {
-      ...goal,
-      id: tmpId(),
-    };
-    setBudgetGoals(prev => [...prev, newGoal]);
-    return newGoal;
-  }, []);
-
-  // Update budget goal
-  const updateBudgetGoal = useCallback((id: string, updates: Partial<BudgetGoal>) => {
-    setBudgetGoals(prev =>
-      prev.map(goal =>
-        goal.id === id ? { ...goal, ...updates } : goal
-      )
-    );
-  }, []);
+  // Budget goals (persisted in DataContext; progress comes from linked transactions)
+  const budgetGoals = dataContext.budgetGoals;
+  const goalProgress = useMemo(() => {
+    const result: Record<string, BudgetGoalProgress> = {};
+    budgetGoals.forEach(goal => {
+      result[goal.id] = getBudgetGoalProgress(goal, transactions);
+    });
+    return result;
+  }, [budgetGoals, transactions]);
 
   return {
     // State
@@ -1011,12 +1011,13 @@ const useEnhancedBudgetEngine = () => {
     activeChart,
     setActiveChart,
     budgetGoals,
-    setBudgetGoals,
+    goalProgress,
     notifications,
 
     // Data
     transactions: uiTransactions, // Expose normalized transactions as secondary source if needed, but prefer uiTransactions
     uiTransactions,            // <--- NEW: Normalized Safe Transactions
+    isComputing: dataContext.isFinanceComputing, // Finance worker is catching up recurring items / rebuilding the report
     visibleTransactions,       // <--- NEW: Filtered by balance mode
     categories,
     todayYMD,
@@ -1031,8 +1032,13 @@ const useEnhancedBudgetEngine = () => {
     updateTransaction,
     deleteTransaction,
     deleteTransactions,
-    addBudgetGoal,
-    updateBudgetGoal,
+    addBudgetGoal: dataContext.addBudgetGoal,
+    updateBudgetGoal: dataContext.updateBudgetGoal,
+    deleteBudgetGoal: dataContext.deleteBudgetGoal,
+    contributeToBudgetGoal: dataContext.contributeToBudgetGoal,
+    getRecurringSeries: dataContext.getRecurringSeries,
+    setRecurringOccurrenceSkipped: dataContext.setRecurringOccurrenceSkipped,
+    splitRecurringTransaction: dataContext.splitRecurringTransaction,
     addNotification,
     markAsRead,
     clearNotifications,
@@ -1076,7 +1082,7 @@ const EnhancedTransactionModal: React.FC<{
     currency: engine.currency,
     category: "other" as CategoryKey,
     date: todayYMD,
-    time: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+    time: TimeZoneService.toTime(new Date()),
     type: presetType as TransactionType,
     period: "oneTime" as TransactionPeriod,
     tags: [] as string[],
@@ -1094,7 +1100,7 @@ const EnhancedTransactionModal: React.FC<{
         currency: transaction.currency,
         category: transaction.category,
         date: transaction.effectiveDateYMD,
-        time: transaction.time || new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+        time: transaction.time || TimeZoneService.toTime(new Date()),
         type: transaction.type,
         period: transaction.period,
         tags: transaction.tags || [],
@@ -1109,7 +1115,7 @@ const EnhancedTransactionModal: React.FC<{
         currency: engine.currency,
         category: "other",
         date: todayYMD,
-        time: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+        time: TimeZoneService.toTime(new Date()),
         type: presetType,
         period: "oneTime",
         tags: [],
@@ -1437,6 +1443,372 @@ const EnhancedTransactionModal: React.FC<{
   );
 };
 
+/* -------------------------------- Budget Goal Modal -------------------------------- */
+
+const BudgetGoalModal: React.FC<{
+  onClose: () => void;
+  engine: ReturnType<typeof useEnhancedBudgetEngine>;
+}> = ({ onClose, engine }) => {
+  const { t, categories, currency } = engine;
+  const [form, setForm] = useState({
+    name: "",
+    targetAmount: "",
+    deadlineYMD: "",
+    category: "investment" as CategoryKey,
+    currency,
+  });
+
+  const target = Number(form.targetAmount);
+  const canSave = form.name.trim() !== "" && Number.isFinite(target) && target > 0;
+
+  const handleSubmit = () => {
+    if (!canSave) return;
+    engine.addBudgetGoal({
+      name: form.name.trim(),
+      targetAmount: target,
+      deadlineYMD: form.deadlineYMD,
+      category: form.category,
+      currency: form.currency,
+      isCompleted: false,
+    });
+    onClose();
+  };
+
+  const selectClass = "w-full px-4 py-3 rounded-[var(--radius-xl)] border-2 border-[rgb(var(--border-primary))] bg-[rgb(var(--surface-elevated))] text-[rgb(var(--text-primary))] font-bold outline-none cursor-pointer";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-md">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="w-full max-w-lg rounded-[var(--radius-3xl)] bg-[rgb(var(--surface-elevated))] border border-[rgb(var(--border-primary))] shadow-2xl overflow-hidden"
+      >
+        <div className="p-6 border-b border-[rgb(var(--border-primary))] flex items-center justify-between">
+          <h2 className="text-2xl font-black text-[rgb(var(--text-primary))]">{t('goals.newGoal')}</h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-[var(--radius-xl)] hover:bg-[rgb(var(--surface-tertiary))] transition-colors"
+          >
+            <X size={20} className="text-[rgb(var(--text-secondary))]" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <AnimatedInput
+            label={t('budgetGoals.name')}
+            value={form.name}
+            onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+            autoFocus
+          />
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2">
+              <AnimatedInput
+                label={t('goals.target')}
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.targetAmount}
+                onChange={(e) => setForm(prev => ({ ...prev, targetAmount: e.target.value }))}
+              />
+            </div>
+            <div>
+              <label className="block mb-2 text-sm font-bold text-[rgb(var(--text-secondary))]">{t('budgetGoals.currency')}</label>
+              <select
+                value={form.currency}
+                onChange={(e) => setForm(prev => ({ ...prev, currency: e.target.value }))}
+                className={selectClass}
+              >
+                {AVAILABLE_CURRENCIES.map((c) => (
+                  <option key={c.code} value={c.code}>{c.code}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <AnimatedInput
+              label={t('budgetGoals.deadline')}
+              type="date"
+              value={form.deadlineYMD}
+              onChange={(e) => setForm(prev => ({ ...prev, deadlineYMD: e.target.value }))}
+            />
+            <div>
+              <label className="block mb-2 text-sm font-bold text-[rgb(var(--text-secondary))]">{t('transactions.category')}</label>
+              <select
+                value={form.category}
+                onChange={(e) => setForm(prev => ({ ...prev, category: e.target.value as CategoryKey }))}
+                className={selectClass}
+              >
+                {Object.entries(categories).map(([key, cat]) => (
+                  <option key={key} value={key}>{cat.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-[rgb(var(--border-primary))] flex gap-3">
+          <GradientButton onClick={onClose} variant="ghost" fullWidth>
+            {t('common.cancel')}
+          </GradientButton>
+          <GradientButton onClick={handleSubmit} disabled={!canSave} variant="primary" fullWidth leftIcon={<Check size={16} />}>
+            {t('common.save')}
+          </GradientButton>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
+/* -------------------------------- Recurring Series Modal -------------------------------- */
+
+const RecurringSeriesModal: React.FC<{
+  masterId: string;
+  onClose: () => void;
+  engine: ReturnType<typeof useEnhancedBudgetEngine>;
+}> = ({ masterId, onClose, engine }) => {
+  const { t } = engine;
+  const parts = engine.getRecurringSeries(masterId);
+  const current = parts[parts.length - 1];
+  const splitDays = current?.master.recurring
+    ? current.occurrences.filter(o => o.date.getTime() >= new Date(current.master.date).getTime()).map(o => o.ymd)
+    : [];
+
+  const [form, setForm] = useState(() => ({
+    fromYMD: splitDays[0] ?? "",
+    amount: current ? String(Math.abs(current.master.amount)) : "",
+    description: current?.master.description ?? "",
+  }));
+
+  // After a split the selected day may belong to the old part; fall back to the first day of the current one
+  const fromYMD = splitDays.includes(form.fromYMD) ? form.fromYMD : splitDays[0] ?? "";
+  const amount = Number(form.amount);
+  const canSplit = !!current && fromYMD !== "" && Number.isFinite(amount) && amount > 0 && form.description.trim() !== "";
+
+  const handleSplit = () => {
+    if (!canSplit || !current) return;
+    const sign = current.master.amount < 0 ? -1 : 1;
+    engine.splitRecurringTransaction(current.master.id, fromYMD, {
+      amount: sign * amount,
+      description: form.description.trim(),
+    });
+  };
+
+  const statusStyle = {
+    posted: "bg-emerald-500/10 border-emerald-500/20 text-emerald-500",
+    skipped: "bg-[rgb(var(--surface-tertiary))] border-[rgb(var(--border-primary))] text-[rgb(var(--text-tertiary))] line-through",
+    upcoming: "bg-blue-500/10 border-blue-500/20 text-blue-500",
+  };
+
+  const selectClass = "w-full px-4 py-3 rounded-[var(--radius-xl)] border-2 border-[rgb(var(--border-primary))] bg-[rgb(var(--surface-elevated))] text-[rgb(var(--text-primary))] font-bold outline-none cursor-pointer";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-md">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="w-full max-w-2xl max-h-[90vh] flex flex-col rounded-[var(--radius-3xl)] bg-[rgb(var(--surface-elevated))] border border-[rgb(var(--border-primary))] shadow-2xl overflow-hidden"
+      >
+        <div className="p-6 border-b border-[rgb(var(--border-primary))] flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-black text-[rgb(var(--text-primary))] flex items-center gap-2">
+              <Repeat size={22} />
+              {t('budget.series.title')}
+            </h2>
+            {current && <p className="text-sm text-[rgb(var(--text-secondary))] mt-1">{current.master.description}</p>}
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-[var(--radius-xl)] hover:bg-[rgb(var(--surface-tertiary))] transition-colors"
+          >
+            <X size={20} className="text-[rgb(var(--text-secondary))]" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {parts.length === 0 && (
+            <p className="text-center text-[rgb(var(--text-tertiary))] font-medium">{t('budget.series.notFound')}</p>
+          )}
+
+          {parts.map(({ master, occurrences }) => (
+            <div key={master.id}>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="font-black text-[rgb(var(--text-primary))]">
+                  {engine.formatCurrency(Math.abs(master.amount), master.currency)}
+                  {master.splitFromId && (
+                    <span className="ml-2 text-xs font-bold text-[rgb(var(--text-tertiary))]">
+                      {t('budget.series.from')} {engine.formatDate(occurrences[0]?.ymd ?? "")}
+                    </span>
+                  )}
+                </h3>
+                <span className="text-xs font-bold text-[rgb(var(--text-tertiary))]">
+                  {t('budget.series.generated').replace('{count}', String(occurrences.filter(o => o.history).length))}
+                </span>
+              </div>
+              <div className="space-y-1">
+                {occurrences.map(occurrence => (
+                  <div
+                    key={occurrence.ymd}
+                    className="flex items-center justify-between px-3 py-2 rounded-[var(--radius-lg)] border border-[rgb(var(--border-primary))]"
+                  >
+                    <span className="text-sm font-semibold text-[rgb(var(--text-primary))]">{engine.formatDate(occurrence.ymd)}</span>
+                    <div className="flex items-center gap-3">
+                      <span className="text-sm font-bold text-[rgb(var(--text-secondary))]">
+                        {engine.formatCurrency(Math.abs(occurrence.history?.amount ?? master.amount), occurrence.history?.currency ?? master.currency)}
+                      </span>
+                      <span className={`text-xs font-bold px-2 py-0.5 rounded border ${statusStyle[occurrence.status]}`}>
+                        {t(`budget.series.status.${occurrence.status}`)}
+                      </span>
+                      <button
+                        onClick={() => engine.setRecurringOccurrenceSkipped(master.id, occurrence.ymd, occurrence.status !== "skipped")}
+                        title={occurrence.status === "skipped" ? t('budget.series.unskip') : t('budget.series.skip')}
+                        className="p-1.5 rounded-[var(--radius-lg)] text-[rgb(var(--text-tertiary))] hover:text-[rgb(var(--text-primary))] hover:bg-[rgb(var(--surface-tertiary))] transition-colors"
+                      >
+                        {occurrence.status === "skipped" ? <Undo2 size={14} /> : <X size={14} />}
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          {splitDays.length > 0 && (
+            <div className="p-4 rounded-[var(--radius-2xl)] border border-[rgb(var(--border-primary))] space-y-3">
+              <h3 className="font-black text-[rgb(var(--text-primary))]">{t('budget.series.changeFrom')}</h3>
+              <p className="text-xs text-[rgb(var(--text-tertiary))]">{t('budget.series.changeFromHint')}</p>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block mb-2 text-sm font-bold text-[rgb(var(--text-secondary))]">{t('budget.series.fromDate')}</label>
+                  <select
+                    value={fromYMD}
+                    onChange={(e) => setForm(prev => ({ ...prev, fromYMD: e.target.value }))}
+                    className={selectClass}
+                  >
+                    {splitDays.map(ymd => (
+                      <option key={ymd} value={ymd}>{engine.formatDate(ymd)}</option>
+                    ))}
+                  </select>
+                </div>
+                <AnimatedInput
+                  label={t('transactions.amount')}
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.amount}
+                  onChange={(e) => setForm(prev => ({ ...prev, amount: e.target.value }))}
+                />
+              </div>
+              <AnimatedInput
+                label={t('transactions.description')}
+                value={form.description}
+                onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+              />
+              <GradientButton onClick={handleSplit} disabled={!canSplit} variant="primary" fullWidth leftIcon={<Check size={16} />}>
+                {t('budget.series.apply')}
+              </GradientButton>
+            </div>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
+/* -------------------------------- Budget Goal Card -------------------------------- */
+
+const BudgetGoalCard: React.FC<{
+  goal: BudgetGoal;
+  engine: ReturnType<typeof useEnhancedBudgetEngine>;
+}> = ({ goal, engine }) => {
+  const { t, categories } = engine;
+  const progress = engine.goalProgress[goal.id];
+  const [amount, setAmount] = useState("");
+
+  const record = (sign: 1 | -1) => {
+    const value = Number(amount);
+    if (!Number.isFinite(value) || value <= 0) return;
+    engine.contributeToBudgetGoal(goal.id, sign * value);
+    setAmount("");
+  };
+
+  const handleDelete = () => {
+    if (confirm(t('budgetGoals.deleteConfirm'))) engine.deleteBudgetGoal(goal.id);
+  };
+
+  const saved = progress?.saved ?? 0;
+  const percent = progress?.percent ?? 0;
+
+  return (
+    <GlassCard className={goal.isCompleted ? "opacity-60" : undefined}>
+      <div className="p-6">
+        <div className="flex justify-between items-start mb-4">
+          <div className="p-3 rounded-[var(--radius-xl)] bg-purple-500/10 text-purple-500">
+            {categories[goal.category as CategoryKey]?.icon || <Target size={20} />}
+          </div>
+          <div className="text-right">
+            <p className="text-xs text-[rgb(var(--text-tertiary))] font-bold uppercase tracking-wider">{t('goals.target') || "Target"}</p>
+            <p className="text-lg font-black text-[rgb(var(--text-primary))]">{engine.formatCurrency(goal.targetAmount, goal.currency)}</p>
+          </div>
+        </div>
+        <h3 className="text-xl font-bold text-[rgb(var(--text-primary))] mb-1">{goal.name}</h3>
+        <span className="text-sm text-[rgb(var(--text-tertiary))] mb-4">
+          {categories[goal.category as CategoryKey]?.label}
+          {goal.deadlineYMD && ` • ${engine.formatDate(goal.deadlineYMD)}`}
+        </span>
+        <div className="relative h-2 bg-[rgb(var(--surface-tertiary))] rounded-full overflow-hidden mt-3 mb-2">
+          <div
+            className="absolute left-0 top-0 h-full bg-gradient-to-r from-blue-500 to-purple-500 transition-all duration-1000"
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+        <div className="flex justify-between text-xs font-medium text-[rgb(var(--text-tertiary))]">
+          <span>{Math.round(percent)}%</span>
+          <span>
+            {engine.formatCurrency(saved, goal.currency)} · {t('budgetGoals.contributions').replace('{count}', String(progress?.contributions.length ?? 0))}
+          </span>
+        </div>
+
+        {!goal.isCompleted && (
+          <div className="flex gap-2 mt-4">
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              onKeyDown={(e) => { if (e.key === "Enter") record(1); }}
+              placeholder={t('budgetGoals.amount')}
+              className="flex-1 min-w-0 px-3 py-2 rounded-[var(--radius-lg)] border-2 border-[rgb(var(--border-primary))] bg-[rgb(var(--surface-elevated))] text-[rgb(var(--text-primary))] text-sm font-semibold outline-none"
+            />
+            <GradientButton size="sm" onClick={() => record(1)} leftIcon={<Plus size={14} />}>
+              {t('budgetGoals.contribute')}
+            </GradientButton>
+            <GradientButton size="sm" variant="secondary" onClick={() => record(-1)} disabled={saved <= 0}>
+              {t('budgetGoals.withdraw')}
+            </GradientButton>
+          </div>
+        )}
+
+        <div className="flex justify-between items-center mt-4">
+          <button
+            onClick={() => engine.updateBudgetGoal(goal.id, { isCompleted: !goal.isCompleted })}
+            className="text-xs font-bold text-[rgb(var(--color-primary-500))] hover:underline"
+          >
+            {goal.isCompleted ? t('budgetGoals.reopen') : t('budgetGoals.markCompleted')}
+          </button>
+          <button
+            onClick={handleDelete}
+            title={t('common.delete')}
+            className="p-2 rounded-[var(--radius-lg)] text-[rgb(var(--text-tertiary))] hover:text-rose-500 hover:bg-rose-500/10 transition-colors"
+          >
+            <Trash2 size={16} />
+          </button>
+        </div>
+      </div>
+    </GlassCard>
+  );
+};
+
 /* -------------------------------- Main Enhanced Component -------------------------------- */
 
 const EnhancedBudgetView: React.FC = () => {
@@ -1451,7 +1823,9 @@ const EnhancedBudgetView: React.FC = () => {
 
   const [showTransactionModal, setShowTransactionModal] = useState(false);
   const [showConverterModal, setShowConverterModal] = useState(false);
+  const [showGoalModal, setShowGoalModal] = useState(false);
   const [editingTransaction, setEditingTransaction] = useState<BudgetTransaction | null>(null);
+  const [seriesMasterId, setSeriesMasterId] = useState<string | null>(null);
   const [showNotifications, setShowNotifications] = useState(false);
 
   const unreadNotifications = useMemo(
@@ -1459,6 +1833,17 @@ const EnhancedBudgetView: React.FC = () => {
     [notifications]
   );
 
+  useNavigationRequest("transactions", {
+    open: () => {
+      setActiveTab("transactions");
+      setSearchQuery("");
+    },
+    create: () => {
+      setEditingTransaction(null);
+      setShowTransactionModal(true);
+    },
+  });
+
   // Quick actions
   // Quick Action Handlers
   const [presetType, setPresetType] = useState<TransactionType>("expense");
@@ -1513,8 +1898,14 @@ const EnhancedBudgetView: React.FC = () => {
                 <h1 className="text-3xl font-black bg-[var(--gradient-primary)] bg-clip-text text-transparent">
                   {t('app.title') || "Budget Pro"}
                 </h1>
-                <p className="text-[rgb(var(--text-secondary))] font-medium">
+                <p className="text-[rgb(var(--text-secondary))] font-medium flex items-center gap-2">
                   {t('app.subtitle') || "Advanced financial management"}
+                  {engine.isComputing && (
+                    <span className="inline-flex items-center gap-1 text-xs text-[rgb(var(--text-tertiary))]" role="status">
+                      <Loader2 size={12} className="animate-spin" />
+                      {t('budget.computing')}
+                    </span>
+                  )}
                 </p>
               </div>
               <div className="hidden md:flex items-center gap-2">
@@ -1862,7 +2253,7 @@ const EnhancedBudgetView: React.FC = () => {
                   })
                   .map(tx => (
                     <GlassCard key={tx.id} className="hover:border-[rgb(var(--border-secondary))] transition-colors group cursor-pointer">
-                      <div className="p-4 flex items-center justify-between" onClick={() => { setEditingTransaction(tx); setShowTransactionModal(true); }}>
+                      <div data-record-id={tx.id} className="p-4 flex items-center justify-between" onClick={() => { setEditingTransaction(tx); setShowTransactionModal(true); }}>
                         <div className="flex items-center gap-4">
                           <div className={`p-3 rounded-[var(--radius-xl)] ${tx.type === 'income' ? 'bg-emerald-500/10 text-emerald-500' : 'bg-rose-500/10 text-rose-500'}`}>
                             {engine.categories[tx.category as CategoryKey]?.icon || <TagIcon size={20} />}
@@ -1876,6 +2267,12 @@ const EnhancedBudgetView: React.FC = () => {
                               <span className="text-xs text-[rgb(var(--text-tertiary))] font-medium">
                                 {engine.formatDate(tx.effectiveDateYMD)} {tx.time ? `• ${tx.time}` : ''}
                               </span>
+                              {tx.subscriptionId && (
+                                <span className="text-xs font-bold px-2 py-0.5 rounded bg-indigo-500/10 border border-indigo-500/20 text-indigo-500 flex items-center gap-1">
+                                  <CreditCard size={12} />
+                                  {t('budget.subscriptionCharge')}
+                                </span>
+                              )}
                               {tx.status === 'pending' && (
                                 <span className="text-xs font-bold px-2 py-0.5 rounded bg-amber-500/10 border border-amber-500/20 text-amber-500">
                                   {(t('invoicing.pending') || "PENDING").toUpperCase()}
@@ -1897,6 +2294,15 @@ const EnhancedBudgetView: React.FC = () => {
                               </div>
                             )}
                           </div>
+                          {(tx.isMaster || tx.originId) && (
+                            <button
+                              onClick={(e) => { e.stopPropagation(); setSeriesMasterId(tx.isMaster ? tx.id : tx.originId!); }}
+                              title={t('budget.series.open')}
+                              className="p-2 hover:bg-[rgb(var(--surface-tertiary))] rounded-[var(--radius-lg)] text-[rgb(var(--text-tertiary))] hover:text-[rgb(var(--text-primary))] transition-colors opacity-0 group-hover:opacity-100"
+                            >
+                              <Repeat size={18} />
+                            </button>
+                          )}
                           <button
                             onClick={(e) => { e.stopPropagation(); if (confirm(t('budget.delete.confirmOne'))) engine.deleteTransaction(tx.id); }}
                             className="p-2 hover:bg-rose-500/20 rounded-[var(--radius-lg)] text-[rgb(var(--text-tertiary))] hover:text-rose-500 transition-colors opacity-0 group-hover:opacity-100"
@@ -1955,38 +2361,21 @@ const EnhancedBudgetView: React.FC = () => {
 
           {activeTab === "goals" && (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {engine.budgetGoals && engine.budgetGoals.length > 0 ? engine.budgetGoals.map(goal => (
-                <GlassCard key={goal.id}>
-                  <div className="p-6">
-                    <div className="flex justify-between items-start mb-4">
-                      <div className={`p-3 rounded-[var(--radius-xl)] bg-purple-500/10 text-purple-500`}>
-                        {engine.categories[goal.category as CategoryKey]?.icon || <Target size={20} />}
-                      </div>
-                      <div className="text-right">
-                        <p className="text-xs text-[rgb(var(--text-tertiary))] font-bold uppercase tracking-wider">{t('goals.target') || "Target"}</p>
-                        <p className="text-lg font-black text-[rgb(var(--text-primary))]">{engine.formatCurrency(goal.targetAmount)}</p>
-                      </div>
-                    </div>
-                    <h3 className="text-xl font-bold text-[rgb(var(--text-primary))] mb-1">{goal.name}</h3>
-                    <span className="text-sm text-[rgb(var(--text-tertiary))] mb-4">{t('tabs.goals')} • {engine.categories[goal.category as CategoryKey]?.label}</span>
-                    <div className="relative h-2 bg-[rgb(var(--surface-tertiary))] rounded-full overflow-hidden mb-2">
-                      <div
-                        className="absolute left-0 top-0 h-full bg-gradient-to-r from-blue-500 to-purple-500 transition-all duration-1000"
-                        style={{ width: `${Math.min((goal.currentAmount / goal.targetAmount) * 100, 100)}%` }}
-                      />
-                    </div>
-                    <div className="flex justify-between text-xs font-medium text-[rgb(var(--text-tertiary))]">
-                      <span>{Math.round((goal.currentAmount / goal.targetAmount) * 100)}%</span>
-                      <span>{engine.formatCurrency(goal.currentAmount)}</span>
-                    </div>
-                  </div>
-                </GlassCard>
+              {engine.budgetGoals.length > 0 && (
+                <div className="col-span-full flex justify-end">
+                  <GradientButton onClick={() => setShowGoalModal(true)} leftIcon={<Plus size={16} />}>
+                    {t('goals.newGoal')}
+                  </GradientButton>
+                </div>
+              )}
+              {engine.budgetGoals.length > 0 ? engine.budgetGoals.map(goal => (
+                <BudgetGoalCard key={goal.id} goal={goal} engine={engine} />
               )) : (
                 <div className="col-span-full py-12 text-center border-2 border-dashed border-[rgb(var(--border-primary))] rounded-[var(--radius-3xl)]">
                   <Target size={48} className="mx-auto text-[rgb(var(--text-tertiary))] mb-4" />
                   <h3 className="text-xl font-bold text-[rgb(var(--text-primary))] mb-2">{t('goals.noGoals') || "No goals set"}</h3>
                   <p className="text-[rgb(var(--text-secondary))] mb-6">{t('goals.subtitle') || "Set financial goals to track your progress."}</p>
-                  <GradientButton onClick={() => { /* Placeholder for add goal */ }}>
+                  <GradientButton onClick={() => setShowGoalModal(true)}>
                     {t('quickActions.setGoal')}
                   </GradientButton>
                 </div>
@@ -2070,6 +2459,14 @@ const EnhancedBudgetView: React.FC = () => {
       </AnimatePresence>
 
       <AnimatePresence>
+        {showGoalModal && (
+          <BudgetGoalModal onClose={() => setShowGoalModal(false)} engine={engine} />
+        )}
+
+        {seriesMasterId && (
+          <RecurringSeriesModal masterId={seriesMasterId} onClose={() => setSeriesMasterId(null)} engine={engine} />
+        )}
+
         {showConverterModal && (
           <CurrencyConverterModal
             isOpen={showConverterModal}
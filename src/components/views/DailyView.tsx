@@ -1,25 +1,37 @@
 import React, { useState } from 'react';
-import { Plus, Calendar, CheckCircle, Circle, Edit2, Trash2, Clock } from 'lucide-react';
+import { Plus, Calendar, CheckCircle, Circle, Edit2, Trash2, Clock, Repeat } from 'lucide-react';
 import { useData } from '../../contexts/DataContext';
 import { useLanguage } from '../../contexts/LanguageContext';
-import { PlanItem } from '../../types/planner';
+import { useNavigationRequest } from '../../hooks/useNavigation';
+import { TimeZoneService } from '../../services/TimeZoneService';
+import { usePlanOccurrences, usePlanOccurrenceActions } from '../../hooks/usePlanOccurrences';
+import { PlanOccurrence } from '../../utils/planSeries';
 import LinkifiedText from '../common/LinkifiedText';
+import RecurrencePicker from '../common/RecurrencePicker';
+import SeriesScopeDialog from '../common/SeriesScopeDialog';
 
 const DailyView: React.FC = () => {
-  const { plans, addPlan, updatePlan, deletePlan } = useData();
+  const { plans, addPlan } = useData();
   const { t } = useLanguage();
-  const [selectedDate, setSelectedDate] = useState(new Date());
+  const [selectedDate, setSelectedDate] = useState(() => TimeZoneService.today());
   const [showAddForm, setShowAddForm] = useState(false);
-  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingPlan, setEditingPlan] = useState<PlanOccurrence | null>(null);
   const [newPlan, setNewPlan] = useState({
     title: '',
     description: '',
     priority: 'medium' as const,
+    rrule: '',
   });
+  const planActions = usePlanOccurrenceActions();
 
   const selectedDateStr = selectedDate.toISOString().split('T')[0];
 
-  const dayPlans = plans.filter(plan => 
+  // The day is matched by its ISO date below, so expand a day on both sides of the local day
+  const rangeStart = new Date(selectedDate.getFullYear(), selectedDate.getMonth(), selectedDate.getDate() - 1);
+  const rangeEnd = new Date(selectedDate.getFullYear(), selectedDate.getMonth(), selectedDate.getDate() + 2);
+  const visiblePlans = usePlanOccurrences(rangeStart, rangeEnd);
+
+  const dayPlans = visiblePlans.filter(plan => 
     plan.date.toISOString().split('T')[0] === selectedDateStr
   ).sort((a, b) => {
     if (a.priority === b.priority) return 0;
@@ -35,13 +47,14 @@ const DailyView: React.FC = () => {
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (editingId) {
-      updatePlan(editingId, {
+    if (editingPlan) {
+      planActions.update(editingPlan, {
         title: newPlan.title,
         description: newPlan.description,
         priority: newPlan.priority,
+        rrule: newPlan.rrule || undefined,
       });
-      setEditingId(null);
+      setEditingPlan(null);
     } else {
       addPlan({
         title: newPlan.title,
@@ -50,20 +63,30 @@ const DailyView: React.FC = () => {
         completed: false,
         priority: newPlan.priority,
         linkedNotes: [],
+        ...(newPlan.rrule && { rrule: newPlan.rrule }),
       });
     }
 
-    setNewPlan({ title: '', description: '', priority: 'medium' });
+    setNewPlan({ title: '', description: '', priority: 'medium', rrule: '' });
     setShowAddForm(false);
   };
 
-  const handleEdit = (plan: PlanItem) => {
+  useNavigationRequest('plans', {
+    open: (id) => {
+      const plan = plans.find(p => p.id === id);
+      if (plan) setSelectedDate(new Date(plan.date));
+    },
+    create: () => setShowAddForm(true),
+  });
+
+  const handleEdit = (plan: PlanOccurrence) => {
     setNewPlan({
       title: plan.title,
       description: plan.description,
       priority: plan.priority,
+      rrule: plan.rrule ?? '',
     });
-    setEditingId(plan.id);
+    setEditingPlan(plan);
     setShowAddForm(true);
   };
 
@@ -124,7 +147,7 @@ const DailyView: React.FC = () => {
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
           <div className="bg-white dark:bg-gray-800 rounded-xl p-6 w-full max-w-md shadow-2xl max-h-[90vh] overflow-y-auto">
             <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-4">
-              {editingId ? t('daily.editTask') : t('daily.addTask')}
+              {editingPlan ? t('daily.editTask') : t('daily.addTask')}
             </h3>
             
             <form onSubmit={handleSubmit} className="space-y-4">
@@ -170,19 +193,25 @@ const DailyView: React.FC = () => {
                 </select>
               </div>
 
+              <RecurrencePicker
+                value={newPlan.rrule}
+                onChange={(rrule) => setNewPlan({ ...newPlan, rrule })}
+                start={editingPlan ? new Date(editingPlan.date) : selectedDate}
+              />
+
               <div className="flex gap-3 pt-4">
                 <button
                   type="submit"
                   className="flex-1 bg-green-500 hover:bg-green-600 text-white py-2 px-4 rounded-lg transition-colors duration-200"
                 >
-                  {editingId ? t('common.update') : t('daily.addTask')}
+                  {editingPlan ? t('common.update') : t('daily.addTask')}
                 </button>
                 <button
                   type="button"
                   onClick={() => {
                     setShowAddForm(false);
-                    setEditingId(null);
-                    setNewPlan({ title: '', description: '', priority: 'medium' });
+                    setEditingPlan(null);
+                    setNewPlan({ title: '', description: '', priority: 'medium', rrule: '' });
                   }}
                   className="flex-1 bg-gray-500 hover:bg-gray-600 text-white py-2 px-4 rounded-lg transition-colors duration-200"
                 >
@@ -198,13 +227,14 @@ const DailyView: React.FC = () => {
         {dayPlans.map((plan) => (
           <div
             key={plan.id}
+            data-record-id={plan.seriesId ?? plan.id}
             className={`p-6 rounded-xl border-l-4 ${getPriorityColor(plan.priority)} transition-all duration-200 hover:shadow-lg bg-white dark:bg-gray-800`}
           >
             <div className="flex items-start justify-between">
               <div className="flex-1">
                 <div className="flex items-center gap-3 mb-3">
                   <button
-                    onClick={() => updatePlan(plan.id, { completed: !plan.completed })}
+                    onClick={() => planActions.toggleCompleted(plan)}
                     className="text-green-500 hover:text-green-600 transition-colors duration-200"
                   >
                     {plan.completed ? <CheckCircle size={20} /> : <Circle size={20} />}
@@ -212,6 +242,11 @@ const DailyView: React.FC = () => {
                   <h4 className={`text-xl font-bold ${plan.completed ? 'line-through text-gray-500' : 'text-gray-900 dark:text-white'}`}>
                     {plan.title}
                   </h4>
+                  {plan.seriesId && (
+                    <span title={t('recurrence.recurring')}>
+                      <Repeat size={16} className="text-gray-400" />
+                    </span>
+                  )}
                 </div>
                 
                 {plan.description && (
@@ -242,7 +277,7 @@ const DailyView: React.FC = () => {
                   <Edit2 size={18} />
                 </button>
                 <button
-                  onClick={() => deletePlan(plan.id)}
+                  onClick={() => planActions.remove(plan)}
                   className="p-2 text-gray-500 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-all duration-200"
                 >
                   <Trash2 size={18} />
@@ -252,6 +287,14 @@ const DailyView: React.FC = () => {
           </div>
         ))}
       </div>
+
+      <SeriesScopeDialog
+        isOpen={!!planActions.pending}
+        action={planActions.pending?.action ?? 'edit'}
+        allowThis={planActions.pending?.allowThis}
+        onChoose={planActions.chooseScope}
+        onClose={planActions.cancel}
+      />
     </div>
   );
 };
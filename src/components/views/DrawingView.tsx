@@ -7,6 +7,7 @@ import {
   Palette, Grid3X3, Calculator, Plus, X
 } from 'lucide-react';
 import { useLanguage } from '../../contexts/LanguageContext';
+import { StorageService } from '../../services/StorageService';
 
 // --- Types ---
 type Tool = 'select' | 'pan' | 'pen' | 'marker' | 'rectangle' | 'circle' | 'triangle' | 'line' | 'text' | 'image' | 'eraser';
@@ -79,7 +80,7 @@ const DrawingView: React.FC = () => {
         timestamp: new Date().toISOString(),
         canvas: json,
       };
-      localStorage.setItem('planner-drawing-state', JSON.stringify(dataToSave));
+      StorageService.set('drawing-state', dataToSave);
 
       // Update History
       const newHistory = history.slice(0, historyIndex + 1);
@@ -509,14 +510,13 @@ const DrawingView: React.FC = () => {
 
     const loadState = async () => {
       try {
-        const saved = localStorage.getItem('planner-drawing-state');
+        const saved = StorageService.get<{ canvas?: unknown }>('drawing-state');
         const legacy = localStorage.getItem('drawing_draft');
 
         let jsonData = null;
 
         if (saved) {
-          const parsed = JSON.parse(saved);
-          jsonData = parsed.canvas || parsed;
+          jsonData = saved.canvas || saved;
         } else if (legacy) {
           jsonData = JSON.parse(legacy);
         }
@@ -4,6 +4,7 @@ import { useData } from '../../contexts/DataContext';
 import { Goal } from '../../types/planner';
 import LinkifiedText from '../common/LinkifiedText';
 import { useLanguage } from '../../contexts/LanguageContext';
+import { useNavigationRequest } from '../../hooks/useNavigation';
 
 const GoalsView: React.FC = () => {
   const { goals, addGoal, updateGoal, deleteGoal } = useData();
@@ -60,6 +61,11 @@ const GoalsView: React.FC = () => {
     setShowAddForm(false);
   };
 
+  useNavigationRequest('goals', {
+    open: () => setFilterStatus('all'),
+    create: () => setShowAddForm(true),
+  });
+
   const handleEdit = (goal: Goal) => {
     setNewGoal({
       title: goal.title,
@@ -315,6 +321,7 @@ const GoalsView: React.FC = () => {
             return (
               <div
                 key={goal.id}
+                data-record-id={goal.id}
                 className={`p-6 rounded-xl border-l-4 ${getStatusColor(goal.status)} transition-all duration-200 hover:shadow-lg bg-white dark:bg-gray-800`}
               >
                 <div className="flex items-start justify-between mb-4">
@@ -25,6 +25,10 @@ import {
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useLanguage } from '../../contexts/LanguageContext';
+import { useData } from '../../contexts/DataContext';
+import { useNavigationRequest } from '../../hooks/useNavigation';
+import { Habit, HabitDayLog, HabitGoal, HabitGoalMode, HabitGoalPeriod } from '../../types/planner';
+import { HABIT_COLORS, HABIT_EMOJIS } from '../../utils/habits';
 
 /**
  * =====================================================================================
@@ -37,50 +41,10 @@ import { useLanguage } from '../../contexts/LanguageContext';
  * =====================================================================================
  */
 
-/* ---------------------------------- Types ---------------------------------- */
-
-type GoalPeriod = 'daily' | 'weekly' | 'monthly';
-type GoalMode = 'binary' | 'count';
-
-type HabitGoal = {
-    period: GoalPeriod;
-    target: number;
-    mode: GoalMode;
-};
-
-type HabitDayLog = {
-    date: string; // YYYY-MM-DD local
-    count: number;
-    completed: boolean;
-    timestamps?: number[];
-    times?: string[];
-    note?: string;
-};
-
-type Habit = {
-    id: string;
-    name: string;
-    description?: string;
-    emoji: string;
-    color: string;
-    goal: HabitGoal;
-    history: Record<string, HabitDayLog>;
-    createdAt: string;
-    archived?: boolean;
-    mastery: number; // 0-100 (manual mastery)
-    formed?: boolean; // NEW: 66-day challenge completion
-    order?: number;
-};
-
-const STORAGE_KEY = 'habit-studio-v3-data';
 const FORMATION_DAYS = 66;
 
-const EMOJIS = ['💪', '📚', '🏃', '🧘', '💧', '🥗', '😴', '✍️', '🎯', '🧠', '🎨', '🎵', '🌱', '☀️', '💻', '💸', '🏆', '🔥'];
-const COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899', '#14B8A6', '#6366F1'];
-
 /* ------------------------------ Utils ------------------------------ */
 
-const clamp = (n: number, min: number, max: number) => Math.max(min, Math.min(max, n));
 
 function toLocalISODate(d: Date) {
     const y = d.getFullYear();
@@ -173,46 +137,6 @@ function getDailyStreak(h: Habit, todayISO: string) {
     return streak;
 }
 
-function normalizeHabit(anyHabit: any): Habit {
-    const goal: HabitGoal = {
-        period: (anyHabit?.goal?.period as GoalPeriod) || 'daily',
-        target: clamp(Number(anyHabit?.goal?.target ?? 1), 1, 9999),
-        mode: (anyHabit?.goal?.mode as GoalMode) || 'binary',
-    };
-
-    const rawHistory = anyHabit?.history || {};
-    const history: Record<string, HabitDayLog> = {};
-
-    Object.keys(rawHistory).forEach((k) => {
-        const v = rawHistory[k];
-        const completed = !!v?.completed;
-        const count = clamp(Number(v?.count ?? (completed ? 1 : 0)), 0, 9999);
-        history[k] = {
-            date: k,
-            count,
-            completed: completed || count >= 1,
-            note: v?.note,
-            timestamps: v?.timestamps,
-            times: v?.times
-        };
-    });
-
-    return {
-        id: String(anyHabit?.id ?? Date.now()),
-        name: String(anyHabit?.name ?? anyHabit?.text ?? 'Habit').trim(),
-        description: anyHabit?.description,
-        emoji: anyHabit?.emoji ?? EMOJIS[0],
-        color: anyHabit?.color ?? COLORS[0],
-        goal,
-        history,
-        createdAt: anyHabit?.createdAt ?? new Date().toISOString(),
-        archived: !!anyHabit?.archived,
-        formed: !!anyHabit?.formed,
-        mastery: clamp(Number(anyHabit?.mastery ?? 0), 0, 100),
-        order: anyHabit?.order
-    };
-}
-
 function cn(...classes: (string | undefined | null | false)[]) {
     return classes.filter(Boolean).join(' ');
 }
@@ -263,7 +187,7 @@ export default function HabitView() {
     const { t, language } = useLanguage();
     const locale = language === 'hu' ? 'hu-HU' : 'en-US';
 
-    const [habits, setHabits] = useState<Habit[]>([]);
+    const { habits, addHabit, updateHabit, deleteHabit } = useData();
     const [viewMode, setViewMode] = useState<'list' | 'calendar'>('list');
     const [weekAnchor, setWeekAnchor] = useState(new Date());
     const [monthAnchor, setMonthAnchor] = useState(new Date());
@@ -279,32 +203,16 @@ export default function HabitView() {
     // Draft State (for both Add and Edit)
     const [draftName, setDraftName] = useState('');
     const [draftDesc, setDraftDesc] = useState('');
-    const [draftEmoji, setDraftEmoji] = useState(EMOJIS[0]);
-    const [draftColor, setDraftColor] = useState(COLORS[0]);
-    const [draftPeriod, setDraftPeriod] = useState<GoalPeriod>('daily');
-    const [draftMode, setDraftMode] = useState<GoalMode>('binary');
+    const [draftEmoji, setDraftEmoji] = useState(HABIT_EMOJIS[0]);
+    const [draftColor, setDraftColor] = useState(HABIT_COLORS[0]);
+    const [draftPeriod, setDraftPeriod] = useState<HabitGoalPeriod>('daily');
+    const [draftMode, setDraftMode] = useState<HabitGoalMode>('binary');
     const [draftTarget, setDraftTarget] = useState(1);
     const [draftMastery, setDraftMastery] = useState(0);
 
     const [dayISO, setDayISO] = useState<string | null>(null);
     const todayISO = toLocalISODate(new Date());
 
-    useEffect(() => {
-        try {
-            const raw = localStorage.getItem(STORAGE_KEY);
-            if (raw) {
-                const parsed = JSON.parse(raw);
-                const list = (parsed.habits || (Array.isArray(parsed) ? parsed : [])).map(normalizeHabit);
-                setHabits(list.sort((a: Habit, b: Habit) => (a.order ?? 0) - (b.order ?? 0)));
-            }
-        } catch (e) { console.error(e); }
-    }, []);
-
-    const saveHabits = (list: Habit[]) => {
-        setHabits(list);
-        localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: 5, habits: list, updatedAt: Date.now() }));
-    };
-
     const visibleHabits = useMemo(() => {
         let list = habits.filter(h => !!h.archived === showArchived);
         if (query) list = list.filter(h => h.name.toLowerCase().includes(query.toLowerCase()));
@@ -335,8 +243,8 @@ export default function HabitView() {
         setEditHabit(null);
         setDraftName('');
         setDraftDesc('');
-        setDraftEmoji(EMOJIS[0]);
-        setDraftColor(COLORS[0]);
+        setDraftEmoji(HABIT_EMOJIS[0]);
+        setDraftColor(HABIT_COLORS[0]);
         setDraftPeriod('daily');
         setDraftMode('binary');
         setDraftTarget(1);
@@ -344,6 +252,15 @@ export default function HabitView() {
         setShowAdd(true);
     };
 
+    useNavigationRequest('habits', {
+        open: (id) => {
+            setViewMode('list');
+            setQuery('');
+            if (habits.find(h => h.id === id)?.archived) setShowArchived(true);
+        },
+        create: openAdd,
+    });
+
     const handleSave = () => {
         if (!draftName.trim()) return;
 
@@ -357,55 +274,43 @@ export default function HabitView() {
             mastery: draftMastery
         };
 
-        let nextHabits = [...habits];
-
         if (editHabit) {
-            // Update existing
-            nextHabits = nextHabits.map(h => h.id === editHabit.id ? { ...h, ...newHabitPartial } : h);
+            updateHabit(editHabit.id, newHabitPartial);
         } else {
-            // Create new
-            const h: Habit = {
-                id: Date.now().toString(),
-                createdAt: new Date().toISOString(),
-                history: {},
-                order: habits.length,
-                ...newHabitPartial as any
-            };
-            nextHabits.push(h);
+            addHabit(newHabitPartial as Omit<Habit, 'id' | 'createdAt' | 'history' | 'order'>);
         }
 
-        saveHabits(nextHabits);
         setShowAdd(false);
     };
 
     const updateEntry = (id: string, date: string, delta: number) => {
-        saveHabits(habits.map(h => {
-            if (h.id !== id) return h;
+        const h = habits.find(x => x.id === id);
+        if (!h) return;
 
-            const prev = h.history[date] || { date, count: 0, completed: false };
-            let newHistory = { ...h.history };
-            let updatedEntry = prev;
+        const prev = h.history[date] || { date, count: 0, completed: false };
+        let newHistory = { ...h.history };
+        let updatedEntry = prev;
 
-            if (h.goal.mode === 'binary') {
-                const newCompleted = !prev.completed;
-                updatedEntry = { ...prev, completed: newCompleted, count: newCompleted ? 1 : 0 };
-            } else {
-                const newCount = Math.max(0, prev.count + delta);
-                updatedEntry = { ...prev, count: newCount, completed: newCount >= 1 };
-            }
+        if (h.goal.mode === 'binary') {
+            const newCompleted = !prev.completed;
+            updatedEntry = { ...prev, completed: newCompleted, count: newCompleted ? 1 : 0 };
+        } else {
+            const newCount = Math.max(0, prev.count + delta);
+            updatedEntry = { ...prev, count: newCount, completed: newCount >= 1 };
+        }
 
-            newHistory[date] = updatedEntry;
+        newHistory[date] = updatedEntry;
 
-            // Auto 66-day Logic
-            const totalCompleted = Object.values(newHistory).filter(l => logIsCompletedForGoal(h.goal, l)).length;
-            const formed = h.formed || (totalCompleted >= FORMATION_DAYS);
+        // Auto 66-day Logic
+        const totalCompleted = Object.values(newHistory).filter(l => logIsCompletedForGoal(h.goal, l)).length;
+        const formed = h.formed || (totalCompleted >= FORMATION_DAYS);
 
-            return { ...h, history: newHistory, formed };
-        }));
+        updateHabit(id, { history: newHistory, formed });
     };
 
     const toggleFormedStatus = (id: string) => {
-        saveHabits(habits.map(h => h.id === id ? { ...h, formed: !h.formed } : h));
+        const h = habits.find(x => x.id === id);
+        if (h) updateHabit(id, { formed: !h.formed });
     };
 
     const renderCalendar = () => {
@@ -530,7 +435,7 @@ export default function HabitView() {
                             const formationProgress = Math.min(100, (daysCompleted / FORMATION_DAYS) * 100);
 
                             return (
-                                <motion.div layout key={h.id} className="bg-white dark:bg-gray-900 rounded-2xl p-5 border border-gray-100 dark:border-gray-800 shadow-sm hover:shadow-md transition-shadow">
+                                <motion.div layout key={h.id} data-record-id={h.id} className="bg-white dark:bg-gray-900 rounded-2xl p-5 border border-gray-100 dark:border-gray-800 shadow-sm hover:shadow-md transition-shadow">
                                     <div className="flex items-start gap-4">
                                         <div className="w-16 h-16 rounded-2xl flex items-center justify-center text-3xl shrink-0 relative overflow-hidden" style={{ backgroundColor: `${h.color}15`, color: h.color }}>
                                             {h.formed && (
@@ -566,7 +471,7 @@ export default function HabitView() {
                                                 </div>
                                                 <div className="flex gap-2">
                                                     <button onClick={() => openEdit(h)} className="p-2 text-gray-400 hover:text-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-xl"><Pencil size={18} /></button>
-                                                    <button onClick={() => saveHabits(habits.filter(x => x.id !== h.id))} className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-xl"><Trash2 size={18} /></button>
+                                                    <button onClick={() => deleteHabit(h.id)} className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-xl"><Trash2 size={18} /></button>
                                                 </div>
                                             </div>
 
@@ -655,13 +560,13 @@ export default function HabitView() {
                         </div>
 
                         <div className="grid grid-cols-8 gap-2">
-                            {EMOJIS.map(e => (
+                            {HABIT_EMOJIS.map(e => (
                                 <button key={e} onClick={() => setDraftEmoji(e)} className={cn("aspect-square rounded-xl flex items-center justify-center text-xl hover:bg-gray-100 dark:hover:bg-gray-800 border", draftEmoji === e ? "border-blue-500 bg-blue-50" : "border-transparent")}>{e}</button>
                             ))}
                         </div>
 
                         <div className="flex gap-2 justify-center">
-                            {COLORS.map(c => (
+                            {HABIT_COLORS.map(c => (
                                 <button key={c} onClick={() => setDraftColor(c)} className={cn("w-8 h-8 rounded-full border-2", draftColor === c ? "border-black dark:border-white scale-110" : "border-transparent")} style={{ backgroundColor: c }} />
                             ))}
                         </div>
@@ -1,16 +1,22 @@
 import React, { useState } from 'react';
 import { Plus, Clock, CheckCircle, Circle, Edit2, Trash2 } from 'lucide-react';
 import { useData } from '../../contexts/DataContext';
-import { PlanItem } from '../../types/planner';
 import LinkifiedText from '../common/LinkifiedText';
+import SeriesScopeDialog from '../common/SeriesScopeDialog';
+import { usePlanOccurrences, usePlanOccurrenceActions } from '../../hooks/usePlanOccurrences';
+import { PlanOccurrence, PlanSeriesUpdate } from '../../utils/planSeries';
 import { useLanguage } from '../../contexts/LanguageContext';
+import { useSettings } from '../../contexts/SettingsContext';
+import { TimeZoneService } from '../../services/TimeZoneService';
+import { toLocalYMD } from '../../utils/rrule';
 
 const HourlyView: React.FC = () => {
-  const { plans, addPlan, updatePlan, deletePlan } = useData();
+  const { addPlan } = useData();
   const { t, language } = useLanguage();
-  const [selectedDate, setSelectedDate] = useState(new Date());
+  const { settings } = useSettings();
+  const [selectedDate, setSelectedDate] = useState(() => TimeZoneService.today());
   const [showAddForm, setShowAddForm] = useState(false);
-  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingPlan, setEditingPlan] = useState<PlanOccurrence | null>(null);
   const [newPlan, setNewPlan] = useState({
     title: '',
     description: '',
@@ -18,17 +24,23 @@ const HourlyView: React.FC = () => {
     endTime: '',
     priority: 'medium' as 'low' | 'medium' | 'high',
   });
+  const planActions = usePlanOccurrenceActions();
 
-  // const today = new Date().toISOString().split('T')[0]; // Removed unused variable
-  const selectedDateStr = selectedDate.toISOString().split('T')[0];
+  // Plan days are calendar days; start and end times are wall-clock times in the configured zone
+  const selectedDateStr = toLocalYMD(selectedDate);
 
   const hours = Array.from({ length: 24 }, (_, i) => {
     const hour = i.toString().padStart(2, '0');
     return `${hour}:00`;
   });
 
-  const dayPlans = plans.filter(plan =>
-    plan.date.toISOString().split('T')[0] === selectedDateStr
+  // Recurring series are expanded around the selected day, then matched by calendar day
+  const rangeStart = new Date(selectedDate.getFullYear(), selectedDate.getMonth(), selectedDate.getDate() - 1);
+  const rangeEnd = new Date(selectedDate.getFullYear(), selectedDate.getMonth(), selectedDate.getDate() + 2);
+  const visiblePlans = usePlanOccurrences(rangeStart, rangeEnd);
+
+  const dayPlans = visiblePlans.filter(plan =>
+    toLocalYMD(plan.date) === selectedDateStr
   ).sort((a, b) => {
     if (a.startTime && b.startTime) {
       return a.startTime.getTime() - b.startTime.getTime();
@@ -38,18 +50,22 @@ const HourlyView: React.FC = () => {
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const startDateTime = newPlan.startTime ? new Date(`${selectedDateStr}T${newPlan.startTime}`) : undefined;
-    const endDateTime = newPlan.endTime ? new Date(`${selectedDateStr}T${newPlan.endTime}`) : undefined;
+    const startDateTime = newPlan.startTime ? TimeZoneService.fromWallTime(selectedDateStr, newPlan.startTime) : undefined;
+    const endDateTime = newPlan.endTime ? TimeZoneService.fromWallTime(selectedDateStr, newPlan.endTime) : undefined;
 
-    if (editingId) {
-      updatePlan(editingId, {
+    if (editingPlan) {
+      const updates: PlanSeriesUpdate = {
         title: newPlan.title,
         description: newPlan.description,
-        startTime: startDateTime,
-        endTime: endDateTime,
         priority: newPlan.priority,
-      });
-      setEditingId(null);
+        rrule: editingPlan.rrule,
+      };
+      // Only changed times are sent: a time change applies to the series, not to a single occurrence
+      const timeOf = (date?: Date) => (date ? TimeZoneService.toTime(date) : '');
+      if (newPlan.startTime !== timeOf(editingPlan.startTime)) updates.startTime = startDateTime;
+      if (newPlan.endTime !== timeOf(editingPlan.endTime)) updates.endTime = endDateTime;
+      planActions.update(editingPlan, updates);
+      setEditingPlan(null);
     } else {
       addPlan({
         title: newPlan.title,
@@ -67,15 +83,15 @@ const HourlyView: React.FC = () => {
     setShowAddForm(false);
   };
 
-  const handleEdit = (plan: PlanItem) => {
+  const handleEdit = (plan: PlanOccurrence) => {
     setNewPlan({
       title: plan.title,
       description: plan.description,
-      startTime: plan.startTime ? plan.startTime.toTimeString().substr(0, 5) : '',
-      endTime: plan.endTime ? plan.endTime.toTimeString().substr(0, 5) : '',
+      startTime: plan.startTime ? TimeZoneService.toTime(plan.startTime) : '',
+      endTime: plan.endTime ? TimeZoneService.toTime(plan.endTime) : '',
       priority: plan.priority,
     });
-    setEditingId(plan.id);
+    setEditingPlan(plan);
     setShowAddForm(true);
   };
 
@@ -118,7 +134,7 @@ const HourlyView: React.FC = () => {
           <input
             type="date"
             value={selectedDateStr}
-            onChange={(e) => setSelectedDate(new Date(e.target.value))}
+            onChange={(e) => e.target.value && setSelectedDate(new Date(`${e.target.value}T12:00:00`))}
             className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
           />
         </div>
@@ -128,7 +144,7 @@ const HourlyView: React.FC = () => {
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
           <div className="bg-white dark:bg-gray-800 rounded-xl p-6 w-full max-w-md shadow-2xl">
             <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-4">
-              {editingId ? t('hourly.editBlock') : t('hourly.addBlock')}
+              {editingPlan ? t('hourly.editBlock') : t('hourly.addBlock')}
             </h3>
 
             <form onSubmit={handleSubmit} className="space-y-4">
@@ -202,13 +218,13 @@ const HourlyView: React.FC = () => {
                   type="submit"
                   className="flex-1 bg-blue-500 hover:bg-blue-600 text-white py-2 px-4 rounded-lg transition-colors duration-200"
                 >
-                  {editingId ? t('common.update') : t('hourly.addBlock')}
+                  {editingPlan ? t('common.update') : t('hourly.addBlock')}
                 </button>
                 <button
                   type="button"
                   onClick={() => {
                     setShowAddForm(false);
-                    setEditingId(null);
+                    setEditingPlan(null);
                     setNewPlan({ title: '', description: '', startTime: '', endTime: '', priority: 'medium' });
                   }}
                   className="flex-1 bg-gray-500 hover:bg-gray-600 text-white py-2 px-4 rounded-lg transition-colors duration-200"
@@ -230,7 +246,7 @@ const HourlyView: React.FC = () => {
             <div className="space-y-2 max-h-96 overflow-y-auto">
               {hours.map((hour) => {
                 const hourPlans = dayPlans.filter(plan =>
-                  plan.startTime && plan.startTime.toTimeString().substr(0, 5) === hour
+                  plan.startTime && TimeZoneService.toTime(plan.startTime) === hour
                 );
 
                 return (
@@ -273,6 +289,7 @@ const HourlyView: React.FC = () => {
           <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
             <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
               {t('hourly.dailyTimeBlocks')} - {selectedDate.toLocaleDateString(language)}
+              <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">({settings.general.timeZone})</span>
             </h3>
 
             {dayPlans.length === 0 ? (
@@ -299,7 +316,7 @@ const HourlyView: React.FC = () => {
                       <div className="flex-1">
                         <div className="flex items-center gap-3 mb-2">
                           <button
-                            onClick={() => updatePlan(plan.id, { completed: !plan.completed })}
+                            onClick={() => planActions.toggleCompleted(plan)}
                             className="text-blue-500 hover:text-blue-600 transition-colors duration-200"
                           >
                             {plan.completed ? <CheckCircle size={20} /> : <Circle size={20} />}
@@ -312,9 +329,9 @@ const HourlyView: React.FC = () => {
                         {(plan.startTime || plan.endTime) && (
                           <div className="text-sm text-gray-600 dark:text-gray-400 mb-2 flex items-center gap-2">
                             <Clock size={16} />
-                            {plan.startTime?.toTimeString().substr(0, 5)}
+                            {plan.startTime && TimeZoneService.toTime(plan.startTime)}
                             {plan.startTime && plan.endTime && ' - '}
-                            {plan.endTime?.toTimeString().substr(0, 5)}
+                            {plan.endTime && TimeZoneService.toTime(plan.endTime)}
                           </div>
                         )}
 
@@ -343,7 +360,7 @@ const HourlyView: React.FC = () => {
                           <Edit2 size={16} />
                         </button>
                         <button
-                          onClick={() => deletePlan(plan.id)}
+                          onClick={() => planActions.remove(plan)}
                           className="p-2 text-gray-500 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-all duration-200"
                         >
                           <Trash2 size={16} />
@@ -357,6 +374,14 @@ const HourlyView: React.FC = () => {
           </div>
         </div>
       </div>
+
+      <SeriesScopeDialog
+        isOpen={!!planActions.pending}
+        action={planActions.pending?.action ?? 'edit'}
+        allowThis={planActions.pending?.allowThis}
+        onChoose={planActions.chooseScope}
+        onClose={planActions.cancel}
+      />
     </div>
   );
 };
@@ -1,19 +1,25 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import {
     FileText, Users, Plus, X, Mail, Clock, Wallet, Building2, AlertCircle,
     Download, ChevronRight, PieChart, User, CheckCircle, Search,
     TrendingUp, Filter, Check, Send, MoreHorizontal,
-    Trash2, Upload, Settings, Repeat, RefreshCcw, CalendarPlus
+    Trash2, Upload, Settings, Repeat, RefreshCcw, CalendarPlus, History
 } from 'lucide-react';
 import { useLanguage } from '../../contexts/LanguageContext';
 import { useData } from '../../contexts/DataContext';
+import { useNavigationRequest } from '../../hooks/useNavigation';
 import { Invoice, InvoiceItem, Client, CompanyProfile } from '../../types/planner';
 import { FinancialEngine } from '../../utils/FinancialEngine';
 import { CurrencyService } from '../../services/CurrencyService';
 import { XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, BarChart, Bar } from 'recharts';
 import { SequenceService } from '../../services/SequenceService';
+import { SnapshotService } from '../../services/SnapshotService';
+import { StorageService } from '../../services/StorageService';
 import { InvoiceCalculator } from '../../utils/InvoiceCalculator';
 import { AVAILABLE_CURRENCIES } from '../../constants/currencyData';
+import EntityHistory from '../common/EntityHistory';
+import { TimeZoneService } from '../../services/TimeZoneService';
+import { toLocalYMD } from '../../utils/rrule';
 
 interface CompanyInfo {
     name: string;
@@ -25,6 +31,15 @@ interface CompanyInfo {
     logo: string | null;
 }
 
+// Invoice dates are calendar days; "today" is today in the configured time zone
+const daysFromToday = (days: number): Date => {
+    const date = TimeZoneService.today();
+    date.setDate(date.getDate() + days);
+    return date;
+};
+
+const fromDateInput = (ymd: string): Date => (ymd ? new Date(`${ymd}T12:00:00`) : TimeZoneService.today());
+
 const printStyles = `
   @media print {
     /* Reset page margins */
@@ -91,7 +106,7 @@ const InvoicingView: React.FC = () => {
     const { t, language } = useLanguage();
     const {
         invoices, clients, companyProfiles,
-        addInvoice, updateInvoice, deleteInvoice,
+        addInvoice, updateInvoice, deleteInvoice, deleteInvoices,
         addClient, addCompanyProfile,
         getFinancialSummary, addPlan
     } = useData();
@@ -100,6 +115,7 @@ const InvoicingView: React.FC = () => {
     const [showCreateInvoice, setShowCreateInvoice] = useState(false);
     const [createTaskFromInvoice, setCreateTaskFromInvoice] = useState(false);
     const [previewInvoice, setPreviewInvoice] = useState<Invoice | null>(null);
+    const [previewTab, setPreviewTab] = useState<'invoice' | 'history'>('invoice');
     const [selectedStat, setSelectedStat] = useState<{ title: string; breakdown: Record<string, number>; rect: DOMRect } | null>(null);
 
     // Close popover when clicking outside
@@ -144,13 +160,12 @@ const InvoicingView: React.FC = () => {
     };
 
     const [companyInfo, setCompanyInfo] = useState<CompanyInfo>(() => {
-        const saved = localStorage.getItem('companyInfo');
-        return saved ? JSON.parse(saved) : DEFAULT_COMPANY_INFO;
+        return StorageService.get<CompanyInfo>('company-info') ?? DEFAULT_COMPANY_INFO;
     });
 
     const saveCompanyInfo = (info: CompanyInfo) => {
         setCompanyInfo(info);
-        localStorage.setItem('companyInfo', JSON.stringify(info));
+        StorageService.set('company-info', info);
     };
 
     const [toast, setToast] = useState<string | null>(null);
@@ -183,6 +198,21 @@ const InvoicingView: React.FC = () => {
 
     const [searchQuery, setSearchQuery] = useState('');
 
+    useNavigationRequest('invoices', {
+        open: (id) => {
+            setActiveTab('invoices');
+            setSearchQuery('');
+            const invoice = invoices.find(i => i.id === id);
+            if (invoice) setPreviewInvoice(invoice);
+        },
+        create: () => setShowCreateInvoice(true),
+    });
+
+    useNavigationRequest('clients', {
+        open: () => setActiveTab('clients'),
+        create: () => setShowAddClient(true),
+    });
+
     const filteredInvoices = useMemo(() => {
         if (!searchQuery) return invoices;
         const lower = searchQuery.toLowerCase();
@@ -348,19 +378,20 @@ const InvoicingView: React.FC = () => {
 
     const handleBulkDelete = () => {
         if (window.confirm(t('invoicing.confirmBulkDelete'))) {
-            selectedInvoices.forEach(id => deleteInvoice(id));
+            deleteInvoices(Array.from(selectedInvoices));
             setSelectedInvoices(new Set());
         }
     };
 
     const handleDeleteAll = () => {
         if (window.confirm(t('invoicing.confirmDeleteAll'))) {
-            invoices.forEach(i => deleteInvoice(i.id));
+            SnapshotService.capture('delete-invoices');
+            deleteInvoices(invoices.map(i => i.id));
             setSelectedInvoices(new Set());
         }
     };
 
-    const handleSaveInvoice = () => {
+    const handleSaveInvoice = async () => {
         if (newInvoice.clientId && newInvoice.items?.length) {
             // Check if we need to generate a persistent sequence number
             let invoiceNumber = newInvoice.invoiceNumber;
@@ -368,7 +399,13 @@ const InvoicingView: React.FC = () => {
             // If it's a placeholder or empty, generate the real sequence number
             if (!invoiceNumber || invoiceNumber.includes('XXXX')) {
                 // Pass the company ID to sequence service for multi-company support
-                invoiceNumber = SequenceService.getNextInvoiceNumber(selectedCompanyId);
+                try {
+                    invoiceNumber = await SequenceService.allocateInvoiceNumber(selectedCompanyId);
+                } catch (error) {
+                    console.error('Invoice number allocation failed:', error);
+                    alert(t('invoicing.numberAllocationFailed'));
+                    return;
+                }
             }
 
             const finalInvoice: Invoice = {
@@ -381,9 +418,9 @@ const InvoicingView: React.FC = () => {
                 subtotal: newInvoice.subtotal || 0,
                 tax: newInvoice.taxRate ? (filterTax(newInvoice.subtotal || 0, newInvoice.taxRate)) : 0, // Recalculate if needed or trust state
                 total: newInvoice.total || 0,
-                issueDate: newInvoice.issueDate || new Date(),
-                dueDate: newInvoice.dueDate || new Date(),
-                fulfillmentDate: newInvoice.fulfillmentDate || newInvoice.issueDate || new Date(),
+                issueDate: newInvoice.issueDate || TimeZoneService.today(),
+                dueDate: newInvoice.dueDate || TimeZoneService.today(),
+                fulfillmentDate: newInvoice.fulfillmentDate || newInvoice.issueDate || TimeZoneService.today(),
                 paymentMethod: newInvoice.paymentMethod || 'transfer',
                 createdAt: new Date(),
                 status: newInvoice.status || 'sent'
@@ -400,8 +437,8 @@ const InvoicingView: React.FC = () => {
                 currency: 'USD',
                 taxRate: 27,
                 status: 'sent',
-                issueDate: new Date(),
-                dueDate: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000)
+                issueDate: TimeZoneService.today(),
+                dueDate: daysFromToday(14)
             });
             setShowCreateInvoice(false);
             showToast(t('invoicing.invoiceSaved'));
@@ -453,6 +490,11 @@ const InvoicingView: React.FC = () => {
         }
     };
 
+    // Every opened invoice starts on the document itself
+    useEffect(() => {
+        setPreviewTab('invoice');
+    }, [previewInvoice?.id]);
+
     const handlePrint = () => {
         window.print();
     };
@@ -527,8 +569,8 @@ const InvoicingView: React.FC = () => {
                             currency: 'USD',
                             taxRate: 27,
                             status: 'sent',
-                            issueDate: new Date(),
-                            dueDate: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000),
+                            issueDate: TimeZoneService.today(),
+                            dueDate: daysFromToday(14),
                             invoiceNumber: `INV-2026-${randomNum}`
                         });
                         setShowCreateInvoice(true);
@@ -829,6 +871,7 @@ const InvoicingView: React.FC = () => {
                                     {filteredInvoices.map(invoice => (
                                         <tr
                                             key={invoice.id}
+                                            data-record-id={invoice.id}
                                             className="hover:bg-gray-50 dark:hover:bg-gray-800/50 transition-colors cursor-pointer"
                                             onClick={() => handleDownloadPdf(invoice)}
                                         >
@@ -909,7 +952,7 @@ const InvoicingView: React.FC = () => {
                 activeTab === 'clients' && (
                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 animate-in fade-in">
                         {clients.map(client => (
-                            <div key={client.id} className="card group hover:shadow-lg transition-all border border-gray-100 dark:border-gray-800">
+                            <div key={client.id} data-record-id={client.id} className="card group hover:shadow-lg transition-all border border-gray-100 dark:border-gray-800">
                                 <div className="flex items-start justify-between mb-4">
                                     <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-blue-500 to-indigo-600 flex items-center justify-center text-white font-bold text-xl shadow-lg shadow-blue-500/20">
                                         {client.name.charAt(0)}
@@ -1154,11 +1197,11 @@ const InvoicingView: React.FC = () => {
                                     </div>
                                     <div>
                                         <label className="label-text">{t('invoicing.invoiceDate')}</label>
-                                        <input type="date" className="input-field bg-white dark:bg-gray-800" value={newInvoice.issueDate?.toISOString().split('T')[0]} onChange={(e) => setNewInvoice({ ...newInvoice, issueDate: new Date(e.target.value) })} />
+                                        <input type="date" className="input-field bg-white dark:bg-gray-800" value={newInvoice.issueDate ? toLocalYMD(newInvoice.issueDate) : ''} onChange={(e) => setNewInvoice({ ...newInvoice, issueDate: fromDateInput(e.target.value) })} />
                                     </div>
                                     <div>
                                         <label className="label-text">{t('invoicing.dueDate')}</label>
-                                        <input type="date" className="input-field bg-white dark:bg-gray-800" value={newInvoice.dueDate?.toISOString().split('T')[0]} onChange={(e) => setNewInvoice({ ...newInvoice, dueDate: new Date(e.target.value) })} />
+                                        <input type="date" className="input-field bg-white dark:bg-gray-800" value={newInvoice.dueDate ? toLocalYMD(newInvoice.dueDate) : ''} onChange={(e) => setNewInvoice({ ...newInvoice, dueDate: fromDateInput(e.target.value) })} />
                                     </div>
                                 </div>
 
@@ -1172,8 +1215,8 @@ const InvoicingView: React.FC = () => {
                                         <input
                                             type="date"
                                             className="input-field bg-white dark:bg-gray-800"
-                                            value={newInvoice.fulfillmentDate?.toISOString().split('T')[0] || newInvoice.issueDate?.toISOString().split('T')[0] || ''}
-                                            onChange={(e) => setNewInvoice({ ...newInvoice, fulfillmentDate: new Date(e.target.value) })}
+                                            value={newInvoice.fulfillmentDate || newInvoice.issueDate ? toLocalYMD((newInvoice.fulfillmentDate || newInvoice.issueDate)!) : ''}
+                                            onChange={(e) => setNewInvoice({ ...newInvoice, fulfillmentDate: fromDateInput(e.target.value) })}
                                         />
                                     </div>
                                     <div>
@@ -1496,8 +1539,37 @@ const InvoicingView: React.FC = () => {
                                 </div>
                             </div>
 
-                            {/* Invoice Content - Always White Paper Style */}
-                            <div className="p-10 print:p-12 !bg-white dark:!bg-white text-gray-900 dark:text-gray-900 shadow-xl print:shadow-none mx-auto max-w-[210mm] min-h-[297mm]">
+                            {/* Preview / History tabs */}
+                            <div className="print:hidden flex gap-2 px-6 pt-4">
+                                {([
+                                    { id: 'invoice', label: t('invoicing.invoicePreview'), icon: FileText },
+                                    { id: 'history', label: t('audit.historyTab'), icon: History },
+                                ] as const).map(tab => (
+                                    <button
+                                        key={tab.id}
+                                        onClick={() => setPreviewTab(tab.id)}
+                                        className={`px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition-all ${previewTab === tab.id
+                                            ? 'bg-primary-600 text-white'
+                                            : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+                                    >
+                                        <tab.icon size={16} />
+                                        {tab.label}
+                                    </button>
+                                ))}
+                            </div>
+
+                            {previewTab === 'history' && (
+                                <div className="print:hidden">
+                                    <EntityHistory
+                                        entityType="invoices"
+                                        entityId={previewInvoice.id}
+                                        fileName={`invoice-${previewInvoice.invoiceNumber}-history.csv`}
+                                    />
+                                </div>
+                            )}
+
+                            {/* Invoice Content - Always White Paper Style (kept for printing while the history tab is open) */}
+                            <div className={`p-10 print:p-12 !bg-white dark:!bg-white text-gray-900 dark:text-gray-900 shadow-xl print:shadow-none mx-auto max-w-[210mm] min-h-[297mm] ${previewTab === 'history' ? 'hidden print:block' : ''}`}>
                                 {/* Invoice Header */}
                                 <div className="flex justify-between items-start mb-12">
                                     <div>
@@ -1,37 +1,29 @@
-import React, { useState, useEffect } from 'react';
-import { CalendarRange, ChevronLeft, ChevronRight, Trash2, CheckCircle, Circle } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { CalendarRange, ChevronLeft, ChevronRight, Trash2, CheckCircle, Circle, Repeat, CreditCard } from 'lucide-react';
 import { useData } from '../../contexts/DataContext';
-import { PlanItem } from '../../types/planner';
 import { useLanguage } from '../../contexts/LanguageContext';
-
-// --- Habit Types (Matching HabitView) ---
-type Habit = {
-  id: string;
-  name: string;
-  createdAtISO: string;
-  checkins: Record<string, { completed: boolean }>;
-  isMastered?: boolean;
-};
+import { TimeZoneService } from '../../services/TimeZoneService';
+import { usePlanOccurrences, usePlanOccurrenceActions } from '../../hooks/usePlanOccurrences';
+import { PlanOccurrence } from '../../utils/planSeries';
+import { formatCurrency } from '../../utils/formatters';
+import RecurrencePicker from '../common/RecurrencePicker';
+import SeriesScopeDialog from '../common/SeriesScopeDialog';
 
 const MonthlyView: React.FC = () => {
   const { t } = useLanguage();
-  const { plans, addPlan, updatePlan, deletePlan } = useData();
-  const [currentMonth, setCurrentMonth] = useState(new Date());
+  const { addPlan, habits, getOccurrences } = useData();
+  const [currentMonth, setCurrentMonth] = useState(() => TimeZoneService.today());
   const [showAddForm, setShowAddForm] = useState(false);
   const [selectedDay, setSelectedDay] = useState<Date | null>(null);
-  const [editingPlan, setEditingPlan] = useState<PlanItem | null>(null);
-  const [habits, setHabits] = useState<Habit[]>([]);
+  const [editingPlan, setEditingPlan] = useState<PlanOccurrence | null>(null);
 
   const [newPlan, setNewPlan] = useState({
     title: '',
     description: '',
     priority: 'medium' as 'low' | 'medium' | 'high',
+    rrule: '',
   });
-
-  useEffect(() => {
-    const saved = localStorage.getItem('planner.habits.v2');
-    if (saved) setHabits(JSON.parse(saved));
-  }, []);
+  const planActions = usePlanOccurrenceActions();
 
   const monthNames = [
     t('months.january'), t('months.february'), t('months.march'), t('months.april'), t('months.may'), t('months.june'),
@@ -77,9 +69,21 @@ const MonthlyView: React.FC = () => {
 
   const toISODate = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
 
+  const days = getDaysInMonth(currentMonth);
+  const gridEnd = new Date(days[41].getFullYear(), days[41].getMonth(), days[41].getDate(), 23, 59, 59, 999);
+  const monthPlans = usePlanOccurrences(days[0], gridEnd);
+
+  // Upcoming recurring transactions and subscription payments, shown next to the plans
+  const gridStartTime = days[0].getTime();
+  const gridEndTime = gridEnd.getTime();
+  const scheduledPayments = useMemo(
+    () => getOccurrences(new Date(gridStartTime), new Date(gridEndTime), { sources: ['transaction', 'subscription'] }),
+    [getOccurrences, gridStartTime, gridEndTime]
+  );
+
   const getPlansForDay = (date: Date) => {
     const dateStr = formatDate(date);
-    return plans.filter((plan: PlanItem) =>
+    return monthPlans.filter(plan =>
       formatDate(plan.date) === dateStr
     );
   };
@@ -88,10 +92,11 @@ const MonthlyView: React.FC = () => {
     e.preventDefault();
 
     if (editingPlan) {
-      updatePlan(editingPlan.id, {
+      planActions.update(editingPlan, {
         title: newPlan.title,
         description: newPlan.description,
         priority: newPlan.priority,
+        rrule: newPlan.rrule || undefined,
       });
     } else if (selectedDay) {
       addPlan({
@@ -101,6 +106,7 @@ const MonthlyView: React.FC = () => {
         completed: false,
         priority: newPlan.priority,
         linkedNotes: [],
+        ...(newPlan.rrule && { rrule: newPlan.rrule }),
       });
     }
 
@@ -108,33 +114,34 @@ const MonthlyView: React.FC = () => {
   };
 
   const resetForm = () => {
-    setNewPlan({ title: '', description: '', priority: 'medium' });
+    setNewPlan({ title: '', description: '', priority: 'medium', rrule: '' });
     setShowAddForm(false);
     setSelectedDay(null);
     setEditingPlan(null);
   };
 
-  const handleEditPlan = (plan: PlanItem, e: React.MouseEvent) => {
+  const handleEditPlan = (plan: PlanOccurrence, e: React.MouseEvent) => {
     e.stopPropagation();
     setEditingPlan(plan);
     setNewPlan({
       title: plan.title,
       description: plan.description || '',
       priority: plan.priority,
+      rrule: plan.rrule ?? '',
     });
     setShowAddForm(true);
   };
 
-  const handleDeletePlan = (planId: string, e: React.MouseEvent) => {
+  const handleDeletePlan = (plan: PlanOccurrence, e: React.MouseEvent) => {
     e.stopPropagation();
-    if (window.confirm(t('common.confirmDelete') || 'Biztosan törölni szeretnéd?')) {
-      deletePlan(planId);
+    // Occurrences of a series ask for the scope instead
+    if (plan.seriesId || window.confirm(t('common.confirmDelete') || 'Biztosan törölni szeretnéd?')) {
+      planActions.remove(plan);
     }
   };
 
-  const days = getDaysInMonth(currentMonth);
   const isCurrentMonth = (date: Date) => date.getMonth() === currentMonth.getMonth();
-  const isToday = (date: Date) => date.toDateString() === new Date().toDateString();
+  const isToday = (date: Date) => date.toDateString() === TimeZoneService.today().toDateString();
 
   return (
     <div className="p-6 max-w-7xl mx-auto">
@@ -224,6 +231,12 @@ const MonthlyView: React.FC = () => {
                 </select>
               </div>
 
+              <RecurrencePicker
+                value={newPlan.rrule}
+                onChange={(rrule) => setNewPlan({ ...newPlan, rrule })}
+                start={editingPlan ? new Date(editingPlan.date) : selectedDay ?? TimeZoneService.today()}
+              />
+
               <div className="flex gap-3 pt-4">
                 <button
                   type="submit"
@@ -256,7 +269,7 @@ const MonthlyView: React.FC = () => {
         <div className="grid grid-cols-7 gap-px bg-gray-200 dark:bg-gray-600">
           {days.map((day) => {
             const dayPlans = getPlansForDay(day);
-            const completedTasks = dayPlans.filter((plan: PlanItem) => plan.completed).length;
+            const completedTasks = dayPlans.filter(plan => plan.completed).length;
 
             return (
               <div
@@ -276,7 +289,7 @@ const MonthlyView: React.FC = () => {
                 </div>
 
                 <div className="space-y-1">
-                  {dayPlans.slice(0, 2).map((plan: PlanItem) => (
+                  {dayPlans.slice(0, 2).map((plan) => (
                     <div
                       key={plan.id}
                       className={`text-xs p-1 rounded truncate cursor-pointer group relative ${plan.priority === 'high' ? 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400' :
@@ -289,7 +302,7 @@ const MonthlyView: React.FC = () => {
                         <button
                           onClick={(e) => {
                             e.stopPropagation();
-                            updatePlan(plan.id, { completed: !plan.completed });
+                            planActions.toggleCompleted(plan);
                           }}
                           className={`${plan.priority === 'high' ? 'hover:text-red-900 dark:hover:text-red-300' :
                             plan.priority === 'medium' ? 'hover:text-yellow-900 dark:hover:text-yellow-300' :
@@ -298,9 +311,10 @@ const MonthlyView: React.FC = () => {
                           {plan.completed ? <CheckCircle size={10} /> : <Circle size={10} />}
                         </button>
                         <span className="truncate flex-1">{plan.title}</span>
+                        {plan.seriesId && <Repeat size={10} className="shrink-0 opacity-60" />}
                         <div className="hidden group-hover:flex items-center gap-1">
                           <button
-                            onClick={(e) => handleDeletePlan(plan.id, e)}
+                            onClick={(e) => handleDeletePlan(plan, e)}
                             className="hover:text-red-600 p-0.5 rounded"
                           >
                             <Trash2 size={10} />
@@ -323,13 +337,26 @@ const MonthlyView: React.FC = () => {
                   </div>
                 )}
 
+                {scheduledPayments.filter(payment => payment.ymd === formatDate(day)).map(payment => (
+                  <div
+                    key={payment.id}
+                    title={payment.title}
+                    className={`flex items-center gap-1 text-xs mt-1 truncate ${payment.type === 'income' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}
+                  >
+                    {payment.source === 'subscription' ? <CreditCard size={10} className="shrink-0" /> : <Repeat size={10} className="shrink-0" />}
+                    <span className="truncate">
+                      {payment.type === 'income' ? '+' : '-'}{formatCurrency(payment.amount ?? 0, payment.currency || 'USD')} {payment.title}
+                    </span>
+                  </div>
+                ))}
+
                 {/* Habit Indicators */}
                 <div className="flex flex-wrap gap-1 mt-auto pt-2">
-                  {habits.map(h => {
+                  {habits.filter(h => !h.archived).map(h => {
                     const iso = toISODate(day);
-                    const isDone = h.checkins?.[iso]?.completed;
-                    const wasCreated = h.createdAtISO <= iso;
-                    const isTodayOrPast = day <= new Date();
+                    const isDone = h.history[iso]?.completed;
+                    const wasCreated = toISODate(new Date(h.createdAt)) <= iso;
+                    const isTodayOrPast = day <= TimeZoneService.endOfToday();
 
                     if (!wasCreated || !isTodayOrPast) return null;
 
@@ -347,6 +374,14 @@ const MonthlyView: React.FC = () => {
           })}
         </div>
       </div>
+
+      <SeriesScopeDialog
+        isOpen={!!planActions.pending}
+        action={planActions.pending?.action ?? 'edit'}
+        allowThis={planActions.pending?.allowThis}
+        onChoose={planActions.chooseScope}
+        onClose={planActions.cancel}
+      />
     </div>
   );
 };
@@ -4,6 +4,7 @@ import { useData } from '../../contexts/DataContext';
 import { Note } from '../../types/planner';
 import LinkifiedText from '../common/LinkifiedText';
 import { useLanguage } from '../../contexts/LanguageContext';
+import { useNavigationRequest } from '../../hooks/useNavigation';
 
 const NotesView: React.FC = () => {
   const { notes, addNote, updateNote, deleteNote } = useData();
@@ -50,6 +51,14 @@ const NotesView: React.FC = () => {
     setShowAddForm(false);
   };
 
+  useNavigationRequest('notes', {
+    open: () => {
+      setSearchTerm('');
+      setSelectedTag('');
+    },
+    create: () => setShowAddForm(true),
+  });
+
   const handleEdit = (note: Note) => {
     setNewNote({
       title: note.title,
@@ -205,6 +214,7 @@ const NotesView: React.FC = () => {
           {filteredNotes.map((note) => (
             <div
               key={note.id}
+              data-record-id={note.id}
               className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 transition-all duration-200 hover:shadow-xl border border-gray-200 dark:border-gray-700"
             >
               <div className="flex justify-between items-start mb-4">
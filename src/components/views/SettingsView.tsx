@@ -1,13 +1,21 @@
-import React, { useState } from 'react';
-import { Settings, Save, Download, Upload, Palette, Bell, Globe, Shield, Moon, Sun, RefreshCw } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Settings, Save, Download, Upload, Palette, Bell, Globe, Shield, Moon, Sun, RefreshCw, History, RotateCcw } from 'lucide-react';
 import { useData } from '../../contexts/DataContext';
 import { useTheme } from '../../contexts/ThemeContext';
 import { useLanguage, Language } from '../../contexts/LanguageContext';
-import { useSettings } from '../../contexts/SettingsContext';
+import { useSettings, TimeZone } from '../../contexts/SettingsContext';
 import { CurrencyService } from '../../services/CurrencyService';
 import { AVAILABLE_CURRENCIES } from '../../constants/currencyData';
+import { SUPPORTED_TIME_ZONES } from '../../utils/timeZone';
 // import { AIService } from '../../services/AIService';
-import { DataTransferService } from '../../services/DataTransferService';
+import { DataTransferService, ParsedBackup } from '../../services/DataTransferService';
+import { MigrationService, MigrationReport, MigrationSnapshot } from '../../services/MigrationService';
+import VaultSettingsPanel from '../common/VaultSettingsPanel';
+import CloudSyncPanel from '../common/CloudSyncPanel';
+import RestorePreviewModal from '../common/RestorePreviewModal';
+import SnapshotsPanel from '../common/SnapshotsPanel';
+import RateProvidersPanel from '../common/RateProvidersPanel';
+import AuditLogPanel from '../common/AuditLogPanel';
 
 const SettingsView: React.FC = () => {
   const { budgetSettings, updateBudgetSettings } = useData();
@@ -19,6 +27,26 @@ const SettingsView: React.FC = () => {
   const [exchangeRates, setExchangeRates] = useState<Record<string, number>>(CurrencyService.getAllRates());
   const [isFetchingRates, setIsFetchingRates] = useState(false);
   const [rateMessage, setRateMessage] = useState<string | null>(null);
+  const [migrationReport, setMigrationReport] = useState<MigrationReport | null>(null);
+  const [migrationSnapshots, setMigrationSnapshots] = useState<MigrationSnapshot[]>([]);
+  const [pendingBackup, setPendingBackup] = useState<ParsedBackup | null>(null);
+  const [exportSecrets, setExportSecrets] = useState(false);
+
+  useEffect(() => {
+    if (activeSection !== 'data') return;
+    setMigrationSnapshots(MigrationService.getSnapshots());
+  }, [activeSection]);
+
+  const handleMigrationDryRun = async () => {
+    setMigrationReport(await MigrationService.plan());
+  };
+
+  const handleMigrationRollback = async (snapshot: MigrationSnapshot) => {
+    if (!confirm(t('settings.migrations.rollbackConfirm'))) return;
+    const result = await MigrationService.rollback(snapshot.id);
+    alert(result.message);
+    if (result.success) window.location.reload();
+  };
 
   const currencies = AVAILABLE_CURRENCIES.map(c => c.code);
   const languages: { code: Language; name: string; nativeName: string }[] = [
@@ -131,18 +159,13 @@ const SettingsView: React.FC = () => {
                     <select
                       value={settings.general.timeZone}
                       onChange={(e) => updateSettings({
-                        general: { ...settings.general, timeZone: e.target.value as any }
+                        general: { ...settings.general, timeZone: e.target.value as TimeZone }
                       })}
                       className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500"
                     >
-                      <option value="UTC">UTC</option>
-                      <option value="Europe/Budapest">Europe/Budapest</option>
-                      <option value="America/New_York">America/New_York</option>
-                      <option value="Europe/London">Europe/London</option>
-                      <option value="Europe/Berlin">Europe/Berlin</option>
-                      <option value="Europe/Paris">Europe/Paris</option>
-                      <option value="Europe/Rome">Europe/Rome</option>
-                      <option value="America/Los_Angeles">America/Los_Angeles</option>
+                      {SUPPORTED_TIME_ZONES.map(zone => (
+                        <option key={zone} value={zone}>{zone}</option>
+                      ))}
                     </select>
                   </div>
                 </div>
@@ -348,6 +371,8 @@ const SettingsView: React.FC = () => {
                       </div>
                     ))}
                   </div>
+
+                  <RateProvidersPanel onRatesImported={() => setExchangeRates(CurrencyService.getAllRates())} />
                 </div>
 
                 <button
@@ -546,13 +571,17 @@ const SettingsView: React.FC = () => {
                   </div>
                 </div>
 
+                <VaultSettingsPanel />
+
+                <CloudSyncPanel />
+
                 <div className="border-t border-gray-200 dark:border-gray-600 pt-6">
                   <h4 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">{t('settings.dataManagement')}</h4>
 
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <button
-                      onClick={() => {
-                        const result = DataTransferService.exportAll();
+                      onClick={async () => {
+                        const result = await DataTransferService.exportAll({ includeSecrets: exportSecrets });
                         if (!result.success) {
                           alert(t('settings.exportFailed') || 'Export failed');
                         }
@@ -574,21 +603,17 @@ const SettingsView: React.FC = () => {
                           const file = e.target.files?.[0];
                           if (!file) return;
 
-                          if (!confirm(t('settings.importConfirm') || 'Are you sure? This will overwrite all existing data!')) {
-                            e.target.value = ''; // Reset input to allow re-selection of same file
-                            return;
-                          }
+                          e.target.value = ''; // Reset input to allow re-selection of same file
 
                           const reader = new FileReader();
                           reader.onload = async (event) => {
                             try {
                               const json = JSON.parse(event.target?.result as string);
-                              const result = await DataTransferService.importAll(json);
+                              const result = await DataTransferService.parseBackup(json);
                               if (result.success) {
-                                alert(result.message);
-                                window.location.reload();
+                                setPendingBackup(result.backup);
                               } else {
-                                alert(t('settings.importFailed') || 'Import failed: ' + result.message);
+                                alert(`${t('settings.importFailed')}\n${result.message}`);
                               }
                             } catch (err) {
                               alert('Invalid JSON file');
@@ -599,6 +624,87 @@ const SettingsView: React.FC = () => {
                       />
                     </label>
                   </div>
+
+                  <label className="flex items-start gap-2 mt-3 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={exportSecrets}
+                      onChange={e => setExportSecrets(e.target.checked)}
+                      className="mt-0.5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span>
+                      {t('settings.exportIncludeSecrets')}
+                      <span className="block text-xs text-gray-500 dark:text-gray-400">{t('settings.exportIncludeSecretsDesc')}</span>
+                    </span>
+                  </label>
+                </div>
+
+                <SnapshotsPanel />
+
+                <AuditLogPanel />
+
+                <div className="border-t border-gray-200 dark:border-gray-600 pt-6">
+                  <div className="flex items-center justify-between mb-4">
+                    <h4 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+                      <History size={20} />
+                      {t('settings.migrations.title')}
+                    </h4>
+                    <span className="text-sm text-gray-500 dark:text-gray-400 font-mono">
+                      {t('settings.migrations.schemaVersion')}: {MigrationService.getSchemaVersion()}
+                    </span>
+                  </div>
+
+                  <button
+                    onClick={handleMigrationDryRun}
+                    className="flex items-center gap-2 px-4 py-2 mb-4 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors duration-200 text-gray-700 dark:text-gray-300"
+                  >
+                    <RefreshCw size={16} />
+                    {t('settings.migrations.dryRun')}
+                  </button>
+
+                  {migrationReport && (
+                    <div className="mb-4 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg text-sm text-gray-700 dark:text-gray-300">
+                      {migrationReport.pending.length === 0 ? t('settings.migrations.upToDate') : (
+                        <ul className="space-y-2">
+                          {migrationReport.pending.map(entry => (
+                            <li key={entry.id}>
+                              <div className="font-medium">
+                                v{entry.version} · {entry.description}
+                                {entry.destructive && <span className="ml-2 text-xs text-red-600 dark:text-red-400">{t('settings.migrations.destructive')}</span>}
+                              </div>
+                              <div className="font-mono text-xs text-gray-500 dark:text-gray-400">
+                                {entry.changes.length === 0 ? '—' : entry.changes.map(c => `${c.action} ${c.key}`).join(', ')}
+                              </div>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+
+                  {migrationSnapshots.length > 0 && (
+                    <div className="space-y-2">
+                      <div className="text-sm font-medium text-gray-700 dark:text-gray-300">{t('settings.migrations.snapshots')}</div>
+                      {migrationSnapshots.slice().reverse().map(snapshot => (
+                        <div key={snapshot.id} className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700 rounded-lg text-sm">
+                          <div>
+                            <div className="font-medium text-gray-900 dark:text-white">{snapshot.migrationId}</div>
+                            <div className="text-xs text-gray-500 dark:text-gray-400">
+                              {new Date(snapshot.createdAt).toLocaleString()} · {Object.keys(snapshot.entries).length} {t('settings.migrations.keys')}
+                              {snapshot.restoredAt && ` · ${t('settings.migrations.restored')}`}
+                            </div>
+                          </div>
+                          <button
+                            onClick={() => handleMigrationRollback(snapshot)}
+                            className="flex items-center gap-1 px-3 py-1.5 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                          >
+                            <RotateCcw size={14} />
+                            {t('settings.migrations.rollback')}
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
 
                 <div className="bg-red-50 dark:bg-red-900/20 rounded-lg p-4">
@@ -615,6 +721,10 @@ const SettingsView: React.FC = () => {
           </div>
         </div>
       </div>
+
+      {pendingBackup && (
+        <RestorePreviewModal backup={pendingBackup} onClose={() => setPendingBackup(null)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,542 @@
+import React, { useMemo, useState } from 'react';
+import {
+  CreditCard, Plus, ChevronLeft, ChevronRight, Edit, Trash2, Pause, Play, Clock, AlertTriangle, History, CheckCircle, PieChart, TrendingUp
+} from 'lucide-react';
+import { useData } from '../../contexts/DataContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { CurrencyService } from '../../services/CurrencyService';
+import { TimeZoneService } from '../../services/TimeZoneService';
+import { AVAILABLE_CURRENCIES } from '../../constants/currencyData';
+import { Subscription } from '../../types/planner';
+import { toLocalYMD } from '../../utils/rrule';
+import {
+  PAYMENTS_PER_YEAR, cancelCandidates, monthlyCost, subscriptionTotals, trialDaysLeft
+} from '../../utils/subscriptionInsights';
+import Modal from '../common/Modal';
+
+type BillingCycle = Subscription['billingCycle'];
+
+interface SubscriptionDraft {
+  name: string;
+  description: string;
+  cost: string;
+  currency: string;
+  billingCycle: BillingCycle;
+  nextPayment: string;
+  category: string;
+  trialEndsAt: string;
+}
+
+interface CalendarEntry {
+  id: string;
+  title: string;
+  amount: number;
+  currency: string;
+  posted: boolean;
+}
+
+const BILLING_CYCLES: BillingCycle[] = ['monthly', 'yearly', 'weekly', 'daily', 'one-time'];
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500';
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+const convert = (amount: number, from: string, to: string) => CurrencyService.convert(amount, from, to);
+
+const fromYMD = (ymd: string): Date => {
+  const [year, month, day] = ymd.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const emptyDraft = (): SubscriptionDraft => ({
+  name: '',
+  description: '',
+  cost: '',
+  currency: CurrencyService.getBaseCurrency(),
+  billingCycle: 'monthly',
+  nextPayment: TimeZoneService.todayYMD(),
+  category: '',
+  trialEndsAt: '',
+});
+
+const draftOf = (subscription: Subscription): SubscriptionDraft => ({
+  name: subscription.name,
+  description: subscription.description,
+  cost: String(subscription.cost),
+  currency: subscription.currency,
+  billingCycle: subscription.billingCycle,
+  nextPayment: toLocalYMD(new Date(subscription.nextPayment)),
+  category: subscription.category,
+  trialEndsAt: subscription.trialEndsAt ?? '',
+});
+
+/**
+ * Subscription manager: renewal calendar, normalised cost totals, free trials, category breakdown,
+ * price history and cancel candidates. Payments themselves are posted by the subscription engine (DataContext).
+ */
+const SubscriptionsView: React.FC = () => {
+  const { t } = useLanguage();
+  const { subscriptions, transactions, addSubscription, updateSubscription, deleteSubscription, getOccurrences } = useData();
+  const currency = CurrencyService.getBaseCurrency();
+
+  const [calendarMonth, setCalendarMonth] = useState(() => {
+    const today = TimeZoneService.today();
+    return new Date(today.getFullYear(), today.getMonth(), 1);
+  });
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<SubscriptionDraft>(emptyDraft);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+
+  const totals = useMemo(() => subscriptionTotals(subscriptions, currency, convert), [subscriptions, currency]);
+  const candidates = useMemo(() => cancelCandidates(subscriptions, convert), [subscriptions]);
+  const trials = useMemo(() => subscriptions
+    .map(subscription => ({ subscription, daysLeft: trialDaysLeft(subscription, TimeZoneService.today()) }))
+    .filter((trial): trial is { subscription: Subscription; daysLeft: number } => trial.daysLeft !== null)
+    .sort((a, b) => a.daysLeft - b.daysLeft), [subscriptions]);
+  const categories = useMemo(() => Object.entries(totals.byCategory).sort((a, b) => b[1] - a[1]), [totals]);
+  const knownCategories = useMemo(() => Array.from(new Set(subscriptions.map(s => s.category).filter(Boolean))).sort(), [subscriptions]);
+  const sorted = useMemo(() => [...subscriptions].sort((a, b) =>
+    Number(b.isActive) - Number(a.isActive) || new Date(a.nextPayment).getTime() - new Date(b.nextPayment).getTime()
+  ), [subscriptions]);
+
+  // Renewal calendar: posted payments and the upcoming ones of the month
+  const calendarDays = useMemo(() => {
+    const year = calendarMonth.getFullYear();
+    const month = calendarMonth.getMonth();
+    const leading = (calendarMonth.getDay() + 6) % 7;
+    const count = new Date(year, month + 1, 0).getDate();
+    return [...Array<null>(leading).fill(null), ...Array.from({ length: count }, (_, i) => new Date(year, month, i + 1))];
+  }, [calendarMonth]);
+
+  const entriesByDay = useMemo(() => {
+    const monthStart = calendarMonth;
+    const monthEnd = new Date(calendarMonth.getFullYear(), calendarMonth.getMonth() + 1, 0, 23, 59, 59, 999);
+    const byDay = new Map<string, CalendarEntry[]>();
+    const add = (ymd: string, entry: CalendarEntry) => byDay.set(ymd, [...(byDay.get(ymd) ?? []), entry]);
+
+    transactions.forEach(tx => {
+      if (!tx.subscriptionId) return;
+      const date = new Date(tx.date);
+      if (date < monthStart || date > monthEnd) return;
+      add(tx.effectiveDateYMD ?? toLocalYMD(date), {
+        id: tx.id, title: tx.description, amount: Math.abs(tx.amount), currency: tx.currency || currency, posted: true,
+      });
+    });
+    getOccurrences(monthStart, monthEnd, { sources: ['subscription'] }).forEach(occurrence => {
+      add(occurrence.ymd, {
+        id: occurrence.id, title: occurrence.title, amount: occurrence.amount ?? 0, currency: occurrence.currency || currency, posted: false,
+      });
+    });
+    return byDay;
+  }, [calendarMonth, transactions, getOccurrences, currency]);
+
+  const monthNames = [
+    t('months.january'), t('months.february'), t('months.march'), t('months.april'), t('months.may'), t('months.june'),
+    t('months.july'), t('months.august'), t('months.september'), t('months.october'), t('months.november'), t('months.december')
+  ];
+  const dayNamesShort = [
+    t('days.short.monday'), t('days.short.tuesday'), t('days.short.wednesday'), t('days.short.thursday'),
+    t('days.short.friday'), t('days.short.saturday'), t('days.short.sunday')
+  ];
+
+  const navigateMonth = (direction: 'prev' | 'next') => {
+    setCalendarMonth(prev => new Date(prev.getFullYear(), prev.getMonth() + (direction === 'next' ? 1 : -1), 1));
+  };
+
+  const openAdd = () => {
+    setEditingId(null);
+    setDraft(emptyDraft());
+    setFormOpen(true);
+  };
+
+  const openEdit = (subscription: Subscription) => {
+    setEditingId(subscription.id);
+    setDraft(draftOf(subscription));
+    setFormOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const cost = parseFloat(draft.cost);
+    if (!draft.name.trim() || !Number.isFinite(cost) || cost < 0 || !draft.nextPayment) return;
+
+    const values = {
+      name: draft.name.trim(),
+      description: draft.description.trim(),
+      cost,
+      currency: draft.currency,
+      billingCycle: draft.billingCycle,
+      nextPayment: fromYMD(draft.nextPayment),
+      category: draft.category.trim() || 'other',
+      trialEndsAt: draft.trialEndsAt || undefined,
+    };
+    if (editingId) {
+      updateSubscription(editingId, values);
+    } else {
+      addSubscription({ ...values, isActive: true, lastUsedAt: new Date().toISOString() });
+    }
+    setFormOpen(false);
+  };
+
+  const handleDelete = (subscription: Subscription) => {
+    if (confirm(t('subscriptions.confirmDelete'))) deleteSubscription(subscription.id);
+  };
+
+  const markUsed = (subscription: Subscription) => updateSubscription(subscription.id, { lastUsedAt: new Date().toISOString() });
+  const toggleActive = (subscription: Subscription) => updateSubscription(subscription.id, { isActive: !subscription.isActive });
+
+  const format = (amount: number, code: string = currency) => CurrencyService.format(amount, code);
+  const formatDay = (value: Date | string) => new Date(value).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+  const todayYMD = TimeZoneService.todayYMD();
+  const maxCategory = categories[0]?.[1] ?? 0;
+  const activeCount = subscriptions.filter(s => s.isActive).length;
+
+  return (
+    <div className="view-container">
+      {/* Header */}
+      <div className="mb-6 md:mb-8">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4 md:mb-6">
+          <div>
+            <h1 className="view-title flex items-center gap-2 md:gap-3">
+              <CreditCard className="text-indigo-500 w-6 h-6 md:w-8 md:h-8" />
+              {t('subscriptions.title')}
+            </h1>
+            <p className="view-subtitle">{t('subscriptions.subtitle')}</p>
+          </div>
+          <button
+            onClick={openAdd}
+            className="bg-indigo-500 hover:bg-indigo-600 text-white px-6 py-3 rounded-lg flex items-center gap-2 transition-colors duration-200 shadow-md hover:shadow-lg"
+          >
+            <Plus size={20} />
+            {t('subscriptions.add')}
+          </button>
+        </div>
+
+        {/* Totals */}
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 md:gap-4">
+          <div className="card-compact bg-gradient-to-r from-indigo-500 to-purple-500 text-white border-none">
+            <div className="text-xl md:text-2xl font-bold">{format(totals.monthly)}</div>
+            <div className="text-xs md:text-sm opacity-90 mt-1">{t('subscriptions.monthlyTotal')}</div>
+          </div>
+          <div className="card-compact bg-gradient-to-r from-blue-500 to-indigo-500 text-white border-none">
+            <div className="text-xl md:text-2xl font-bold">{format(totals.annual)}</div>
+            <div className="text-xs md:text-sm opacity-90 mt-1">{t('subscriptions.annualTotal')}</div>
+          </div>
+          <div className="card-compact bg-gradient-to-r from-green-500 to-teal-500 text-white border-none">
+            <div className="text-xl md:text-2xl font-bold">{activeCount}/{subscriptions.length}</div>
+            <div className="text-xs md:text-sm opacity-90 mt-1">{t('subscriptions.active')}</div>
+          </div>
+          <div className="card-compact bg-gradient-to-r from-orange-500 to-red-500 text-white border-none">
+            <div className="text-xl md:text-2xl font-bold">{candidates.length}</div>
+            <div className="text-xs md:text-sm opacity-90 mt-1">{t('subscriptions.cancelCandidates')}</div>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+        {/* Renewal calendar */}
+        <div className="card lg:col-span-2">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-bold text-gray-900 dark:text-white">{t('subscriptions.calendar')}</h2>
+            <div className="flex items-center gap-2">
+              <button onClick={() => navigateMonth('prev')} className="p-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg" aria-label="Previous month">
+                <ChevronLeft size={18} />
+              </button>
+              <span className="text-sm font-semibold text-gray-900 dark:text-white min-w-32 text-center">
+                {monthNames[calendarMonth.getMonth()]} {calendarMonth.getFullYear()}
+              </span>
+              <button onClick={() => navigateMonth('next')} className="p-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg" aria-label="Next month">
+                <ChevronRight size={18} />
+              </button>
+            </div>
+          </div>
+          <div className="grid grid-cols-7 gap-1">
+            {dayNamesShort.map(day => (
+              <div key={day} className="text-center text-xs font-semibold text-gray-500 dark:text-gray-400 py-1">{day}</div>
+            ))}
+            {calendarDays.map((day, index) => {
+              if (!day) return <div key={`blank-${index}`} />;
+              const ymd = toLocalYMD(day);
+              const entries = entriesByDay.get(ymd) ?? [];
+              return (
+                <div
+                  key={ymd}
+                  className={`min-h-20 p-1 rounded-lg border text-xs ${ymd === todayYMD ? 'border-indigo-400 bg-indigo-50 dark:bg-indigo-900/20' : 'border-gray-100 dark:border-gray-700'}`}
+                >
+                  <div className="font-medium text-gray-700 dark:text-gray-300 mb-1">{day.getDate()}</div>
+                  {entries.map(entry => (
+                    <div
+                      key={entry.id}
+                      title={`${entry.title} - ${format(entry.amount, entry.currency)}`}
+                      className={`truncate rounded px-1 mb-0.5 ${entry.posted ? 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300' : 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900/30 dark:text-indigo-300'}`}
+                    >
+                      {entry.posted && <CheckCircle size={9} className="inline mr-0.5" />}
+                      {entry.title}
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          {/* Category breakdown */}
+          <div className="card">
+            <h2 className="text-lg font-bold text-gray-900 dark:text-white mb-3 flex items-center gap-2">
+              <PieChart size={18} className="text-indigo-500" />
+              {t('subscriptions.byCategory')}
+            </h2>
+            {categories.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">{t('subscriptions.empty')}</p>
+            ) : (
+              <div className="space-y-2">
+                {categories.map(([category, amount]) => (
+                  <div key={category}>
+                    <div className="flex justify-between text-sm text-gray-700 dark:text-gray-300 mb-1">
+                      <span className="truncate">{category}</span>
+                      <span className="font-medium">{format(amount)}{t('subscriptions.perMonth')}</span>
+                    </div>
+                    <div className="w-full bg-gray-200 dark:bg-gray-600 rounded-full h-1.5 overflow-hidden">
+                      <div className="bg-indigo-500 h-full rounded-full" style={{ width: `${maxCategory > 0 ? (amount / maxCategory) * 100 : 0}%` }} />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Free trials */}
+          <div className="card">
+            <h2 className="text-lg font-bold text-gray-900 dark:text-white mb-3 flex items-center gap-2">
+              <Clock size={18} className="text-amber-500" />
+              {t('subscriptions.trials')}
+            </h2>
+            {trials.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">{t('subscriptions.noTrials')}</p>
+            ) : (
+              <ul className="space-y-2">
+                {trials.map(({ subscription, daysLeft }) => (
+                  <li key={subscription.id} className="flex items-center justify-between text-sm">
+                    <span className="truncate text-gray-900 dark:text-white">{subscription.name}</span>
+                    <span className={`font-medium ${daysLeft <= 3 ? 'text-red-500' : 'text-amber-600 dark:text-amber-400'}`}>
+                      {daysLeft === 0 ? t('subscriptions.trialEndsToday') : t('subscriptions.trialEndsIn').replace('{days}', String(daysLeft))}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Cancel candidates */}
+          <div className="card">
+            <h2 className="text-lg font-bold text-gray-900 dark:text-white mb-3 flex items-center gap-2">
+              <AlertTriangle size={18} className="text-red-500" />
+              {t('subscriptions.cancelCandidates')}
+            </h2>
+            {candidates.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">{t('subscriptions.noCandidates')}</p>
+            ) : (
+              <ul className="space-y-3">
+                {candidates.map(({ subscription, reasons }) => (
+                  <li key={subscription.id} className="text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="truncate font-medium text-gray-900 dark:text-white">{subscription.name}</span>
+                      <span className="text-gray-500 dark:text-gray-400">{format(monthlyCost(subscription, currency, convert))}{t('subscriptions.perMonth')}</span>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-1 mt-1">
+                      {reasons.map(reason => (
+                        <span key={reason} className="text-xs px-2 py-0.5 rounded-full bg-red-100 text-red-700 dark:bg-red-900/20 dark:text-red-400">
+                          {t(`subscriptions.reason.${reason}`)}
+                        </span>
+                      ))}
+                      <button onClick={() => markUsed(subscription)} className="text-xs text-indigo-600 dark:text-indigo-400 hover:underline ml-auto">
+                        {t('subscriptions.markUsed')}
+                      </button>
+                      <button onClick={() => toggleActive(subscription)} className="text-xs text-red-600 dark:text-red-400 hover:underline">
+                        {t('subscriptions.cancel')}
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Subscription list */}
+      <div className="card">
+        <h2 className="text-lg font-bold text-gray-900 dark:text-white mb-4">{t('subscriptions.all')}</h2>
+        {sorted.length === 0 ? (
+          <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+            <CreditCard className="w-12 h-12 mx-auto mb-2 opacity-50" />
+            <p>{t('subscriptions.empty')}</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {sorted.map(subscription => {
+              const daysLeft = trialDaysLeft(subscription, TimeZoneService.today());
+              const history = subscription.priceHistory ?? [];
+              return (
+                <div
+                  key={subscription.id}
+                  className={`p-4 rounded-lg border border-gray-200 dark:border-gray-700 ${subscription.isActive ? 'bg-white dark:bg-gray-800' : 'bg-gray-50 dark:bg-gray-900 opacity-70'}`}
+                >
+                  <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-semibold text-gray-900 dark:text-white truncate">{subscription.name}</span>
+                        <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300">{subscription.category}</span>
+                        {!subscription.isActive && (
+                          <span className="text-xs px-2 py-0.5 rounded-full bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300">{t('subscriptions.paused')}</span>
+                        )}
+                        {daysLeft !== null && (
+                          <span className="text-xs px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900/20 dark:text-amber-400">{t('subscriptions.trial')}</span>
+                        )}
+                      </div>
+                      <div className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                        {format(subscription.cost, subscription.currency)} / {t(`subscriptions.cycle.${subscription.billingCycle}`)}
+                        {PAYMENTS_PER_YEAR[subscription.billingCycle] > 0 && (
+                          <> · {format(monthlyCost(subscription, currency, convert))}{t('subscriptions.perMonth')}</>
+                        )}
+                        {subscription.isActive && <> · {t('subscriptions.nextPayment')}: {formatDay(subscription.nextPayment)}</>}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      {history.length > 0 && (
+                        <button
+                          onClick={() => setHistoryId(historyId === subscription.id ? null : subscription.id)}
+                          title={t('subscriptions.priceHistory')}
+                          className="p-2 text-gray-500 hover:text-indigo-600 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"
+                        >
+                          <History size={16} />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => markUsed(subscription)}
+                        title={t('subscriptions.markUsed')}
+                        className="p-2 text-gray-500 hover:text-green-600 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"
+                      >
+                        <CheckCircle size={16} />
+                      </button>
+                      <button
+                        onClick={() => toggleActive(subscription)}
+                        title={subscription.isActive ? t('subscriptions.pause') : t('subscriptions.resume')}
+                        className="p-2 text-gray-500 hover:text-amber-600 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"
+                      >
+                        {subscription.isActive ? <Pause size={16} /> : <Play size={16} />}
+                      </button>
+                      <button
+                        onClick={() => openEdit(subscription)}
+                        title={t('common.edit')}
+                        className="p-2 text-gray-500 hover:text-blue-600 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"
+                      >
+                        <Edit size={16} />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(subscription)}
+                        title={t('common.delete')}
+                        className="p-2 text-gray-500 hover:text-red-600 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  </div>
+
+                  {historyId === subscription.id && (
+                    <ul className="mt-3 pt-3 border-t border-gray-100 dark:border-gray-700 space-y-1 text-sm">
+                      {[...history].reverse().map(change => (
+                        <li key={change.date} className="flex items-center gap-2 text-gray-600 dark:text-gray-300">
+                          <span className="text-gray-500 dark:text-gray-400 w-28 flex-shrink-0">{formatDay(change.date)}</span>
+                          <span>{format(change.previousCost, change.previousCurrency)} → {format(change.cost, change.currency)}</span>
+                          {convert(change.cost, change.currency, change.previousCurrency) > change.previousCost && (
+                            <TrendingUp size={14} className="text-red-500" />
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <Modal
+        isOpen={formOpen}
+        onClose={() => setFormOpen(false)}
+        title={editingId ? t('subscriptions.edit') : t('subscriptions.add')}
+      >
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className={labelClass}>{t('subscriptions.field.name')}</label>
+            <input type="text" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={inputClass} required />
+          </div>
+          <div>
+            <label className={labelClass}>{t('subscriptions.field.description')}</label>
+            <input type="text" value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} className={inputClass} />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>{t('subscriptions.field.cost')}</label>
+              <input type="number" min="0" step="0.01" value={draft.cost} onChange={(e) => setDraft({ ...draft, cost: e.target.value })} className={inputClass} required />
+            </div>
+            <div>
+              <label className={labelClass}>{t('subscriptions.field.currency')}</label>
+              <select value={draft.currency} onChange={(e) => setDraft({ ...draft, currency: e.target.value })} className={inputClass}>
+                {AVAILABLE_CURRENCIES.map(c => (
+                  <option key={c.code} value={c.code}>{c.code}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>{t('subscriptions.field.billingCycle')}</label>
+              <select value={draft.billingCycle} onChange={(e) => setDraft({ ...draft, billingCycle: e.target.value as BillingCycle })} className={inputClass}>
+                {BILLING_CYCLES.map(cycle => (
+                  <option key={cycle} value={cycle}>{t(`subscriptions.cycle.${cycle}`)}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>{t('subscriptions.nextPayment')}</label>
+              <input type="date" value={draft.nextPayment} onChange={(e) => setDraft({ ...draft, nextPayment: e.target.value })} className={inputClass} required />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>{t('subscriptions.field.category')}</label>
+              <input
+                type="text"
+                list="subscription-categories"
+                value={draft.category}
+                onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+                className={inputClass}
+              />
+              <datalist id="subscription-categories">
+                {knownCategories.map(category => <option key={category} value={category} />)}
+              </datalist>
+            </div>
+            <div>
+              <label className={labelClass}>{t('subscriptions.field.trialEndsAt')}</label>
+              <input type="date" value={draft.trialEndsAt} onChange={(e) => setDraft({ ...draft, trialEndsAt: e.target.value })} className={inputClass} />
+            </div>
+          </div>
+          <div className="flex gap-3 pt-2">
+            <button type="submit" className="flex-1 bg-indigo-500 hover:bg-indigo-600 text-white py-2 px-4 rounded-lg transition-colors duration-200">
+              {t('common.save')}
+            </button>
+            <button type="button" onClick={() => setFormOpen(false)} className="flex-1 bg-gray-500 hover:bg-gray-600 text-white py-2 px-4 rounded-lg transition-colors duration-200">
+              {t('common.cancel')}
+            </button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+};
+
+export default SubscriptionsView;
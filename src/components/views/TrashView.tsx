@@ -0,0 +1,157 @@
+import React, { useMemo, useState } from 'react';
+import { Trash2, RotateCcw, XCircle, Clock } from 'lucide-react';
+import { useData } from '../../contexts/DataContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useSettings } from '../../contexts/SettingsContext';
+import { TRASH_COLLECTIONS, TRASH_RETENTION_OPTIONS, TrashCollection, TrashEntry } from '../../utils/trash';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Deleted records grouped by type, with restore, permanent delete and the retention setting
+ */
+const TrashView: React.FC = () => {
+  const { t } = useLanguage();
+  const { trash, restoreFromTrash, purgeFromTrash, emptyTrash } = useData();
+  const { settings, updateSettings } = useSettings();
+  const [filter, setFilter] = useState<TrashCollection | 'all'>('all');
+
+  const retentionDays = settings.data?.trashRetentionDays ?? 0;
+
+  const grouped = useMemo(() => {
+    const groups = new Map<TrashCollection, TrashEntry[]>();
+    trash
+      .filter(entry => filter === 'all' || entry.collection === filter)
+      .forEach(entry => groups.set(entry.collection, [...(groups.get(entry.collection) ?? []), entry]));
+    return TRASH_COLLECTIONS.filter(collection => groups.has(collection)).map(collection => ({ collection, entries: groups.get(collection)! }));
+  }, [trash, filter]);
+
+  const counts = useMemo(() => {
+    const result: Partial<Record<TrashCollection, number>> = {};
+    trash.forEach(entry => { result[entry.collection] = (result[entry.collection] ?? 0) + 1; });
+    return result;
+  }, [trash]);
+
+  const purgesIn = (entry: TrashEntry) => {
+    if (retentionDays <= 0) return null;
+    const days = Math.max(0, Math.ceil((Date.parse(entry.deletedAt) + retentionDays * DAY_MS - Date.now()) / DAY_MS));
+    return t('trash.purgesIn').replace('{days}', String(days));
+  };
+
+  const handlePurge = (entry: TrashEntry) => {
+    if (confirm(t('trash.purgeConfirm'))) purgeFromTrash(entry.collection, entry.id);
+  };
+
+  const handleEmpty = () => {
+    if (confirm(t('trash.emptyConfirm').replace('{count}', String(trash.length)))) emptyTrash();
+  };
+
+  return (
+    <div className="view-container">
+      <div className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h1 className="view-title flex items-center gap-3">
+            <div className="p-2.5 rounded-xl bg-gradient-to-br from-gray-500 to-slate-700 shadow-lg shadow-gray-500/30">
+              <Trash2 size={24} className="text-white" />
+            </div>
+            {t('trash.title')}
+          </h1>
+          <p className="view-subtitle max-w-2xl">{t('trash.subtitle')}</p>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+            <Clock size={16} />
+            {t('trash.retention')}
+            <select
+              value={retentionDays}
+              onChange={e => updateSettings({ data: { ...settings.data, trashRetentionDays: Number(e.target.value) } })}
+              className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              {TRASH_RETENTION_OPTIONS.map(days => (
+                <option key={days} value={days}>
+                  {days === 0 ? t('trash.retentionNever') : t('trash.retentionDays').replace('{days}', String(days))}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={handleEmpty}
+            disabled={trash.length === 0}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white text-sm font-medium transition-colors"
+          >
+            <XCircle size={16} />
+            {t('trash.empty')}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-6">
+        {(['all', ...TRASH_COLLECTIONS] as const).map(option => {
+          const count = option === 'all' ? trash.length : counts[option] ?? 0;
+          if (option !== 'all' && count === 0) return null;
+          return (
+            <button
+              key={option}
+              onClick={() => setFilter(option)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${filter === option
+                ? 'bg-primary-600 text-white'
+                : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'}`}
+            >
+              {t(`trash.type.${option}`)} ({count})
+            </button>
+          );
+        })}
+      </div>
+
+      {grouped.length === 0 ? (
+        <div className="card text-center py-16 text-gray-500 dark:text-gray-400">
+          <Trash2 size={40} className="mx-auto mb-3 opacity-50" />
+          {t('trash.emptyState')}
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {grouped.map(({ collection, entries }) => (
+            <div key={collection} className="card">
+              <h3 className="font-semibold text-gray-900 dark:text-white mb-3">
+                {t(`trash.type.${collection}`)} ({entries.length})
+              </h3>
+              <div className="divide-y divide-gray-100 dark:divide-gray-700">
+                {entries.map(entry => (
+                  <div key={entry.id} className="flex items-center justify-between gap-3 py-3">
+                    <div className="min-w-0">
+                      <div className="font-medium text-gray-900 dark:text-white truncate">{entry.label}</div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        {t('trash.deletedAt').replace('{date}', new Date(entry.deletedAt).toLocaleString())}
+                        {entry.bundled > 0 && ` · ${t('trash.bundled').replace('{count}', String(entry.bundled))}`}
+                        {purgesIn(entry) && ` · ${purgesIn(entry)}`}
+                      </div>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <button
+                        onClick={() => restoreFromTrash(entry.collection, entry.id)}
+                        className="flex items-center gap-1 px-3 py-1.5 text-xs rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200 transition-colors"
+                      >
+                        <RotateCcw size={14} />
+                        {t('trash.restore')}
+                      </button>
+                      <button
+                        onClick={() => handlePurge(entry)}
+                        title={t('trash.purge')}
+                        className="p-1.5 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TrashView;
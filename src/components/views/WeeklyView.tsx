@@ -1,21 +1,27 @@
 import React, { useState } from 'react';
-import { Plus, CalendarDays, ChevronLeft, ChevronRight, CheckCircle, Circle, Pencil, Trash2 } from 'lucide-react';
+import { Plus, CalendarDays, ChevronLeft, ChevronRight, CheckCircle, Circle, Pencil, Trash2, Repeat } from 'lucide-react';
 import { useData } from '../../contexts/DataContext';
 import { useLanguage } from '../../contexts/LanguageContext';
-import { PlanItem } from '../../types/planner';
+import { TimeZoneService } from '../../services/TimeZoneService';
+import { usePlanOccurrences, usePlanOccurrenceActions } from '../../hooks/usePlanOccurrences';
+import { PlanOccurrence } from '../../utils/planSeries';
+import RecurrencePicker from '../common/RecurrencePicker';
+import SeriesScopeDialog from '../common/SeriesScopeDialog';
 
 const WeeklyView: React.FC = () => {
-  const { plans, addPlan, updatePlan, deletePlan } = useData();
+  const { addPlan } = useData();
   const { t } = useLanguage();
-  const [currentWeek, setCurrentWeek] = useState(new Date());
+  const [currentWeek, setCurrentWeek] = useState(() => TimeZoneService.today());
   const [showAddForm, setShowAddForm] = useState(false);
   const [selectedDay, setSelectedDay] = useState<Date | null>(null);
-  const [editingPlan, setEditingPlan] = useState<PlanItem | null>(null);
+  const [editingPlan, setEditingPlan] = useState<PlanOccurrence | null>(null);
   const [newPlan, setNewPlan] = useState({
     title: '',
     description: '',
     priority: 'medium' as 'low' | 'medium' | 'high',
+    rrule: '',
   });
+  const planActions = usePlanOccurrenceActions();
 
   const getWeekDays = (date: Date) => {
     const week = [];
@@ -33,6 +39,10 @@ const WeeklyView: React.FC = () => {
   };
 
   const weekDays = getWeekDays(currentWeek);
+  const weekPlans = usePlanOccurrences(
+    new Date(weekDays[0].getFullYear(), weekDays[0].getMonth(), weekDays[0].getDate()),
+    new Date(weekDays[6].getFullYear(), weekDays[6].getMonth(), weekDays[6].getDate(), 23, 59, 59, 999)
+  );
   const dayNames = [
     t('days.monday'), t('days.tuesday'), t('days.wednesday'), t('days.thursday'),
     t('days.friday'), t('days.saturday'), t('days.sunday')
@@ -58,7 +68,7 @@ const WeeklyView: React.FC = () => {
 
   const getPlansForDay = (date: Date) => {
     const dateStr = formatDate(date);
-    return plans.filter(plan =>
+    return weekPlans.filter(plan =>
       formatDate(plan.date) === dateStr
     );
   };
@@ -68,10 +78,11 @@ const WeeklyView: React.FC = () => {
 
     if (editingPlan) {
       // Update existing plan
-      updatePlan(editingPlan.id, {
+      planActions.update(editingPlan, {
         title: newPlan.title,
         description: newPlan.description,
         priority: newPlan.priority,
+        rrule: newPlan.rrule || undefined,
       });
     } else if (selectedDay) {
       // Add new plan
@@ -82,6 +93,7 @@ const WeeklyView: React.FC = () => {
         completed: false,
         priority: newPlan.priority,
         linkedNotes: [],
+        ...(newPlan.rrule && { rrule: newPlan.rrule }),
       });
     }
 
@@ -89,27 +101,29 @@ const WeeklyView: React.FC = () => {
   };
 
   const resetForm = () => {
-    setNewPlan({ title: '', description: '', priority: 'medium' });
+    setNewPlan({ title: '', description: '', priority: 'medium', rrule: '' });
     setShowAddForm(false);
     setSelectedDay(null);
     setEditingPlan(null);
   };
 
-  const handleEditPlan = (plan: PlanItem, e: React.MouseEvent) => {
+  const handleEditPlan = (plan: PlanOccurrence, e: React.MouseEvent) => {
     e.stopPropagation();
     setEditingPlan(plan);
     setNewPlan({
       title: plan.title,
       description: plan.description || '',
       priority: plan.priority,
+      rrule: plan.rrule ?? '',
     });
     setShowAddForm(true);
   };
 
-  const handleDeletePlan = (planId: string, e: React.MouseEvent) => {
+  const handleDeletePlan = (plan: PlanOccurrence, e: React.MouseEvent) => {
     e.stopPropagation();
-    if (window.confirm(t('common.confirmDelete') || 'Biztosan törölni szeretnéd?')) {
-      deletePlan(planId);
+    // Occurrences of a series ask for the scope instead
+    if (plan.seriesId || window.confirm(t('common.confirmDelete') || 'Biztosan törölni szeretnéd?')) {
+      planActions.remove(plan);
     }
   };
 
@@ -146,7 +160,7 @@ const WeeklyView: React.FC = () => {
               </button>
 
               <button
-                onClick={() => setCurrentWeek(new Date())}
+                onClick={() => setCurrentWeek(TimeZoneService.today())}
                 className="px-3 py-1.5 text-sm font-medium text-purple-600 bg-purple-50 dark:bg-purple-900/20 dark:text-purple-400 rounded-md hover:bg-purple-100 dark:hover:bg-purple-900/40 transition-colors"
               >
                 {t('common.today') || 'Ma'}
@@ -222,6 +236,12 @@ const WeeklyView: React.FC = () => {
                 </select>
               </div>
 
+              <RecurrencePicker
+                value={newPlan.rrule}
+                onChange={(rrule) => setNewPlan({ ...newPlan, rrule })}
+                start={editingPlan ? new Date(editingPlan.date) : selectedDay ?? TimeZoneService.today()}
+              />
+
               <div className="flex gap-3 pt-4">
                 <button
                   type="submit"
@@ -245,7 +265,7 @@ const WeeklyView: React.FC = () => {
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-7 gap-4">
         {weekDays.map((day, index) => {
           const dayPlans = getPlansForDay(day);
-          const isToday = day.toDateString() === new Date().toDateString();
+          const isToday = day.toDateString() === TimeZoneService.today().toDateString();
           const completedTasks = dayPlans.filter(plan => plan.completed).length;
 
           return (
@@ -285,7 +305,7 @@ const WeeklyView: React.FC = () => {
                       <button
                         onClick={(e) => {
                           e.stopPropagation();
-                          updatePlan(plan.id, { completed: !plan.completed });
+                          planActions.toggleCompleted(plan);
                         }}
                         className="text-purple-500 hover:text-purple-600 transition-colors duration-200"
                       >
@@ -294,10 +314,11 @@ const WeeklyView: React.FC = () => {
                       <span className={`text-sm font-medium flex-1 ${plan.completed ? 'line-through text-gray-500' : 'text-gray-900 dark:text-white'}`}>
                         {plan.title.length > 15 ? plan.title.substring(0, 15) + '...' : plan.title}
                       </span>
+                      {plan.seriesId && <Repeat size={12} className="text-gray-400 shrink-0" />}
                       <div className="hidden group-hover:flex items-center gap-1">
                         <Pencil size={12} className="text-gray-400" />
                         <button
-                          onClick={(e) => handleDeletePlan(plan.id, e)}
+                          onClick={(e) => handleDeletePlan(plan, e)}
                           className="text-red-400 hover:text-red-600"
                         >
                           <Trash2 size={12} />
@@ -332,6 +353,14 @@ const WeeklyView: React.FC = () => {
           );
         })}
       </div>
+
+      <SeriesScopeDialog
+        isOpen={!!planActions.pending}
+        action={planActions.pending?.action ?? 'edit'}
+        allowThis={planActions.pending?.allowThis}
+        onChoose={planActions.chooseScope}
+        onClose={planActions.cancel}
+      />
     </div>
   );
 };
@@ -1,14 +1,24 @@
-import React, { useState } from 'react';
-import { CalendarCheck, ChevronLeft, ChevronRight, TrendingUp, Target, CheckCircle, Calendar } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { CalendarCheck, ChevronLeft, ChevronRight, TrendingUp, Target, CheckCircle, Calendar, Repeat } from 'lucide-react';
 import { useData } from '../../contexts/DataContext';
 import { useLanguage } from '../../contexts/LanguageContext';
+import { TimeZoneService } from '../../services/TimeZoneService';
+import { formatCurrency } from '../../utils/formatters';
 
 const YearlyView: React.FC = () => {
-  const { plans, goals } = useData();
+  const { goals, getOccurrences } = useData();
   const { t } = useLanguage();
-  const [currentYear, setCurrentYear] = useState(new Date().getFullYear());
+  const [currentYear, setCurrentYear] = useState(() => TimeZoneService.today().getFullYear());
   const [selectedMonth, setSelectedMonth] = useState<number | null>(null);
 
+  // Plans (recurring ones expanded), upcoming recurring transactions and subscription payments of the year
+  const yearOccurrences = useMemo(
+    () => getOccurrences(new Date(currentYear, 0, 1), new Date(currentYear, 11, 31, 23, 59, 59, 999)),
+    [getOccurrences, currentYear]
+  );
+  const plans = yearOccurrences.filter(occurrence => occurrence.source === 'plan');
+  const payments = yearOccurrences.filter(occurrence => occurrence.source !== 'plan');
+
   // Use translation keys for localized month names
   const monthKeys = [
     'months.january', 'months.february', 'months.march', 'months.april', 'months.may', 'months.june',
@@ -22,16 +32,14 @@ const YearlyView: React.FC = () => {
   };
 
   const getMonthData = (monthIndex: number) => {
-    const monthPlans = plans.filter(plan => {
-      const planDate = new Date(plan.date);
-      return planDate.getFullYear() === currentYear && planDate.getMonth() === monthIndex;
-    });
+    const monthPlans = plans.filter(plan => plan.date.getMonth() === monthIndex);
+    const monthPayments = payments.filter(payment => payment.date.getMonth() === monthIndex);
 
     const completed = monthPlans.filter(plan => plan.completed).length;
     const total = monthPlans.length;
     const completionRate = total > 0 ? (completed / total) * 100 : 0;
 
-    return { total, completed, completionRate, plans: monthPlans };
+    return { total, completed, completionRate, plans: monthPlans, payments: monthPayments };
   };
 
   const handleMonthClick = (monthIndex: number) => {
@@ -44,10 +52,8 @@ const YearlyView: React.FC = () => {
   });
 
   const yearlyStats = {
-    totalPlans: plans.filter(plan => new Date(plan.date).getFullYear() === currentYear).length,
-    completedPlans: plans.filter(plan =>
-      new Date(plan.date).getFullYear() === currentYear && plan.completed
-    ).length,
+    totalPlans: plans.length,
+    completedPlans: plans.filter(plan => plan.completed).length,
     activeGoals: yearlyGoals.filter(goal => goal.status === 'in-progress').length,
     completedGoals: yearlyGoals.filter(goal => goal.status === 'completed').length,
   };
@@ -151,7 +157,8 @@ const YearlyView: React.FC = () => {
           {monthKeys.map((monthKey, index) => {
             const monthName = t(monthKey);
             const monthData = getMonthData(index);
-            const isCurrentMonth = new Date().getFullYear() === currentYear && new Date().getMonth() === index;
+            const today = TimeZoneService.today();
+            const isCurrentMonth = today.getFullYear() === currentYear && today.getMonth() === index;
             const isSelected = selectedMonth === index;
 
             return (
@@ -181,6 +188,12 @@ const YearlyView: React.FC = () => {
                   <div className="text-xs md:text-sm text-gray-600 dark:text-gray-400 mt-1">
                     {monthData.total} {monthData.total === 1 ? t('yearly.monthly.plan') : t('yearly.monthly.plans')}
                   </div>
+                  {monthData.payments.length > 0 && (
+                    <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5 flex items-center justify-center gap-1">
+                      <Repeat size={10} />
+                      {monthData.payments.length} {t('yearly.monthly.payments')}
+                    </div>
+                  )}
                 </div>
 
                 {/* Progress Bar */}
@@ -266,6 +279,29 @@ const YearlyView: React.FC = () => {
                 <p>{t('yearly.monthly.noPlans')}</p>
               </div>
             )}
+
+            {getMonthData(selectedMonth).payments.length > 0 && (
+              <div className="mt-4">
+                <h5 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2 flex items-center gap-1">
+                  <Repeat size={14} />
+                  {t('yearly.monthly.scheduledPayments')}
+                </h5>
+                <div className="space-y-1">
+                  {getMonthData(selectedMonth).payments.map((payment) => (
+                    <div
+                      key={payment.id}
+                      className="flex items-center justify-between gap-3 px-3 py-2 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 text-sm"
+                    >
+                      <span className="text-gray-500 dark:text-gray-400 flex-shrink-0">{payment.date.getDate()}.</span>
+                      <span className="flex-1 min-w-0 truncate text-gray-900 dark:text-white">{payment.title}</span>
+                      <span className={`font-medium flex-shrink-0 ${payment.type === 'income' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                        {payment.type === 'income' ? '+' : '-'}{formatCurrency(payment.amount ?? 0, payment.currency || 'USD')}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -1,6 +1,8 @@
 // src/components/views/useBudgetAnalytics.ts
 import { useCallback, useMemo } from 'react';
 import { Transaction } from '../../types/planner';
+import { VirtualOccurrence } from '../../utils/occurrences';
+import { TimeZoneService } from '../../services/TimeZoneService';
 
 /**
  * useBudgetAnalytics Hook - PhD Level Financial Engine (Pure Version)
@@ -9,12 +11,17 @@ import { Transaction } from '../../types/planner';
  * 
  * PURE API: Does not accept translation functions or UI config.
  * Returns raw data keyed by category IDs; consumers map to UI labels.
+ *
+ * Recurring masters are projected through `scheduled` (DataContext.getOccurrences), which follows their
+ * RRULE and EXDATEs; the masters themselves never count.
+ * Booked transactions convert at the rate of their day; scheduled occurrences at today's rate.
  */
 export const useBudgetAnalytics = (
     transactions: Transaction[],
     currency: string,
-    safeConvert: (amount: number, fromCurrency: string, toCurrency: string) => number,
-    projectionYears: number = 1
+    safeConvert: (amount: number, fromCurrency: string, toCurrency: string, onDate?: Date | string) => number,
+    projectionYears: number = 1,
+    scheduled: VirtualOccurrence[] = []
 ) => {
 
 
@@ -27,16 +34,15 @@ export const useBudgetAnalytics = (
         return Number.isNaN(dt.getTime()) ? null : dt;
     };
 
-    const endOfToday = (): Date => {
-        const now = new Date();
-        now.setHours(23, 59, 59, 999);
-        return now;
-    };
+    const endOfToday = (): Date => TimeZoneService.endOfToday();
 
     const ensureCurrency = (c?: string) => (c && c.trim() ? c : 'USD');
 
     const isMaster = (tr: Transaction) => tr.kind === 'master';
 
+    /** Day whose exchange rate applies to a booked transaction */
+    const rateDay = (tr: Transaction): Date | string => tr.effectiveDateYMD ?? tr.date;
+
     // ... existing helpers ...
 
     // Derived Key Metrics (re-inserting to ensure scope availability if needed, but primarily for the return object update below)
@@ -49,105 +55,18 @@ export const useBudgetAnalytics = (
         return dt.getTime() > now.getTime();
     };
 
-    /**
-     * PH-D LEVEL DATE MATH: Prevents "Feb 28 drift".
-     * If user creates on the 31st, it stays on the 31st (or end of month) forever.
-     */
-    const addMonthsWithAnchor = (anchorDate: Date, monthsToAdd: number): Date => {
-        const result = new Date(anchorDate);
-        const originalDay = anchorDate.getDate();
-        result.setMonth(result.getMonth() + monthsToAdd);
-
-        // If the month ended before the original day (e.g. Jan 31 + 1 month -> Mar 3 drift)
-        // we snap it back to the last day of the intended month.
-        if (result.getDate() !== originalDay) {
-            result.setDate(0);
-        }
-        return result;
-    };
-
-    /**
-     * PH-D LEVEL HIGH PERFORMANCE RECURRENCE ENGINE
-     * Goal: O(1) performance for Daily/Weekly to prevent UI freezes on long projections.
-     */
-    const calculateOccurrences = useCallback((tr: Transaction, start: Date, end: Date): number => {
-        // Standalone transactions always count as 1 if they fall in the window
-        if (!tr.recurring || tr.period === 'oneTime') return 1;
-
-        const trDate = toDateSafe(tr.date);
-        if (!trDate) return 0;
-
-        // Boundary Check: If the recurring series starts after our window ends, 0 hits.
-        if (trDate.getTime() > end.getTime()) return 0;
-
-        // Effective start is the junction of (transaction start) and (window start).
-        const junctionStart = new Date(Math.max(trDate.getTime(), start.getTime()));
-
-        // If junction is past the window end, 0 hits.
-        if (junctionStart.getTime() > end.getTime()) return 0;
-
-        switch (tr.period) {
-            // O(1) Mathematical Logic for Linear Recurrences
-            case 'daily': {
-                const diffTime = end.getTime() - junctionStart.getTime();
-                return Math.floor(diffTime / (24 * 3600 * 1000)) + 1;
-            }
-            case 'weekly': {
-                const diffTime = end.getTime() - junctionStart.getTime();
-                return Math.floor(diffTime / (7 * 24 * 3600 * 1000)) + 1;
-            }
-
-            // Optimized Traversal for Non-Linear Calendar Recurrences
-            case 'monthly': {
-                let count = 0;
-                // Fast-Forward Logic: Calculate initial month skip to avoid looping from transaction creation date
-                let monthsToSkip = 0;
-                if (junctionStart.getTime() > trDate.getTime()) {
-                    const yearDiff = junctionStart.getFullYear() - trDate.getFullYear();
-                    const monthDiff = junctionStart.getMonth() - trDate.getMonth();
-                    // We step back 1 month to ensure we don't skip the landing month's occurrence
-                    monthsToSkip = Math.max(0, yearDiff * 12 + monthDiff - 1);
-                }
-
-                let current = addMonthsWithAnchor(trDate, monthsToSkip);
-                let iterations = 0;
-                while (current.getTime() <= end.getTime() && iterations < 1200) { // 100 year hard cap
-                    if (current.getTime() >= start.getTime()) {
-                        count++;
-                    }
-                    iterations++;
-                    current = addMonthsWithAnchor(trDate, monthsToSkip + iterations);
-                }
-                return count;
-            }
-
-            case 'yearly': {
-                let count = 0;
-                const yearsToSkip = Math.max(0, junctionStart.getFullYear() - trDate.getFullYear() - 1);
-
-                let current = new Date(trDate);
-                current.setFullYear(trDate.getFullYear() + yearsToSkip);
-
-                let iterations = 0;
-                while (current.getTime() <= end.getTime() && iterations < 100) {
-                    if (current.getTime() >= start.getTime()) {
-                        count++;
-                    }
-                    iterations++;
-                    current = new Date(trDate);
-                    current.setFullYear(trDate.getFullYear() + yearsToSkip + iterations);
-                }
-                return count;
-            }
-            default: return 1;
-        }
-    }, []); // Removed dependency on toDateSafe etc as they are defined inside/outside but not refs. Wait, addMonthsWithAnchor is const.
-
-    const absToView = useCallback((amount: number, fromCurrency: string) => {
+    const absToView = useCallback((amount: number, fromCurrency: string, onDate?: Date | string) => {
         const abs = Math.abs(amount);
-        return safeConvert(abs, ensureCurrency(fromCurrency), currency);
+        return safeConvert(abs, ensureCurrency(fromCurrency), currency, onDate);
     }, [currency, safeConvert]);
 
+    /** Converted total of the scheduled occurrences of `type` within [start, end] */
+    const sumScheduled = useCallback((type: 'income' | 'expense', start: Date, end: Date) =>
+        scheduled
+            .filter(o => o.type === type && o.amount !== undefined && o.date >= start && o.date <= end)
+            .reduce((sum, o) => sum + absToView(o.amount!, ensureCurrency(o.currency)), 0),
+    [scheduled, absToView]);
+
     /**
      * sumByType - Unified volume calculator
      * @param isProjectionMode If true, calculates FUTURE FLOW. If false, calculates REALIZED STOCK (Balance).
@@ -161,15 +80,11 @@ export const useBudgetAnalytics = (
 
             txs.filter(tr => tr.type === type).forEach(tr => {
                 const from = ensureCurrency(tr.currency);
-                const baseAmount = absToView(tr.amount, from);
+                const baseAmount = absToView(tr.amount, from, rateDay(tr));
 
                 if (isMaster(tr)) {
-                    if (isProjectionMode) {
-                        // Volume cards: Project flow from TODAY until window end
-                        const occurrences = calculateOccurrences(tr, now, projEnd);
-                        total += baseAmount * occurrences;
-                    }
-                    // Masters never contribute to current cash balance (only history items do)
+                    // Masters never contribute to current cash balance (only history items do),
+                    // their upcoming flow comes from the scheduled occurrences below
                 } else {
                     const trDate = toDateSafe(tr.date);
                     if (!trDate) return;
@@ -187,9 +102,13 @@ export const useBudgetAnalytics = (
                     }
                 }
             });
+            if (isProjectionMode) {
+                // Volume cards: Project flow from TODAY until window end
+                total += sumScheduled(type, now, projEnd);
+            }
             return total;
         },
-        [absToView, projectionYears, calculateOccurrences]
+        [absToView, projectionYears, sumScheduled]
     );
 
     // --- MEMOIZED DATA SETS ---
@@ -221,7 +140,7 @@ export const useBudgetAnalytics = (
             .forEach(tr => {
                 const amount = Math.abs(tr.amount);
                 const trCurrency = ensureCurrency(tr.currency);
-                const converted = safeConvert(amount, trCurrency, currency);
+                const converted = safeConvert(amount, trCurrency, currency, rateDay(tr));
                 result[tr.category] = (result[tr.category] || 0) + converted;
             });
         return result;
@@ -249,33 +168,26 @@ export const useBudgetAnalytics = (
             const monthStart = new Date(y, m, 1);
             const monthEnd = new Date(y, m + 1, 0, 23, 59, 59);
 
-            let inc = 0, exp = 0;
+            // Prevent double-counting by only projecting FUTURE occurrences for masters
+            // (Past occurrences are covered by instantiated history items)
+            const effectiveStart = new Date(Math.max(monthStart.getTime(), new Date().getTime()));
+            let inc = sumScheduled('income', effectiveStart, monthEnd);
+            let exp = sumScheduled('expense', effectiveStart, monthEnd);
 
             transactions.forEach(tr => {
-                const amt = absToView(tr.amount, ensureCurrency(tr.currency));
-
-                if (isMaster(tr)) {
-                    // For master transactions, calculate occurrences in this specific month
-                    // FIX: Prevent double-counting by only projecting FUTURE occurrences for masters
-                    // (Past occurrences are covered by instantiated history items)
-                    const effectiveStart = new Date(Math.max(monthStart.getTime(), new Date().getTime()));
-
-                    // If effective start is past month end, this returns 0, which is correct (fully realized)
-                    const hits = calculateOccurrences(tr, effectiveStart, monthEnd);
-                    if (tr.type === 'income') inc += (amt * hits); else exp += (amt * hits);
-                } else {
-                    // For history/standalone items, check if date falls in this month
-                    const dt = toDateSafe(tr.date);
-                    if (dt && dt.getMonth() === m && dt.getFullYear() === y) {
-                        if (tr.type === 'income') inc += amt; else exp += amt;
-                    }
+                if (isMaster(tr)) return;
+                // For history/standalone items, check if date falls in this month
+                const amt = absToView(tr.amount, ensureCurrency(tr.currency), rateDay(tr));
+                const dt = toDateSafe(tr.date);
+                if (dt && dt.getMonth() === m && dt.getFullYear() === y) {
+                    if (tr.type === 'income') inc += amt; else exp += amt;
                 }
             });
 
             monthsData.push({ monthIndex: m, year: y, income: inc, expense: exp });
         }
         return monthsData;
-    }, [transactions, absToView, calculateOccurrences]);
+    }, [transactions, absToView, sumScheduled]);
 
     // PURE: Returns year/month indices for labeling in the UI
     const projectionData = useMemo(() => {
@@ -303,17 +215,14 @@ export const useBudgetAnalytics = (
                 monthIndex = target.getMonth();
             }
 
-            let inc = 0, exp = 0;
+            let inc = sumScheduled('income', start, end);
+            let exp = sumScheduled('expense', start, end);
             transactions.forEach(tr => {
-                const amt = absToView(tr.amount, ensureCurrency(tr.currency));
-                if (isMaster(tr)) {
-                    const hits = calculateOccurrences(tr, start, end);
-                    if (tr.type === 'income') inc += (amt * hits); else exp += (amt * hits);
-                } else {
-                    const dt = toDateSafe(tr.date);
-                    if (dt && dt >= start && dt <= end) {
-                        if (tr.type === 'income') inc += amt; else exp += amt;
-                    }
+                if (isMaster(tr)) return;
+                const amt = absToView(tr.amount, ensureCurrency(tr.currency), rateDay(tr));
+                const dt = toDateSafe(tr.date);
+                if (dt && dt >= start && dt <= end) {
+                    if (tr.type === 'income') inc += amt; else exp += amt;
                 }
             });
 
@@ -321,7 +230,7 @@ export const useBudgetAnalytics = (
             projData.push({ year, monthIndex, balance: cumulativeBalance, income: inc, expense: exp });
         }
         return projData;
-    }, [transactions, absToView, balance, projectionYears, calculateOccurrences]);
+    }, [transactions, absToView, balance, projectionYears, sumScheduled]);
 
     const averageMonthlyExpense = useMemo(() => {
         if (!cashFlowData || cashFlowData.length === 0) return 0;
@@ -1,10 +1,44 @@
 // DataContext.tsx – provides application-wide state and financial calculations
-import React, { createContext, useContext, useState, useEffect, useRef, useCallback } from 'react';
-import { Note, Goal, PlanItem, Drawing, Subscription, BudgetSettings, Transaction, TransactionPatch, Invoice, Client, CompanyProfile } from '../types/planner';
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Note, Goal, PlanItem, Drawing, Subscription, BudgetSettings, Transaction, TransactionPatch, Invoice, Client, CompanyProfile, Habit, BudgetGoal } from '../types/planner';
 import { ProjectWorkflow, WorkflowTemplate } from '../types/workflow';
 import { StorageService } from '../services/StorageService';
-import { FinancialEngine } from '../utils/FinancialEngine';
+import { MigrationService } from '../services/MigrationService';
+import { FinancialEngine, FinancialReport } from '../utils/FinancialEngine';
+import { FinanceWorkerService } from '../services/FinanceWorkerService';
+import { applyRecurringCatchUp, historyIdFor } from '../utils/recurringCatchUp';
+import {
+  RecurringSeriesPart, SeriesChanges, masterOccurrences, seriesChain, setOccurrenceSkipped, splitRecurringMaster
+} from '../utils/recurringSeries';
+import { PlanSeriesUpdate, SeriesEditScope, editPlanSeries, reanchorPlanTimes, removeFromSeries } from '../utils/planSeries';
+import { OccurrenceFilter, VirtualOccurrence, expandOccurrences } from '../utils/occurrences';
+import { applySubscriptionCatchUp, applySubscriptionUpdates, catchUpSubscriptions } from '../utils/subscriptionCatchUp';
 import { BUILTIN_TEMPLATES } from '../data/workflowTemplates';
+import { normalizeHabit } from '../utils/habits';
+import {
+  Identifiable, JournalCollection, JournalEntry, JournalEntryKind, CollectionDiff,
+  diffCollections, isEmptyDiff, revertDiff, applyDiff, coalesceEntries, invertDiff, mergeRemoteDiff, recordLabel,
+  JOURNAL_LIMIT, COALESCE_WINDOW_MS
+} from '../utils/changeJournal';
+import { TabSyncService } from '../services/TabSyncService';
+import { SyncService, SyncDataType } from '../services/SyncService';
+import { SnapshotService } from '../services/SnapshotService';
+import { AuditLogService } from '../services/AuditLogService';
+import { TimeZoneService } from '../services/TimeZoneService';
+import { useSettings } from './SettingsContext';
+import {
+  TrashCollection, TrashEntry, SoftDeletable, TRASH_COLLECTIONS,
+  withoutTrashed, bundleIds, moveToTrash, restoreTrashed, collectTrash, isTrashExpired
+} from '../utils/trash';
+import { AuditEntry, AuditOrigin, auditEntriesFromDiff, auditEntryFromValues } from '../utils/auditLog';
+
+export interface RemoteConflict {
+  key: string;
+  collection: JournalCollection;
+  id: string;
+  label: string;
+  at: number;
+}
 
 interface DataContextType {
   notes: Note[];
@@ -20,10 +54,14 @@ interface DataContextType {
   // Workflow data
   workflows: ProjectWorkflow[];
   workflowTemplates: WorkflowTemplate[];
+  habits: Habit[];
+  budgetGoals: BudgetGoal[];
   // Financial helpers
   financialStats: any;
   computeProjection: (months: number) => number[];
   computeRunway: () => number | null;
+  /** True while the finance worker is catching up recurring transactions or rebuilding the report */
+  isFinanceComputing: boolean;
   getFinancialSummary: (currency: string) => { revenue: number; paid: number; pending: number; overdue: number };
   // CRUD operations
   addNote: (note: Omit<Note, 'id' | 'createdAt'>) => void;
@@ -35,6 +73,9 @@ interface DataContextType {
   addPlan: (plan: Omit<PlanItem, 'id'>) => void;
   updatePlan: (id: string, updates: Partial<PlanItem>) => void;
   deletePlan: (id: string) => void;
+  /** Edit one occurrence of a recurring plan: only it, it and the following ones, or the whole series */
+  updatePlanOccurrence: (seriesId: string, occurrenceDate: string, updates: PlanSeriesUpdate, scope: SeriesEditScope) => void;
+  deletePlanOccurrence: (seriesId: string, occurrenceDate: string, scope: SeriesEditScope) => void;
   addDrawing: (drawing: Omit<Drawing, 'id' | 'createdAt'>) => void;
   deleteDrawing: (id: string) => void;
   addSubscription: (subscription: Omit<Subscription, 'id' | 'createdAt'>) => void;
@@ -45,9 +86,18 @@ interface DataContextType {
   updateTransaction: (id: string, updates: TransactionPatch) => void;
   deleteTransaction: (id: string) => void;
   deleteTransactions: (ids: string[]) => void;
+  /** The masters of a recurring series (split parts included) with their past and upcoming occurrences */
+  getRecurringSeries: (masterId: string) => RecurringSeriesPart[];
+  /** Skip or un-skip one occurrence of a recurring master (utils/recurringSeries) */
+  setRecurringOccurrenceSkipped: (masterId: string, ymd: string, skipped: boolean) => void;
+  /** Apply changes to a recurring series from the occurrence on `ymd` onwards */
+  splitRecurringTransaction: (masterId: string, ymd: string, changes: SeriesChanges) => void;
+  /** Recurring transactions, subscription payments and plans scheduled within [from, to], expanded but not stored */
+  getOccurrences: (from: Date, to: Date, filter?: OccurrenceFilter) => VirtualOccurrence[];
   addInvoice: (invoice: Invoice) => void;
   updateInvoice: (id: string, updates: Partial<Invoice>) => void;
   deleteInvoice: (id: string) => void;
+  deleteInvoices: (ids: string[]) => void;
   addClient: (client: Client) => void;
   updateClient: (id: string, updates: Partial<Client>) => void;
   deleteClient: (id: string) => void;
@@ -60,9 +110,67 @@ interface DataContextType {
   deleteWorkflow: (id: string) => void;
   addWorkflowTemplate: (template: Omit<WorkflowTemplate, 'id' | 'createdAt'>) => void;
   deleteWorkflowTemplate: (id: string) => void;
+  // Habit operations
+  addHabit: (habit: Omit<Habit, 'id' | 'createdAt' | 'history' | 'order'>) => void;
+  updateHabit: (id: string, updates: Partial<Habit>) => void;
+  deleteHabit: (id: string) => void;
+  /** Insert or replace habits by id (imports keep their ids) */
+  upsertHabits: (habits: Habit[]) => void;
+  // Budget goal operations
+  addBudgetGoal: (goal: Omit<BudgetGoal, 'id' | 'createdAt'>) => void;
+  updateBudgetGoal: (id: string, updates: Partial<BudgetGoal>) => void;
+  /** Contributions stay in the ledger as ordinary transactions */
+  deleteBudgetGoal: (id: string) => void;
+  /** Record a linked transaction: positive amounts are contributions, negative ones withdrawals */
+  contributeToBudgetGoal: (id: string, amount: number, date?: Date) => void;
+  // Trash: delete* only moves records here; collections above never contain trashed records
+  trash: TrashEntry[];
+  restoreFromTrash: (collection: TrashCollection, id: string) => void;
+  /** Delete permanently (not undoable) */
+  purgeFromTrash: (collection: TrashCollection, id: string) => void;
+  emptyTrash: () => void;
+  /** Run changes on behalf of the voice assistant or an import, so the audit log records where they came from */
+  withOrigin: (origin: AuditOrigin, run: () => void) => void;
   clearAllData: () => void;
+  // Undo/redo journal
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  lastChange: JournalEntry | null;
+  // Cross-tab sync: records edited here and in another tab at the same time
+  remoteConflicts: RemoteConflict[];
+  dismissRemoteConflicts: () => void;
 }
 
+// Helper for local YMD parsing (drift-proof)
+const parseYMDLocal = (ymd: string): Date => {
+  const m = /^(\d{4})-(\d{2})-(\d{2})/.exec(ymd);
+  if (!m) return new Date(ymd); // Fallback to standard
+  const y = Number(m[1]);
+  const mo = Number(m[2]) - 1;
+  const d = Number(m[3]);
+  // Set to noon to avoid drift to previous/next day during zone transitions
+  return new Date(y, mo, d, 12, 0, 0, 0);
+};
+
+const isYMD = (s: string) => /^\d{4}-\d{2}-\d{2}$/.test(s);
+
+// Robust date normalizer that respects strict YMD but falls back safely.
+// YMD strings are floating calendar days (not instants), so they stay the same day whatever the time zone setting.
+const normalizeDate = (raw: any): Date => {
+  if (raw instanceof Date) return raw;
+  if (typeof raw === 'string') return isYMD(raw) ? parseYMDLocal(raw) : new Date(raw);
+  return new Date(raw);
+};
+
+// Bank-Grade ID Generator (avoid substr and collisions)
+const newId = () => {
+  const c = globalThis.crypto as Crypto | undefined;
+  if (c && 'randomUUID' in c) return (c as any).randomUUID();
+  return Math.random().toString(36).slice(2, 11);
+};
+
 const DataContext = createContext<DataContextType | undefined>(undefined);
 
 export const useData = () => {
@@ -92,347 +200,300 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [companyProfiles, setCompanyProfiles] = useState<CompanyProfile[]>([]);
   const [workflows, setWorkflows] = useState<ProjectWorkflow[]>([]);
   const [workflowTemplates, setWorkflowTemplates] = useState<WorkflowTemplate[]>(BUILTIN_TEMPLATES);
+  const [habits, setHabits] = useState<Habit[]>([]);
+  const [budgetGoals, setBudgetGoals] = useState<BudgetGoal[]>([]);
   const [financialStats, setFinancialStats] = useState<any>(null);
+  const [financialReport, setFinancialReport] = useState<FinancialReport | null>(null);
+  const [isFinanceComputing, setIsFinanceComputing] = useState(FinanceWorkerService.isBusy());
   const [isInitialized, setIsInitialized] = useState(false);
   const [recurringTick, setRecurringTick] = useState(0);
   const [skips, setSkips] = useState<Set<string>>(new Set());
 
+  // Consumers only see records that are not in the trash; state, storage and sync keep both
+  const liveNotes = useMemo(() => withoutTrashed(notes), [notes]);
+  const liveGoals = useMemo(() => withoutTrashed(goals), [goals]);
+  const livePlans = useMemo(() => withoutTrashed(plans), [plans]);
+  const liveDrawings = useMemo(() => withoutTrashed(drawings), [drawings]);
+  const liveTransactions = useMemo(() => withoutTrashed(transactions), [transactions]);
+  const liveInvoices = useMemo(() => withoutTrashed(invoices), [invoices]);
+  const liveClients = useMemo(() => withoutTrashed(clients), [clients]);
+  const liveCompanyProfiles = useMemo(() => withoutTrashed(companyProfiles), [companyProfiles]);
+  const liveWorkflows = useMemo(() => withoutTrashed(workflows), [workflows]);
+  const trash = useMemo(() => collectTrash({
+    notes, goals, plans, drawings, transactions, invoices, clients, companyProfiles, workflows,
+  }), [notes, goals, plans, drawings, transactions, invoices, clients, companyProfiles, workflows]);
+
+  const { settings } = useSettings();
+  const trashRetentionDays = settings.data?.trashRetentionDays ?? 0;
+
+  // Latest transactions for the finance worker requests (which run from effects that do not depend on them)
+  const transactionsRef = useRef<Transaction[]>([]);
+  transactionsRef.current = transactions;
+  const subscriptionsRef = useRef<Subscription[]>([]);
+  subscriptionsRef.current = subscriptions;
+
   // Mirror ref for skips to allow recurring engine access without dependency spam
   const skipsRef = useRef<Set<string>>(new Set());
 
   // Helper to keep skips and skipsRef strictly in sync
-  const setSkipsAndRef = (value: Set<string> | ((prev: Set<string>) => Set<string>)) => {
+  const setSkipsAndRef = useCallback((value: Set<string> | ((prev: Set<string>) => Set<string>)) => {
     setSkips(prev => {
       const next = typeof value === 'function' ? value(prev) : value;
       skipsRef.current = next;
       return next;
     });
-  };
-
-  const triggerRecurring = () => setRecurringTick(t => t + 1);
-
-  // Helper for local YMD parsing (drift-proof)
-  const parseYMDLocal = (ymd: string): Date => {
-    const m = /^(\d{4})-(\d{2})-(\d{2})/.exec(ymd);
-    if (!m) return new Date(ymd); // Fallback to standard
-    const y = Number(m[1]);
-    const mo = Number(m[2]) - 1;
-    const d = Number(m[3]);
-    // Set to noon to avoid drift to previous/next day during zone transitions
-    return new Date(y, mo, d, 12, 0, 0, 0);
-  };
-
-  const isYMD = (s: string) => /^\d{4}-\d{2}-\d{2}$/.test(s);
-
-  // Robust date normalizer that respects strict YMD but falls back safely
-  const normalizeDate = (raw: any): Date => {
-    if (raw instanceof Date) return raw;
-    if (typeof raw === 'string') return isYMD(raw) ? parseYMDLocal(raw) : new Date(raw);
-    return new Date(raw);
-  };
+  }, []);
 
-  // FIX #4: Guard ref to prevent infinite loops when transactions is in dependency
-  const processingRecurringRef = useRef(false);
+  const triggerRecurring = useCallback(() => setRecurringTick(t => t + 1), []);
 
   // FIX #5: Ref Queue for side effects from inside state updaters
   // This allows us to strictly identify what was deleted in the updater (prev state)
   // and schedule side effects (skips, triggers) for the effect phase, avoiding stale state or race conditions.
   const pendingDeletionsRef = useRef<{ skips: Set<string>, trigger: boolean }>({ skips: new Set(), trigger: false });
 
-  // Bank-Grade ID Generator (avoid substr and collisions)
-  const newId = () => {
-    const c = globalThis.crypto as Crypto | undefined;
-    if (c && 'randomUUID' in c) return (c as any).randomUUID();
-    return Math.random().toString(36).slice(2, 11);
-  };
-
-  // Helper functions within DataProvider context
-  const endOfToday = () => {
-    const d = new Date();
-    d.setHours(23, 59, 59, 999);
-    return d;
-  };
+  // Audit log: origin of the changes being made right now, and diffs produced outside journaled() (recurring engine)
+  const originRef = useRef<AuditOrigin>('ui');
+  const pendingAuditRef = useRef<Map<string, { collection: JournalCollection; diff: CollectionDiff; origin: AuditOrigin }>>(new Map());
 
-  // Prevent date drift for monthly (Jan 31 -> Feb 28/29)
-  const addMonthsClamped = (d: Date, months: number) => {
-    const date = new Date(d);
-    const day = date.getDate();
-    date.setMonth(date.getMonth() + months);
-    if (date.getDate() !== day) {
-      date.setDate(0);
-    }
-    return date;
-  };
+  const isMasterTx = (t: Transaction) => (t as any).kind === 'master';
 
-  const advanceByPeriod = (d: Date, period: Transaction['period']) => {
-    const next = new Date(d);
-    switch (period) {
-      case 'daily': next.setDate(next.getDate() + 1); break;
-      case 'weekly': next.setDate(next.getDate() + 7); break;
-      case 'monthly': {
-        const m = addMonthsClamped(next, 1);
-        next.setTime(m.getTime());
+  // Rebuild Date fields of a persisted collection (initial load and cloud sync pulls)
+  const applyStoredCollection = useCallback((type: SyncDataType, data: unknown) => {
+    switch (type) {
+      case 'notes':
+        setNotes((data as Note[]).map(n => ({ ...n, createdAt: new Date(n.createdAt) })));
+        break;
+      case 'goals':
+        setGoals((data as Goal[]).map(g => ({ ...g, targetDate: new Date(g.targetDate), createdAt: new Date(g.createdAt) })));
+        break;
+      case 'plans':
+        setPlans((data as PlanItem[]).map(p => ({
+          ...p,
+          date: normalizeDate(p.date), // Strict YMD enforce
+          startTime: p.startTime ? new Date(p.startTime) : undefined,
+          endTime: p.endTime ? new Date(p.endTime) : undefined
+        })));
+        break;
+      case 'drawings':
+        setDrawings((data as Drawing[]).map(d => ({ ...d, createdAt: new Date(d.createdAt) })));
+        break;
+      case 'subscriptions':
+        setSubscriptions((data as Subscription[]).map(s => ({ ...s, nextPayment: new Date(s.nextPayment), createdAt: new Date(s.createdAt) })));
+        break;
+      case 'transactions':
+        setTransactions((data as Transaction[]).map(t => {
+          const date = normalizeDate((t as any).date);
+          return {
+            ...t,
+            date,
+            // Consistency Fix: Ensure all recurring transactions have kind='master'
+            kind: (t.recurring && t.period !== 'oneTime' && !t.kind) ? 'master' : t.kind
+          } as Transaction;
+        }));
+        break;
+      case 'budget_settings':
+        setBudgetSettings(data as BudgetSettings);
+        break;
+      case 'invoices':
+        setInvoices((data as Invoice[]).map(i => ({
+          ...i,
+          issueDate: new Date(i.issueDate),
+          dueDate: new Date(i.dueDate),
+          createdAt: new Date(i.createdAt)
+        })));
+        break;
+      case 'clients':
+        setClients((data as Client[]).map(c => ({ ...c, createdAt: new Date(c.createdAt) })));
+        break;
+      case 'company_profiles':
+        setCompanyProfiles((data as CompanyProfile[]).map(p => ({ ...p, createdAt: new Date(p.createdAt) })));
+        break;
+      case 'workflows':
+        setWorkflows((data as ProjectWorkflow[]).map(w => ({
+          ...w,
+          createdAt: new Date(w.createdAt),
+          updatedAt: new Date(w.updatedAt)
+        })));
+        break;
+      case 'workflow_templates':
+        // Only custom templates are stored; built-ins always come from code
+        setWorkflowTemplates([
+          ...BUILTIN_TEMPLATES,
+          ...(data as WorkflowTemplate[]).map(t => ({ ...t, createdAt: new Date(t.createdAt) }))
+        ]);
+        break;
+      case 'recurring_skips':
+        setSkipsAndRef(new Set(data as string[]));
+        break;
+      case 'habits':
+        setHabits((data as unknown[]).map(normalizeHabit));
+        break;
+      case 'budget_goals':
+        setBudgetGoals((data as BudgetGoal[]).map(g => ({ ...g, createdAt: new Date(g.createdAt) })));
         break;
-      }
-      case 'yearly': next.setFullYear(next.getFullYear() + 1); break;
-      default: next.setDate(next.getDate() + 1); break;
     }
-    return next;
-  };
-
-  const isMasterTx = (t: Transaction) => (t as any).kind === 'master';
+  }, [setSkipsAndRef]);
 
   // Load persisted data
   useEffect(() => {
     const loadData = () => {
       try {
         const savedNotes = StorageService.get<Note[]>('notes', []);
-        if (savedNotes) setNotes(savedNotes.map(n => ({ ...n, createdAt: new Date(n.createdAt) })));
+        if (savedNotes) applyStoredCollection('notes', savedNotes);
 
         const savedGoals = StorageService.get<Goal[]>('goals', []);
-        if (savedGoals) setGoals(savedGoals.map(g => ({ ...g, targetDate: new Date(g.targetDate), createdAt: new Date(g.createdAt) })));
+        if (savedGoals) applyStoredCollection('goals', savedGoals);
 
         const savedPlans = StorageService.get<PlanItem[]>('plans', []);
-        if (savedPlans) setPlans(savedPlans.map(p => ({
-          ...p,
-          date: normalizeDate(p.date), // Strict YMD enforce
-          startTime: p.startTime ? new Date(p.startTime) : undefined,
-          endTime: p.endTime ? new Date(p.endTime) : undefined
-        })));
+        if (savedPlans) applyStoredCollection('plans', savedPlans);
 
         const savedDrawings = StorageService.get<Drawing[]>('drawings', []);
-        if (savedDrawings) setDrawings(savedDrawings.map(d => ({ ...d, createdAt: new Date(d.createdAt) })));
+        if (savedDrawings) applyStoredCollection('drawings', savedDrawings);
 
         const savedSubscriptions = StorageService.get<Subscription[]>('subscriptions', []);
-        if (savedSubscriptions) setSubscriptions(savedSubscriptions.map(s => ({ ...s, nextPayment: new Date(s.nextPayment), createdAt: new Date(s.createdAt) })));
+        if (savedSubscriptions) applyStoredCollection('subscriptions', savedSubscriptions);
 
         const savedTransactions = StorageService.get<Transaction[]>('transactions', []);
-        if (savedTransactions) {
-          setTransactions(savedTransactions.map(t => {
-            const date = normalizeDate((t as any).date);
-            return {
-              ...t,
-              date,
-              // Consistency Fix: Ensure all recurring transactions have kind='master'
-              kind: (t.recurring && t.period !== 'oneTime' && !t.kind) ? 'master' : t.kind
-            } as Transaction;
-          }));
-        }
+        if (savedTransactions) applyStoredCollection('transactions', savedTransactions);
 
         const savedInvoices = StorageService.get<Invoice[]>('invoices', []);
-        if (savedInvoices) setInvoices(savedInvoices.map(i => ({
-          ...i,
-          issueDate: new Date(i.issueDate),
-          dueDate: new Date(i.dueDate),
-          createdAt: new Date(i.createdAt)
-        })));
+        if (savedInvoices) applyStoredCollection('invoices', savedInvoices);
 
         const savedClients = StorageService.get<Client[]>('clients', []);
-        if (savedClients) setClients(savedClients.map(c => ({ ...c, createdAt: new Date(c.createdAt) })));
+        if (savedClients) applyStoredCollection('clients', savedClients);
 
         const savedCompanyProfiles = StorageService.get<CompanyProfile[]>('company-profiles', []);
-        if (savedCompanyProfiles) setCompanyProfiles(savedCompanyProfiles.map(p => ({ ...p, createdAt: new Date(p.createdAt) })));
-
-        // PhD Migration Logic: Force USD default if not yet migrated
-        const MIGRATION_KEY = 'v1.0.39_usd_migration';
-        const hasMigrated = localStorage.getItem(MIGRATION_KEY);
-
-        let savedSettings = StorageService.get<BudgetSettings>('budget-settings');
-
-        if (!hasMigrated) {
-          console.log('Performing one-time migration to USD default...');
-          savedSettings = {
-            ...(savedSettings || { monthlyBudget: 0, notifications: true, warningThreshold: 80 }),
-            currency: 'USD'
-          };
-          localStorage.setItem(MIGRATION_KEY, 'true');
-          StorageService.set('budget-settings', savedSettings);
-        }
+        if (savedCompanyProfiles) applyStoredCollection('company_profiles', savedCompanyProfiles);
+
+        // USD default (v1.0.39) is applied by MigrationService before loading
+        const savedSettings = StorageService.get<BudgetSettings>('budget-settings');
 
-        if (savedSettings) setBudgetSettings(savedSettings);
+        if (savedSettings) applyStoredCollection('budget_settings', savedSettings);
 
         const savedSkips = StorageService.get<string[]>('recurring-skips', []);
-        if (savedSkips) {
-          const s = new Set(savedSkips);
-          setSkips(s);
-          skipsRef.current = s;
-        }
+        if (savedSkips) applyStoredCollection('recurring_skips', savedSkips);
 
         // Load workflows
         const savedWorkflows = StorageService.get<ProjectWorkflow[]>('workflows', []);
-        if (savedWorkflows) {
-          setWorkflows(savedWorkflows.map(w => ({
-            ...w,
-            createdAt: new Date(w.createdAt),
-            updatedAt: new Date(w.updatedAt)
-          })));
-        }
+        if (savedWorkflows) applyStoredCollection('workflows', savedWorkflows);
 
         // Load custom templates (merge with built-in)
         const savedCustomTemplates = StorageService.get<WorkflowTemplate[]>('workflow-templates', []);
         if (savedCustomTemplates && savedCustomTemplates.length > 0) {
-          setWorkflowTemplates([
-            ...BUILTIN_TEMPLATES,
-            ...savedCustomTemplates.map(t => ({
-              ...t,
-              createdAt: new Date(t.createdAt)
-            }))
-          ]);
+          applyStoredCollection('workflow_templates', savedCustomTemplates);
         }
 
+        // Legacy habit keys are moved here by the 'unify_habits' migration
+        const savedHabits = StorageService.get<Habit[]>('habits', []);
+        if (savedHabits) applyStoredCollection('habits', savedHabits);
+
+        const savedBudgetGoals = StorageService.get<BudgetGoal[]>('budget-goals', []);
+        if (savedBudgetGoals) applyStoredCollection('budget_goals', savedBudgetGoals);
+
       } catch (e) {
         console.error('Error loading data from StorageService:', e);
       } finally {
         setIsInitialized(true);
       }
     };
-    loadData();
-  }, []);
+    // Wait for the storage backend (IndexedDB + one-time localStorage migration) and schema migrations before reading
+    MigrationService.run().then(loadData, loadData);
+  }, [applyStoredCollection]);
+
+  // Cash-flow report, rebuilt in the finance worker whenever transactions or the base currency change
+  // (the worker only re-converts transactions that changed; stale answers are dropped)
+  const reportRequestRef = useRef(0);
+  useEffect(() => {
+    if (!isInitialized) return;
+    const requestId = ++reportRequestRef.current;
+    FinanceWorkerService.getReport(transactionsRef.current, budgetSettings.currency || 'USD')
+      .then(report => {
+        if (requestId === reportRequestRef.current) setFinancialReport(report);
+      })
+      .catch(e => console.error('Financial report failed:', e));
+  }, [transactions, budgetSettings.currency, isInitialized]);
 
-  // Update financial stats when relevant data changes
-  // FIX: Added dependency on budgetSettings.currency so stats update on currency change
-  // Note: computeProjection/Runway are still created every render below, but we will fix that next.
-  // Actually, we will fix computeProjection memoization now too.
+  useEffect(() => FinanceWorkerService.subscribe(setIsFinanceComputing), []);
 
   // Financial helper functions - Memoized to prevent consumer re-renders
   const computeProjection = useCallback((months: number) => {
     // Return array of projected balances for next N months
-    const baseCurrency = budgetSettings.currency || 'USD';
-    const report = FinancialEngine.getFinancialReport(transactions, baseCurrency);
-
-    const currentBalance = report.currentBalance;
-    const monthlyNet = report.monthlyNet;
-    const rate = report.avgInterestRate;
+    if (!financialReport) return [];
+    const { currentBalance, monthlyNet, avgInterestRate } = financialReport;
 
     const projectionArr = [];
     for (let i = 1; i <= months; i++) {
-      projectionArr.push(FinancialEngine.calculateFutureBalance(currentBalance, monthlyNet, i, rate));
+      projectionArr.push(FinancialEngine.calculateFutureBalance(currentBalance, monthlyNet, i, avgInterestRate));
     }
     return projectionArr;
-  }, [transactions, budgetSettings.currency]);
+  }, [financialReport]);
 
-  const computeRunway = useCallback((): number | null => {
-    const baseCurrency = budgetSettings.currency || 'USD';
-    const report = FinancialEngine.getFinancialReport(transactions, baseCurrency);
-    return report.runway;
-  }, [transactions, budgetSettings.currency]);
+  const computeRunway = useCallback((): number | null => financialReport?.runway ?? null, [financialReport]);
 
   const getFinancialSummary = useCallback((targetCurrency: string = 'USD') => {
-    const revenue = FinancialEngine.calculateTotalRevenue(invoices, targetCurrency);
-    const paid = FinancialEngine.calculatePaid(invoices, targetCurrency);
+    const revenue = FinancialEngine.calculateTotalRevenue(liveInvoices, targetCurrency);
+    const paid = FinancialEngine.calculatePaid(liveInvoices, targetCurrency);
 
-    const pending = invoices
+    const pending = liveInvoices
       .filter(i => i.status === 'sent')
-      .reduce((sum, i) => sum + FinancialEngine.convert(i.total, i.currency || 'USD', targetCurrency), 0);
+      .reduce((sum, i) => sum + FinancialEngine.convert(i.total, i.currency || 'USD', targetCurrency, i.issueDate), 0);
 
-    const overdue = invoices
+    const overdue = liveInvoices
       .filter(i => i.status === 'overdue')
-      .reduce((sum, i) => sum + FinancialEngine.convert(i.total, i.currency || 'USD', targetCurrency), 0);
+      .reduce((sum, i) => sum + FinancialEngine.convert(i.total, i.currency || 'USD', targetCurrency, i.issueDate), 0);
 
     return { revenue, paid, pending, overdue };
-  }, [invoices]);
+  }, [liveInvoices]);
 
   // Effect to update the 'financialStats' state for consumers who use it directly
   useEffect(() => {
-    if (!isInitialized) return;
+    if (!isInitialized || !financialReport) return;
     const projection = computeProjection(12);
     const runway = computeRunway();
     setFinancialStats({ projection, runway });
-  }, [computeProjection, computeRunway, isInitialized]);
+  }, [computeProjection, computeRunway, financialReport, isInitialized]);
 
 
   // Recurring Processing Effect
+  // The catch-up runs in the finance worker on a snapshot; applyRecurringCatchUp re-checks it against the latest state.
   // OPTIMIZATION: Removed 'skips' from dependency, uses 'skipsRef' to prevent double-firing.
   useEffect(() => {
     if (!isInitialized) return;
-    if (processingRecurringRef.current) return;
-
-    processingRecurringRef.current = true;
-
-    // Helper for local YMD (consistent with engine)
-    const toYMDLocal = (d: Date) => {
-      const pad2 = (n: number) => String(n).padStart(2, "0");
-      return `${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())}`;
-    };
-
-    try {
+    const opId = newId();
+
+    // Subscription payments are few, so they are posted right here (utils/subscriptionCatchUp)
+    const subscriptionCatchUp = catchUpSubscriptions(subscriptionsRef.current, transactionsRef.current, TimeZoneService.endOfToday());
+    if (subscriptionCatchUp.subscriptions.length > 0) {
+      const subscriptionsOpId = newId();
+      const paymentsOpId = newId();
+      setSubscriptions(prev => {
+        const next = applySubscriptionCatchUp(prev, subscriptionCatchUp);
+        if (next === prev) return prev;
+        pendingAuditRef.current.set(subscriptionsOpId, { collection: 'subscriptions', diff: diffCollections(prev, next) as unknown as CollectionDiff, origin: 'recurring' });
+        return next;
+      });
       setTransactions(prev => {
-        if (!prev || prev.length === 0) return prev;
-
-        const now = endOfToday();
-        // quick lookup existing ids to avoid O(n^2)
         const existingIds = new Set(prev.map(t => t.id));
-
-        let changed = false;
-        const newHistory: Transaction[] = [];
-
-        const updated = prev.map(tr => {
-          // only recurring masters should be processed
-          if (!tr.recurring || tr.period === 'oneTime') return tr;
-
-          // ensure master kind
-          const master: Transaction = { ...tr, kind: 'master' as const };
-
-          const trDate = new Date(master.date);
-          if (Number.isNaN(trDate.getTime())) return master;
-
-          // If master next date is in the future -> nothing to catch up
-          if (trDate.getTime() > now.getTime()) return master;
-
-          // Safety brake depending on period (daily can be many)
-          const MAX_CATCHUP =
-            master.period === 'daily' ? 3660 : // ~10 years daily
-              master.period === 'weekly' ? 1040 : // ~20 years weekly
-                master.period === 'monthly' ? 600 : // 50 years
-                  200; // yearly etc
-
-          let currentDate = new Date(trDate);
-          let nextDate = new Date(trDate);
-          let iterations = 0;
-
-          // Catch-up: create history for each occurrence up to today
-          while (currentDate.getTime() <= now.getTime() && iterations < MAX_CATCHUP) {
-            // FIX: Use LOCAL YMD for history ID to avoid UTC drift duplicity
-            const dayKey = toYMDLocal(currentDate);
-            const historyId = `${master.id}_${dayKey}`;
-
-            // Check if exists (using set for O(1)) and NOT skipped (from REF)
-            // Using skipsRef.current ensures we see latest skips without triggering effect re-run
-            if (!existingIds.has(historyId) && !skipsRef.current.has(historyId)) {
-              existingIds.add(historyId); // <--- Add immediately to prevent duplicate generation in same loop
-              newHistory.push({
-                ...master,
-                id: historyId,
-                originId: master.id,
-                kind: 'history',
-                date: new Date(currentDate),
-                effectiveDateYMD: dayKey, // Explicit sync for engine alignment
-                recurring: false,
-                createdAtISO: new Date().toISOString(),
-              });
-              changed = true;
-            }
-
-            const next = advanceByPeriod(nextDate, master.period);
-            nextDate = new Date(next);
-            currentDate = new Date(nextDate);
-            iterations++;
-          }
-
-          // advance master.date to next future occurrence
-          if (new Date(master.date).getTime() !== new Date(nextDate).getTime()) {
-            changed = true;
-          }
-
-          return { ...master, date: new Date(nextDate) };
-        });
-
-        if (!changed) return prev;
-        return [...updated, ...newHistory];
+        const payments = subscriptionCatchUp.payments.filter(p => !existingIds.has(p.id));
+        if (payments.length === 0) return prev;
+        const next = [...prev, ...payments];
+        pendingAuditRef.current.set(paymentsOpId, { collection: 'transactions', diff: diffCollections(prev, next) as unknown as CollectionDiff, origin: 'recurring' });
+        return next;
       });
-    } finally {
-      processingRecurringRef.current = false;
     }
+
+    FinanceWorkerService.catchUpRecurring(transactionsRef.current, skipsRef.current)
+      .then(catchUp => {
+        if (catchUp.masters.length === 0 && catchUp.history.length === 0) return;
+        setTransactions(prev => {
+          // Using skipsRef.current ensures we see skips added while the worker was busy
+          const next = applyRecurringCatchUp(prev, catchUp, skipsRef.current);
+          if (next === prev) return prev;
+          pendingAuditRef.current.set(opId, { collection: 'transactions', diff: diffCollections(prev, next) as unknown as CollectionDiff, origin: 'recurring' });
+          return next;
+        });
+      })
+      .catch(e => console.error('Recurring processing failed:', e));
   }, [isInitialized, recurringTick]); // Triggered ONLY by tick or init, NOT by skips change
 
 
@@ -457,54 +518,404 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
     if (pending.trigger) {
       triggerRecurring();
     }
-  }, [transactions]); // Safe to depend on transactions as queue is populated by deletion updaters
+  }, [transactions, setSkipsAndRef, triggerRecurring]); // Safe to depend on transactions as queue is populated by deletion updaters
 
 
   // Persist Data Effects (unchanged)
-  useEffect(() => { if (isInitialized) StorageService.set('notes', notes); }, [notes, isInitialized]);
-  useEffect(() => { if (isInitialized) StorageService.set('goals', goals); }, [goals, isInitialized]);
-  useEffect(() => { if (isInitialized) StorageService.set('plans', plans); }, [plans, isInitialized]);
-  useEffect(() => { if (isInitialized) StorageService.set('drawings', drawings); }, [drawings, isInitialized]);
-  useEffect(() => { if (isInitialized) StorageService.set('subscriptions', subscriptions); }, [subscriptions, isInitialized]);
-  useEffect(() => { if (isInitialized) StorageService.set('transactions', transactions); }, [transactions, isInitialized]);
-  useEffect(() => { if (isInitialized) StorageService.set('invoices', invoices); }, [invoices, isInitialized]);
-  useEffect(() => { if (isInitialized) StorageService.set('clients', clients); }, [clients, isInitialized]);
-  useEffect(() => { if (isInitialized) StorageService.set('budget-settings', budgetSettings); }, [budgetSettings, isInitialized]);
-  useEffect(() => { if (isInitialized) StorageService.set('company-profiles', companyProfiles); }, [companyProfiles, isInitialized]);
-  useEffect(() => { if (isInitialized) StorageService.set('recurring-skips', Array.from(skips)); }, [skips, isInitialized]);
-  useEffect(() => { if (isInitialized) StorageService.set('workflows', workflows); }, [workflows, isInitialized]);
+  // Cloud sync reads the latest committed state through this ref
+  const syncedData: Record<SyncDataType, unknown> = {
+    notes, goals, plans, drawings, subscriptions, transactions, budget_settings: budgetSettings,
+    invoices, clients, company_profiles: companyProfiles, workflows,
+    workflow_templates: workflowTemplates.filter(t => !t.isBuiltIn),
+    recurring_skips: Array.from(skips),
+    habits,
+    budget_goals: budgetGoals,
+  };
+  const syncedDataRef = useRef(syncedData);
+  syncedDataRef.current = syncedData;
+
+  useEffect(() => {
+    if (!isInitialized) return;
+    return SyncService.attach({
+      read: type => syncedDataRef.current[type],
+      apply: applyStoredCollection,
+    });
+  }, [isInitialized, applyStoredCollection]);
+
+  useEffect(() => {
+    if (!isInitialized) return;
+    return SnapshotService.startDailySchedule();
+  }, [isInitialized]);
+
+  // Collections in the Supabase user_data schema are also queued for cloud sync
+  const persistSynced = (key: string, type: SyncDataType, value: unknown) => {
+    StorageService.set(key, value);
+    SyncService.markChanged(type, value);
+  };
+  useEffect(() => { if (isInitialized) persistSynced('notes', 'notes', notes); }, [notes, isInitialized]);
+  useEffect(() => { if (isInitialized) persistSynced('goals', 'goals', goals); }, [goals, isInitialized]);
+  useEffect(() => { if (isInitialized) persistSynced('plans', 'plans', plans); }, [plans, isInitialized]);
+  useEffect(() => { if (isInitialized) persistSynced('drawings', 'drawings', drawings); }, [drawings, isInitialized]);
+  useEffect(() => { if (isInitialized) persistSynced('subscriptions', 'subscriptions', subscriptions); }, [subscriptions, isInitialized]);
+  useEffect(() => { if (isInitialized) persistSynced('transactions', 'transactions', transactions); }, [transactions, isInitialized]);
+  useEffect(() => { if (isInitialized) persistSynced('invoices', 'invoices', invoices); }, [invoices, isInitialized]);
+  useEffect(() => { if (isInitialized) persistSynced('clients', 'clients', clients); }, [clients, isInitialized]);
+  useEffect(() => { if (isInitialized) persistSynced('budget-settings', 'budget_settings', budgetSettings); }, [budgetSettings, isInitialized]);
+  useEffect(() => { if (isInitialized) persistSynced('company-profiles', 'company_profiles', companyProfiles); }, [companyProfiles, isInitialized]);
+  useEffect(() => { if (isInitialized) persistSynced('recurring-skips', 'recurring_skips', Array.from(skips)); }, [skips, isInitialized]);
+  useEffect(() => { if (isInitialized) persistSynced('workflows', 'workflows', workflows); }, [workflows, isInitialized]);
+  useEffect(() => { if (isInitialized) persistSynced('habits', 'habits', habits); }, [habits, isInitialized]);
+  useEffect(() => { if (isInitialized) persistSynced('budget-goals', 'budget_goals', budgetGoals); }, [budgetGoals, isInitialized]);
   useEffect(() => {
     if (isInitialized) {
       // Only save custom templates (non-builtin)
       const customTemplates = workflowTemplates.filter(t => !t.isBuiltIn);
-      StorageService.set('workflow-templates', customTemplates);
+      persistSynced('workflow-templates', 'workflow_templates', customTemplates);
     }
   }, [workflowTemplates, isInitialized]);
 
-  const addNote = (note: Omit<Note, 'id' | 'createdAt'>) => setNotes(prev => [...prev, { ...note, id: newId(), createdAt: new Date() }]);
-  const updateNote = (id: string, updates: Partial<Note>) => setNotes(prev => prev.map(n => (n.id === id ? { ...n, ...updates } : n)));
-  const deleteNote = (id: string) => setNotes(prev => prev.filter(n => n.id !== id));
+  // --- Undo/Redo Journal ---
+  // Source of truth lives in a ref; journalVersion only forces consumers to re-render.
+  const journalRef = useRef<{ past: JournalEntry[]; future: JournalEntry[] }>({ past: [], future: [] });
+  const [, setJournalVersion] = useState(0);
+  // Entries are produced inside state updaters (which StrictMode may run twice), keyed by op id to stay idempotent
+  const pendingJournalRef = useRef<Map<string, JournalEntry>>(new Map());
+
+  // Cross-tab sync state (conflicts detected inside updaters are flushed below, like journal entries)
+  const [remoteConflicts, setRemoteConflicts] = useState<RemoteConflict[]>([]);
+  const pendingConflictsRef = useRef<Map<string, RemoteConflict>>(new Map());
+
+  useEffect(() => {
+    const conflicts = pendingConflictsRef.current;
+    if (conflicts.size > 0) {
+      pendingConflictsRef.current = new Map();
+      setRemoteConflicts(prev => [...prev.filter(c => !conflicts.has(c.key)), ...conflicts.values()]);
+    }
+
+    const audited = pendingAuditRef.current;
+    const pending = pendingJournalRef.current;
+    if (audited.size === 0 && pending.size === 0) return;
+    pendingAuditRef.current = new Map();
+    pendingJournalRef.current = new Map();
+
+    const auditEntries: AuditEntry[] = [];
+    audited.forEach(({ collection, diff, origin }) => auditEntries.push(...auditEntriesFromDiff(collection, diff, origin, newId)));
+    pending.forEach(entry => {
+      const origin = entry.origin ?? 'ui';
+      if (entry.diff && entry.collection !== 'budgetSettings') {
+        auditEntries.push(...auditEntriesFromDiff(entry.collection, entry.diff, origin, newId));
+      } else if (entry.collection === 'budgetSettings') {
+        const settingsEntry = auditEntryFromValues('budgetSettings', entry.valueBefore as object, entry.valueAfter as object, origin, newId());
+        if (settingsEntry) auditEntries.push(settingsEntry);
+      }
+    });
+    AuditLogService.record(auditEntries);
+    if (pending.size === 0) return;
+
+    // Local changes are pushed to other tabs before coalescing, so each diff applies cleanly there
+    pending.forEach(entry => {
+      if (entry.collection === 'budgetSettings') {
+        TabSyncService.publish({ type: 'budgetSettings', value: entry.valueAfter });
+      } else if (entry.diff) {
+        TabSyncService.publish({ type: 'collection', collection: entry.collection, diff: entry.diff, skipsAdded: entry.skipsAdded, skipsRemoved: entry.skipsRemoved });
+      }
+    });
+
+    let past = journalRef.current.past;
+    pending.forEach(entry => {
+      if (entry.untracked) return;
+      const top = past[past.length - 1];
+      const canCoalesce = entry.coalesceKey && top && top.coalesceKey === entry.coalesceKey &&
+        entry.timestamp - top.timestamp < COALESCE_WINDOW_MS;
+      past = canCoalesce ? [...past.slice(0, -1), coalesceEntries(top, entry)] : [...past, entry];
+    });
+    journalRef.current = { past: past.slice(-JOURNAL_LIMIT), future: [] };
+    setJournalVersion(v => v + 1);
+  }, [notes, goals, plans, drawings, subscriptions, transactions, invoices, clients, companyProfiles, workflows, workflowTemplates, habits, budgetGoals, budgetSettings]);
+
+  const collectionSetters = useMemo(() => ({
+    notes: setNotes,
+    goals: setGoals,
+    plans: setPlans,
+    drawings: setDrawings,
+    subscriptions: setSubscriptions,
+    transactions: setTransactions,
+    invoices: setInvoices,
+    clients: setClients,
+    companyProfiles: setCompanyProfiles,
+    workflows: setWorkflows,
+    workflowTemplates: setWorkflowTemplates,
+    habits: setHabits,
+    budgetGoals: setBudgetGoals,
+  }) as unknown as Record<JournalCollection, React.Dispatch<React.SetStateAction<Identifiable[]>>>, []);
+
+  // Run a collection updater and record its entity-level diff in the journal
+  const journaled = useCallback(<T extends Identifiable>(
+    collection: JournalCollection,
+    kind: JournalEntryKind,
+    updater: (prev: T[]) => T[],
+    options: { coalesceKey?: string; skipsAdded?: () => string[]; skipsRemoved?: () => string[]; untracked?: boolean } = {}
+  ) => {
+    const opId = newId();
+    const origin = originRef.current;
+    const setter = collectionSetters[collection] as unknown as React.Dispatch<React.SetStateAction<T[]>>;
+    setter(prev => {
+      const next = updater(prev);
+      if (next === prev) return prev;
+      const diff = diffCollections(prev, next);
+      if (isEmptyDiff(diff)) return next;
+      pendingJournalRef.current.set(opId, {
+        id: opId,
+        kind,
+        collection,
+        timestamp: Date.now(),
+        diff: diff as unknown as CollectionDiff,
+        coalesceKey: options.coalesceKey,
+        skipsAdded: options.skipsAdded?.(),
+        skipsRemoved: options.skipsRemoved?.(),
+        untracked: options.untracked,
+        origin,
+      });
+      return next;
+    });
+  }, [collectionSetters]);
+
+  const withOrigin = useCallback((origin: AuditOrigin, run: () => void) => {
+    const previous = originRef.current;
+    originRef.current = origin;
+    try {
+      run();
+    } finally {
+      originRef.current = previous;
+    }
+  }, []);
+
+  const applyJournalEntry = (entry: JournalEntry, direction: 'undo' | 'redo') => {
+    if (entry.collection === 'budgetSettings') {
+      const value = direction === 'undo' ? entry.valueBefore : entry.valueAfter;
+      const previous = direction === 'undo' ? entry.valueAfter : entry.valueBefore;
+      setBudgetSettings(value as BudgetSettings);
+      TabSyncService.publish({ type: 'budgetSettings', value });
+      const settingsEntry = auditEntryFromValues('budgetSettings', previous as object, value as object, 'ui', newId());
+      if (settingsEntry) AuditLogService.record([settingsEntry]);
+      return;
+    }
+    const diff = entry.diff;
+    if (!diff) return;
+    AuditLogService.record(auditEntriesFromDiff(entry.collection, direction === 'undo' ? invertDiff(diff) : diff, 'ui', newId));
+    collectionSetters[entry.collection](prev => direction === 'undo' ? revertDiff(prev, diff) : applyDiff(prev, diff));
+    TabSyncService.publish({
+      type: 'collection',
+      collection: entry.collection,
+      diff: direction === 'undo' ? invertDiff(diff) : diff,
+      skipsAdded: direction === 'redo' ? entry.skipsAdded : entry.skipsRemoved,
+      skipsRemoved: direction === 'undo' ? entry.skipsAdded : entry.skipsRemoved,
+    });
+
+    // Keep the recurring skip queue consistent: an undone history deletion must not stay skipped
+    // (and an undone un-skip is skipped again)
+    const added = (direction === 'redo' ? entry.skipsAdded : entry.skipsRemoved) ?? [];
+    const removed = (direction === 'undo' ? entry.skipsAdded : entry.skipsRemoved) ?? [];
+    if (added.length > 0 || removed.length > 0) {
+      setSkipsAndRef(prev => {
+        const next = new Set(prev);
+        added.forEach(id => next.add(id));
+        removed.forEach(id => next.delete(id));
+        return next;
+      });
+    }
+    if (entry.collection === 'transactions' || entry.collection === 'subscriptions') triggerRecurring();
+  };
+
+  const resetAllState = useCallback(() => {
+    setNotes([]);
+    setGoals([]);
+    setPlans([]);
+    setDrawings([]);
+    setSubscriptions([]);
+    setTransactions([]);
+    setInvoices([]);
+    setClients([]);
+    setCompanyProfiles([]);
+    setBudgetSettings({ monthlyBudget: 0, currency: 'USD', notifications: true, warningThreshold: 80 });
+
+    setSkipsAndRef(new Set());
+    setRecurringTick(0);
+    pendingDeletionsRef.current = { skips: new Set(), trigger: false };
+    setWorkflows([]);
+    setWorkflowTemplates(BUILTIN_TEMPLATES);
+    setHabits([]);
+    setBudgetGoals([]);
+    journalRef.current = { past: [], future: [] };
+    pendingJournalRef.current = new Map();
+    pendingAuditRef.current = new Map();
+    setJournalVersion(v => v + 1);
+  }, [setSkipsAndRef]);
+
+  // Apply changes made in other tabs (entity-level merge, never journaled or re-broadcast)
+  useEffect(() => {
+    return TabSyncService.subscribe(message => {
+      if (message.type === 'clearAll') {
+        resetAllState();
+        setRemoteConflicts([]);
+        return;
+      }
+      if (message.type === 'budgetSettings') {
+        setBudgetSettings(message.value as BudgetSettings);
+        return;
+      }
+      if (message.type === 'audit') {
+        AuditLogService.receive(message.entries);
+        return;
+      }
 
-  const addGoal = (goal: Omit<Goal, 'id' | 'createdAt'>) => setGoals(prev => [...prev, { ...goal, id: newId(), createdAt: new Date() }]);
-  const updateGoal = (id: string, updates: Partial<Goal>) => setGoals(prev => prev.map(g => (g.id === id ? { ...g, ...updates } : g)));
-  const deleteGoal = (id: string) => setGoals(prev => prev.filter(g => g.id !== id));
+      const { collection, diff } = message;
+      collectionSetters[collection](prev => mergeRemoteDiff(prev, diff, item => {
+        const key = `${collection}:${item.id}`;
+        pendingConflictsRef.current.set(key, { key, collection, id: item.id, label: recordLabel(item), at: Date.now() });
+      }));
+
+      const added = message.skipsAdded ?? [];
+      const removed = message.skipsRemoved ?? [];
+      if (added.length > 0 || removed.length > 0) {
+        setSkipsAndRef(prev => {
+          const next = new Set(prev);
+          added.forEach(id => next.add(id));
+          removed.forEach(id => next.delete(id));
+          return next;
+        });
+      }
+    });
+  }, [collectionSetters, resetAllState, setSkipsAndRef]);
+
+  const dismissRemoteConflicts = () => setRemoteConflicts([]);
 
-  const addPlan = (plan: Omit<PlanItem, 'id'>) => setPlans(prev => [...prev, { ...plan, id: newId() }]);
-  const updatePlan = (id: string, updates: Partial<PlanItem>) => setPlans(prev => prev.map(p => (p.id === id ? { ...p, ...updates } : p)));
-  const deletePlan = (id: string) => setPlans(prev => prev.filter(p => p.id !== id));
+  const undo = () => {
+    const { past, future } = journalRef.current;
+    const entry = past[past.length - 1];
+    if (!entry) return;
+    applyJournalEntry(entry, 'undo');
+    journalRef.current = { past: past.slice(0, -1), future: [entry, ...future] };
+    setJournalVersion(v => v + 1);
+  };
 
-  const addDrawing = (drawing: Omit<Drawing, 'id' | 'createdAt'>) => setDrawings(prev => [...prev, { ...drawing, id: newId(), createdAt: new Date() }]);
-  const deleteDrawing = (id: string) => setDrawings(prev => prev.filter(d => d.id !== id));
+  const redo = () => {
+    const { past, future } = journalRef.current;
+    const entry = future[0];
+    if (!entry) return;
+    applyJournalEntry(entry, 'redo');
+    journalRef.current = { past: [...past, entry], future: future.slice(1) };
+    setJournalVersion(v => v + 1);
+  };
+
+  // --- Trash (soft delete) ---
+  const trashRecords = (collection: TrashCollection, ids: string[]) => {
+    const deletedAt = new Date().toISOString();
+    journaled<SoftDeletable>(collection, 'delete', prev => moveToTrash(prev, new Set(ids), deletedAt));
+  };
+
+  const restoreFromTrash = (collection: TrashCollection, id: string) => {
+    journaled<SoftDeletable>(collection, 'update', prev => restoreTrashed(prev, bundleIds(prev, id)));
+    // A restored recurring master catches up on the occurrences it missed while trashed
+    if (collection === 'transactions') triggerRecurring();
+  };
+
+  // Purges bypass the undo stack; purged recurring history is skipped so the engine does not regenerate it
+  const purgeTrashed = useCallback((collection: TrashCollection, select: (items: SoftDeletable[]) => Set<string>) => {
+    const skipped = new Set<string>();
+    journaled<SoftDeletable>(collection, 'delete', prev => {
+      const ids = select(prev);
+      if (ids.size === 0) return prev;
+      if (collection === 'transactions') {
+        prev.forEach(t => {
+          if (ids.has(t.id) && (t as Transaction).kind === 'history') {
+            pendingDeletionsRef.current.skips.add(t.id);
+            skipped.add(t.id);
+          }
+        });
+      }
+      return prev.filter(item => !ids.has(item.id));
+    }, { skipsAdded: () => Array.from(skipped), untracked: true });
+  }, [journaled]);
+
+  const purgeFromTrash = (collection: TrashCollection, id: string) => purgeTrashed(collection, items => bundleIds(items, id));
+
+  const emptyTrash = () => TRASH_COLLECTIONS.forEach(collection =>
+    purgeTrashed(collection, items => new Set(items.filter(item => item.deletedAt).map(item => item.id))));
+
+  // Purge trashed records past the retention period (on load, then hourly)
+  useEffect(() => {
+    if (!isInitialized || trashRetentionDays <= 0) return;
+    const purgeExpired = () => TRASH_COLLECTIONS.forEach(collection =>
+      purgeTrashed(collection, items => new Set(items.filter(item => isTrashExpired(item, trashRetentionDays)).map(item => item.id))));
+    withOrigin('system', purgeExpired);
+    const timer = window.setInterval(() => withOrigin('system', purgeExpired), 60 * 60 * 1000);
+    return () => window.clearInterval(timer);
+  }, [isInitialized, trashRetentionDays, purgeTrashed, withOrigin]);
+
+  // A new time zone keeps the wall-clock times of timed plans (09:00 stays 09:00), and may change which day is today
+  useEffect(() => {
+    if (!isInitialized) return;
+    return TimeZoneService.subscribe((timeZone, previous) => {
+      withOrigin('system', () => journaled<PlanItem>('plans', 'update', prev => reanchorPlanTimes(prev, previous, timeZone)));
+      triggerRecurring();
+    });
+  }, [isInitialized, journaled, withOrigin, triggerRecurring]);
+
+  const addNote = (note: Omit<Note, 'id' | 'createdAt'>) => journaled<Note>('notes', 'add', prev => [...prev, { ...note, id: newId(), createdAt: new Date() }]);
+  const updateNote = (id: string, updates: Partial<Note>) => journaled<Note>('notes', 'update', prev => prev.map(n => (n.id === id ? { ...n, ...updates } : n)), { coalesceKey: `notes:${id}` });
+  const deleteNote = (id: string) => trashRecords('notes', [id]);
+
+  const addGoal = (goal: Omit<Goal, 'id' | 'createdAt'>) => journaled<Goal>('goals', 'add', prev => [...prev, { ...goal, id: newId(), createdAt: new Date() }]);
+  const updateGoal = (id: string, updates: Partial<Goal>) => journaled<Goal>('goals', 'update', prev => prev.map(g => (g.id === id ? { ...g, ...updates } : g)), { coalesceKey: `goals:${id}` });
+  const deleteGoal = (id: string) => trashRecords('goals', [id]);
+
+  const addPlan = (plan: Omit<PlanItem, 'id'>) => journaled<PlanItem>('plans', 'add', prev => [...prev, { ...plan, id: newId() }]);
+  const updatePlan = (id: string, updates: Partial<PlanItem>) => journaled<PlanItem>('plans', 'update', prev => prev.map(p => (p.id === id ? { ...p, ...updates } : p)), { coalesceKey: `plans:${id}` });
+  const deletePlan = (id: string) => trashRecords('plans', [id]);
+  const updatePlanOccurrence = (seriesId: string, occurrenceDate: string, updates: PlanSeriesUpdate, scope: SeriesEditScope) =>
+    journaled<PlanItem>('plans', 'update', prev => editPlanSeries(prev, seriesId, occurrenceDate, updates, scope, newId));
+  const deletePlanOccurrence = (seriesId: string, occurrenceDate: string, scope: SeriesEditScope) => {
+    const series = plans.find(p => p.id === seriesId);
+    if (!series) return;
+    const remaining = removeFromSeries(series, occurrenceDate, scope);
+    if (!remaining) {
+      trashRecords('plans', [seriesId]);
+      return;
+    }
+    journaled<PlanItem>('plans', 'update', prev => prev.map(p => (p.id === seriesId ? removeFromSeries(p, occurrenceDate, scope) ?? p : p)));
+  };
 
-  const addSubscription = (sub: Omit<Subscription, 'id' | 'createdAt'>) => setSubscriptions(prev => [...prev, { ...sub, id: newId(), createdAt: new Date() }]);
-  const updateSubscription = (id: string, updates: Partial<Subscription>) => setSubscriptions(prev => prev.map(s => (s.id === id ? { ...s, ...updates } : s)));
-  const deleteSubscription = (id: string) => setSubscriptions(prev => prev.filter(s => s.id !== id));
+  const addDrawing = (drawing: Omit<Drawing, 'id' | 'createdAt'>) => journaled<Drawing>('drawings', 'add', prev => [...prev, { ...drawing, id: newId(), createdAt: new Date() }]);
+  const deleteDrawing = (id: string) => trashRecords('drawings', [id]);
 
-  const updateBudgetSettings = (settings: Partial<BudgetSettings>) => setBudgetSettings(prev => ({ ...prev, ...settings }));
+  // Adding or changing a subscription lets the engine post the payments that are due
+  const addSubscription = (sub: Omit<Subscription, 'id' | 'createdAt'>) => {
+    journaled<Subscription>('subscriptions', 'add', prev => [...prev, { ...sub, id: newId(), createdAt: new Date() }]);
+    triggerRecurring();
+  };
+  const updateSubscription = (id: string, updates: Partial<Subscription>) => {
+    journaled<Subscription>('subscriptions', 'update', prev => prev.map(s => (s.id === id ? applySubscriptionUpdates(s, updates) : s)), { coalesceKey: `subscriptions:${id}` });
+    triggerRecurring();
+  };
+  const deleteSubscription = (id: string) => journaled<Subscription>('subscriptions', 'delete', prev => prev.filter(s => s.id !== id));
+
+  const updateBudgetSettings = (settings: Partial<BudgetSettings>) => {
+    const opId = newId();
+    const origin = originRef.current;
+    setBudgetSettings(prev => {
+      const next = { ...prev, ...settings };
+      pendingJournalRef.current.set(opId, {
+        id: opId, kind: 'settings', collection: 'budgetSettings', timestamp: Date.now(),
+        valueBefore: prev, valueAfter: next, coalesceKey: 'budgetSettings', origin
+      });
+      return next;
+    });
+  };
 
   const addTransaction = (tx: Omit<Transaction, 'id'>) => {
     let shouldTrigger = false;
-    setTransactions(prev => {
+    journaled<Transaction>('transactions', 'add', prev => {
       const id = newId();
 
       const date = normalizeDate((tx as any).date);
@@ -522,7 +933,7 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const updateTransaction = (id: string, updates: TransactionPatch) => {
     let shouldTrigger = false;
 
-    setTransactions(prev =>
+    journaled<Transaction>('transactions', 'update', prev =>
       prev.map(t => {
         if (t.id !== id) return t;
 
@@ -549,6 +960,14 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
           delete (merged as any).interestRate; // Cleanly remove empty rates
         }
 
+        // 3. A new period (without a new rule) replaces the recurrence rule; a new schedule restarts the series
+        const periodChanged = 'period' in updates && updates.period !== t.period;
+        const dateChanged = 'date' in updates && new Date(merged.date).getTime() !== new Date(t.date).getTime();
+        if (periodChanged && !('rrule' in updates)) delete merged.rrule;
+        if ((periodChanged || dateChanged || ('rrule' in updates && updates.rrule !== t.rrule)) && !('recurrenceStart' in updates)) {
+          delete merged.recurrenceStart;
+        }
+
         // trigger only if it impacts recurring logic
         const impactsRecurring =
           wasMaster ||
@@ -560,81 +979,74 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
         if (impactsRecurring) shouldTrigger = true;
 
         return merged as Transaction;
-      })
+      }),
+      { coalesceKey: `transactions:${id}` }
     );
     if (shouldTrigger) triggerRecurring();
   };
 
-  const deleteTransaction = (id: string) => {
-    setTransactions(prev => {
-      // Defensive guard
-      if (!prev || !Array.isArray(prev)) return [];
-
-      const target = prev.find(t => t.id === id);
-      if (!target) return prev;
-
-      // Side Effect Queueing (Strictly Safe)
-      if (isMasterTx(target)) {
-        pendingDeletionsRef.current.trigger = true;
-        // delete master + all history generated from it
-        return prev.filter(t => t.id !== id && (t as any).originId !== id);
-      }
-
-      // If deleting a history item, queue it for skipping
-      if ((target as any).kind === 'history') {
-        pendingDeletionsRef.current.skips.add(target.id);
-      }
-
-      // delete single/history
-      return prev.filter(t => t.id !== id);
-    });
-  };
-
+  // Deleting a recurring master also trashes its generated history, so both come back together
   const deleteTransactions = (ids: string[]) => {
     if (!ids || !Array.isArray(ids) || ids.length === 0) return;
-
-    setTransactions(prev => {
-      // Defensive guard
-      if (!prev || !Array.isArray(prev)) return [];
-
+    const deletedAt = new Date().toISOString();
+    journaled<Transaction>('transactions', 'delete', prev => {
       const idsSet = new Set(ids);
-      // Identify masters inside the updater for strict accuracy
-      const mastersToDelete = new Set(
-        prev.filter(t => t && idsSet.has(t.id) && isMasterTx(t)).map(t => t.id)
-      );
+      const masters = new Set(prev.filter(t => idsSet.has(t.id) && isMasterTx(t)).map(t => t.id));
+      prev.forEach(t => {
+        if (t.originId && masters.has(t.originId)) idsSet.add(t.id);
+      });
+      return moveToTrash(prev, idsSet, deletedAt);
+    });
+  };
 
-      if (mastersToDelete.size > 0) {
-        pendingDeletionsRef.current.trigger = true;
-      }
+  const deleteTransaction = (id: string) => deleteTransactions([id]);
 
-      // Identify history items being deleted
-      const historyItems = prev.filter(t => t && idsSet.has(t.id) && (t as any).kind === 'history');
-      if (historyItems.length > 0) {
-        historyItems.forEach(h => pendingDeletionsRef.current.skips.add(h.id));
-      }
+  // Reads the trashed history too: skipped occurrences are history items in the trash
+  const getRecurringSeries = (masterId: string): RecurringSeriesPart[] =>
+    seriesChain(transactions, masterId).map(master => ({ master, occurrences: masterOccurrences(master, transactions, skips) }));
 
-      return prev.filter(t => {
-        if (!t) return false;
-        // Drop if ID is in list
-        if (idsSet.has(t.id)) return false;
-        // Drop if it's a child of a deleted master
-        if ((t as any).originId && mastersToDelete.has((t as any).originId)) return false;
-        return true;
+  const setRecurringOccurrenceSkipped = (masterId: string, ymd: string, skipped: boolean) => {
+    const purgedId = historyIdFor(masterId, ymd);
+    const skipsRemoved = !skipped && skipsRef.current.has(purgedId) ? [purgedId] : [];
+    const skipsAtCall = skipsRef.current;
+    journaled<Transaction>('transactions', 'update',
+      prev => setOccurrenceSkipped(prev, masterId, ymd, skipped, skipsAtCall).transactions,
+      { skipsRemoved: () => skipsRemoved });
+    if (skipsRemoved.length > 0) {
+      setSkipsAndRef(prev => {
+        const next = new Set(prev);
+        skipsRemoved.forEach(id => next.delete(id));
+        return next;
       });
-    });
+    }
   };
 
-  const addInvoice = (inv: Invoice) => setInvoices(prev => [...prev, inv]);
-  const updateInvoice = (id: string, updates: Partial<Invoice>) => setInvoices(prev => prev.map(i => (i.id === id ? { ...i, ...updates } : i)));
-  const deleteInvoice = (id: string) => setInvoices(prev => prev.filter(i => i.id !== id));
+  const splitRecurringTransaction = (masterId: string, ymd: string, changes: SeriesChanges) => {
+    journaled<Transaction>('transactions', 'update', prev => splitRecurringMaster(prev, masterId, ymd, changes, newId));
+    triggerRecurring();
+  };
 
-  const addClient = (client: Client) => setClients(prev => [...prev, client]);
-  const updateClient = (id: string, updates: Partial<Client>) => setClients(prev => prev.map(c => (c.id === id ? { ...c, ...updates } : c)));
-  const deleteClient = (id: string) => setClients(prev => prev.filter(c => c.id !== id));
+  const getOccurrences = useCallback((from: Date, to: Date, filter?: OccurrenceFilter): VirtualOccurrence[] =>
+    expandOccurrences({ transactions: liveTransactions, subscriptions, plans: livePlans }, from, to, filter),
+  [liveTransactions, subscriptions, livePlans]);
+
+  const addInvoice = (inv: Invoice) => journaled<Invoice>('invoices', 'add', prev => [...prev, inv]);
+  const updateInvoice = (id: string, updates: Partial<Invoice>) => journaled<Invoice>('invoices', 'update', prev => prev.map(i => (i.id === id ? { ...i, ...updates } : i)), { coalesceKey: `invoices:${id}` });
+  const deleteInvoice = (id: string) => trashRecords('invoices', [id]);
+  // Bulk variant: one journal entry, so a single undo restores the whole selection
+  const deleteInvoices = (ids: string[]) => {
+    if (!ids || ids.length === 0) return;
+    trashRecords('invoices', ids);
+  };
 
-  const addCompanyProfile = (profile: Omit<CompanyProfile, 'id' | 'createdAt'>) => setCompanyProfiles(prev => [...prev, { ...profile, id: newId(), createdAt: new Date() }]);
-  const updateCompanyProfile = (id: string, updates: Partial<CompanyProfile>) => setCompanyProfiles(prev => prev.map(p => (p.id === id ? { ...p, ...updates } : p)));
-  const deleteCompanyProfile = (id: string) => setCompanyProfiles(prev => prev.filter(p => p.id !== id));
+  const addClient = (client: Client) => journaled<Client>('clients', 'add', prev => [...prev, client]);
+  const updateClient = (id: string, updates: Partial<Client>) => journaled<Client>('clients', 'update', prev => prev.map(c => (c.id === id ? { ...c, ...updates } : c)), { coalesceKey: `clients:${id}` });
+  // Invoices keep their clientId, so they show the client again once it is restored
+  const deleteClient = (id: string) => trashRecords('clients', [id]);
+
+  const addCompanyProfile = (profile: Omit<CompanyProfile, 'id' | 'createdAt'>) => journaled<CompanyProfile>('companyProfiles', 'add', prev => [...prev, { ...profile, id: newId(), createdAt: new Date() }]);
+  const updateCompanyProfile = (id: string, updates: Partial<CompanyProfile>) => journaled<CompanyProfile>('companyProfiles', 'update', prev => prev.map(p => (p.id === id ? { ...p, ...updates } : p)), { coalesceKey: `companyProfiles:${id}` });
+  const deleteCompanyProfile = (id: string) => trashRecords('companyProfiles', [id]);
 
   // Workflow CRUD Operations
   const addWorkflow = (workflow: Omit<ProjectWorkflow, 'id' | 'createdAt' | 'updatedAt'>): ProjectWorkflow => {
@@ -645,70 +1057,95 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
       createdAt: now,
       updatedAt: now
     };
-    setWorkflows(prev => [...prev, newWorkflow]);
+    journaled<ProjectWorkflow>('workflows', 'add', prev => [...prev, newWorkflow]);
     return newWorkflow;
   };
 
   const updateWorkflow = (id: string, updates: Partial<ProjectWorkflow>) => {
-    setWorkflows(prev => prev.map(w =>
+    journaled<ProjectWorkflow>('workflows', 'update', prev => prev.map(w =>
       w.id === id
         ? { ...w, ...updates, updatedAt: new Date() }
         : w
-    ));
+    ), { coalesceKey: `workflows:${id}` });
   };
 
-  const deleteWorkflow = (id: string) => setWorkflows(prev => prev.filter(w => w.id !== id));
+  const deleteWorkflow = (id: string) => trashRecords('workflows', [id]);
 
   const addWorkflowTemplate = (template: Omit<WorkflowTemplate, 'id' | 'createdAt'>) => {
-    setWorkflowTemplates(prev => [...prev, { ...template, id: newId(), createdAt: new Date() }]);
+    journaled<WorkflowTemplate>('workflowTemplates', 'add', prev => [...prev, { ...template, id: newId(), createdAt: new Date() }]);
   };
 
   const deleteWorkflowTemplate = (id: string) => {
     // Only allow deleting non-builtin templates
-    setWorkflowTemplates(prev => prev.filter(t => t.id !== id || t.isBuiltIn));
+    journaled<WorkflowTemplate>('workflowTemplates', 'delete', prev => prev.filter(t => t.id !== id || t.isBuiltIn));
   };
 
-  const clearAllData = () => {
-    setNotes([]);
-    setGoals([]);
-    setPlans([]);
-    setDrawings([]);
-    setSubscriptions([]);
-    setTransactions([]);
-    setInvoices([]);
-    setClients([]);
-    setCompanyProfiles([]);
-    setBudgetSettings({ monthlyBudget: 0, currency: 'USD', notifications: true, warningThreshold: 80 });
+  const addHabit = (habit: Omit<Habit, 'id' | 'createdAt' | 'history' | 'order'>) =>
+    journaled<Habit>('habits', 'add', prev => [...prev, { ...habit, id: newId(), createdAt: new Date().toISOString(), history: {}, order: prev.length }]);
+  const updateHabit = (id: string, updates: Partial<Habit>) => journaled<Habit>('habits', 'update', prev => prev.map(h => (h.id === id ? { ...h, ...updates } : h)), { coalesceKey: `habits:${id}` });
+  const deleteHabit = (id: string) => journaled<Habit>('habits', 'delete', prev => prev.filter(h => h.id !== id));
+  const upsertHabits = (incoming: Habit[]) => journaled<Habit>('habits', 'add', prev => {
+    const byId = new Map(incoming.map(h => [h.id, h]));
+    const merged = prev.map(h => byId.get(h.id) ?? h);
+    const added = incoming.filter(h => !prev.some(p => p.id === h.id));
+    return [...merged, ...added.map((h, i) => ({ ...h, order: prev.length + i }))];
+  });
 
-    setSkipsAndRef(new Set());
-    setRecurringTick(0);
-    pendingDeletionsRef.current = { skips: new Set(), trigger: false };
-    setWorkflows([]);
-    setWorkflowTemplates(BUILTIN_TEMPLATES);
+  const addBudgetGoal = (goal: Omit<BudgetGoal, 'id' | 'createdAt'>) =>
+    journaled<BudgetGoal>('budgetGoals', 'add', prev => [...prev, { ...goal, id: newId(), createdAt: new Date() }]);
+  const updateBudgetGoal = (id: string, updates: Partial<BudgetGoal>) => journaled<BudgetGoal>('budgetGoals', 'update', prev => prev.map(g => (g.id === id ? { ...g, ...updates } : g)), { coalesceKey: `budgetGoals:${id}` });
+  const deleteBudgetGoal = (id: string) => journaled<BudgetGoal>('budgetGoals', 'delete', prev => prev.filter(g => g.id !== id));
+  const contributeToBudgetGoal = (id: string, amount: number, date: Date = new Date()) => {
+    const goal = budgetGoals.find(g => g.id === id);
+    if (!goal || !amount) return;
+    // Same sign convention as BudgetView: expenses (money put towards the goal) are stored negative
+    addTransaction({
+      amount: amount > 0 ? -Math.abs(amount) : Math.abs(amount),
+      description: goal.name,
+      date,
+      type: amount > 0 ? 'expense' : 'income',
+      category: goal.category,
+      currency: goal.currency,
+      period: 'oneTime',
+      status: 'completed',
+      budgetGoalId: id,
+      createdAtISO: new Date().toISOString(),
+    });
+  };
 
+  const clearAllData = () => {
+    // Reads the state synchronously, so the wipe below cannot race it
+    SnapshotService.capture('clear-all');
+    resetAllState();
+    TabSyncService.publish({ type: 'clearAll' });
     StorageService.clear();
   };
 
   return (
     <DataContext.Provider
       value={{
-        notes,
-        goals,
-        plans,
-        drawings,
+        notes: liveNotes,
+        goals: liveGoals,
+        plans: livePlans,
+        drawings: liveDrawings,
         subscriptions,
         budgetSettings,
-        transactions,
+        transactions: liveTransactions,
         addTransaction,
         updateTransaction,
         deleteTransaction,
         deleteTransactions,
-        invoices,
-        clients,
-        companyProfiles,
+        getRecurringSeries,
+        setRecurringOccurrenceSkipped,
+        splitRecurringTransaction,
+        getOccurrences,
+        invoices: liveInvoices,
+        clients: liveClients,
+        companyProfiles: liveCompanyProfiles,
         financialStats,
         computeProjection,
         computeRunway,
+        isFinanceComputing,
         getFinancialSummary,
         addNote,
         updateNote,
@@ -719,6 +1156,8 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
         addPlan,
         updatePlan,
         deletePlan,
+        updatePlanOccurrence,
+        deletePlanOccurrence,
         addDrawing,
         deleteDrawing,
         addSubscription,
@@ -729,6 +1168,7 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
         addInvoice,
         updateInvoice,
         deleteInvoice,
+        deleteInvoices,
         addClient,
         updateClient,
         deleteClient,
@@ -736,14 +1176,36 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
         updateCompanyProfile,
         deleteCompanyProfile,
         // Workflow
-        workflows,
+        workflows: liveWorkflows,
         workflowTemplates,
         addWorkflow,
         updateWorkflow,
         deleteWorkflow,
         addWorkflowTemplate,
         deleteWorkflowTemplate,
+        habits,
+        addHabit,
+        updateHabit,
+        deleteHabit,
+        upsertHabits,
+        budgetGoals,
+        addBudgetGoal,
+        updateBudgetGoal,
+        deleteBudgetGoal,
+        contributeToBudgetGoal,
+        trash,
+        restoreFromTrash,
+        purgeFromTrash,
+        emptyTrash,
+        withOrigin,
         clearAllData,
+        undo,
+        redo,
+        canUndo: journalRef.current.past.length > 0,
+        canRedo: journalRef.current.future.length > 0,
+        lastChange: journalRef.current.past[journalRef.current.past.length - 1] ?? null,
+        remoteConflicts,
+        dismissRemoteConflicts,
       }}
     >
       {children}
@@ -1119,6 +1119,8 @@ const translations: Translations = {
   'settings.importConfirm': { en: 'Are you sure? This will overwrite all existing data!', hu: 'Biztos benne? Ez felülírja az összes meglévő adatot!' },
   'settings.exportFailed': { en: 'Export failed!', hu: 'Az exportálás sikertelen!' },
   'settings.importFailed': { en: 'Import failed!', hu: 'Az importálás sikertelen!' },
+  'settings.exportIncludeSecrets': { en: 'Include the AI API key in the backup', hu: 'Az AI API kulcs kerüljön bele a mentésbe' },
+  'settings.exportIncludeSecretsDesc': { en: 'The key is stored unencrypted in the file. Leave this off unless you keep the backup somewhere safe.', hu: 'A kulcs titkosítatlanul kerül a fájlba. Csak akkor kapcsold be, ha biztonságos helyen tárolod a mentést.' },
   'settings.dangerZone': { en: 'Danger Zone', hu: 'Veszélyzóna' },
   'settings.dangerZoneDesc': { en: 'Irreversible actions', hu: 'Visszafordíthatatlan műveletek' },
   'settings.clearAllData': { en: 'Clear All Data', hu: 'Minden Adat Törlése' },
@@ -1232,6 +1234,286 @@ const translations: Translations = {
   'workflow.panel.label': { en: 'Label', hu: 'Címke', ro: 'Etichetă', sk: 'Štítok', hr: 'Oznaka', de: 'Beschriftung', fr: 'Étiquette', es: 'Etiqueta', it: 'Etichetta', pl: 'Etykieta', cn: '标签', jp: 'ラベル', pt: 'Rótulo', tr: 'Etiket', ar: 'ملصق', ru: 'Метка', hi: 'लेबल', bn: 'লেবেল', ur: 'لیبل', th: 'ป้ายชื่อ', id: 'Label', ko: 'Label' },
   'workflow.panel.desc': { en: 'Description', hu: 'Leírás', ro: 'Descriere', sk: 'Popis', hr: 'Opis', de: 'Beschreibung', fr: 'Description', es: 'Descripción', it: 'Descrizione', pl: 'Opis', cn: '描述', jp: '説明', pt: 'Descrição', tr: 'Açıklama', ar: 'وصف', ru: 'Описание', hi: 'विवरण', bn: 'বিবরণ', ur: 'تفصیل', th: 'คำอธิบาย', id: 'Deskripsi', ko: 'Description' },
   'workflow.panel.color': { en: 'Color', hu: 'Szín', ro: 'Culoare', sk: 'Farba', hr: 'Boja', de: 'Farbe', fr: 'Couleur', es: 'Color', it: 'Colore', pl: 'Kolor', cn: '颜色', jp: '色', pt: 'Cor', tr: 'Renk', ar: 'لون', ru: 'Цвет', hi: 'رंग', bn: 'রঙ', ur: 'رنگ', th: 'สี', id: 'Warna', ko: 'Color' },
+
+  // Storage
+  'storage.errorTitle': { en: 'Your changes could not be saved', hu: 'A módosításokat nem sikerült menteni' },
+  'storage.quotaExceeded': { en: 'Browser storage is full. Delete large drawings or logos, or export a backup and clear old data.', hu: 'A böngésző tárhelye megtelt. Törölj nagy rajzokat vagy logókat, vagy készíts biztonsági mentést és töröld a régi adatokat.' },
+  'storage.migratedUnavailable': { en: 'Your data is stored in IndexedDB, which could not be opened (another tab may be upgrading it). Close other tabs of the planner and reload; changes made now are not saved with your data.', hu: 'Az adataid az IndexedDB-ben vannak, amelyet nem sikerült megnyitni (lehet, hogy egy másik lap frissíti). Zárd be a tervező többi lapját és töltsd újra az oldalt; a most végzett módosítások nem kerülnek az adataid közé.' },
+  'storage.unavailable': { en: 'Browser storage is unavailable (private mode?). Data will be lost when the tab closes.', hu: 'A böngésző tárhelye nem érhető el (privát mód?). Az adatok a lap bezárásakor elvesznek.' },
+  'storage.writeFailed': { en: 'An unexpected storage error occurred.', hu: 'Váratlan tárolási hiba történt.' },
+
+  // Schema migrations
+  'settings.migrations.title': { en: 'Data Migrations', hu: 'Adatmigrációk' },
+  'settings.migrations.schemaVersion': { en: 'Schema version', hu: 'Séma verzió' },
+  'settings.migrations.dryRun': { en: 'Preview pending migrations', hu: 'Függő migrációk előnézete' },
+  'settings.migrations.upToDate': { en: 'No pending migrations. Your data is up to date.', hu: 'Nincs függő migráció. Az adataid naprakészek.' },
+  'settings.migrations.destructive': { en: 'destructive (snapshot first)', hu: 'adatvesztő (előtte mentés)' },
+  'settings.migrations.snapshots': { en: 'Pre-migration snapshots', hu: 'Migráció előtti mentések' },
+  'settings.migrations.keys': { en: 'keys', hu: 'kulcs' },
+  'settings.migrations.restored': { en: 'restored', hu: 'visszaállítva' },
+  'settings.migrations.rollback': { en: 'Roll back', hu: 'Visszaállítás' },
+  'settings.migrations.rollbackConfirm': { en: 'Restore the data captured before this migration? Current values of those keys will be overwritten.', hu: 'Visszaállítod a migráció előtt mentett adatokat? Az érintett kulcsok jelenlegi értékei felülíródnak.' },
+
+  // Undo / redo
+  'undo.deletedItems': { en: 'Deleted {count} item(s)', hu: '{count} elem törölve' },
+  'vault.title': { en: 'Encrypted Vault', hu: 'Titkosított széf' },
+  'vault.desc': { en: 'Encrypt all planner data and your AI API key with a passphrase (AES-GCM, PBKDF2). You will need it every time you open the app.', hu: 'Az összes tervezőadat és az AI API-kulcs titkosítása jelmondattal (AES-GCM, PBKDF2). Minden megnyitáskor meg kell adnod.' },
+  'vault.warning': { en: 'If you forget the passphrase, your data cannot be recovered. Export a backup first.', hu: 'Ha elfelejted a jelmondatot, az adatok nem állíthatók vissza. Előtte készíts biztonsági mentést.' },
+  'vault.plaintext': { en: 'Not encrypted: app settings (without the AI key), theme and language, exchange rates with their history and sources, invoice number counters, Pomodoro stats, budget notifications and the vault\'s own unlock data.', hu: 'Nincs titkosítva: az alkalmazás beállításai (az AI-kulcs nélkül), a téma és a nyelv, az árfolyamok az előzményeikkel és forrásaikkal, a számlaszám-számlálók, a Pomodoro-statisztika, a költségvetési értesítések és a széf saját feloldási adatai.' },
+  'vault.enabled': { en: 'Encrypted', hu: 'Titkosítva' },
+  'vault.disabled': { en: 'Not encrypted', hu: 'Nincs titkosítva' },
+  'vault.enable': { en: 'Enable Vault', hu: 'Széf bekapcsolása' },
+  'vault.disable': { en: 'Disable Vault', hu: 'Széf kikapcsolása' },
+  'vault.disableConfirm': { en: 'Decrypt all data and store it unencrypted again?', hu: 'Visszafejted az összes adatot, és újra titkosítás nélkül tárolod?' },
+  'vault.currentPassphrase': { en: 'Current passphrase', hu: 'Jelenlegi jelmondat' },
+  'vault.newPassphrase': { en: 'New passphrase', hu: 'Új jelmondat' },
+  'vault.confirmPassphrase': { en: 'Confirm passphrase', hu: 'Jelmondat megerősítése' },
+  'vault.changePassphrase': { en: 'Change Passphrase', hu: 'Jelmondat módosítása' },
+  'vault.tooShort': { en: 'The passphrase must be at least {count} characters.', hu: 'A jelmondatnak legalább {count} karakterből kell állnia.' },
+  'vault.mismatch': { en: 'The passphrases do not match.', hu: 'A jelmondatok nem egyeznek.' },
+  'vault.lockNow': { en: 'Lock Now', hu: 'Zárolás most' },
+  'vault.autoLock': { en: 'Auto-lock after', hu: 'Automatikus zárolás' },
+  'vault.autoLockNever': { en: 'Never', hu: 'Soha' },
+  'vault.minutes': { en: '{count} min idle', hu: '{count} perc tétlenség után' },
+  'vault.working': { en: 'Re-encrypting data…', hu: 'Adatok újratitkosítása…' },
+  'vault.unsupported': { en: 'This browser does not support WebCrypto, so the encrypted vault is unavailable.', hu: 'Ez a böngésző nem támogatja a WebCrypto-t, ezért a titkosított széf nem érhető el.' },
+  'vault.lockedTitle': { en: 'Vault locked', hu: 'A széf zárolva' },
+  'vault.lockedDesc': { en: 'Enter your passphrase to decrypt your planner data.', hu: 'Add meg a jelmondatot a tervezőadatok visszafejtéséhez.' },
+  'vault.passphrase': { en: 'Passphrase', hu: 'Jelmondat' },
+  'vault.unlock': { en: 'Unlock', hu: 'Feloldás' },
+  'vault.unlocking': { en: 'Unlocking…', hu: 'Feloldás…' },
+  'vault.wrongPassphrase': { en: 'Wrong passphrase.', hu: 'Hibás jelmondat.' },
+  'vault.forgot': { en: 'Forgot passphrase? Erase all data and start over', hu: 'Elfelejtetted a jelmondatot? Minden adat törlése és újrakezdés' },
+  'vault.resetConfirm': { en: 'This permanently erases all encrypted data. Continue?', hu: 'Ez véglegesen törli az összes titkosított adatot. Folytatod?' },
+  'sync.title': { en: 'Cloud Sync', hu: 'Felhő szinkronizálás' },
+  'sync.desc': { en: 'Sign in to sync your planner, budget and invoicing data across devices. Changes made offline are queued and uploaded later.', hu: 'Jelentkezz be a tervező-, költségvetési és számlázási adatok eszközök közötti szinkronizálásához. Az offline módosítások sorba kerülnek, és később töltődnek fel.' },
+  'sync.notConfigured': { en: 'Cloud sync is not configured (VITE_SUPABASE_URL / VITE_SUPABASE_ANON_KEY).', hu: 'A felhő szinkronizálás nincs beállítva (VITE_SUPABASE_URL / VITE_SUPABASE_ANON_KEY).' },
+  'sync.email': { en: 'Email', hu: 'E-mail' },
+  'sync.password': { en: 'Password', hu: 'Jelszó' },
+  'sync.signIn': { en: 'Sign In', hu: 'Bejelentkezés' },
+  'sync.signUp': { en: 'Create Account', hu: 'Fiók létrehozása' },
+  'sync.signOut': { en: 'Sign Out', hu: 'Kijelentkezés' },
+  'sync.syncNow': { en: 'Sync Now', hu: 'Szinkronizálás most' },
+  'sync.signedOut': { en: 'Cloud sync: signed out', hu: 'Felhő szinkron: nincs bejelentkezve' },
+  'sync.offline': { en: 'Offline – changes are queued', hu: 'Offline – a módosítások sorban állnak' },
+  'sync.syncing': { en: 'Syncing…', hu: 'Szinkronizálás…' },
+  'sync.error': { en: 'Sync failed', hu: 'A szinkronizálás sikertelen' },
+  'sync.pending': { en: '{count} change(s) waiting to upload', hu: '{count} módosítás feltöltésre vár' },
+  'sync.upToDate': { en: 'All changes synced', hu: 'Minden módosítás szinkronizálva' },
+  'sync.lastSynced': { en: 'Last synced', hu: 'Utolsó szinkron' },
+  'sync.never': { en: 'Never synced', hu: 'Még nem volt szinkronizálva' },
+  'sync.conflictInbox': { en: 'Conflict Inbox', hu: 'Ütközések' },
+  'sync.conflictDesc': { en: 'These items were changed on this device and in the cloud. The newer version was applied; you can keep the other one instead.', hu: 'Ezek az elemek ezen az eszközön és a felhőben is módosultak. Az újabb verzió lett alkalmazva; helyette megtarthatod a másikat.' },
+  'sync.applied': { en: 'Applied', hu: 'Alkalmazva' },
+  'sync.thisDevice': { en: 'this device', hu: 'ez az eszköz' },
+  'sync.cloud': { en: 'cloud', hu: 'felhő' },
+  'sync.keepThisDevice': { en: 'Keep this device', hu: 'Ez az eszköz' },
+  'sync.keepCloud': { en: 'Keep cloud', hu: 'Felhő verzió' },
+  'sync.compare': { en: 'Compare versions', hu: 'Verziók összehasonlítása' },
+  'invoicing.numberAllocationFailed': { en: 'Could not get the next invoice number from the server. Check your connection and try again.', hu: 'Nem sikerült lekérni a következő számlaszámot a szerverről. Ellenőrizd a kapcsolatot, és próbáld újra.' },
+  'restore.title': { en: 'Restore from backup', hu: 'Visszaállítás mentésből' },
+  'restore.desc': { en: 'Choose which collections to restore. Merge keeps your current records and updates the ones with the same id; Replace makes the collection exactly match the backup.', hu: 'Válaszd ki, mely gyűjteményeket állítod vissza. Összefésülésnél a jelenlegi elemek megmaradnak és az azonos azonosítójúak frissülnek; Cserénél a gyűjtemény pontosan a mentés tartalma lesz.' },
+  'restore.manifestInfo': { en: 'Backup created {date} with app version {version}; checksum verified.', hu: 'Mentés készült: {date}, alkalmazásverzió: {version}; ellenőrzőösszeg rendben.' },
+  'restore.legacyFile': { en: 'Older backup without a manifest: it cannot be checked for corruption.', hu: 'Régebbi, manifest nélküli mentés: sérülése nem ellenőrizhető.' },
+  'restore.merge': { en: 'Merge', hu: 'Összefésülés' },
+  'restore.replace': { en: 'Replace', hu: 'Csere' },
+  'restore.details': { en: 'Details', hu: 'Részletek' },
+  'restore.added': { en: 'New', hu: 'Új' },
+  'restore.changed': { en: 'Changed', hu: 'Módosult' },
+  'restore.removed': { en: 'Removed', hu: 'Törlődik' },
+  'restore.invalid': { en: '{count} invalid', hu: '{count} hibás' },
+  'restore.rejectedSummary': { en: '{count} invalid record(s) in the backup will be skipped.', hu: '{count} hibás elem a mentésben ki lesz hagyva.' },
+  'restore.replaceConfirm': { en: 'Replace removes records that are not in the backup. Continue?', hu: 'A csere törli a mentésben nem szereplő elemeket. Folytatod?' },
+  'restore.confirm': { en: 'Restore selected', hu: 'Kijelöltek visszaállítása' },
+  'restore.reload': { en: 'Reload app', hu: 'Alkalmazás újratöltése' },
+  'snapshots.title': { en: 'Automatic snapshots', hu: 'Automatikus pillanatképek' },
+  'snapshots.desc': { en: 'A full snapshot of your data is saved on this device before every destructive action (clear all, import, delete all invoices, data migrations) and once a day.', hu: 'Minden romboló művelet (összes törlése, importálás, összes számla törlése, adatmigráció) előtt és naponta egyszer teljes pillanatkép készül az adataidról ezen az eszközön.' },
+  'snapshots.fallbackNote': { en: 'This browser has no IndexedDB, so only a few snapshots fit in local storage.', hu: 'Ez a böngésző nem támogatja az IndexedDB-t, ezért csak néhány pillanatkép fér el a helyi tárhelyen.' },
+  'snapshots.keep': { en: 'Keep', hu: 'Megtartás' },
+  'snapshots.captureNow': { en: 'Take snapshot now', hu: 'Pillanatkép most' },
+  'snapshots.captureFailed': { en: 'The snapshot could not be saved.', hu: 'A pillanatképet nem sikerült menteni.' },
+  'snapshots.empty': { en: 'No snapshots yet.', hu: 'Még nincs pillanatkép.' },
+  'snapshots.items': { en: '{count} items', hu: '{count} elem' },
+  'snapshots.compareRestore': { en: 'Compare & restore', hu: 'Összehasonlítás és visszaállítás' },
+  'snapshots.delete': { en: 'Delete snapshot', hu: 'Pillanatkép törlése' },
+  'snapshots.deleteConfirm': { en: 'Delete this snapshot?', hu: 'Törlöd ezt a pillanatképet?' },
+  'snapshots.restoreTitle': { en: 'Snapshot', hu: 'Pillanatkép' },
+  'snapshots.reason.clear-all': { en: 'Before clearing all data', hu: 'Összes adat törlése előtt' },
+  'snapshots.reason.import': { en: 'Before import', hu: 'Importálás előtt' },
+  'snapshots.reason.restore': { en: 'Before snapshot restore', hu: 'Pillanatkép visszaállítása előtt' },
+  'snapshots.reason.delete-invoices': { en: 'Before deleting all invoices', hu: 'Összes számla törlése előtt' },
+  'snapshots.reason.migration': { en: 'Before data migration', hu: 'Adatmigráció előtt' },
+  'snapshots.reason.daily': { en: 'Daily snapshot', hu: 'Napi pillanatkép' },
+  'snapshots.reason.manual': { en: 'Manual snapshot', hu: 'Kézi pillanatkép' },
+  'budgetGoals.name': { en: 'Goal name', hu: 'Cél neve' },
+  'budgetGoals.currency': { en: 'Currency', hu: 'Pénznem' },
+  'budgetGoals.deadline': { en: 'Deadline', hu: 'Határidő' },
+  'budgetGoals.amount': { en: 'Amount', hu: 'Összeg' },
+  'budgetGoals.contribute': { en: 'Add', hu: 'Befizetés' },
+  'budgetGoals.withdraw': { en: 'Withdraw', hu: 'Kivét' },
+  'budgetGoals.contributions': { en: '{count} contributions', hu: '{count} befizetés' },
+  'budgetGoals.markCompleted': { en: 'Mark as completed', hu: 'Lezárás' },
+  'budgetGoals.reopen': { en: 'Reopen', hu: 'Újranyitás' },
+  'budgetGoals.deleteConfirm': { en: 'Delete this goal? Its contributions stay in your transactions.', hu: 'Törlöd ezt a célt? A befizetései megmaradnak a tranzakciók között.' },
+  'nav.trash': { en: 'Trash', hu: 'Lomtár' },
+  'trash.title': { en: 'Trash', hu: 'Lomtár' },
+  'trash.subtitle': { en: 'Deleted items stay here until you restore them or they are purged', hu: 'A törölt elemek itt maradnak, amíg vissza nem állítod vagy végleg nem törlődnek' },
+  'trash.retention': { en: 'Delete permanently after', hu: 'Végleges törlés' },
+  'trash.retentionNever': { en: 'Never', hu: 'Soha' },
+  'trash.retentionDays': { en: '{days} days', hu: '{days} nap után' },
+  'trash.empty': { en: 'Empty trash', hu: 'Lomtár ürítése' },
+  'trash.emptyConfirm': { en: 'Permanently delete all {count} items in the trash? This cannot be undone.', hu: 'Véglegesen törlöd a lomtár mind a(z) {count} elemét? Ez nem vonható vissza.' },
+  'trash.emptyState': { en: 'The trash is empty.', hu: 'A lomtár üres.' },
+  'trash.restore': { en: 'Restore', hu: 'Visszaállítás' },
+  'trash.purge': { en: 'Delete permanently', hu: 'Végleges törlés' },
+  'trash.purgeConfirm': { en: 'Delete this item permanently? This cannot be undone.', hu: 'Véglegesen törlöd ezt az elemet? Ez nem vonható vissza.' },
+  'trash.deletedAt': { en: 'Deleted {date}', hu: 'Törölve: {date}' },
+  'trash.bundled': { en: '+{count} related', hu: '+{count} kapcsolódó' },
+  'trash.purgesIn': { en: 'purged in {days} days', hu: '{days} nap múlva törlődik' },
+  'trash.type.all': { en: 'All', hu: 'Összes' },
+  'trash.type.notes': { en: 'Notes', hu: 'Jegyzetek' },
+  'trash.type.goals': { en: 'Goals', hu: 'Célok' },
+  'trash.type.plans': { en: 'Plans', hu: 'Tervek' },
+  'trash.type.drawings': { en: 'Drawings', hu: 'Rajzok' },
+  'trash.type.transactions': { en: 'Transactions', hu: 'Tranzakciók' },
+  'trash.type.invoices': { en: 'Invoices', hu: 'Számlák' },
+  'trash.type.clients': { en: 'Clients', hu: 'Ügyfelek' },
+  'trash.type.companyProfiles': { en: 'Company profiles', hu: 'Cégprofilok' },
+  'trash.type.workflows': { en: 'Workflows', hu: 'Munkafolyamatok' },
+  'audit.title': { en: 'Change history', hu: 'Változásnapló' },
+  'audit.desc': { en: 'Every change to your records is logged with its old and new values, the time and where it came from (app, voice assistant, import, recurring payments).', hu: 'Minden módosítás naplózásra kerül a régi és új értékekkel, az idővel és a forrással (alkalmazás, hangasszisztens, importálás, ismétlődő tételek).' },
+  'audit.count': { en: '{count} entries on this device.', hu: '{count} bejegyzés ezen az eszközön.' },
+  'audit.exportAll': { en: 'Export history (CSV)', hu: 'Napló exportálása (CSV)' },
+  'audit.exportCsv': { en: 'Export CSV', hu: 'CSV export' },
+  'audit.historyTab': { en: 'History', hu: 'Előzmények' },
+  'audit.historyTitle': { en: 'Change history', hu: 'Változások' },
+  'audit.empty': { en: 'No changes recorded yet.', hu: 'Még nincs rögzített változás.' },
+  'audit.action.create': { en: 'Created', hu: 'Létrehozva' },
+  'audit.action.update': { en: 'Updated', hu: 'Módosítva' },
+  'audit.action.trash': { en: 'Moved to trash', hu: 'Lomtárba helyezve' },
+  'audit.action.restore': { en: 'Restored', hu: 'Visszaállítva' },
+  'audit.action.delete': { en: 'Deleted permanently', hu: 'Véglegesen törölve' },
+  'audit.origin.ui': { en: 'App', hu: 'Alkalmazás' },
+  'audit.origin.assistant': { en: 'Voice assistant', hu: 'Hangasszisztens' },
+  'audit.origin.import': { en: 'Import', hu: 'Importálás' },
+  'audit.origin.recurring': { en: 'Recurring engine', hu: 'Ismétlődő tételek' },
+  'audit.origin.system': { en: 'Automatic cleanup', hu: 'Automatikus takarítás' },
+  'palette.title': { en: 'Search and commands', hu: 'Keresés és parancsok' },
+  'palette.placeholder': { en: 'Search records or type a command… (e.g. type:invoice status:overdue)', hu: 'Keresés vagy parancs… (pl. type:szamla status:overdue)' },
+  'palette.actions': { en: 'Actions', hu: 'Műveletek' },
+  'palette.records': { en: 'Records', hu: 'Találatok' },
+  'palette.noResults': { en: 'No matches.', hu: 'Nincs találat.' },
+  'palette.hint': { en: 'Type to search notes, tasks, goals, transactions, invoices, clients, workflows and habits.', hu: 'Írj a jegyzetek, feladatok, célok, tranzakciók, számlák, ügyfelek, munkafolyamatok és szokások kereséséhez.' },
+  'palette.goTo': { en: 'Switch to', hu: 'Ugrás:' },
+  'palette.newInvoice': { en: 'New invoice', hu: 'Új számla' },
+  'palette.newClient': { en: 'New client', hu: 'Új ügyfél' },
+  'palette.newTransaction': { en: 'New transaction', hu: 'Új tranzakció' },
+  'palette.newTask': { en: 'New task', hu: 'Új feladat' },
+  'palette.newNote': { en: 'New note', hu: 'Új jegyzet' },
+  'palette.newGoal': { en: 'New goal', hu: 'Új cél' },
+  'palette.newHabit': { en: 'New habit', hu: 'Új szokás' },
+  'trash.type.habits': { en: 'Habits', hu: 'Szokások' },
+  'budget.computing': { en: 'Updating figures…', hu: 'Adatok frissítése…' },
+  'recurrence.label': { en: 'Repeat', hu: 'Ismétlődés' },
+  'recurrence.none': { en: 'Does not repeat', hu: 'Nem ismétlődik' },
+  'recurrence.daily': { en: 'Every day', hu: 'Minden nap' },
+  'recurrence.weekdays': { en: 'Every weekday (Mon–Fri)', hu: 'Minden hétköznap (H–P)' },
+  'recurrence.weekly': { en: 'Every week', hu: 'Minden héten' },
+  'recurrence.biweekly': { en: 'Every 2 weeks', hu: 'Kéthetente' },
+  'recurrence.monthly': { en: 'Every month', hu: 'Minden hónapban' },
+  'recurrence.lastBusinessDay': { en: 'Last business day of the month', hu: 'A hónap utolsó munkanapján' },
+  'recurrence.yearly': { en: 'Every year', hu: 'Minden évben' },
+  'recurrence.custom': { en: 'Custom (RRULE)…', hu: 'Egyéni (RRULE)…' },
+  'recurrence.customHint': { en: 'iCalendar RRULE, e.g. FREQ=MONTHLY;BYDAY=2TU', hu: 'iCalendar RRULE, pl. FREQ=MONTHLY;BYDAY=2TU' },
+  'recurrence.invalid': { en: 'Invalid recurrence rule', hu: 'Érvénytelen ismétlődési szabály' },
+  'recurrence.endNever': { en: 'Never ends', hu: 'Nincs vége' },
+  'recurrence.endCount': { en: 'Ends after… times', hu: 'Vége ennyi alkalom után…' },
+  'recurrence.endUntil': { en: 'Ends on…', hu: 'Vége ekkor…' },
+  'recurrence.recurring': { en: 'Recurring', hu: 'Ismétlődő' },
+  'series.editTitle': { en: 'Edit recurring task', hu: 'Ismétlődő feladat szerkesztése' },
+  'series.deleteTitle': { en: 'Delete recurring task', hu: 'Ismétlődő feladat törlése' },
+  'series.scope.this': { en: 'This occurrence', hu: 'Csak ez az alkalom' },
+  'series.scope.following': { en: 'This and following occurrences', hu: 'Ez és a következő alkalmak' },
+  'series.scope.all': { en: 'All occurrences', hu: 'Összes alkalom' },
+  'budget.series.open': { en: 'Manage series', hu: 'Sorozat kezelése' },
+  'budget.series.title': { en: 'Recurring series', hu: 'Ismétlődő sorozat' },
+  'budget.series.notFound': { en: 'This series no longer exists.', hu: 'Ez a sorozat már nem létezik.' },
+  'budget.series.from': { en: 'from', hu: 'ettől:' },
+  'budget.series.generated': { en: '{count} generated', hu: '{count} létrehozva' },
+  'budget.series.status.posted': { en: 'Posted', hu: 'Könyvelve' },
+  'budget.series.status.skipped': { en: 'Skipped', hu: 'Kihagyva' },
+  'budget.series.status.upcoming': { en: 'Upcoming', hu: 'Közelgő' },
+  'budget.series.skip': { en: 'Skip this occurrence', hu: 'Alkalom kihagyása' },
+  'budget.series.unskip': { en: 'Restore this occurrence', hu: 'Alkalom visszaállítása' },
+  'budget.series.changeFrom': { en: 'Change from a date onwards', hu: 'Módosítás egy dátumtól kezdve' },
+  'budget.series.changeFromHint': { en: 'Earlier occurrences keep their current amount; the series continues with the new values from the chosen date.', hu: 'A korábbi alkalmak megtartják a jelenlegi összeget; a sorozat a választott dátumtól az új értékekkel folytatódik.' },
+  'budget.series.fromDate': { en: 'From', hu: 'Ettől' },
+  'budget.series.apply': { en: 'Apply from this date', hu: 'Alkalmazás ettől a dátumtól' },
+  'yearly.monthly.payments': { en: 'scheduled payments', hu: 'ütemezett tétel' },
+  'yearly.monthly.scheduledPayments': { en: 'Scheduled payments', hu: 'Ütemezett tételek' },
+  'budget.subscriptionCharge': { en: 'Subscription', hu: 'Előfizetés' },
+  'nav.subscriptions': { en: 'Subscriptions', hu: 'Előfizetések' },
+  'subscriptions.title': { en: 'Subscriptions', hu: 'Előfizetések' },
+  'subscriptions.subtitle': { en: 'Renewals, costs and what to cancel', hu: 'Megújítások, költségek és lemondási javaslatok' },
+  'subscriptions.add': { en: 'New subscription', hu: 'Új előfizetés' },
+  'subscriptions.edit': { en: 'Edit subscription', hu: 'Előfizetés szerkesztése' },
+  'subscriptions.all': { en: 'All subscriptions', hu: 'Összes előfizetés' },
+  'subscriptions.empty': { en: 'No subscriptions yet', hu: 'Még nincs előfizetés' },
+  'subscriptions.monthlyTotal': { en: 'Monthly cost', hu: 'Havi költség' },
+  'subscriptions.annualTotal': { en: 'Annual cost', hu: 'Éves költség' },
+  'subscriptions.active': { en: 'Active', hu: 'Aktív' },
+  'subscriptions.paused': { en: 'Paused', hu: 'Szüneteltetve' },
+  'subscriptions.perMonth': { en: '/mo', hu: '/hó' },
+  'subscriptions.calendar': { en: 'Renewal calendar', hu: 'Megújítási naptár' },
+  'subscriptions.byCategory': { en: 'By category', hu: 'Kategóriánként' },
+  'subscriptions.trials': { en: 'Free trials', hu: 'Ingyenes próbaidők' },
+  'subscriptions.trial': { en: 'Trial', hu: 'Próbaidő' },
+  'subscriptions.noTrials': { en: 'No free trials running', hu: 'Nincs futó próbaidő' },
+  'subscriptions.trialEndsToday': { en: 'ends today', hu: 'ma lejár' },
+  'subscriptions.trialEndsIn': { en: 'ends in {days} days', hu: '{days} nap múlva lejár' },
+  'subscriptions.cancelCandidates': { en: 'Cancel candidates', hu: 'Lemondási javaslatok' },
+  'subscriptions.noCandidates': { en: 'Nothing to cancel right now', hu: 'Most nincs mit lemondani' },
+  'subscriptions.reason.lowUse': { en: 'Rarely used', hu: 'Ritkán használt' },
+  'subscriptions.reason.priceIncrease': { en: 'Price increased', hu: 'Drágult' },
+  'subscriptions.markUsed': { en: 'Used today', hu: 'Ma használtam' },
+  'subscriptions.cancel': { en: 'Cancel', hu: 'Lemondás' },
+  'subscriptions.pause': { en: 'Pause', hu: 'Szüneteltetés' },
+  'subscriptions.resume': { en: 'Resume', hu: 'Folytatás' },
+  'subscriptions.nextPayment': { en: 'Next payment', hu: 'Következő fizetés' },
+  'subscriptions.priceHistory': { en: 'Price history', hu: 'Árváltozások' },
+  'subscriptions.confirmDelete': { en: 'Delete this subscription? Payments already posted stay in the budget.', hu: 'Törlöd az előfizetést? A már könyvelt fizetések megmaradnak a költségvetésben.' },
+  'subscriptions.field.name': { en: 'Name', hu: 'Név' },
+  'subscriptions.field.description': { en: 'Description', hu: 'Leírás' },
+  'subscriptions.field.cost': { en: 'Cost', hu: 'Díj' },
+  'subscriptions.field.currency': { en: 'Currency', hu: 'Pénznem' },
+  'subscriptions.field.billingCycle': { en: 'Billing cycle', hu: 'Számlázási ciklus' },
+  'subscriptions.field.category': { en: 'Category', hu: 'Kategória' },
+  'subscriptions.field.trialEndsAt': { en: 'Free trial ends', hu: 'Próbaidő vége' },
+  'subscriptions.cycle.daily': { en: 'day', hu: 'nap' },
+  'subscriptions.cycle.weekly': { en: 'week', hu: 'hét' },
+  'subscriptions.cycle.monthly': { en: 'month', hu: 'hónap' },
+  'subscriptions.cycle.yearly': { en: 'year', hu: 'év' },
+  'subscriptions.cycle.one-time': { en: 'one-time', hu: 'egyszeri' },
+  'rateProviders.title': { en: 'Rate sources', hu: 'Árfolyamforrások' },
+  'rateProviders.desc': { en: 'Refreshing tries the enabled sources from top to bottom and uses the first one that answers. Every fetched day is kept for converting amounts at the rate of their date.', hu: 'Frissítéskor a bekapcsolt források fentről lefelé kerülnek sorra, az első válaszoló nyer. Minden letöltött nap megmarad, így az összegek a saját dátumuk árfolyamán számolódnak.' },
+  'rateProviders.enabled': { en: 'Enabled', hu: 'Bekapcsolva' },
+  'rateProviders.moveUp': { en: 'Move up', hu: 'Feljebb' },
+  'rateProviders.moveDown': { en: 'Move down', hu: 'Lejjebb' },
+  'rateProviders.endpoint': { en: 'Endpoint URL', hu: 'Végpont URL' },
+  'rateProviders.endpointHint': { en: 'Leave empty for the public endpoint; set it to use a proxy or a local server', hu: 'Üresen a nyilvános végpontot használja; proxyhoz vagy helyi szerverhez add meg' },
+  'rateProviders.proxyHint': { en: 'MNB and ECB do not accept requests from a browser. To use them, enter the URL of a proxy you run or trust that forwards to their public endpoint; until then they are skipped.', hu: 'Az MNB és az EKB nem fogad böngészőből érkező kéréseket. Használatukhoz adj meg egy saját vagy megbízható proxy URL-t, amely a nyilvános végpontjukra továbbít; addig kimaradnak.' },
+  'rateProviders.needsProxy': { en: 'Needs a proxy endpoint', hu: 'Proxy végpont szükséges' },
+  'rateProviders.proxyPlaceholder': { en: 'Proxy URL forwarding to {url}', hu: 'Proxy URL, amely ide továbbít: {url}' },
+  'rateProviders.status.ok': { en: 'Working', hu: 'Működik' },
+  'rateProviders.status.failing': { en: 'Failing', hu: 'Hibás' },
+  'rateProviders.status.unknown': { en: 'Not used yet', hu: 'Még nem használt' },
+  'rateProviders.lastSuccess': { en: 'last success {time}', hu: 'utolsó siker: {time}' },
+  'rateProviders.aiOptIn': { en: 'Use AI estimated rates as a last resort', hu: 'AI által becsült árfolyamok végső esetben' },
+  'rateProviders.aiOptInDesc': { en: 'Only when every source above fails. AI rates are guesses, not official rates.', hu: 'Csak ha a fenti források mind hibásak. Az AI árfolyamok becslések, nem hivatalos árfolyamok.' },
+  'rateProviders.importFile': { en: 'Import rate file', hu: 'Árfolyamfájl importálása' },
+  'rateProviders.importFileDesc': { en: 'MNB or ECB XML, or CSV with date,currency,rate lines', hu: 'MNB vagy ECB XML, vagy CSV dátum,pénznem,árfolyam sorokkal' },
+  'tabSync.conflictTitle': { en: 'Changed in another tab', hu: 'Módosítva egy másik lapon' },
+  'tabSync.conflictDesc': { en: 'These items were edited here and in another tab at the same time. The other tab\'s values were kept for the fields you both changed.', hu: 'Ezeket az elemeket itt és egy másik lapon is szerkesztették egyszerre. A közösen módosított mezőknél a másik lap értékei maradtak meg.' },
 };
 
 interface LanguageContextType {
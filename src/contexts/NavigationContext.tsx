@@ -0,0 +1,15 @@
+// NavigationContext.tsx – record-level navigation requests (command palette → views)
+// The context object and its hooks live in hooks/useNavigation.
+import React, { useState, useCallback } from 'react';
+import { NavigationContext, NavigationRequest } from '../hooks/useNavigation';
+
+export const NavigationProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [request, setRequest] = useState<NavigationRequest | null>(null);
+  const clearRequest = useCallback(() => setRequest(null), []);
+
+  return (
+    <NavigationContext.Provider value={{ request, navigate: setRequest, clearRequest }}>
+      {children}
+    </NavigationContext.Provider>
+  );
+};
@@ -1,6 +1,11 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
+import { VaultService } from '../services/VaultService';
+import { TimeZoneService } from '../services/TimeZoneService';
+import { MigrationService } from '../services/MigrationService';
+import { DEFAULT_TRASH_RETENTION_DAYS } from '../utils/trash';
+import { SupportedTimeZone, defaultTimeZone } from '../utils/timeZone';
 
-export type TimeZone = 'UTC' | 'Europe/Budapest' | 'America/New_York' | 'Europe/London' | 'Europe/Berlin' | 'Europe/Paris' | 'Europe/Rome' | 'America/Los_Angeles';
+export type TimeZone = SupportedTimeZone;
 export type DateFormat = 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'YYYY-MM-DD';
 export type Currency = 'USD' | 'EUR' | 'GBP' | 'HUF' | 'CAD' | 'AUD' | 'JPY' | 'CHF' | 'SEK' | 'NOK' | 'DKK';
 export type AIProvider = 'openai' | 'gemini' | null;
@@ -27,6 +32,11 @@ interface PrivacySettings {
   crashReports: boolean;
 }
 
+interface DataSettings {
+  /** Trashed records are purged after this many days (0 = never) */
+  trashRetentionDays: number;
+}
+
 interface AIConfig {
   provider: AIProvider;
   apiKey: string;
@@ -36,12 +46,13 @@ interface AppSettings {
   general: GeneralSettings;
   notifications: NotificationSettings;
   privacy: PrivacySettings;
+  data: DataSettings;
   aiConfig: AIConfig;
 }
 
 const defaultSettings: AppSettings = {
   general: {
-    timeZone: 'UTC',
+    timeZone: defaultTimeZone(),
     dateFormat: 'MM/DD/YYYY',
     autoSave: true,
     compactMode: false,
@@ -59,6 +70,9 @@ const defaultSettings: AppSettings = {
     analytics: false,
     crashReports: true,
   },
+  data: {
+    trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+  },
   aiConfig: {
     provider: null,
     apiKey: ''
@@ -90,6 +104,12 @@ export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({ chil
       const saved = localStorage.getItem('digitalplanner-settings');
       let initialSettings = saved ? { ...defaultSettings, ...JSON.parse(saved) } : defaultSettings;
 
+      // Migrations run after DataProvider's async init, which is too late for the zone: apply that rewrite here
+      // (the persistence effect then stores it, so the migration itself finds nothing left to do)
+      if (saved && initialSettings.general?.timeZone === 'UTC' && MigrationService.isPending('time_zone_browser_default')) {
+        initialSettings = { ...initialSettings, general: { ...initialSettings.general, timeZone: defaultTimeZone() } };
+      }
+
       // Migrate legacy AI config if needed
       if (!initialSettings.aiConfig?.apiKey) {
         try {
@@ -106,17 +126,38 @@ export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({ chil
           }
         } catch (e) { console.error('Error migrating AI config', e); }
       }
+
+      // Vault mode: the API key only exists encrypted
+      const vaultAI = VaultService.getAIConfig();
+      if (vaultAI) {
+        initialSettings = {
+          ...initialSettings,
+          aiConfig: { provider: (vaultAI.provider as AIProvider) ?? initialSettings.aiConfig.provider, apiKey: vaultAI.apiKey }
+        };
+      }
+      // Before the first render, so "today" and times are in the configured zone from the start
+      TimeZoneService.setTimeZone(initialSettings.general?.timeZone);
       return initialSettings;
     } catch (error) {
       console.error('Error loading settings:', error);
+      TimeZoneService.setTimeZone(defaultSettings.general.timeZone);
       return defaultSettings;
     }
   });
 
   useEffect(() => {
+    if (VaultService.isUnlocked()) {
+      VaultService.setAIConfig(settings.aiConfig);
+      localStorage.setItem('digitalplanner-settings', JSON.stringify({ ...settings, aiConfig: { ...settings.aiConfig, apiKey: '' } }));
+      return;
+    }
     localStorage.setItem('digitalplanner-settings', JSON.stringify(settings));
   }, [settings]);
 
+  useEffect(() => {
+    TimeZoneService.setTimeZone(settings.general.timeZone);
+  }, [settings.general.timeZone]);
+
   const updateSettings = (updates: Partial<AppSettings>) => {
     setSettings(prev => ({
       ...prev,
@@ -124,6 +165,7 @@ export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({ chil
       general: { ...prev.general, ...updates.general },
       notifications: { ...prev.notifications, ...updates.notifications },
       privacy: { ...prev.privacy, ...updates.privacy },
+      data: { ...prev.data, ...updates.data },
       aiConfig: { ...prev.aiConfig, ...updates.aiConfig },
     }));
   };
@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useData } from '../contexts/DataContext';
+import { SearchIndex, SearchResult } from '../utils/searchIndex';
+import {
+  noteDocument, planDocument, goalDocument, transactionDocument, invoiceDocument,
+  clientDocument, workflowDocument, habitDocument
+} from '../utils/searchDocuments';
+
+/**
+ * Search over every searchable collection of DataContext (command palette).
+ * The index is kept for the lifetime of the component and only re-indexes records that changed;
+ * nothing is indexed while `enabled` is false.
+ */
+export const useGlobalSearch = (enabled: boolean): ((query: string, limit?: number) => SearchResult[]) => {
+  const { notes, plans, goals, transactions, invoices, clients, workflows, habits } = useData();
+  const indexRef = useRef<SearchIndex | null>(null);
+  // Bumped after every sync, so consumers re-run their search when the data changes
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const current = indexRef.current ?? (indexRef.current = new SearchIndex());
+    const clientsById = new Map(clients.map(client => [client.id, client]));
+    current.sync('notes', notes, noteDocument);
+    current.sync('plans', plans, planDocument);
+    current.sync('goals', goals, goalDocument);
+    current.sync('transactions', transactions, transactionDocument);
+    current.sync('invoices', invoices, invoice => invoiceDocument(invoice, clientsById), [clients]);
+    current.sync('clients', clients, clientDocument);
+    current.sync('workflows', workflows, workflowDocument);
+    current.sync('habits', habits, habitDocument);
+    setVersion(v => v + 1);
+  }, [enabled, notes, plans, goals, transactions, invoices, clients, workflows, habits]);
+
+  return useCallback((query: string, limit?: number) =>
+    enabled && version > 0 ? indexRef.current?.search(query, limit) ?? [] : [], [enabled, version]);
+};
@@ -0,0 +1,63 @@
+import { createContext, useContext, useEffect, useRef } from 'react';
+import { SearchEntityType } from '../utils/searchDocuments';
+
+export type NavigationRequest =
+  | { kind: 'open'; type: SearchEntityType; id: string }
+  | { kind: 'create'; type: SearchEntityType };
+
+export interface NavigationContextType {
+  request: NavigationRequest | null;
+  /** Ask the view that owns `type` to open a record or its create form (switch to the view first) */
+  navigate: (request: NavigationRequest) => void;
+  clearRequest: () => void;
+}
+
+const HIGHLIGHT_MS = 2000;
+const HIGHLIGHT_CLASSES = ['ring-2', 'ring-primary-500', 'ring-offset-2'];
+
+/** Provided by NavigationProvider (contexts/NavigationContext) */
+export const NavigationContext = createContext<NavigationContextType | undefined>(undefined);
+
+export const useNavigation = () => {
+  const context = useContext(NavigationContext);
+  if (!context) {
+    throw new Error('useNavigation must be used within a NavigationProvider');
+  }
+  return context;
+};
+
+/**
+ * Scroll to the element rendered with `data-record-id={id}` and flash a ring around it
+ */
+const highlightRecord = (id: string) => {
+  const element = document.querySelector<HTMLElement>(`[data-record-id="${CSS.escape(id)}"]`);
+  if (!element) return;
+  element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  element.classList.add(...HIGHLIGHT_CLASSES);
+  window.setTimeout(() => element.classList.remove(...HIGHLIGHT_CLASSES), HIGHLIGHT_MS);
+};
+
+/**
+ * Handle navigation requests for one record type inside the view that shows it.
+ * `open` runs first (switch tab, select the record's day...), then the record is scrolled into view and highlighted.
+ */
+export const useNavigationRequest = (
+  type: SearchEntityType,
+  handlers: { open?: (id: string) => void; create?: () => void }
+) => {
+  const { request, clearRequest } = useNavigation();
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!request || request.type !== type) return;
+    clearRequest();
+    if (request.kind === 'create') {
+      handlersRef.current.create?.();
+      return;
+    }
+    handlersRef.current.open?.(request.id);
+    // Wait for the view to render the state set by `open` (clearing the request re-runs this effect, so no cleanup)
+    window.setTimeout(() => highlightRecord(request.id), 150);
+  }, [request, type, clearRequest]);
+};
@@ -0,0 +1,59 @@
+import { useMemo, useState } from 'react';
+import { useData } from '../contexts/DataContext';
+import { PlanOccurrence, PlanSeriesUpdate, SeriesEditScope, expandPlans } from '../utils/planSeries';
+
+/**
+ * Plans to render between `from` and `to`, with recurring series expanded into their occurrences
+ */
+export const usePlanOccurrences = (from: Date, to: Date): PlanOccurrence[] => {
+  const { plans } = useData();
+  const fromTime = from.getTime();
+  const toTime = to.getTime();
+  return useMemo(() => expandPlans(plans, new Date(fromTime), new Date(toTime)), [plans, fromTime, toTime]);
+};
+
+type PendingSeriesAction =
+  | { action: 'edit'; plan: PlanOccurrence; updates: PlanSeriesUpdate; allowThis: boolean }
+  | { action: 'delete'; plan: PlanOccurrence; allowThis: boolean };
+
+/**
+ * Update / delete / complete for rendered plans. One-off plans change directly; for occurrences of a series the
+ * change waits in `pending` until the scope is chosen (render a SeriesScopeDialog for it).
+ */
+export const usePlanOccurrenceActions = () => {
+  const { updatePlan, deletePlan, updatePlanOccurrence, deletePlanOccurrence } = useData();
+  const [pending, setPending] = useState<PendingSeriesAction | null>(null);
+
+  const toggleCompleted = (plan: PlanOccurrence) => {
+    if (plan.seriesId && plan.occurrenceDate) {
+      updatePlanOccurrence(plan.seriesId, plan.occurrenceDate, { completed: !plan.completed }, 'this');
+    } else {
+      updatePlan(plan.id, { completed: !plan.completed });
+    }
+  };
+
+  const update = (plan: PlanOccurrence, updates: PlanSeriesUpdate) => {
+    if (!plan.seriesId) {
+      updatePlan(plan.id, updates);
+      return;
+    }
+    // Time and recurrence are properties of the series, not of a single occurrence
+    const allowThis = updates.rrule === plan.rrule && updates.startTime === undefined && updates.endTime === undefined;
+    setPending({ action: 'edit', plan, updates, allowThis });
+  };
+
+  const remove = (plan: PlanOccurrence) => {
+    if (plan.seriesId) setPending({ action: 'delete', plan, allowThis: true });
+    else deletePlan(plan.id);
+  };
+
+  const chooseScope = (scope: SeriesEditScope) => {
+    if (!pending?.plan.seriesId || !pending.plan.occurrenceDate) return;
+    const { seriesId, occurrenceDate } = pending.plan;
+    if (pending.action === 'edit') updatePlanOccurrence(seriesId, occurrenceDate, pending.updates, scope);
+    else deletePlanOccurrence(seriesId, occurrenceDate, scope);
+    setPending(null);
+  };
+
+  return { toggleCompleted, update, remove, pending, chooseScope, cancel: () => setPending(null) };
+};
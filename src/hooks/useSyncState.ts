@@ -0,0 +1,13 @@
+import { useState, useEffect } from 'react';
+import { SyncService, SyncState } from '../services/SyncService';
+
+/**
+ * Live cloud sync status (Header indicator, Settings panel)
+ */
+export const useSyncState = (): SyncState => {
+  const [state, setState] = useState<SyncState>(() => SyncService.getState());
+
+  useEffect(() => SyncService.subscribe(setState), []);
+
+  return state;
+};
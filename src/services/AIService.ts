@@ -7,6 +7,8 @@
  * Egyszerre csak egy API lehet aktív
  */
 
+import { VaultService } from './VaultService';
+
 export type AIProvider = 'openai' | 'gemini' | null;
 
 interface AIConfig {
@@ -89,6 +91,14 @@ class AIServiceClass {
                     apiKey: parsed.apiKey || ''
                 };
             }
+            // Vault mód: a kulcs csak feloldás után érhető el
+            const vaultConfig = VaultService.getAIConfig();
+            if (vaultConfig?.apiKey) {
+                this.config = {
+                    provider: (vaultConfig.provider as AIProvider) || this.config.provider,
+                    apiKey: vaultConfig.apiKey
+                };
+            }
         } catch (e) {
             console.error('AIService: Failed to load config', e);
         }
@@ -99,7 +109,12 @@ class AIServiceClass {
      */
     private saveConfig(): void {
         try {
-            localStorage.setItem('digitalplanner_ai_config', JSON.stringify(this.config));
+            if (VaultService.isUnlocked()) {
+                VaultService.setAIConfig(this.config);
+                localStorage.setItem('digitalplanner_ai_config', JSON.stringify({ ...this.config, apiKey: '' }));
+            } else {
+                localStorage.setItem('digitalplanner_ai_config', JSON.stringify(this.config));
+            }
             // Régi kulcsok törlése a konzisztencia érdekében
             localStorage.removeItem('contentplanner_ai_config');
         } catch (e) {
@@ -0,0 +1,124 @@
+/**
+ * AuditLogService
+ * Append-only log of field-level changes to planner records.
+ *
+ * - Entries are produced by DataContext from its change diffs (see utils/auditLog) and tagged with their origin.
+ * - The log is an entity store of its own ('audit-log'), included in backups but not in cloud sync.
+ *   Beyond AUDIT_LOG_RECENT_LIMIT entries the oldest move to 'audit-log-archive', so appends stay cheap.
+ * - Restores only add entries (see importEntries); history is never replaced.
+ * - Other tabs append the entries this tab records, so concurrent tabs never overwrite each other's history.
+ */
+
+import { StorageService } from './StorageService';
+import { TabSyncService } from './TabSyncService';
+import { AuditEntityType, AuditEntry, AUDIT_LOG_RECENT_LIMIT, auditLogToCsv } from '../utils/auditLog';
+
+const STORAGE_KEY = 'audit-log';
+const ARCHIVE_KEY = 'audit-log-archive';
+
+class AuditLogServiceClass {
+    private listeners = new Set<() => void>();
+
+    /**
+     * Oldest first
+     */
+    getAll(): AuditEntry[] {
+        return [...this.getArchived(), ...this.getRecent()];
+    }
+
+    /**
+     * History of one record, newest first
+     */
+    getForEntity(entityType: AuditEntityType, entityId: string): AuditEntry[] {
+        return this.getAll().filter(entry => entry.entityType === entityType && entry.entityId === entityId).reverse();
+    }
+
+    /**
+     * Append entries recorded in this tab and share them with the other tabs
+     */
+    record(entries: AuditEntry[]): void {
+        if (entries.length === 0) return;
+        this.append(entries);
+        TabSyncService.publish({ type: 'audit', entries });
+    }
+
+    /**
+     * Append entries recorded in another tab (ids already present are ignored)
+     */
+    receive(entries: AuditEntry[]): void {
+        this.append(entries);
+    }
+
+    /**
+     * Add entries from a backup: ids already present are ignored and the log stays in time order
+     */
+    importEntries(entries: AuditEntry[]): Promise<boolean> {
+        const current = this.getAll();
+        const known = new Set(current.map(entry => entry.id));
+        const fresh = entries
+            .filter(entry => !known.has(entry.id))
+            .map(entry => ({ ...entry, at: new Date(entry.at).toISOString() }));
+        if (fresh.length === 0) return Promise.resolve(true);
+        const merged = [...current, ...fresh].sort((a, b) => a.at.localeCompare(b.at));
+        const split = Math.max(0, merged.length - AUDIT_LOG_RECENT_LIMIT);
+        return this.save(merged.slice(split), merged.slice(0, split));
+    }
+
+    /**
+     * Download entries (default: the whole log) as a CSV file
+     */
+    downloadCsv(entries: AuditEntry[] = this.getAll(), fileName = `change-history-${new Date().toISOString().slice(0, 10)}.csv`): void {
+        const blob = new Blob([auditLogToCsv(entries)], { type: 'text/csv;charset=utf-8' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = fileName;
+        a.click();
+        URL.revokeObjectURL(url);
+    }
+
+    /**
+     * Subscribe to new entries
+     * @returns unsubscribe function
+     */
+    subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private getRecent(): AuditEntry[] {
+        return StorageService.get<AuditEntry[]>(STORAGE_KEY, []) ?? [];
+    }
+
+    private getArchived(): AuditEntry[] {
+        return StorageService.get<AuditEntry[]>(ARCHIVE_KEY, []) ?? [];
+    }
+
+    private append(entries: AuditEntry[]): void {
+        const current = this.getRecent();
+        const known = new Set(current.map(entry => entry.id));
+        const fresh = entries.filter(entry => !known.has(entry.id));
+        if (fresh.length === 0) return;
+        const recent = [...current, ...fresh];
+        // Archive the older half at once, so the archive is rewritten only every AUDIT_LOG_RECENT_LIMIT / 2 entries
+        const archived = recent.length > AUDIT_LOG_RECENT_LIMIT
+            ? recent.splice(0, recent.length - AUDIT_LOG_RECENT_LIMIT / 2)
+            : [];
+        this.save(recent, archived.length > 0 ? [...this.getArchived(), ...archived] : null);
+    }
+
+    /**
+     * @param archive full archive to store, or null to leave it as is
+     */
+    private async save(recent: AuditEntry[], archive: AuditEntry[] | null): Promise<boolean> {
+        const writes = [StorageService.set(STORAGE_KEY, recent)];
+        if (archive) writes.push(StorageService.set(ARCHIVE_KEY, archive));
+        this.listeners.forEach(listener => listener());
+        return (await Promise.all(writes)).every(Boolean);
+    }
+}
+
+export const AuditLogService = new AuditLogServiceClass();
+export default AuditLogService;
@@ -1,5 +1,11 @@
 import { AIService } from './AIService';
+import { RateProviderService } from './RateProviderService';
+import { RateProviderId, createAiRateProvider } from './RateProviders';
+import { TimeZoneService } from './TimeZoneService';
 import { AVAILABLE_CURRENCIES, DEFAULT_RATES, LANGUAGE_CURRENCY_MAP } from '../constants/currencyData';
+import { DatedRates, RateHistory, RateLookup, RateTable, convertWithRates, createRateLookup, recordRates } from '../utils/rateHistory';
+import { RateSnapshot, parseRateFile } from '../utils/rateParsers';
+import { toLocalYMD } from '../utils/rrule';
 /**
  * CurrencyService - Professional Currency Management
  * 
@@ -7,7 +13,8 @@ import { AVAILABLE_CURRENCIES, DEFAULT_RATES, LANGUAGE_CURRENCY_MAP } from '../c
  * - Unlimited currencies (not just 3)
  * - Manual exchange rate input
  * - Language-based default currency
- * - AI-powered rate fetching (via Gemini)
+ * - Rate providers with fallbacks (MNB, ECB, Frankfurter; AI estimates opt-in) and rate file import
+ * - Dated rate history (every fetch and manual entry), for converting at the rate of a given day
  * - localStorage persistence
  */
 
@@ -18,9 +25,17 @@ interface CurrencyConfig {
     rates: Record<string, number>; // Rates relative to HUF (Technical Base)
     lastUpdated: number; // Timestamp
     updateSource: 'system' | 'ai' | 'api'; // Track where rates came from
+    updateProvider?: RateProviderId; // Rate provider of the last successful fetch
 }
 
 const STORAGE_KEY = 'contentplanner_currency_config';
+const HISTORY_KEY = 'digitalplanner_rate_history';
+
+/** A day as YYYY-MM-DD: Dates by their (floating local) calendar day, strings as given */
+const dayOf = (onDate: Date | string): string => {
+    if (typeof onDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(onDate)) return onDate;
+    return toLocalYMD(new Date(onDate));
+};
 
 class CurrencyServiceClass {
     private config: CurrencyConfig = {
@@ -29,6 +44,9 @@ class CurrencyServiceClass {
         lastUpdated: Date.now(),
         updateSource: 'system'
     };
+    private history: RateHistory = {};
+    private historyRevision = 0;
+    private lookup: RateLookup | null = null;
 
     /**
      * Get last updated timestamp
@@ -46,6 +64,7 @@ class CurrencyServiceClass {
 
     constructor() {
         this.loadConfig();
+        this.loadHistory();
     }
 
     // ... (getDefaultCurrency, getBaseCurrency, etc. - keep existing) -> RESTORING ACTUAL CODE
@@ -75,10 +94,29 @@ class CurrencyServiceClass {
     /**
      * Set exchange rate (amount in source currency = 1 base currency)
      * Example: setRate('EUR', 385) means 1 EUR = 385 HUF (if base is HUF)
+     * The rate is recorded in the history on `onDate` (default today); a past date leaves the current rate alone.
      */
-    setRate(currency: string, rateToBase: number): void {
-        this.config.rates[currency] = rateToBase;
-        this.saveConfig();
+    setRate(currency: string, rateToBase: number, onDate?: Date | string): void {
+        this.applyRates({ [currency]: rateToBase }, onDate);
+    }
+
+    /**
+     * Record several rates of one day at once; the current rates follow unless the day is in the past.
+     * `fetched` rates are dated the last banking day, so they are current as long as nothing newer is recorded.
+     */
+    private applyRates(rates: RateTable, onDate?: Date | string, fetched = false): void {
+        const today = TimeZoneService.todayYMD();
+        const day = onDate ? dayOf(onDate) : today;
+        const latest = Object.keys(this.history).sort().pop();
+        if (day >= today || (fetched && (!latest || day >= latest))) {
+            this.config.rates = { ...this.config.rates, ...rates };
+            this.saveConfig();
+        }
+        const history = recordRates(this.history, day, rates);
+        if (history !== this.history) {
+            this.history = history;
+            this.historyChanged();
+        }
     }
 
     /**
@@ -96,13 +134,40 @@ class CurrencyServiceClass {
         return { ...this.config.rates };
     }
 
+    /**
+     * Rates in effect on a day: per currency the latest recorded on or before it, else the current one
+     */
+    getRatesOn(onDate: Date | string): Record<string, number> {
+        return { ...this.getLookup()(dayOf(onDate)) };
+    }
+
+    /**
+     * Recorded rates by day (YYYY-MM-DD)
+     */
+    getRateHistory(): RateHistory {
+        return this.history;
+    }
+
+    /**
+     * Current rates and history together, for conversions off the main thread (finance worker)
+     */
+    getDatedRates(): DatedRates {
+        return { current: { ...this.config.rates }, history: this.history, revision: this.historyRevision };
+    }
+
     /**
      * Convert amount from one currency to another
      * Uses HUF as an internal "hub" for any-to-any conversion.
+     * With `onDate`, converts at the rates of that day (nearest earlier recorded day), otherwise at the current ones.
      */
-    convert(amount: number, from: string, to: string): number {
+    convert(amount: number, from: string, to: string, onDate?: Date | string): number {
         if (from === to) return amount;
 
+        if (onDate !== undefined && onDate !== null && onDate !== '') {
+            const day = dayOf(onDate);
+            if (/^\d{4}-\d{2}-\d{2}$/.test(day)) return convertWithRates(amount, from, to, this.getLookup()(day));
+        }
+
         // Use HUF as technical base regardless of display settings
         const technicalBase = 'HUF';
 
@@ -151,7 +216,8 @@ class CurrencyServiceClass {
     }
 
     /**
-     * Fetch real-time exchange rates (Free API -> AI -> Fallback)
+     * Fetch real-time exchange rates (rate providers in their fallback order -> built-in rates).
+     * AI estimates are one of the providers only when opted in (RateProviderService.setAiEnabled).
      */
     async fetchRealTimeRates(force: boolean = false): Promise<{ success: boolean; message: string; method: 'api' | 'ai' | 'fallback' }> {
         const now = Date.now();
@@ -168,30 +234,21 @@ class CurrencyServiceClass {
         }
 
         try {
-            // Priority 1: Free Exchange Rate API (exchangerate.host - no API key required)
+            // Priority 1: Rate providers (MNB, ECB, Frankfurter by default; AI last when opted in)
             const apiResult = await this.fetchRatesFromAPI();
             if (apiResult.success) {
+                const method = apiResult.providerId === 'ai' ? 'ai' : 'api';
                 this.config.lastUpdated = now;
-                this.config.updateSource = 'api';
+                this.config.updateSource = method;
                 this.saveConfig();
-                return { success: true, message: 'Árfolyamok frissítve (API)', method: 'api' };
-            }
-
-            // Priority 2: AI (Gemini) - Good for when API is unavailable
-            if (AIService.isConfigured()) {
-                const aiResult = await this.fetchRatesWithAI();
-                if (aiResult.success) {
-                    this.config.lastUpdated = now;
-                    this.config.updateSource = 'ai';
-                    this.saveConfig();
-                    return { success: true, message: 'Árfolyamok frissítve (AI)', method: 'ai' };
-                }
+                return { success: true, message: apiResult.message, method };
             }
 
-            // Priority 3: Fallback to Hardcoded Today's Rates
+            // Priority 2: Fallback to Hardcoded Today's Rates
             this.config.rates = { ...DEFAULT_RATES };
             this.config.lastUpdated = now;
             this.config.updateSource = 'system';
+            this.config.updateProvider = undefined;
             this.saveConfig();
 
             return { success: true, message: 'Mai napi árfolyamok betöltve (Offline)', method: 'fallback' };
@@ -202,48 +259,24 @@ class CurrencyServiceClass {
     }
 
     /**
-     * Fetch exchange rates from free API (Frankfurter)
-     * Completely free, open source, no API key required.
-     * Base currency: HUF (requested via ?from=HUF)
+     * Fetch exchange rates from the first rate provider that answers (see RateProviderService).
+     * Every day the provider returned is recorded in the rate history.
      */
-    async fetchRatesFromAPI(): Promise<{ success: boolean; message: string }> {
+    async fetchRatesFromAPI(): Promise<{ success: boolean; message: string; providerId?: RateProviderId }> {
         try {
-            // Using frankfurter.app - reliable, free, open source
-            const response = await fetch('https://api.frankfurter.app/latest?from=HUF');
-
-            if (!response.ok) {
-                return { success: false, message: `API hiba: ${response.status}` };
-            }
-
-            const data = await response.json();
-
-            // Frankfurter returns: amount: 1.0, base: "HUF", date: "YYYY-MM-DD", rates: { "USD": 0.0028, ... }
-            // Meaning 1 HUF = 0.0028 USD.
-            // We need: 1 USD = X HUF. So we calculate 1 / rate.
-
-            const rates = data.rates;
-            if (rates) {
-                let count = 0;
-                Object.entries(rates).forEach(([currency, rate]) => {
-                    if (typeof rate === 'number' && rate > 0) {
-                        const invertedRate = 1 / rate; // 1 USD = 350 HUF
-                        this.setRate(currency, invertedRate);
-                        count++;
-                    }
-                });
-                return { success: true, message: `Árfolyamok frissítve (Frankfurter): ${count} pénznem` };
-            }
-
-            return { success: false, message: 'Nincs adat az API válaszban' };
+            const result = await RateProviderService.fetchLatest();
+            const count = this.applySnapshots(result.snapshots);
+            this.config.updateProvider = result.providerId;
+            this.saveConfig();
+            return { success: true, message: `Árfolyamok frissítve (${result.label}): ${count} pénznem`, providerId: result.providerId };
         } catch (error) {
             console.warn('CurrencyService: API fetch failed', error);
-            // Fallback to secondary API if needed, or just return failure to trigger AI
             return { success: false, message: error instanceof Error ? error.message : 'API hiba' };
         }
     }
 
     /**
-     * Fetch exchange rates using AI (Gemini)
+     * Fetch exchange rates using AI (Gemini) - estimates, only on explicit request
      */
     async fetchRatesWithAI(): Promise<{ success: boolean; message: string }> {
         if (!AIService.isConfigured()) {
@@ -251,39 +284,37 @@ class CurrencyServiceClass {
         }
 
         try {
-            // Get all currencies except HUF (base)
-            const currencies = AVAILABLE_CURRENCIES
-                .map(c => c.code)
-                .filter(code => code !== 'HUF');
-
-            const prompt = `
-                Kérlek add meg a mai (${new Date().toLocaleDateString()}) árfolyamokat HUF (Forint) alapon.
-                Válaszolj CSAK JSON formátumban, semmi más szöveget ne írj:
-                { "EUR": 386.7, "USD": 330.1, ... }
-                Pénznemek: ${currencies.join(', ')}
-                Az érték azt jelenti, hogy 1 [pénznem] = X Forint.
-            `;
-
-            const result = await AIService.generateText({ prompt, maxTokens: 1000 }); // Increased tokens just in case
-
-            // Parse JSON from response
-            const jsonMatch = result.text.match(/\{[^}]+\}/);
-            if (jsonMatch) {
-                const rates = JSON.parse(jsonMatch[0]);
-                Object.entries(rates).forEach(([currency, rate]) => {
-                    if (typeof rate === 'number') {
-                        this.setRate(currency, rate);
-                    }
-                });
-                return { success: true, message: `Árfolyamok frissítve: ${Object.keys(rates).length} db pénznem` };
-            }
-
-            return { success: false, message: 'Nem sikerült feldolgozni az AI válaszát.' };
+            const snapshots = await createAiRateProvider(TimeZoneService.todayYMD()).fetchRates();
+            const count = this.applySnapshots(snapshots);
+            return { success: true, message: `Árfolyamok frissítve: ${count} db pénznem` };
         } catch (error) {
             return { success: false, message: error instanceof Error ? error.message : 'Ismeretlen hiba' };
         }
     }
 
+    /**
+     * Offline import of a rate file (MNB or ECB XML, or date,currency,rate CSV); every day in it is recorded,
+     * and its newest day becomes the current rates unless a later day is already recorded
+     */
+    importRatesFile(content: string): { success: boolean; message: string; days: number } {
+        try {
+            const snapshots = parseRateFile(content, TimeZoneService.todayYMD());
+            const count = this.applySnapshots(snapshots);
+            return { success: true, message: `Árfolyamok importálva: ${snapshots.length} nap, ${count} pénznem`, days: snapshots.length };
+        } catch (error) {
+            return { success: false, message: error instanceof Error ? error.message : 'Importálási hiba', days: 0 };
+        }
+    }
+
+    /**
+     * Record fetched days oldest first, so the newest one ends up as the current rates.
+     * Returns the number of currencies of the newest day.
+     */
+    private applySnapshots(snapshots: RateSnapshot[]): number {
+        [...snapshots].reverse().forEach(snapshot => this.applyRates(snapshot.rates, snapshot.date, true));
+        return Object.keys(snapshots[0]?.rates ?? {}).length;
+    }
+
     /**
      * Load config from localStorage
      */
@@ -296,7 +327,8 @@ class CurrencyServiceClass {
                     baseCurrency: parsed.baseCurrency || 'USD',
                     rates: { ...DEFAULT_RATES, ...parsed.rates },
                     lastUpdated: parsed.lastUpdated || 0,
-                    updateSource: parsed.updateSource || 'system'
+                    updateSource: parsed.updateSource || 'system',
+                    updateProvider: parsed.updateProvider
                 };
             }
         } catch (e) {
@@ -304,10 +336,40 @@ class CurrencyServiceClass {
         }
     }
 
+    private getLookup(): RateLookup {
+        if (!this.lookup) this.lookup = createRateLookup({ current: this.config.rates, history: this.history });
+        return this.lookup;
+    }
+
+    private historyChanged(): void {
+        this.historyRevision++;
+        this.lookup = null;
+        try {
+            localStorage.setItem(HISTORY_KEY, JSON.stringify(this.history));
+        } catch (e) {
+            console.error('CurrencyService: Failed to save rate history', e);
+        }
+    }
+
+    /**
+     * Load the rate history from localStorage
+     */
+    private loadHistory(): void {
+        try {
+            const saved = localStorage.getItem(HISTORY_KEY);
+            const parsed = saved ? JSON.parse(saved) : null;
+            if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) this.history = parsed;
+        } catch (e) {
+            console.error('CurrencyService: Failed to load rate history', e);
+        }
+    }
+
     /**
      * Save config to localStorage
      */
     private saveConfig(): void {
+        // Conversions fall back to the current rates
+        this.lookup = null;
         try {
             localStorage.setItem(STORAGE_KEY, JSON.stringify(this.config));
         } catch (e) {
@@ -1,48 +1,493 @@
+import type { z } from 'zod';
+import { StorageService } from './StorageService';
+import { isEntityKey } from './StorageDrivers';
+import { VaultService, VaultAIConfig } from './VaultService';
+import { LATEST_SCHEMA_VERSION } from './MigrationService';
+import {
+    backupManifestSchema, BackupManifest,
+    noteSchema, goalSchema, planSchema, drawingSchema, subscriptionSchema, transactionSchema, invoiceSchema,
+    clientSchema, companyProfileSchema, workflowSchema, workflowTemplateSchema, budgetSettingsSchema,
+    habitSchema, budgetGoalSchema, auditEntrySchema, recurringSkipSchema, formatIssues
+} from '../utils/backupSchemas';
+import { mergeLegacyHabits } from '../utils/habits';
+import { AuditLogService } from './AuditLogService';
+import { AuditEntry, auditEntriesFromDiff } from '../utils/auditLog';
+import { Identifiable, JournalCollection, diffCollections, recordLabel } from '../utils/changeJournal';
+
+export type RestoreMode = 'merge' | 'replace';
+
+/** Why a restore writes data: a backup file from the user, or a local snapshot */
+export type RestoreReason = 'import' | 'restore';
+
+/** Runs before a restore writes anything; resolving false aborts the restore (installed by SnapshotService) */
+type BeforeRestoreHook = (reason: RestoreReason) => Promise<boolean>;
+
+let beforeRestore: BeforeRestoreHook | null = null;
+
+/** Bumped when the file layout changes; files with a higher version are refused */
+export const BACKUP_FORMAT_VERSION = 2;
+const BACKUP_FORMAT = 'digitalplanner-backup';
+
+/** Habit keys of backups made before habits moved into StorageService */
+const LEGACY_HABIT_KEYS = ['habit-studio-v3-data', 'planner.habits.v2'];
+
+/**
+ * records: array of objects with ids; object: single settings object; list: array of strings;
+ * store: one localStorage key owned by a single view or context;
+ * keys: other app keys kept in localStorage (settings, invoice sequences);
+ * secret: the AI API key (only exported on request)
+ */
+type BackupCollectionKind = 'records' | 'object' | 'list' | 'store' | 'keys' | 'secret';
+
+interface BackupCollectionDef {
+    id: string;
+    label: string;
+    kind: BackupCollectionKind;
+    /** StorageService key (backup files use the legacy 'planner-' + key name; 'store' collections use localKey there) */
+    storageKey?: string;
+    /** localStorage key of a 'store' collection (also its key in the backup file); with storageKey set, only its legacy key */
+    localKey?: string;
+    schema?: z.ZodType;
+    /** Audit history: restores only add entries with unknown ids, in either mode (see AuditLogService.importEntries) */
+    appendOnly?: boolean;
+}
+
+const AI_SECRET_BACKUP_KEY = 'ai-secret';
+
+/** Stored settings that carry a plaintext copy of the AI key; it is stripped from them on export and import */
+const AI_KEY_CARRIERS: Record<string, (value: Record<string, unknown>) => Record<string, unknown> | undefined> = {
+    'digitalplanner-settings': value => value.aiConfig as Record<string, unknown> | undefined,
+    'digitalplanner_ai_config': value => value,
+};
+
+export const BACKUP_COLLECTIONS: BackupCollectionDef[] = [
+    { id: 'notes', label: 'Notes', kind: 'records', storageKey: 'notes', schema: noteSchema },
+    { id: 'goals', label: 'Goals', kind: 'records', storageKey: 'goals', schema: goalSchema },
+    { id: 'plans', label: 'Plans', kind: 'records', storageKey: 'plans', schema: planSchema },
+    { id: 'drawings', label: 'Drawings', kind: 'records', storageKey: 'drawings', schema: drawingSchema },
+    { id: 'subscriptions', label: 'Subscriptions', kind: 'records', storageKey: 'subscriptions', schema: subscriptionSchema },
+    { id: 'transactions', label: 'Transactions', kind: 'records', storageKey: 'transactions', schema: transactionSchema },
+    { id: 'invoices', label: 'Invoices', kind: 'records', storageKey: 'invoices', schema: invoiceSchema },
+    { id: 'clients', label: 'Clients', kind: 'records', storageKey: 'clients', schema: clientSchema },
+    { id: 'company-profiles', label: 'Company profiles', kind: 'records', storageKey: 'company-profiles', schema: companyProfileSchema },
+    { id: 'workflows', label: 'Workflows', kind: 'records', storageKey: 'workflows', schema: workflowSchema },
+    { id: 'workflow-templates', label: 'Workflow templates', kind: 'records', storageKey: 'workflow-templates', schema: workflowTemplateSchema },
+    { id: 'budget-settings', label: 'Budget settings', kind: 'object', storageKey: 'budget-settings', schema: budgetSettingsSchema },
+    { id: 'recurring-skips', label: 'Skipped recurring payments', kind: 'list', storageKey: 'recurring-skips', schema: recurringSkipSchema },
+    { id: 'habits', label: 'Habits', kind: 'records', storageKey: 'habits', schema: habitSchema },
+    { id: 'budget-goals', label: 'Savings goals', kind: 'records', storageKey: 'budget-goals', schema: budgetGoalSchema },
+    { id: 'audit-log', label: 'Change history', kind: 'records', storageKey: 'audit-log', schema: auditEntrySchema, appendOnly: true },
+    { id: 'audit-log-archive', label: 'Change history (archived)', kind: 'records', storageKey: 'audit-log-archive', schema: auditEntrySchema, appendOnly: true },
+    { id: 'pomodoro', label: 'Pomodoro stats', kind: 'store', localKey: 'pomodoro-stats' },
+    { id: 'company-info', label: 'Invoice company info', kind: 'store', localKey: 'companyInfo', storageKey: 'company-info' },
+    { id: 'budget-notifications', label: 'Budget notifications', kind: 'store', localKey: 'budget_notifications' },
+    { id: 'drawing-state', label: 'Drawing canvas', kind: 'store', localKey: 'planner-drawing-state', storageKey: 'drawing-state' },
+    { id: 'currency-config', label: 'Exchange rates', kind: 'store', localKey: 'contentplanner_currency_config' },
+    { id: 'rate-history', label: 'Exchange rate history', kind: 'store', localKey: 'digitalplanner_rate_history' },
+    { id: 'rate-providers', label: 'Exchange rate sources', kind: 'store', localKey: 'digitalplanner_rate_providers' },
+    { id: 'ai-config', label: 'AI provider settings', kind: 'store', localKey: 'digitalplanner_ai_config' },
+    { id: 'language', label: 'Language', kind: 'store', localKey: 'language' },
+    { id: 'theme', label: 'Theme', kind: 'store', localKey: 'theme' },
+    { id: 'settings', label: 'Settings & invoice sequences', kind: 'keys' },
+    { id: 'ai-key', label: 'AI API key', kind: 'secret' },
+];
+
+/** Record collections whose restores are written to the audit log, by their DataContext name */
+const AUDITED_COLLECTIONS: Record<string, JournalCollection> = {
+    'notes': 'notes',
+    'goals': 'goals',
+    'plans': 'plans',
+    'drawings': 'drawings',
+    'subscriptions': 'subscriptions',
+    'transactions': 'transactions',
+    'invoices': 'invoices',
+    'clients': 'clients',
+    'company-profiles': 'companyProfiles',
+    'workflows': 'workflows',
+    'workflow-templates': 'workflowTemplates',
+    'habits': 'habits',
+    'budget-goals': 'budgetGoals',
+};
+
+const STORE_KEYS = new Set(BACKUP_COLLECTIONS.filter(def => def.kind === 'store').flatMap(def =>
+    def.storageKey ? [def.localKey!, `planner-${def.storageKey}`] : [def.localKey!]));
+
+export interface RejectedRecord {
+    collection: string;
+    index: number;
+    id?: string;
+    issues: string[];
+}
+
+interface ParsedCollection {
+    def: BackupCollectionDef;
+    records?: Record<string, unknown>[];
+    value?: Record<string, unknown>;
+    list?: string[];
+    keys?: Record<string, string>;
+    secret?: VaultAIConfig;
+    rejected: RejectedRecord[];
+}
+
+export interface ParsedBackup {
+    /** null for legacy files exported before manifests existed */
+    manifest: BackupManifest | null;
+    collections: Record<string, ParsedCollection>;
+}
+
+export interface BackupFile {
+    manifest: BackupManifest;
+    data: Record<string, unknown>;
+}
+
+export interface CollectionPreview {
+    id: string;
+    label: string;
+    kind: BackupCollectionKind;
+    /** Valid items in the backup */
+    total: number;
+    added: string[];
+    changed: string[];
+    /** Present now but missing from the backup (only removed in replace mode) */
+    removed: string[];
+    unchanged: number;
+    rejected: RejectedRecord[];
+}
+
+export type RestoreSelection = Record<string, RestoreMode>;
+
+export interface RestoreReport {
+    success: boolean;
+    message: string;
+    restored: Record<string, number>;
+    rejected: RejectedRecord[];
+}
+
+const BACKUP_PREFIXES = ['planner-', 'invoice_sequence_', 'digitalplanner-', 'contentplanner-'];
+
+const isBackupKey = (key: string) => BACKUP_PREFIXES.some(prefix => key.startsWith(prefix));
+
+/** Keys of the 'keys' collection: prefixed app keys not owned by StorageService or a 'store' collection */
+const isOtherKey = (key: string) => isBackupKey(key) && !isEntityKey(key) && !STORE_KEYS.has(key);
+
+const toStoredString = (value: unknown) => typeof value === 'string' ? value : JSON.stringify(value);
+
+const fromStoredString = (raw: string): unknown => {
+    try {
+        return JSON.parse(raw);
+    } catch {
+        return raw;
+    }
+};
+
+const sha256Hex = async (text: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Remove the plaintext AI key from a settings value; returns the key that was found, if any
+ */
+const stripAIKey = (key: string, value: unknown): { value: unknown; secret: VaultAIConfig | null } => {
+    const locate = AI_KEY_CARRIERS[key];
+    if (!locate || !value || typeof value !== 'object') return { value, secret: null };
+    const copy = JSON.parse(JSON.stringify(value)) as Record<string, unknown>;
+    const config = locate(copy);
+    if (!config || typeof config.apiKey !== 'string' || !config.apiKey) return { value: copy, secret: null };
+    const secret = { provider: typeof config.provider === 'string' ? config.provider : null, apiKey: config.apiKey };
+    config.apiKey = '';
+    return { value: copy, secret };
+};
+
+const readAIKey = (): VaultAIConfig | null => {
+    const fromVault = VaultService.getAIConfig();
+    if (fromVault?.apiKey) return fromVault;
+    for (const key of Object.keys(AI_KEY_CARRIERS)) {
+        const raw = localStorage.getItem(key);
+        const { secret } = raw ? stripAIKey(key, fromStoredString(raw)) : { secret: null };
+        if (secret) return secret;
+    }
+    return null;
+};
+
+const countItems = (value: unknown): number => Array.isArray(value) ? value.length : 1;
+
+/**
+ * Refuse files this version cannot read, with a message the user can act on
+ */
+const checkManifest = async (file: Record<string, unknown>): Promise<{ manifest: BackupManifest } | { message: string }> => {
+    const raw = file.manifest as Record<string, unknown> | null;
+    const formatVersion = raw && typeof raw === 'object' ? Number(raw.formatVersion) : NaN;
+    const schemaVersion = raw && typeof raw === 'object' ? Number(raw.schemaVersion) : NaN;
+    const appVersion = raw && typeof raw.appVersion === 'string' ? raw.appVersion : 'unknown';
+
+    if (formatVersion > BACKUP_FORMAT_VERSION || schemaVersion > LATEST_SCHEMA_VERSION) {
+        return {
+            message: `This backup was created by a newer version of Digital Planner (app ${appVersion}, data schema ${schemaVersion}). ` +
+                `Update the app to restore it; this version supports data schema ${LATEST_SCHEMA_VERSION}.`
+        };
+    }
+
+    const result = backupManifestSchema.safeParse(raw);
+    if (!result.success || result.data.format !== BACKUP_FORMAT) {
+        return { message: 'The backup manifest is missing or damaged, so the file cannot be verified.' };
+    }
+    if (!file.data || typeof file.data !== 'object' || Array.isArray(file.data)) {
+        return { message: 'The backup file is corrupted: its data section is missing.' };
+    }
+
+    const checksum = await sha256Hex(JSON.stringify(file.data));
+    if (checksum !== result.data.checksum.value) {
+        return { message: 'The backup file is corrupted: its checksum does not match. It may be truncated or edited by hand.' };
+    }
+    return { manifest: result.data };
+};
+
+const stable = (value: unknown) => JSON.stringify(value);
+
+/**
+ * Validate each record separately; the output of the schema is what gets restored
+ */
+const parseCollectionValue = (def: BackupCollectionDef, value: unknown): Omit<ParsedCollection, 'def'> => {
+    const schema = def.schema!;
+    if (def.kind === 'object') {
+        const result = schema.safeParse(value);
+        return result.success
+            ? { value: result.data as Record<string, unknown>, rejected: [] }
+            : { rejected: [{ collection: def.id, index: 0, issues: formatIssues(result.error) }] };
+    }
+
+    if (!Array.isArray(value)) {
+        return { rejected: [{ collection: def.id, index: -1, issues: ['Expected a list'] }] };
+    }
+
+    const valid: unknown[] = [];
+    const rejected: RejectedRecord[] = [];
+    const seenIds = new Set<string>();
+    value.forEach((item, index) => {
+        const result = schema.safeParse(item);
+        if (!result.success) {
+            const rawId = item && typeof item === 'object' ? (item as { id?: unknown }).id : undefined;
+            rejected.push({ collection: def.id, index, id: rawId !== undefined ? String(rawId) : undefined, issues: formatIssues(result.error) });
+            return;
+        }
+        if (def.kind === 'records') {
+            const recordId = (result.data as { id: string }).id;
+            if (seenIds.has(recordId)) {
+                rejected.push({ collection: def.id, index, id: recordId, issues: ['Duplicate id'] });
+                return;
+            }
+            seenIds.add(recordId);
+        }
+        valid.push(result.data);
+    });
+
+    return def.kind === 'list'
+        ? { list: valid as string[], rejected }
+        : { records: valid as Record<string, unknown>[], rejected };
+};
+
+/**
+ * localStorage keys covered by the 'keys' collection (everything with a backup prefix that StorageService does not own)
+ */
+const readOtherKeys = (): Record<string, string> => {
+    const result: Record<string, string> = {};
+    for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (!key || !isOtherKey(key)) continue;
+        const value = localStorage.getItem(key);
+        if (value !== null) result[key] = value;
+    }
+    return result;
+};
+
+/**
+ * Current value normalized through the same schema, so unchanged records compare equal
+ */
+const readCurrentValue = (def: BackupCollectionDef): unknown => {
+    const raw = StorageService.get<unknown>(def.storageKey!);
+    if (raw === null) return def.kind === 'object' ? null : [];
+    if (def.kind === 'object') {
+        const result = def.schema!.safeParse(raw);
+        return result.success ? result.data : raw;
+    }
+    if (!Array.isArray(raw)) return [];
+    return raw.map(item => {
+        const result = def.schema!.safeParse(item);
+        return result.success ? result.data : item;
+    });
+};
+
+/**
+ * Current localStorage values of a 'keys' or 'store' collection, without the plaintext AI key
+ * (backups never carry it there, so it must not show up as a difference)
+ */
+const readLocalKeys = (def: BackupCollectionDef): Record<string, string> => {
+    const raw = def.kind === 'keys' ? readOtherKeys() : {} as Record<string, string>;
+    if (def.kind === 'store') {
+        const value = def.storageKey ? StorageService.getRaw(def.storageKey) : localStorage.getItem(def.localKey!);
+        if (value !== null) raw[def.localKey!] = value;
+    }
+    Object.keys(raw).forEach(key => {
+        if (AI_KEY_CARRIERS[key]) raw[key] = toStoredString(stripAIKey(key, fromStoredString(raw[key])).value);
+    });
+    return raw;
+};
+
+const previewCollection = (collection: ParsedCollection): CollectionPreview => {
+    const { def, rejected } = collection;
+    const base = { id: def.id, label: def.label, kind: def.kind, rejected };
+
+    if (def.kind === 'secret') {
+        const current = readAIKey();
+        if (!collection.secret) return { ...base, total: 0, added: [], changed: [], removed: [], unchanged: 0 };
+        if (!current) return { ...base, total: 1, added: [def.label], changed: [], removed: [], unchanged: 0 };
+        const same = current.apiKey === collection.secret.apiKey;
+        return { ...base, total: 1, added: [], changed: same ? [] : [def.label], removed: [], unchanged: same ? 1 : 0 };
+    }
+
+    if (def.kind === 'keys' || def.kind === 'store') {
+        const incoming = collection.keys || {};
+        const current = readLocalKeys(def);
+        const added = Object.keys(incoming).filter(key => !(key in current));
+        const changed = Object.keys(incoming).filter(key => key in current && current[key] !== incoming[key]);
+        const removed = Object.keys(current).filter(key => !(key in incoming));
+        return { ...base, total: Object.keys(incoming).length, added, changed, removed, unchanged: Object.keys(incoming).length - added.length - changed.length };
+    }
+
+    if (def.kind === 'object') {
+        const current = readCurrentValue(def);
+        if (!collection.value) return { ...base, total: 0, added: [], changed: [], removed: [], unchanged: 0 };
+        if (current === null) return { ...base, total: 1, added: [def.label], changed: [], removed: [], unchanged: 0 };
+        const same = stable(current) === stable(collection.value);
+        return { ...base, total: 1, added: [], changed: same ? [] : [def.label], removed: [], unchanged: same ? 1 : 0 };
+    }
+
+    if (def.kind === 'list') {
+        const current = new Set(readCurrentValue(def) as string[]);
+        const incoming = new Set(collection.list || []);
+        const added = [...incoming].filter(item => !current.has(item));
+        const removed = [...current].filter(item => !incoming.has(item));
+        return { ...base, total: incoming.size, added, changed: [], removed, unchanged: incoming.size - added.length };
+    }
+
+    // Schemas normalize every record id to a string
+    const incoming = (collection.records || []) as unknown as Identifiable[];
+    if (def.appendOnly) {
+        const known = new Set(AuditLogService.getAll().map(entry => entry.id));
+        const added = incoming.filter(record => !known.has(record.id)).map(recordLabel);
+        return { ...base, total: incoming.length, added, changed: [], removed: [], unchanged: incoming.length - added.length };
+    }
+
+    const current = readCurrentValue(def) as Identifiable[];
+    const currentById = new Map(current.map(record => [String(record.id), record]));
+    const incomingIds = new Set(incoming.map(record => record.id));
+    const added: string[] = [];
+    const changed: string[] = [];
+    let unchanged = 0;
+    incoming.forEach(record => {
+        const existing = currentById.get(String(record.id));
+        if (!existing) added.push(recordLabel(record));
+        else if (stable(existing) !== stable(record)) changed.push(recordLabel(record));
+        else unchanged++;
+    });
+    const removed = current.filter(record => !incomingIds.has(String(record.id))).map(recordLabel);
+
+    return { ...base, total: incoming.length, added, changed, removed, unchanged };
+};
+
+const mergeCollectionValue = (def: BackupCollectionDef, current: unknown, collection: ParsedCollection, mode: RestoreMode): unknown => {
+    if (def.kind === 'object') {
+        if (!collection.value) return current;
+        return mode === 'merge' && current && typeof current === 'object'
+            ? { ...(current as Record<string, unknown>), ...collection.value }
+            : collection.value;
+    }
+
+    if (def.kind === 'list') {
+        const incoming = collection.list || [];
+        return mode === 'merge' ? Array.from(new Set([...(current as string[]), ...incoming])) : incoming;
+    }
+
+    const incoming = collection.records || [];
+    if (mode === 'replace') return incoming;
+
+    const incomingById = new Map(incoming.map(record => [String(record.id), record]));
+    const merged = (current as Record<string, unknown>[]).map(record => {
+        const replacement = incomingById.get(String(record.id));
+        if (replacement) incomingById.delete(String(record.id));
+        return replacement ?? record;
+    });
+    return [...merged, ...incomingById.values()];
+};
+
 /**
  * DataTransferService
  * Handles the export and import of all application data.
  * "PhD-level" implementation with comprehensive error handling and validation.
  */
 export const DataTransferService = {
+    setBeforeRestore: (hook: BeforeRestoreHook | null): void => {
+        beforeRestore = hook;
+    },
+
+    /**
+     * Collect every persisted store into a backup file (manifest + data).
+     * The AI API key is left out unless includeSecrets is set.
+     * All stores are read synchronously before the first await, so the result reflects the state at call time.
+     */
+    createBackup: async (options: { includeSecrets?: boolean } = {}): Promise<BackupFile> => {
+        const data: Record<string, unknown> = {};
+        const counts: Record<string, number> = {};
+
+        BACKUP_COLLECTIONS.forEach(def => {
+            if (def.kind === 'secret') return;
+
+            if (def.kind === 'keys' || def.kind === 'store') {
+                const keys = def.kind === 'keys' ? readOtherKeys() : readLocalKeys(def);
+                Object.entries(keys).forEach(([key, raw]) => {
+                    data[key] = stripAIKey(key, fromStoredString(raw)).value;
+                });
+                if (Object.keys(keys).length > 0) counts[def.id] = Object.keys(keys).length;
+                return;
+            }
+
+            // Entities live in StorageService (IndexedDB when available); keep the legacy 'planner-' key names
+            const raw = StorageService.getRaw(def.storageKey!);
+            if (raw === null) return;
+            const value = fromStoredString(raw);
+            data[`planner-${def.storageKey}`] = value;
+            counts[def.id] = countItems(value);
+        });
+
+        const secret = options.includeSecrets ? readAIKey() : null;
+        if (secret) {
+            data[AI_SECRET_BACKUP_KEY] = secret;
+            counts['ai-key'] = 1;
+        }
+
+        const manifest: BackupManifest = {
+            format: BACKUP_FORMAT,
+            formatVersion: BACKUP_FORMAT_VERSION,
+            appVersion: __APP_VERSION__,
+            schemaVersion: LATEST_SCHEMA_VERSION,
+            createdAt: new Date().toISOString(),
+            counts,
+            includesSecrets: !!secret,
+            checksum: { algorithm: 'SHA-256', value: await sha256Hex(JSON.stringify(data)) },
+        };
+        return { manifest, data };
+    },
+
     /**
      * Exports all application data to a JSON file.
-     * Captures all localStorage keys starting with 'planner-' and 'invoice_sequence_'.
      */
-    exportAll: () => {
+    exportAll: async (options: { includeSecrets?: boolean } = {}) => {
         try {
-            const data: Record<string, any> = {};
-            const prefixPlanner = 'planner-';
-            const prefixSequence = 'invoice_sequence_';
-            const prefixDigital = 'digitalplanner-'; // New
-            const prefixContent = 'contentplanner-'; // Legacy
-
-            for (let i = 0; i < localStorage.length; i++) {
-                const key = localStorage.key(i);
-                if (key && (
-                    key.startsWith(prefixPlanner) ||
-                    key.startsWith(prefixSequence) ||
-                    key.startsWith(prefixDigital) ||
-                    key.startsWith(prefixContent)
-                )) {
-                    try {
-                        // Attempt to parse JSON values to avoid double-stringification
-                        const value = localStorage.getItem(key);
-                        if (value) {
-                            try {
-                                data[key] = JSON.parse(value);
-                            } catch {
-                                // If not valid JSON, store as string
-                                data[key] = value;
-                            }
-                        }
-                    } catch (e) {
-                        console.warn(`Skipping key ${key} due to read error`, e);
-                    }
-                }
-            }
+            const backup = await DataTransferService.createBackup(options);
 
             // Create a blob and trigger download
-            const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+            const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
             const url = URL.createObjectURL(blob);
             const a = document.createElement('a');
             a.href = url;
@@ -52,7 +497,7 @@ export const DataTransferService = {
             document.body.removeChild(a);
             URL.revokeObjectURL(url);
 
-            return { success: true, count: Object.keys(data).length };
+            return { success: true, count: Object.keys(backup.data).length };
         } catch (error) {
             console.error('Export failed:', error);
             return { success: false, error };
@@ -60,63 +505,188 @@ export const DataTransferService = {
     },
 
     /**
-     * Imports application data from a JSON object.
-     * Clears existing data and restores from the provided object.
-     * @param jsonData The parsed JSON object from the backup file
+     * Validate a backup file and split it into restorable collections.
+     * Files with a manifest must pass the version and checksum checks; legacy files (flat key map) are accepted as-is.
+     * Invalid records are collected per collection instead of failing the whole file.
      */
-    importAll: async (jsonData: any): Promise<{ success: boolean; message: string }> => {
-        try {
-            if (!jsonData || typeof jsonData !== 'object') {
-                return { success: false, message: 'Invalid backup file format' };
-            }
+    parseBackup: async (jsonData: unknown): Promise<{ success: true; backup: ParsedBackup } | { success: false; message: string }> => {
+        if (!jsonData || typeof jsonData !== 'object' || Array.isArray(jsonData)) {
+            return { success: false, message: 'Invalid backup file format' };
+        }
+        const file = jsonData as Record<string, unknown>;
 
-            const keys = Object.keys(jsonData);
-            const validKeys = keys.filter(k =>
-                k.startsWith('planner-') ||
-                k.startsWith('invoice_sequence_') ||
-                k.startsWith('digitalplanner-') ||
-                k.startsWith('contentplanner-')
-            );
+        let manifest: BackupManifest | null = null;
+        let data = file;
+        if ('manifest' in file) {
+            const checked = await checkManifest(file);
+            if ('message' in checked) return { success: false, message: checked.message };
+            manifest = checked.manifest;
+            data = file.data as Record<string, unknown>;
+        }
+
+        if (!('planner-habits' in data) && LEGACY_HABIT_KEYS.some(key => key in data)) {
+            const [studio, monthly] = LEGACY_HABIT_KEYS.map(key => fromStoredString(toStoredString(data[key] ?? null)));
+            data = { ...data, 'planner-habits': mergeLegacyHabits(studio, monthly) };
+        }
+
+        const validKeys = Object.keys(data).filter(key => isBackupKey(key) || STORE_KEYS.has(key) || key === AI_SECRET_BACKUP_KEY);
+        if (validKeys.length === 0) {
+            return { success: false, message: 'No valid Digital Planner Pro data found in file.' };
+        }
+
+        const collections: Record<string, ParsedCollection> = {};
+        const found: { secret: VaultAIConfig | null } = { secret: null };
+        BACKUP_COLLECTIONS.forEach(def => {
+            if (def.kind === 'secret') return;
 
-            if (validKeys.length === 0) {
-                return { success: false, message: 'No valid Digital Planner Pro data found in file.' };
+            if (def.kind === 'keys' || def.kind === 'store') {
+                const keys: Record<string, string> = {};
+                const owned = def.kind === 'keys' ? validKeys.filter(isOtherKey) : validKeys.filter(key => key === def.localKey);
+                owned.forEach(key => {
+                    // Older backups carry the AI key in plaintext settings; route it through the secret collection
+                    const stripped = stripAIKey(key, data[key]);
+                    found.secret = found.secret ?? stripped.secret;
+                    keys[key] = toStoredString(stripped.value);
+                });
+                if (Object.keys(keys).length > 0) collections[def.id] = { def, keys, rejected: [] };
+                return;
             }
 
-            // Clear existing application data
-            // We can't use StorageService.clear() because it might be too aggressive or scoped only to 'planner-'
-            // Use a manual clear for safety based on our prefixes
-            const prefixPlanner = 'planner-';
-            const prefixSequence = 'invoice_sequence_';
-            const prefixDigital = 'digitalplanner-';
-            const prefixContent = 'contentplanner-';
-
-            // Collect keys to remove first to avoid index shifting issues during iteration
-            const keysToRemove: string[] = [];
-            for (let i = 0; i < localStorage.length; i++) {
-                const key = localStorage.key(i);
-                if (key && (
-                    key.startsWith(prefixPlanner) ||
-                    key.startsWith(prefixSequence) ||
-                    key.startsWith(prefixDigital) ||
-                    key.startsWith(prefixContent)
-                )) {
-                    keysToRemove.push(key);
+            const backupKey = `planner-${def.storageKey}`;
+            if (!(backupKey in data)) return;
+            const parsed = parseCollectionValue(def, data[backupKey]);
+            collections[def.id] = { def, ...parsed };
+        });
+
+        const rawSecret = data[AI_SECRET_BACKUP_KEY] as Partial<VaultAIConfig> | undefined;
+        if (rawSecret && typeof rawSecret.apiKey === 'string' && rawSecret.apiKey) {
+            found.secret = { provider: rawSecret.provider ?? null, apiKey: rawSecret.apiKey };
+        }
+        const secretDef = BACKUP_COLLECTIONS.find(def => def.kind === 'secret')!;
+        if (found.secret) collections[secretDef.id] = { def: secretDef, secret: found.secret, rejected: [] };
+
+        return { success: true, backup: { manifest, collections } };
+    },
+
+    /**
+     * Per-collection diff between the backup and the current data (nothing is written)
+     */
+    previewRestore: (backup: ParsedBackup): CollectionPreview[] =>
+        Object.values(backup.collections).map(collection => previewCollection(collection)),
+
+    /**
+     * Restore the selected collections, each with its own mode.
+     * merge: backup records replace current records with the same id, others are kept.
+     * replace: the collection becomes exactly the valid records of the backup.
+     * The change history is only ever appended to, whatever the mode.
+     */
+    restore: async (backup: ParsedBackup, selection: RestoreSelection, reason: RestoreReason = 'import'): Promise<RestoreReport> => {
+        const restored: Record<string, number> = {};
+        const rejected: RejectedRecord[] = [];
+        const writes: Promise<boolean>[] = [];
+        const audit: AuditEntry[] = [];
+
+        // Never overwrite data we could not snapshot first
+        if (beforeRestore && !(await beforeRestore(reason))) {
+            return { success: false, message: 'A safety snapshot could not be saved, so nothing was restored.', restored, rejected };
+        }
+
+        try {
+            // The AI key goes last: it is written into settings that the 'settings' collection may have just replaced
+            const ordered = Object.entries(selection).sort(([a], [b]) =>
+                Number(backup.collections[a]?.def.kind === 'secret') - Number(backup.collections[b]?.def.kind === 'secret'));
+
+            ordered.forEach(([collectionId, mode]) => {
+                const collection = backup.collections[collectionId];
+                if (!collection) return;
+                const { def } = collection;
+                rejected.push(...collection.rejected);
+
+                if (def.kind === 'secret') {
+                    if (collection.secret) VaultService.importAIConfig(collection.secret);
+                    restored[collectionId] = collection.secret ? 1 : 0;
+                    return;
                 }
-            }
-            keysToRemove.forEach(k => localStorage.removeItem(k));
-
-            // Restore data
-            validKeys.forEach(key => {
-                const value = jsonData[key];
-                // if value is object, stringify it, otherwise store as string
-                const stringValue = typeof value === 'object' ? JSON.stringify(value) : value;
-                localStorage.setItem(key, stringValue);
+
+                if (def.kind === 'keys' || def.kind === 'store') {
+                    const keys = collection.keys || {};
+                    if (mode === 'replace' && def.kind === 'keys') {
+                        Object.keys(readOtherKeys()).forEach(key => {
+                            if (!(key in keys)) localStorage.removeItem(key);
+                        });
+                    }
+                    Object.entries(keys).forEach(([key, value]) => {
+                        if (def.storageKey) {
+                            writes.push(StorageService.setRaw(def.storageKey, value));
+                            return;
+                        }
+                        // Keep the AI key this device already has (it is not part of the restored value)
+                        const current = localStorage.getItem(key);
+                        const kept = current !== null && AI_KEY_CARRIERS[key] ? stripAIKey(key, fromStoredString(current)).secret : null;
+                        const next = fromStoredString(value);
+                        const config = kept && next && typeof next === 'object' ? AI_KEY_CARRIERS[key](next as Record<string, unknown>) : undefined;
+                        if (kept && config && !VaultService.isUnlocked()) {
+                            config.apiKey = kept.apiKey;
+                            localStorage.setItem(key, JSON.stringify(next));
+                            return;
+                        }
+                        localStorage.setItem(key, value);
+                    });
+                    restored[collectionId] = Object.keys(keys).length;
+                    return;
+                }
+
+                if (def.appendOnly) {
+                    const entries = (collection.records || []) as unknown as AuditEntry[];
+                    writes.push(AuditLogService.importEntries(entries));
+                    restored[collectionId] = entries.length;
+                    return;
+                }
+
+                const storageKey = def.storageKey!;
+                const current = readCurrentValue(def);
+                const next = mergeCollectionValue(def, current, collection, mode);
+                writes.push(StorageService.set(storageKey, next));
+                const auditAs = AUDITED_COLLECTIONS[collectionId];
+                if (auditAs && Array.isArray(current) && Array.isArray(next)) {
+                    const diff = diffCollections(current as Identifiable[], next as Identifiable[]);
+                    audit.push(...auditEntriesFromDiff(auditAs, diff, 'import', () => crypto.randomUUID()));
+                }
+                restored[collectionId] = Array.isArray(next) ? next.length : 1;
             });
 
-            return { success: true, message: `Successfully restored ${validKeys.length} items.` };
+            const results = await Promise.all(writes);
+            if (results.some(ok => !ok)) {
+                return { success: false, message: 'Some collections could not be saved to storage.', restored, rejected };
+            }
+            AuditLogService.record(audit);
+
+            const total = Object.values(restored).reduce((sum, n) => sum + n, 0);
+            return {
+                success: true,
+                message: `Restored ${Object.keys(restored).length} collection(s), ${total} item(s)` +
+                    (rejected.length > 0 ? `; ${rejected.length} invalid record(s) skipped.` : '.'),
+                restored,
+                rejected,
+            };
         } catch (error) {
-            console.error('Import failed:', error);
-            return { success: false, message: 'An unexpected error occurred during import.' };
+            console.error('Restore failed:', error);
+            return { success: false, message: 'An unexpected error occurred during restore.', restored, rejected };
         }
+    },
+
+    /**
+     * Imports application data from a JSON object.
+     * Validates the file and replaces every collection it contains; invalid records are skipped.
+     * @param jsonData The parsed JSON object from the backup file
+     */
+    importAll: async (jsonData: unknown): Promise<{ success: boolean; message: string }> => {
+        const parsed = await DataTransferService.parseBackup(jsonData);
+        if (!parsed.success) return parsed;
+
+        const selection: RestoreSelection = {};
+        Object.keys(parsed.backup.collections).forEach(id => { selection[id] = 'replace'; });
+        const report = await DataTransferService.restore(parsed.backup, selection);
+        return { success: report.success, message: report.message };
     }
 };
@@ -0,0 +1,163 @@
+/**
+ * FinanceWorkerService.ts
+ * Runs the recurring-transaction catch-up and the financial report in a dedicated Web Worker.
+ *
+ * - Requests carry only the transactions that changed (by object identity) since the previous request,
+ *   and the exchange rates only when they changed
+ * - The worker answers in request order; `busy` is true while any request is in flight
+ * - Without Worker support, or once the worker fails, the same code runs on the main thread
+ */
+
+import { Transaction } from '../types/planner';
+import { FinancialReport } from '../utils/financialReport';
+import { RecurringCatchUp } from '../utils/recurringCatchUp';
+import { DatedRates } from '../utils/rateHistory';
+import { FinanceRequest, FinanceResponse, TransactionDelta } from '../workers/financeProtocol';
+import { FinanceState } from '../workers/FinanceState';
+import { CurrencyService } from './CurrencyService';
+import { TimeZoneService } from './TimeZoneService';
+
+type BuildRequest = (id: number, delta: TransactionDelta) => FinanceRequest;
+
+interface PendingRequest {
+    transactions: Transaction[];
+    build: BuildRequest;
+    resolve: (response: FinanceResponse) => void;
+}
+
+class FinanceWorkerServiceClass {
+    /** undefined = not started yet, null = unavailable (main-thread fallback) */
+    private worker: Worker | null | undefined;
+    private fallback: FinanceState | null = null;
+    /** The transactions the worker (or fallback) currently holds */
+    private sent = new Map<string, Transaction>();
+    /** Rate revision and current rates the worker (or fallback) holds */
+    private sentRatesKey = '';
+    private nextId = 1;
+    private pending = new Map<number, PendingRequest>();
+    private listeners = new Set<(busy: boolean) => void>();
+
+    /**
+     * Monthly cash-flow report in `baseCurrency`, converted with the CurrencyService rates of each transaction's day
+     */
+    async getReport(transactions: Transaction[], baseCurrency: string): Promise<FinancialReport> {
+        const response = await this.request(transactions, (id, delta) => ({ id, type: 'report', delta, baseCurrency, rates: this.changedRates() }));
+        if (response.type !== 'report') throw new Error(`Unexpected finance worker response: ${response.type}`);
+        return response.report;
+    }
+
+    /**
+     * Missed occurrences of recurring masters up to today in the configured zone (apply with applyRecurringCatchUp)
+     */
+    async catchUpRecurring(transactions: Transaction[], skips: ReadonlySet<string>): Promise<RecurringCatchUp> {
+        const now = TimeZoneService.endOfToday().getTime();
+        const response = await this.request(transactions, (id, delta) => ({ id, type: 'recurring', delta, skips: Array.from(skips), now }));
+        if (response.type !== 'recurring') throw new Error(`Unexpected finance worker response: ${response.type}`);
+        return response.catchUp;
+    }
+
+    isBusy(): boolean {
+        return this.pending.size > 0;
+    }
+
+    subscribe(listener: (busy: boolean) => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    private request(transactions: Transaction[], build: BuildRequest): Promise<FinanceResponse> {
+        const id = this.nextId++;
+        const worker = this.getWorker();
+        if (!worker) return Promise.resolve(this.runLocally(id, transactions, build)).then(this.unwrap);
+
+        return new Promise<FinanceResponse>(resolve => {
+            this.pending.set(id, { transactions, build, resolve });
+            if (this.pending.size === 1) this.notify();
+            worker.postMessage(build(id, this.delta(transactions)));
+        }).then(this.unwrap);
+    }
+
+    private unwrap = (response: FinanceResponse): FinanceResponse => {
+        if (response.type === 'error') throw new Error(response.message);
+        return response;
+    };
+
+    private getWorker(): Worker | null {
+        if (this.worker !== undefined) return this.worker;
+        try {
+            const worker = new Worker(new URL('../workers/finance.worker.ts', import.meta.url), { type: 'module' });
+            worker.onmessage = (event: MessageEvent<FinanceResponse>) => this.settle(event.data);
+            worker.onerror = (event) => {
+                console.error('FinanceWorkerService: worker failed, computing on the main thread', event.message);
+                this.useFallback();
+            };
+            this.worker = worker;
+        } catch (e) {
+            console.warn('FinanceWorkerService: Web Workers unavailable, computing on the main thread', e);
+            this.worker = null;
+        }
+        return this.worker;
+    }
+
+    private settle(response: FinanceResponse): void {
+        const request = this.pending.get(response.id);
+        if (!request) return;
+        this.pending.delete(response.id);
+        request.resolve(response);
+        if (this.pending.size === 0) this.notify();
+    }
+
+    /**
+     * Drop the worker and answer whatever it still owed from the main thread
+     */
+    private useFallback(): void {
+        this.worker?.terminate();
+        this.worker = null;
+        this.sent.clear();
+        this.sentRatesKey = '';
+        const owed = Array.from(this.pending.entries());
+        this.pending.clear();
+        owed.forEach(([id, { transactions, build, resolve }]) => resolve(this.runLocally(id, transactions, build)));
+        this.notify();
+    }
+
+    private runLocally(id: number, transactions: Transaction[], build: BuildRequest): FinanceResponse {
+        this.fallback ??= new FinanceState();
+        return this.fallback.handle(build(id, this.delta(transactions)));
+    }
+
+    /**
+     * Changes since the previous request; records are compared by identity (state updates replace changed objects)
+     */
+    private delta(transactions: Transaction[]): TransactionDelta {
+        const reset = this.sent.size === 0;
+        const upserts: Transaction[] = [];
+        const next = new Map<string, Transaction>();
+        transactions.forEach(t => {
+            next.set(t.id, t);
+            if (this.sent.get(t.id) !== t) upserts.push(t);
+        });
+        const removed = reset ? [] : Array.from(this.sent.keys()).filter(id => !next.has(id));
+        this.sent = next;
+        return { reset, upserts, removed };
+    }
+
+    /**
+     * The dated rates, when they differ from the ones sent last (history changes bump `revision`)
+     */
+    private changedRates(): DatedRates | undefined {
+        const rates = CurrencyService.getDatedRates();
+        const key = `${rates.revision}|${JSON.stringify(rates.current)}`;
+        if (key === this.sentRatesKey) return undefined;
+        this.sentRatesKey = key;
+        return rates;
+    }
+
+    private notify(): void {
+        const busy = this.isBusy();
+        this.listeners.forEach(listener => listener(busy));
+    }
+}
+
+export const FinanceWorkerService = new FinanceWorkerServiceClass();
+export default FinanceWorkerService;
@@ -1,80 +1,418 @@
 /**
  * MigrationService
- * Handles the migration of data from legacy 'contentplanner-' keys to 'digitalplanner-' keys.
- * Runs once on application startup.
+ * Versioned schema migrations keyed by a stored schema version.
+ *
+ * - Every migration runs against a staged key/value view, so the same code produces a dry-run report or a commit.
+ * - Destructive migrations (removing or overwriting existing data) take an automatic snapshot first.
+ * - Snapshots can be restored later to roll a migration's data changes back.
  */
 
-export const MigrationService = {
-    run: async () => {
-        try {
-            if (typeof window === 'undefined') return;
+import { StorageService } from './StorageService';
+import { isEntityKey } from './StorageDrivers';
+import { mergeLegacyHabits } from '../utils/habits';
+import { formatRRule, ruleFromPeriod } from '../utils/rrule';
+import { defaultTimeZone } from '../utils/timeZone';
+
+const SCHEMA_VERSION_KEY = 'digitalplanner_schema_version';
+const SNAPSHOTS_KEY = 'migration-snapshots';
+const MAX_SNAPSHOTS = 10;
+
+export type MigrationChangeAction = 'set' | 'remove';
+
+export interface MigrationChange {
+    key: string;
+    action: MigrationChangeAction;
+    /** True if the key held data before the change (overwrite/remove = data loss without a snapshot) */
+    existed: boolean;
+}
+
+export interface MigrationReportEntry {
+    version: number;
+    id: string;
+    description: string;
+    destructive: boolean;
+    changes: MigrationChange[];
+}
+
+export interface MigrationReport {
+    currentVersion: number;
+    targetVersion: number;
+    pending: MigrationReportEntry[];
+}
+
+export interface MigrationSnapshot {
+    id: string;
+    migrationId: string;
+    fromVersion: number;
+    createdAt: string;
+    /** Raw values before the migration; null = key did not exist */
+    entries: Record<string, string | null>;
+    restoredAt?: string;
+}
+
+/**
+ * Key/value view handed to migrations. Reads see earlier staged writes.
+ */
+export interface MigrationContext {
+    get(key: string): string | null;
+    set(key: string, value: string): void;
+    remove(key: string): void;
+}
+
+export interface Migration {
+    version: number;
+    id: string;
+    description: string;
+    /** Pre-framework localStorage flag that marks this migration as already applied */
+    legacyFlag?: string;
+    up(ctx: MigrationContext): void;
+}
+
+// --- Raw key access: 'planner-*' entities live in StorageService, everything else in localStorage ---
+
+const readKey = (key: string): string | null =>
+    isEntityKey(key) ? StorageService.getRaw(key.slice('planner-'.length)) : localStorage.getItem(key);
+
+const writeKey = async (key: string, value: string | null): Promise<boolean> => {
+    if (isEntityKey(key)) {
+        const entity = key.slice('planner-'.length);
+        if (value === null) {
+            StorageService.remove(entity);
+            return true;
+        }
+        return StorageService.setRaw(entity, value);
+    }
+    if (value === null) localStorage.removeItem(key);
+    else localStorage.setItem(key, value);
+    return true;
+};
+
+class StagedContext implements MigrationContext {
+    readonly staged = new Map<string, string | null>();
 
-            console.log('Checking for data migration...');
-            let migrationCount = 0;
+    constructor(private base: (key: string) => string | null = readKey) { }
 
-            // 1. Migrate AI Configuration
-            const legacyAiConfig = localStorage.getItem('contentplanner_ai_config');
-            const newAiConfig = localStorage.getItem('digitalplanner_ai_config');
+    get(key: string): string | null {
+        return this.staged.has(key) ? this.staged.get(key)! : this.base(key);
+    }
+
+    set(key: string, value: string): void {
+        this.staged.set(key, value);
+    }
+
+    remove(key: string): void {
+        this.staged.set(key, null);
+    }
+
+    changes(): MigrationChange[] {
+        const result: MigrationChange[] = [];
+        this.staged.forEach((value, key) => {
+            const before = this.base(key);
+            if (before === value) return;
+            result.push({ key, action: value === null ? 'remove' : 'set', existed: before !== null });
+        });
+        return result;
+    }
+}
 
-            if (legacyAiConfig && !newAiConfig) {
-                localStorage.setItem('digitalplanner_ai_config', legacyAiConfig);
-                console.log('Migrated AI Config');
-                migrationCount++;
+/**
+ * No app data and no legacy keys: nothing to migrate, start at the latest schema
+ */
+const isFreshInstall = (): boolean =>
+    StorageService.keys().length === 0 &&
+    !Object.keys(localStorage).some(key => key.startsWith('contentplanner') || key.startsWith('planner-'));
+
+// --- Registry (append only, never renumber) ---
+
+export const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        id: 'contentplanner_to_digitalplanner_keys',
+        description: 'Copy legacy contentplanner AI config and settings to digitalplanner keys',
+        up: ctx => {
+            const legacyAiConfig = ctx.get('contentplanner_ai_config');
+            if (legacyAiConfig && !ctx.get('digitalplanner_ai_config')) {
+                ctx.set('digitalplanner_ai_config', legacyAiConfig);
             }
+            const legacySettings = ctx.get('contentplanner-settings');
+            if (legacySettings && !ctx.get('digitalplanner-settings')) {
+                ctx.set('digitalplanner-settings', legacySettings);
+            }
+        }
+    },
+    {
+        version: 2,
+        id: 'v1_0_39_usd_default',
+        description: 'Force USD as the default budget currency',
+        legacyFlag: 'v1.0.39_usd_migration',
+        up: ctx => {
+            let saved: Record<string, unknown> | null = null;
+            try {
+                saved = JSON.parse(ctx.get('planner-budget-settings') || 'null');
+            } catch {
+                saved = null;
+            }
+            ctx.set('planner-budget-settings', JSON.stringify({
+                ...(saved || { monthlyBudget: 0, notifications: true, warningThreshold: 80 }),
+                currency: 'USD'
+            }));
+        }
+    },
+    {
+        version: 3,
+        id: 'v1_1_82_transaction_purge',
+        description: 'Remove potentially corrupt transaction data from pre-1.1.81 versions',
+        legacyFlag: 'migration_1_1_82_purge',
+        up: ctx => {
+            ctx.remove('planner-transactions');
+            ctx.remove('contentplanner-transactions');
+            ctx.remove('planner.financial.cache');
+        }
+    },
+    {
+        version: 4,
+        id: 'v1_1_91_reset',
+        description: 'Reset transactions, settings and AI configuration (v1.1.91)',
+        legacyFlag: 'migration_1_1_91_nuclear',
+        up: ctx => {
+            ctx.remove('planner-transactions');
+            ctx.remove('contentplanner-transactions');
+            ctx.remove('planner.financial.cache');
+            ctx.remove('digitalplanner-settings');
+            ctx.remove('contentplanner_ai_config');
+            ctx.remove('digitalplanner_ai_config');
+        }
+    },
+    {
+        version: 5,
+        id: 'unify_habits',
+        description: 'Move habits from habit-studio-v3-data and planner.habits.v2 into the habits entity store',
+        up: ctx => {
+            const parse = (key: string): unknown => {
+                try {
+                    return JSON.parse(ctx.get(key) || 'null');
+                } catch {
+                    return null;
+                }
+            };
+            const studio = ctx.get('habit-studio-v3-data');
+            const monthly = ctx.get('planner.habits.v2');
+            if (studio === null && monthly === null) return;
 
-            // 2. Migrate App Settings
-            const legacySettings = localStorage.getItem('contentplanner-settings');
-            const newSettings = localStorage.getItem('digitalplanner-settings');
+            const current = parse('planner-habits');
+            const existing = Array.isArray(current) ? current : [];
+            const legacy = mergeLegacyHabits(parse('habit-studio-v3-data'), parse('planner.habits.v2'))
+                .filter(habit => !existing.some((h: { id?: unknown }) => String(h.id) === habit.id));
+            ctx.set('planner-habits', JSON.stringify([...existing, ...legacy]));
+            ctx.remove('habit-studio-v3-data');
+            ctx.remove('planner.habits.v2');
+        }
+    },
+    {
+        version: 6,
+        id: 'transaction_rrule',
+        description: 'Give recurring transaction masters an RFC 5545 recurrence rule equivalent to their period',
+        up: ctx => {
+            let transactions: unknown;
+            try {
+                transactions = JSON.parse(ctx.get('planner-transactions') || 'null');
+            } catch {
+                return;
+            }
+            if (!Array.isArray(transactions)) return;
 
-            if (legacySettings && !newSettings) {
-                localStorage.setItem('digitalplanner-settings', legacySettings);
-                console.log('Migrated App Settings');
-                migrationCount++;
+            let changed = false;
+            const migrated = transactions.map(t => {
+                if (!t || typeof t !== 'object' || !t.recurring || t.rrule) return t;
+                const start = new Date(t.date);
+                const rule = Number.isNaN(start.getTime()) ? null : ruleFromPeriod(t.period, start);
+                if (!rule) return t;
+                changed = true;
+                return { ...t, rrule: formatRRule(rule), recurrenceStart: start.toISOString() };
+            });
+            if (changed) ctx.set('planner-transactions', JSON.stringify(migrated));
+        }
+    },
+    {
+        version: 7,
+        id: 'time_zone_browser_default',
+        description: 'Replace the never-applied UTC default time zone with the browser zone',
+        up: ctx => {
+            let settings: { general?: { timeZone?: string } } | null;
+            try {
+                settings = JSON.parse(ctx.get('digitalplanner-settings') || 'null');
+            } catch {
+                return;
             }
+            // Until the zone was honoured, the stored value was the untouched default rather than a choice
+            if (!settings?.general || settings.general.timeZone !== 'UTC') return;
+            const zone = defaultTimeZone();
+            if (zone === 'UTC') return;
+            ctx.set('digitalplanner-settings', JSON.stringify({ ...settings, general: { ...settings.general, timeZone: zone } }));
+        }
+    },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+const newSnapshotId = () => {
+    const c = globalThis.crypto as Crypto | undefined;
+    if (c && 'randomUUID' in c) return c.randomUUID();
+    return Math.random().toString(36).slice(2, 11);
+};
+
+let runPromise: Promise<MigrationReport> | null = null;
+
+/** Full-state snapshot before a destructive migration (installed by SnapshotService) */
+type BeforeDestructiveHook = (migrationId: string) => Promise<boolean>;
+
+let beforeDestructive: BeforeDestructiveHook | null = null;
+
+export const MigrationService = {
+    setBeforeDestructive: (hook: BeforeDestructiveHook | null): void => {
+        beforeDestructive = hook;
+    },
+
+    /**
+     * Stored schema version. Installs from before the registry are inferred from their legacy flags.
+     */
+    getSchemaVersion: (): number => {
+        const stored = localStorage.getItem(SCHEMA_VERSION_KEY);
+        if (stored !== null && !Number.isNaN(parseInt(stored, 10))) return parseInt(stored, 10);
+
+        let inferred = 0;
+        MIGRATIONS.forEach(m => {
+            if (m.legacyFlag && localStorage.getItem(m.legacyFlag)) inferred = Math.max(inferred, m.version);
+        });
+        return inferred;
+    },
+
+    /**
+     * True while the migration with this id has not been applied yet (lets early readers apply its rewrite themselves).
+     */
+    isPending: (id: string): boolean => {
+        const migration = MIGRATIONS.find(m => m.id === id);
+        return !!migration && migration.version > MigrationService.getSchemaVersion();
+    },
 
-            // 3. Migrate Generic Planner Data (optional, mostly 'planner-' is used which is generic)
-            // But if we have specific 'contentplanner-' prefixed items in future, add here.
-
-            // 3. Purge Legacy Transactions (For v1.1.81+ Hotfix)
-            // Removes potentially corrupt data from previous buggy versions
-            const purgeTransactionsKey = 'migration_1_1_82_purge';
-            if (!localStorage.getItem(purgeTransactionsKey)) {
-                console.warn('EXECUTING NUCLEAR TRANSACTION PURGE');
-                localStorage.removeItem('planner-transactions'); // Main transaction store
-                localStorage.removeItem('contentplanner-transactions'); // Possible legacy
-                localStorage.removeItem('planner.financial.cache'); // Analytics cache
-
-                localStorage.setItem(purgeTransactionsKey, 'true');
-                console.log('PURGE COMPLETE: All transaction data has been wiped for safety.');
-                migrationCount++;
+    /**
+     * Dry run: what pending migrations would change, without touching any data.
+     */
+    plan: async (): Promise<MigrationReport> => {
+        await StorageService.init();
+        const currentVersion = MigrationService.getSchemaVersion();
+        const ctx = new StagedContext();
+        const pending: MigrationReportEntry[] = [];
+
+        MIGRATIONS.filter(m => m.version > currentVersion).forEach(m => {
+            // Each step sees the staged result of the previous ones
+            const step = new StagedContext(key => ctx.get(key));
+            m.up(step);
+            const changes = step.changes();
+            step.staged.forEach((value, key) => ctx.staged.set(key, value));
+            pending.push({
+                version: m.version,
+                id: m.id,
+                description: m.description,
+                destructive: changes.some(c => c.existed),
+                changes
+            });
+        });
+
+        return { currentVersion, targetVersion: LATEST_SCHEMA_VERSION, pending };
+    },
+
+    /**
+     * Apply pending migrations in order. Runs once per page load; later callers share the result.
+     */
+    run: (): Promise<MigrationReport> => {
+        if (!runPromise) runPromise = MigrationService.applyPending();
+        return runPromise;
+    },
+
+    applyPending: async (): Promise<MigrationReport> => {
+        const report: MigrationReport = { currentVersion: 0, targetVersion: LATEST_SCHEMA_VERSION, pending: [] };
+        if (typeof window === 'undefined') return report;
+
+        try {
+            await StorageService.init();
+            report.currentVersion = MigrationService.getSchemaVersion();
+
+            if (localStorage.getItem(SCHEMA_VERSION_KEY) === null && report.currentVersion === 0 && isFreshInstall()) {
+                localStorage.setItem(SCHEMA_VERSION_KEY, String(LATEST_SCHEMA_VERSION));
+                return report;
             }
 
-            // 4. NUCLEAR RESET v1.1.91 (User requested clear-all)
-            const purge1191Key = 'migration_1_1_91_nuclear';
-            if (!localStorage.getItem(purge1191Key)) {
-                console.warn('EXECUTING NUCLEAR RESET v1.1.91');
-                localStorage.removeItem('planner-transactions');
-                localStorage.removeItem('contentplanner-transactions');
-                localStorage.removeItem('planner.financial.cache');
-
-                // Also clear settings to be safe
-                localStorage.removeItem('digitalplanner-settings');
-                localStorage.removeItem('contentplanner_ai_config');
-                localStorage.removeItem('digitalplanner_ai_config');
-
-                localStorage.setItem(purge1191Key, 'true');
-                console.log('NUCLEAR RESET COMPLETE');
-                migrationCount++;
+            for (const m of MIGRATIONS.filter(mig => mig.version > report.currentVersion)) {
+                const ctx = new StagedContext();
+                m.up(ctx);
+                const changes = ctx.changes();
+                const destructive = changes.some(c => c.existed);
+
+                if (destructive) {
+                    const entries: Record<string, string | null> = {};
+                    changes.forEach(c => { entries[c.key] = readKey(c.key); });
+                    const saved = await MigrationService.saveSnapshot({
+                        id: newSnapshotId(),
+                        migrationId: m.id,
+                        fromVersion: m.version - 1,
+                        createdAt: new Date().toISOString(),
+                        entries
+                    });
+                    if (!saved) {
+                        // Never destroy data we could not back up
+                        console.error(`Migration ${m.id} aborted: snapshot could not be saved`);
+                        break;
+                    }
+                    // The key-level snapshot above guards the rollback; the full snapshot is best effort
+                    if (beforeDestructive && !(await beforeDestructive(m.id))) {
+                        console.warn(`Migration ${m.id}: full-state snapshot could not be saved`);
+                    }
+                }
+
+                for (const c of changes) {
+                    await writeKey(c.key, ctx.staged.get(c.key) ?? null);
+                }
+                localStorage.setItem(SCHEMA_VERSION_KEY, String(m.version));
+                report.pending.push({ version: m.version, id: m.id, description: m.description, destructive, changes });
+                console.log(`Migration ${m.version} (${m.id}) applied: ${changes.length} change(s)${destructive ? ', snapshot taken' : ''}`);
             }
 
-            if (migrationCount > 0) {
-                console.log(`Migration completed: ${migrationCount} items migrated.`);
-            } else {
+            if (report.pending.length === 0) {
                 console.log('Migration active: system up to date.');
             }
-
         } catch (error) {
             console.error('Migration failed:', error);
         }
+        return report;
+    },
+
+    getSnapshots: (): MigrationSnapshot[] => StorageService.get<MigrationSnapshot[]>(SNAPSHOTS_KEY, []) || [],
+
+    saveSnapshot: async (snapshot: MigrationSnapshot): Promise<boolean> => {
+        const snapshots = [...MigrationService.getSnapshots(), snapshot].slice(-MAX_SNAPSHOTS);
+        return StorageService.set(SNAPSHOTS_KEY, snapshots);
+    },
+
+    /**
+     * Restore every key captured by a snapshot to its pre-migration value.
+     * The schema version is left untouched, so the migration is not re-applied on the next start.
+     */
+    rollback: async (snapshotId: string): Promise<{ success: boolean; message: string }> => {
+        const snapshots = MigrationService.getSnapshots();
+        const snapshot = snapshots.find(s => s.id === snapshotId);
+        if (!snapshot) return { success: false, message: 'Snapshot not found' };
+
+        const results = await Promise.all(
+            Object.entries(snapshot.entries).map(([key, value]) => writeKey(key, value))
+        );
+        if (results.some(ok => !ok)) {
+            return { success: false, message: 'Storage is full: snapshot could not be fully restored.' };
+        }
+
+        await StorageService.set(SNAPSHOTS_KEY, snapshots.map(s =>
+            s.id === snapshotId ? { ...s, restoredAt: new Date().toISOString() } : s
+        ));
+        return { success: true, message: `Restored ${Object.keys(snapshot.entries).length} item(s) from ${snapshot.migrationId}.` };
     }
 };
@@ -0,0 +1,256 @@
+/**
+ * RateProviderService
+ * Ordered exchange-rate providers with fallbacks and per-provider health.
+ *
+ * - Providers are tried in the configured order; the first that answers wins, failures fall through to the next
+ * - Every attempt updates the provider's health (last success / error, consecutive failures)
+ * - Endpoints can be overridden per provider (CORS proxy, local fixture server)
+ * - MNB and ECB do not answer browser requests (no CORS), so they are skipped until a proxy endpoint is set
+ * - The AI rate guess is opt-in and always comes last
+ */
+
+import {
+    DEFAULT_RATE_ENDPOINTS,
+    RateProvider,
+    RateProviderError,
+    RateProviderId,
+    createAiRateProvider,
+    createEcbProvider,
+    createFrankfurterProvider,
+    createMnbProvider,
+} from './RateProviders';
+import { TimeZoneService } from './TimeZoneService';
+import { RateSnapshot } from '../utils/rateParsers';
+
+export type FetchedProviderId = Exclude<RateProviderId, 'ai'>;
+
+export type ProviderHealthStatus = 'unknown' | 'ok' | 'failing';
+
+export interface ProviderHealth {
+    status: ProviderHealthStatus;
+    lastAttempt?: number;
+    lastSuccess?: number;
+    lastError?: string;
+    consecutiveFailures: number;
+}
+
+export interface RateProviderInfo {
+    id: RateProviderId;
+    label: string;
+    enabled: boolean;
+    /** Endpoint in use (null for the AI provider and for providers still waiting for a proxy endpoint) */
+    endpoint: string | null;
+    /** The public endpoint cannot be called from a browser; the provider is skipped until an endpoint is set */
+    needsEndpoint: boolean;
+    health: ProviderHealth;
+}
+
+export interface ProviderFetchResult {
+    providerId: RateProviderId;
+    label: string;
+    snapshots: RateSnapshot[];
+}
+
+interface ProviderConfig {
+    order: FetchedProviderId[];
+    disabled: FetchedProviderId[];
+    endpoints: Partial<Record<FetchedProviderId, string>>;
+    aiEnabled: boolean;
+    health: Partial<Record<RateProviderId, ProviderHealth>>;
+}
+
+const STORAGE_KEY = 'digitalplanner_rate_providers';
+
+const DEFAULT_ORDER: FetchedProviderId[] = ['frankfurter', 'mnb', 'ecb'];
+
+/** Providers whose public endpoint sends CORS headers; the others need a proxy endpoint */
+const BROWSER_REACHABLE: FetchedProviderId[] = ['frankfurter'];
+
+const PROVIDER_LABELS: Record<RateProviderId, string> = {
+    mnb: 'MNB',
+    ecb: 'ECB',
+    frankfurter: 'Frankfurter',
+    ai: 'AI',
+};
+
+const UNKNOWN_HEALTH: ProviderHealth = { status: 'unknown', consecutiveFailures: 0 };
+
+class RateProviderServiceClass {
+    private config: ProviderConfig = {
+        order: [...DEFAULT_ORDER],
+        disabled: [],
+        endpoints: {},
+        aiEnabled: false,
+        health: {},
+    };
+    private listeners = new Set<() => void>();
+
+    constructor() {
+        this.loadConfig();
+    }
+
+    /**
+     * All providers in fallback order (the AI provider last)
+     */
+    getProviders(): RateProviderInfo[] {
+        const fetched = this.config.order.map(id => ({
+            id,
+            label: PROVIDER_LABELS[id],
+            enabled: !this.config.disabled.includes(id),
+            endpoint: this.getEndpoint(id),
+            needsEndpoint: this.getEndpoint(id) === null,
+            health: this.getHealth(id),
+        }));
+        return [...fetched, { id: 'ai', label: PROVIDER_LABELS.ai, enabled: this.config.aiEnabled, endpoint: null, needsEndpoint: false, health: this.getHealth('ai') }];
+    }
+
+    getHealth(id: RateProviderId): ProviderHealth {
+        return this.config.health[id] ?? UNKNOWN_HEALTH;
+    }
+
+    /**
+     * Configured endpoint, else the public one if browsers can reach it (null: the provider needs a proxy endpoint)
+     */
+    getEndpoint(id: FetchedProviderId): string | null {
+        return this.config.endpoints[id] || (BROWSER_REACHABLE.includes(id) ? DEFAULT_RATE_ENDPOINTS[id] : null);
+    }
+
+    /**
+     * Use `endpoint` instead of the public one (null restores the default, which disables MNB and ECB again)
+     */
+    setEndpoint(id: FetchedProviderId, endpoint: string | null): void {
+        const endpoints = { ...this.config.endpoints };
+        if (endpoint && endpoint.trim()) endpoints[id] = endpoint.trim();
+        else delete endpoints[id];
+        this.update({ endpoints });
+    }
+
+    /**
+     * New fallback order; providers missing from `order` keep their relative place at the end
+     */
+    setOrder(order: FetchedProviderId[]): void {
+        const known = order.filter((id, index) => DEFAULT_ORDER.includes(id) && order.indexOf(id) === index);
+        this.update({ order: [...known, ...this.config.order.filter(id => !known.includes(id))] });
+    }
+
+    /** Move a provider one place up (-1) or down (+1) in the fallback order */
+    move(id: FetchedProviderId, direction: -1 | 1): void {
+        const order = [...this.config.order];
+        const index = order.indexOf(id);
+        const target = index + direction;
+        if (index < 0 || target < 0 || target >= order.length) return;
+        [order[index], order[target]] = [order[target], order[index]];
+        this.update({ order });
+    }
+
+    setEnabled(id: FetchedProviderId, enabled: boolean): void {
+        const disabled = this.config.disabled.filter(d => d !== id);
+        this.update({ disabled: enabled ? disabled : [...disabled, id] });
+    }
+
+    isAiEnabled(): boolean {
+        return this.config.aiEnabled;
+    }
+
+    /** Opt in to (or out of) AI estimated rates as the last fallback */
+    setAiEnabled(enabled: boolean): void {
+        this.update({ aiEnabled: enabled });
+    }
+
+    subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Rates from the first enabled provider that answers.
+     * Throws a RateProviderError ('unavailable') listing every failure when none does.
+     */
+    async fetchLatest(): Promise<ProviderFetchResult> {
+        const providers = this.activeProviders();
+        if (providers.length === 0) throw new RateProviderError('unavailable', 'Nincs bekapcsolt árfolyam-szolgáltató');
+
+        const failures: string[] = [];
+        for (const provider of providers) {
+            const attempt = Date.now();
+            try {
+                const snapshots = await provider.fetchRates();
+                if (snapshots.length === 0) throw new RateProviderError('parse', 'Üres válasz', provider.id);
+                this.recordHealth(provider.id, { status: 'ok', lastAttempt: attempt, lastSuccess: attempt, consecutiveFailures: 0 });
+                return { providerId: provider.id, label: provider.label, snapshots };
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                console.warn(`RateProviderService: ${provider.label} failed`, error);
+                const previous = this.getHealth(provider.id);
+                this.recordHealth(provider.id, {
+                    ...previous,
+                    status: 'failing',
+                    lastAttempt: attempt,
+                    lastError: message,
+                    consecutiveFailures: previous.consecutiveFailures + 1,
+                });
+                failures.push(`${provider.label}: ${message}`);
+            }
+        }
+        throw new RateProviderError('unavailable', failures.join('; '));
+    }
+
+    private activeProviders(): RateProvider[] {
+        const factories: Record<FetchedProviderId, (endpoint: string) => RateProvider> = {
+            mnb: createMnbProvider,
+            ecb: createEcbProvider,
+            frankfurter: createFrankfurterProvider,
+        };
+        const providers = this.config.order
+            .filter(id => !this.config.disabled.includes(id))
+            .flatMap(id => {
+                const endpoint = this.getEndpoint(id);
+                return endpoint ? [factories[id](endpoint)] : [];
+            });
+        if (this.config.aiEnabled) providers.push(createAiRateProvider(TimeZoneService.todayYMD()));
+        return providers;
+    }
+
+    private recordHealth(id: RateProviderId, health: ProviderHealth): void {
+        this.update({ health: { ...this.config.health, [id]: health } });
+    }
+
+    private update(changes: Partial<ProviderConfig>): void {
+        this.config = { ...this.config, ...changes };
+        this.saveConfig();
+        this.listeners.forEach(listener => listener());
+    }
+
+    /**
+     * Load config from localStorage (unknown providers are dropped, new ones appended)
+     */
+    private loadConfig(): void {
+        try {
+            const saved = localStorage.getItem(STORAGE_KEY);
+            if (!saved) return;
+            const parsed = JSON.parse(saved) as Partial<ProviderConfig>;
+            const order = (parsed.order ?? []).filter((id): id is FetchedProviderId => DEFAULT_ORDER.includes(id));
+            this.config = {
+                order: [...order, ...DEFAULT_ORDER.filter(id => !order.includes(id))],
+                disabled: (parsed.disabled ?? []).filter((id): id is FetchedProviderId => DEFAULT_ORDER.includes(id)),
+                endpoints: parsed.endpoints ?? {},
+                aiEnabled: parsed.aiEnabled === true,
+                health: parsed.health ?? {},
+            };
+        } catch (e) {
+            console.error('RateProviderService: Failed to load config', e);
+        }
+    }
+
+    private saveConfig(): void {
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(this.config));
+        } catch (e) {
+            console.error('RateProviderService: Failed to save config', e);
+        }
+    }
+}
+
+export const RateProviderService = new RateProviderServiceClass();
@@ -0,0 +1,161 @@
+/**
+ * RateProviders.ts
+ * Exchange-rate sources used by RateProviderService.
+ * Every provider answers with HUF based rates per day (utils/rateParsers); endpoints and `fetch` are injectable,
+ * so each one can be pointed at a local fixture server.
+ */
+
+import { AIService } from './AIService';
+import { AVAILABLE_CURRENCIES } from '../constants/currencyData';
+import { RateParseError, RateSnapshot, parseEcbXml, parseFrankfurterJson, parseMnbXml } from '../utils/rateParsers';
+import { RateTable } from '../utils/rateHistory';
+
+export type RateProviderId = 'mnb' | 'ecb' | 'frankfurter' | 'ai';
+
+export type RateProviderErrorKind = 'network' | 'http' | 'parse' | 'unavailable';
+
+export class RateProviderError extends Error {
+    readonly kind: RateProviderErrorKind;
+    readonly providerId?: RateProviderId;
+
+    constructor(kind: RateProviderErrorKind, message: string, providerId?: RateProviderId) {
+        super(message);
+        this.name = 'RateProviderError';
+        this.kind = kind;
+        this.providerId = providerId;
+    }
+}
+
+export interface RateProvider {
+    readonly id: RateProviderId;
+    readonly label: string;
+    /** Latest published rates, newest day first */
+    fetchRates(): Promise<RateSnapshot[]>;
+}
+
+type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+/** Public endpoints; RateProviderService can override them (proxies, fixture servers) */
+export const DEFAULT_RATE_ENDPOINTS: Record<Exclude<RateProviderId, 'ai'>, string> = {
+    mnb: 'https://www.mnb.hu/arfolyamok.asmx',
+    ecb: 'https://www.ecb.europa.eu/stats/eurofxref/eurofxref-daily.xml',
+    frankfurter: 'https://api.frankfurter.app/latest?from=HUF',
+};
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+const MNB_SOAP_ACTION = 'http://www.mnb.hu/webservices/MNBArfolyamServiceSoap/GetCurrentExchangeRates';
+const MNB_SOAP_BODY = '<?xml version="1.0" encoding="utf-8"?>'
+    + '<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/" xmlns:web="http://www.mnb.hu/webservices/">'
+    + '<soap:Body><web:GetCurrentExchangeRates/></soap:Body></soap:Envelope>';
+
+/**
+ * Fetch with a timeout; network failures and non-2xx answers become RateProviderErrors
+ */
+const request = async (providerId: RateProviderId, fetchImpl: FetchLike, url: string, init?: RequestInit): Promise<Response> => {
+    const controller = typeof AbortController !== 'undefined' ? new AbortController() : null;
+    const timer = controller ? setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS) : null;
+    try {
+        const response = await fetchImpl(url, { ...init, signal: controller?.signal });
+        if (!response.ok) throw new RateProviderError('http', `HTTP ${response.status}`, providerId);
+        return response;
+    } catch (error) {
+        if (error instanceof RateProviderError) throw error;
+        throw new RateProviderError('network', error instanceof Error ? error.message : String(error), providerId);
+    } finally {
+        if (timer) clearTimeout(timer);
+    }
+};
+
+const parsed = (providerId: RateProviderId, parse: () => RateSnapshot[]): RateSnapshot[] => {
+    try {
+        return parse();
+    } catch (error) {
+        if (error instanceof RateParseError) throw new RateProviderError('parse', error.message, providerId);
+        throw error;
+    }
+};
+
+/**
+ * Magyar Nemzeti Bank official rates (SOAP GetCurrentExchangeRates) - the rates Hungarian invoices use
+ */
+export const createMnbProvider = (endpoint: string = DEFAULT_RATE_ENDPOINTS.mnb, fetchImpl: FetchLike = fetch): RateProvider => ({
+    id: 'mnb',
+    label: 'MNB',
+    fetchRates: async () => {
+        const response = await request('mnb', fetchImpl, endpoint, {
+            method: 'POST',
+            headers: { 'Content-Type': 'text/xml; charset=utf-8', SOAPAction: `"${MNB_SOAP_ACTION}"` },
+            body: MNB_SOAP_BODY,
+        });
+        const xml = await response.text();
+        return parsed('mnb', () => parseMnbXml(xml));
+    },
+});
+
+/**
+ * ECB euro reference rates (daily XML)
+ */
+export const createEcbProvider = (endpoint: string = DEFAULT_RATE_ENDPOINTS.ecb, fetchImpl: FetchLike = fetch): RateProvider => ({
+    id: 'ecb',
+    label: 'ECB',
+    fetchRates: async () => {
+        const xml = await (await request('ecb', fetchImpl, endpoint)).text();
+        return parsed('ecb', () => parseEcbXml(xml));
+    },
+});
+
+/**
+ * Frankfurter (free, open source; ECB data via JSON)
+ */
+export const createFrankfurterProvider = (endpoint: string = DEFAULT_RATE_ENDPOINTS.frankfurter, fetchImpl: FetchLike = fetch): RateProvider => ({
+    id: 'frankfurter',
+    label: 'Frankfurter',
+    fetchRates: async () => {
+        const response = await request('frankfurter', fetchImpl, endpoint);
+        let data: unknown;
+        try {
+            data = await response.json();
+        } catch {
+            throw new RateProviderError('parse', 'Invalid JSON', 'frankfurter');
+        }
+        return parsed('frankfurter', () => parseFrankfurterJson(data));
+    },
+});
+
+/**
+ * Rates guessed by the configured AI model - estimates only, so RateProviderService only uses it when opted in
+ */
+export const createAiRateProvider = (today: string): RateProvider => ({
+    id: 'ai',
+    label: 'AI',
+    fetchRates: async () => {
+        if (!AIService.isConfigured()) throw new RateProviderError('unavailable', 'AI nincs beállítva', 'ai');
+        const currencies = AVAILABLE_CURRENCIES.map(c => c.code).filter(code => code !== 'HUF');
+        const prompt = `
+                Kérlek add meg a mai (${today}) árfolyamokat HUF (Forint) alapon.
+                Válaszolj CSAK JSON formátumban, semmi más szöveget ne írj:
+                { "EUR": 386.7, "USD": 330.1, ... }
+                Pénznemek: ${currencies.join(', ')}
+                Az érték azt jelenti, hogy 1 [pénznem] = X Forint.
+            `;
+        let text: string;
+        try {
+            text = (await AIService.generateText({ prompt, maxTokens: 1000 })).text;
+        } catch (error) {
+            throw new RateProviderError('network', error instanceof Error ? error.message : String(error), 'ai');
+        }
+        const jsonMatch = text.match(/\{[^}]+\}/);
+        if (!jsonMatch) throw new RateProviderError('parse', 'Nem sikerült feldolgozni az AI válaszát.', 'ai');
+        const rates: RateTable = {};
+        try {
+            Object.entries(JSON.parse(jsonMatch[0]) as Record<string, unknown>).forEach(([currency, rate]) => {
+                if (typeof rate === 'number' && rate > 0) rates[currency.toUpperCase()] = rate;
+            });
+        } catch {
+            throw new RateProviderError('parse', 'Nem sikerült feldolgozni az AI válaszát.', 'ai');
+        }
+        if (Object.keys(rates).length === 0) throw new RateProviderError('parse', 'Az AI válasza nem tartalmaz árfolyamot.', 'ai');
+        return [{ date: today, rates }];
+    },
+});
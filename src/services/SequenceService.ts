@@ -1,9 +1,17 @@
+import { getSupabaseClient } from './supabaseClient';
+
 export const SequenceService = {
     /**
      * storage key prefix for invoice sequences
      */
     STORAGE_KEY_PREFIX: 'invoice_sequence_',
 
+    /**
+     * Format: INV-{YEAR}-{SEQUENCE} (e.g., INV-2025-0001)
+     */
+    formatInvoiceNumber: (year: number, sequence: number): string =>
+        `INV-${year}-${sequence.toString().padStart(4, '0')}`,
+
     /**
      * Generates a sequential invoice number based on company ID and year.
      * Format: INV-{YEAR}-{SEQUENCE} (e.g., INV-2025-0001)
@@ -25,8 +33,32 @@ export const SequenceService = {
         localStorage.setItem(key, currentSequence.toString());
 
         // Format the invoice number
-        const sequenceString = currentSequence.toString().padStart(4, '0');
-        return `INV-${year}-${sequenceString}`;
+        return SequenceService.formatInvoiceNumber(year, currentSequence);
+    },
+
+    /**
+     * Allocates the next invoice number.
+     * Signed in to cloud sync: the server allocates it atomically (`allocate_invoice_number`), so two devices
+     * can never issue the same number; fails instead of falling back while offline.
+     * Local-only use keeps the localStorage counter.
+     */
+    allocateInvoiceNumber: async (companyId: string = 'default', year: number = new Date().getFullYear()): Promise<string> => {
+        const client = getSupabaseClient();
+        const session = client ? (await client.auth.getSession()).data.session : null;
+        if (!client || !session) return SequenceService.getNextInvoiceNumber(companyId, year);
+
+        const { data, error } = await client.rpc('allocate_invoice_number', {
+            p_company_id: companyId,
+            p_year: year,
+            // Numbers issued locally before sync was enabled are never handed out again
+            p_min_number: SequenceService.getCurrentSequence(companyId, year),
+        });
+        if (error || typeof data !== 'number') {
+            throw new Error(error?.message || 'Invoice number could not be allocated');
+        }
+
+        localStorage.setItem(`${SequenceService.STORAGE_KEY_PREFIX}${companyId}_${year}`, data.toString());
+        return SequenceService.formatInvoiceNumber(year, data);
     },
 
     /**
@@ -0,0 +1,319 @@
+/**
+ * SnapshotService
+ * Automatic full-state snapshots, taken before destructive operations and once a day.
+ *
+ * - A snapshot is a complete backup file (see DataTransferService), gzip-compressed and encrypted in vault mode.
+ * - Snapshots live in their own IndexedDB database, so clearing the app data never deletes them.
+ *   Without IndexedDB they fall back to localStorage and fewer are kept.
+ * - Only the newest N snapshots are kept (N is configurable per device).
+ */
+
+import { DataTransferService, BackupFile, ParsedBackup } from './DataTransferService';
+import { MigrationService } from './MigrationService';
+import { StorageService } from './StorageService';
+import { toBase64, fromBase64 } from '../utils/vaultCrypto';
+
+export type SnapshotReason = 'clear-all' | 'import' | 'restore' | 'delete-invoices' | 'migration' | 'daily' | 'manual';
+
+export interface SnapshotMeta {
+    id: string;
+    reason: SnapshotReason;
+    /** e.g. the migration id */
+    detail?: string;
+    createdAt: string;
+    appVersion: string;
+    /** Items per backup collection */
+    counts: Record<string, number>;
+    /** Stored payload size in bytes */
+    size: number;
+    compressed: boolean;
+}
+
+interface SnapshotStore {
+    readonly name: 'indexeddb' | 'localstorage';
+    list(): Promise<SnapshotMeta[]>;
+    read(id: string): Promise<string | null>;
+    write(meta: SnapshotMeta, payload: string): Promise<void>;
+    remove(id: string): Promise<void>;
+}
+
+const DB_NAME = 'digitalplanner-snapshots';
+const META_STORE = 'meta';
+const PAYLOAD_STORE = 'payloads';
+const FALLBACK_KEY = 'digitalplanner_snapshots';
+const LIMIT_KEY = 'digitalplanner_snapshot_limit';
+
+export const DEFAULT_SNAPSHOT_LIMIT = 10;
+/** localStorage is only ~5 MB, so the fallback keeps fewer full snapshots */
+const FALLBACK_LIMIT = 3;
+const DAILY_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const DAILY_CHECK_MS = 60 * 60 * 1000;
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+    });
+
+class IndexedDBSnapshotStore implements SnapshotStore {
+    readonly name = 'indexeddb' as const;
+    private dbPromise: Promise<IDBDatabase> | null = null;
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise((resolve, reject) => {
+                const request = indexedDB.open(DB_NAME, 1);
+                request.onupgradeneeded = () => {
+                    const db = request.result;
+                    if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: 'id' });
+                    if (!db.objectStoreNames.contains(PAYLOAD_STORE)) db.createObjectStore(PAYLOAD_STORE);
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+        }
+        return this.dbPromise;
+    }
+
+    async list(): Promise<SnapshotMeta[]> {
+        const db = await this.open();
+        return requestResult(db.transaction(META_STORE, 'readonly').objectStore(META_STORE).getAll() as IDBRequest<SnapshotMeta[]>);
+    }
+
+    async read(id: string): Promise<string | null> {
+        const db = await this.open();
+        const value = await requestResult(db.transaction(PAYLOAD_STORE, 'readonly').objectStore(PAYLOAD_STORE).get(id));
+        return typeof value === 'string' ? value : null;
+    }
+
+    async write(meta: SnapshotMeta, payload: string): Promise<void> {
+        const db = await this.open();
+        const tx = db.transaction([META_STORE, PAYLOAD_STORE], 'readwrite');
+        tx.objectStore(PAYLOAD_STORE).put(payload, meta.id);
+        tx.objectStore(META_STORE).put(meta);
+        await transactionDone(tx);
+    }
+
+    async remove(id: string): Promise<void> {
+        const db = await this.open();
+        const tx = db.transaction([META_STORE, PAYLOAD_STORE], 'readwrite');
+        tx.objectStore(PAYLOAD_STORE).delete(id);
+        tx.objectStore(META_STORE).delete(id);
+        await transactionDone(tx);
+    }
+}
+
+class LocalStorageSnapshotStore implements SnapshotStore {
+    readonly name = 'localstorage' as const;
+
+    private readAll(): { meta: SnapshotMeta; payload: string }[] {
+        try {
+            return JSON.parse(localStorage.getItem(FALLBACK_KEY) || '[]');
+        } catch {
+            return [];
+        }
+    }
+
+    async list(): Promise<SnapshotMeta[]> {
+        return this.readAll().map(entry => entry.meta);
+    }
+
+    async read(id: string): Promise<string | null> {
+        return this.readAll().find(entry => entry.meta.id === id)?.payload ?? null;
+    }
+
+    async write(meta: SnapshotMeta, payload: string): Promise<void> {
+        localStorage.setItem(FALLBACK_KEY, JSON.stringify([...this.readAll(), { meta, payload }]));
+    }
+
+    async remove(id: string): Promise<void> {
+        localStorage.setItem(FALLBACK_KEY, JSON.stringify(this.readAll().filter(entry => entry.meta.id !== id)));
+    }
+}
+
+const isCompressionSupported = () =>
+    typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+
+const gzip = async (text: string): Promise<string> => {
+    const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'));
+    return toBase64(new Uint8Array(await new Response(stream).arrayBuffer()));
+};
+
+const gunzip = async (encoded: string): Promise<string> => {
+    const stream = new Blob([fromBase64(encoded)]).stream().pipeThrough(new DecompressionStream('gzip'));
+    return new Response(stream).text();
+};
+
+const newSnapshotId = () => {
+    const c = globalThis.crypto as Crypto | undefined;
+    if (c && 'randomUUID' in c) return c.randomUUID();
+    return Math.random().toString(36).slice(2, 11);
+};
+
+const byNewest = (a: SnapshotMeta, b: SnapshotMeta) => b.createdAt.localeCompare(a.createdAt);
+
+class SnapshotServiceClass {
+    private store: SnapshotStore = typeof indexedDB !== 'undefined' && indexedDB !== null
+        ? new IndexedDBSnapshotStore()
+        : new LocalStorageSnapshotStore();
+    /** Captures are stored one after another so pruning never races a write */
+    private queue: Promise<unknown> = Promise.resolve();
+    private listeners = new Set<() => void>();
+
+    getLimit(): number {
+        const stored = parseInt(localStorage.getItem(LIMIT_KEY) || '', 10);
+        const limit = Number.isNaN(stored) ? DEFAULT_SNAPSHOT_LIMIT : Math.max(1, stored);
+        return this.store.name === 'localstorage' ? Math.min(limit, FALLBACK_LIMIT) : limit;
+    }
+
+    setLimit(limit: number): Promise<void> {
+        localStorage.setItem(LIMIT_KEY, String(Math.max(1, Math.round(limit))));
+        return this.enqueue(() => this.prune());
+    }
+
+    getStorageName(): SnapshotStore['name'] {
+        return this.store.name;
+    }
+
+    /**
+     * Newest first
+     */
+    async list(): Promise<SnapshotMeta[]> {
+        try {
+            return (await this.store.list()).sort(byNewest);
+        } catch (error) {
+            console.error('SnapshotService: snapshots could not be listed', error);
+            return [];
+        }
+    }
+
+    /**
+     * Take a snapshot of the whole app state.
+     * The state is read synchronously when this is called, so callers may wipe data right after
+     * without awaiting; compressing and storing happen in the background.
+     * @returns false if the snapshot could not be stored
+     */
+    capture(reason: SnapshotReason, detail?: string): Promise<boolean> {
+        let backup: Promise<BackupFile>;
+        try {
+            // createBackup reads every store before its first await
+            backup = DataTransferService.createBackup();
+        } catch (error) {
+            console.error('SnapshotService: state could not be read', error);
+            return Promise.resolve(false);
+        }
+
+        return this.enqueue(async () => {
+            try {
+                const file = await backup;
+                const json = JSON.stringify(file);
+                const compressed = isCompressionSupported();
+                const payload = await StorageService.seal(compressed ? await gzip(json) : json);
+                const meta: SnapshotMeta = {
+                    id: newSnapshotId(),
+                    reason,
+                    detail,
+                    createdAt: file.manifest.createdAt,
+                    appVersion: file.manifest.appVersion,
+                    counts: file.manifest.counts,
+                    size: payload.length,
+                    compressed,
+                };
+                await this.store.write(meta, payload);
+                await this.prune();
+                return true;
+            } catch (error) {
+                console.error(`SnapshotService: ${reason} snapshot failed`, error);
+                return false;
+            }
+        });
+    }
+
+    /**
+     * Decode a snapshot into a verified backup, ready for DataTransferService.previewRestore / restore
+     */
+    async load(id: string): Promise<{ success: true; backup: ParsedBackup } | { success: false; message: string }> {
+        const meta = (await this.list()).find(m => m.id === id);
+        const payload = meta ? await this.store.read(id) : null;
+        if (!meta || payload === null) return { success: false, message: 'Snapshot not found.' };
+
+        let json: string;
+        try {
+            const opened = await StorageService.unseal(payload);
+            json = meta.compressed ? await gunzip(opened) : opened;
+        } catch (error) {
+            console.error('SnapshotService: snapshot could not be opened', error);
+            return { success: false, message: 'This snapshot cannot be opened. It was encrypted with a different vault passphrase or is damaged.' };
+        }
+
+        try {
+            return await DataTransferService.parseBackup(JSON.parse(json));
+        } catch {
+            return { success: false, message: 'This snapshot is damaged.' };
+        }
+    }
+
+    async remove(id: string): Promise<void> {
+        await this.store.remove(id);
+        this.notify();
+    }
+
+    /**
+     * Take a 'daily' snapshot whenever the newest one is older than a day; checks hourly.
+     * @returns stop function
+     */
+    startDailySchedule(): () => void {
+        const check = async () => {
+            const latest = (await this.list()).find(meta => meta.reason === 'daily');
+            if (!latest || Date.now() - Date.parse(latest.createdAt) >= DAILY_INTERVAL_MS) {
+                await this.capture('daily');
+            }
+        };
+        check();
+        const timer = window.setInterval(check, DAILY_CHECK_MS);
+        return () => window.clearInterval(timer);
+    }
+
+    /**
+     * Subscribe to snapshot list changes
+     * @returns unsubscribe function
+     */
+    subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private enqueue<T>(work: () => Promise<T>): Promise<T> {
+        const run = this.queue.then(work);
+        this.queue = run.catch(() => undefined);
+        return run.finally(() => this.notify());
+    }
+
+    private async prune(): Promise<void> {
+        const stale = (await this.list()).slice(this.getLimit());
+        for (const meta of stale) {
+            await this.store.remove(meta.id);
+        }
+    }
+
+    private notify(): void {
+        this.listeners.forEach(listener => listener());
+    }
+}
+
+export const SnapshotService = new SnapshotServiceClass();
+
+// Destructive restores and migrations snapshot the full state before they write
+DataTransferService.setBeforeRestore(reason => SnapshotService.capture(reason));
+MigrationService.setBeforeDestructive(migrationId => SnapshotService.capture('migration', migrationId));
+
+export default SnapshotService;
@@ -0,0 +1,236 @@
+/**
+ * StorageDrivers.ts
+ * Persistence backends used by StorageService.
+ * Every driver stores already-serialized JSON strings, so switching backends never changes the data shape.
+ */
+
+/** 'migrated': the data already moved to IndexedDB, which could not be opened this time */
+export type StorageErrorKind = 'quota' | 'unavailable' | 'migrated' | 'unknown';
+
+export class StorageError extends Error {
+    readonly kind: StorageErrorKind;
+    readonly key?: string;
+
+    constructor(kind: StorageErrorKind, message: string, key?: string) {
+        super(message);
+        this.name = 'StorageError';
+        this.kind = kind;
+        this.key = key;
+    }
+}
+
+export interface StorageDriver {
+    readonly name: 'indexeddb' | 'localstorage';
+    /** Read every stored entry (key without prefix -> JSON string) */
+    loadAll(): Promise<Record<string, string>>;
+    write(key: string, value: string): Promise<void>;
+    remove(key: string): Promise<void>;
+    clear(): Promise<void>;
+}
+
+/**
+ * Detect quota errors across browsers (Chrome, Firefox, Safari use different names/codes)
+ */
+export const isQuotaError = (error: unknown): boolean => {
+    if (!(error instanceof DOMException) && !(error instanceof Error)) return false;
+    const e = error as DOMException;
+    return e.name === 'QuotaExceededError' ||
+        e.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+        e.code === 22 ||
+        e.code === 1014;
+};
+
+export const toStorageError = (error: unknown, key?: string): StorageError => {
+    if (error instanceof StorageError) return error;
+    if (isQuotaError(error)) {
+        return new StorageError('quota', `Storage quota exceeded while saving "${key ?? 'data'}"`, key);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return new StorageError('unknown', message, key);
+};
+
+/**
+ * Legacy backend: one localStorage key per entity ('planner-notes', 'planner-transactions', ...)
+ */
+export class LocalStorageDriver implements StorageDriver {
+    readonly name = 'localstorage' as const;
+
+    constructor(private prefix: string) { }
+
+    async loadAll(): Promise<Record<string, string>> {
+        const result: Record<string, string> = {};
+        for (let i = 0; i < localStorage.length; i++) {
+            const fullKey = localStorage.key(i);
+            if (!fullKey || !fullKey.startsWith(this.prefix)) continue;
+            const value = localStorage.getItem(fullKey);
+            if (value !== null) result[fullKey.slice(this.prefix.length)] = value;
+        }
+        return result;
+    }
+
+    async write(key: string, value: string): Promise<void> {
+        try {
+            localStorage.setItem(this.prefix + key, value);
+        } catch (error) {
+            throw toStorageError(error, key);
+        }
+    }
+
+    async remove(key: string): Promise<void> {
+        localStorage.removeItem(this.prefix + key);
+    }
+
+    async clear(): Promise<void> {
+        Object.keys(localStorage).forEach(key => {
+            if (key.startsWith(this.prefix)) {
+                localStorage.removeItem(key);
+            }
+        });
+    }
+}
+
+const DB_NAME = 'digitalplanner';
+const DB_VERSION = 5;
+const VALUE_KEY = 'value';
+
+/**
+ * Entities that get a dedicated object store. Anything else lands in the 'misc' store.
+ */
+export const ENTITY_STORES = [
+    'notes',
+    'goals',
+    'plans',
+    'drawings',
+    'subscriptions',
+    'transactions',
+    'invoices',
+    'clients',
+    'company-profiles',
+    'budget-settings',
+    'recurring-skips',
+    'workflows',
+    'workflow-templates',
+    'habits',
+    'budget-goals',
+    'audit-log',
+    'audit-log-archive',
+] as const;
+
+const MISC_STORE = 'misc';
+
+/**
+ * True for full localStorage-style keys ('planner-notes') whose data is owned by StorageService
+ */
+export const isEntityKey = (fullKey: string): boolean =>
+    fullKey.startsWith('planner-') && (ENTITY_STORES as readonly string[]).includes(fullKey.slice('planner-'.length));
+
+/**
+ * IndexedDB backend: one object store per entity, each holding the serialized collection under a single record.
+ * Keeps the same key space as the localStorage driver while lifting the ~5 MB quota.
+ */
+export class IndexedDBDriver implements StorageDriver {
+    readonly name = 'indexeddb' as const;
+    private db: IDBDatabase | null = null;
+
+    static isSupported(): boolean {
+        return typeof indexedDB !== 'undefined' && indexedDB !== null;
+    }
+
+    async open(): Promise<void> {
+        if (this.db) return;
+        this.db = await new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                [...ENTITY_STORES, MISC_STORE].forEach(store => {
+                    if (!db.objectStoreNames.contains(store)) db.createObjectStore(store);
+                });
+            };
+            request.onsuccess = () => {
+                // Let a newer version of the app (another tab) upgrade the schema
+                request.result.onversionchange = () => request.result.close();
+                resolve(request.result);
+            };
+            request.onerror = () => reject(new StorageError('unavailable', request.error?.message || 'IndexedDB unavailable'));
+            request.onblocked = () => reject(new StorageError('unavailable', 'IndexedDB upgrade blocked by another tab'));
+        });
+    }
+
+    private storeFor(key: string): { store: string; recordKey: string } {
+        return (ENTITY_STORES as readonly string[]).includes(key)
+            ? { store: key, recordKey: VALUE_KEY }
+            : { store: MISC_STORE, recordKey: key };
+    }
+
+    private run(storeNames: string[], mode: IDBTransactionMode, work: (tx: IDBTransaction) => void, key?: string): Promise<void> {
+        if (!this.db) return Promise.reject(new StorageError('unavailable', 'IndexedDB not opened', key));
+        const db = this.db;
+        return new Promise((resolve, reject) => {
+            let tx: IDBTransaction;
+            try {
+                tx = db.transaction(storeNames, mode);
+            } catch (error) {
+                reject(toStorageError(error, key));
+                return;
+            }
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(toStorageError(tx.error, key));
+            tx.onabort = () => reject(toStorageError(tx.error ?? new Error('Transaction aborted'), key));
+            work(tx);
+        });
+    }
+
+    async loadAll(): Promise<Record<string, string>> {
+        const result: Record<string, string> = {};
+        const stores = [...ENTITY_STORES, MISC_STORE];
+        await this.run(stores, 'readonly', tx => {
+            ENTITY_STORES.forEach(store => {
+                const req = tx.objectStore(store).get(VALUE_KEY);
+                req.onsuccess = () => {
+                    if (typeof req.result === 'string') result[store] = req.result;
+                };
+            });
+            const cursorReq = tx.objectStore(MISC_STORE).openCursor();
+            cursorReq.onsuccess = () => {
+                const cursor = cursorReq.result;
+                if (!cursor) return;
+                if (typeof cursor.value === 'string') result[String(cursor.key)] = cursor.value;
+                cursor.continue();
+            };
+        });
+        return result;
+    }
+
+    async write(key: string, value: string): Promise<void> {
+        const { store, recordKey } = this.storeFor(key);
+        await this.run([store], 'readwrite', tx => {
+            tx.objectStore(store).put(value, recordKey);
+        }, key);
+    }
+
+    async writeMany(entries: Record<string, string>): Promise<void> {
+        const keys = Object.keys(entries);
+        if (keys.length === 0) return;
+        const stores = Array.from(new Set(keys.map(k => this.storeFor(k).store)));
+        await this.run(stores, 'readwrite', tx => {
+            keys.forEach(key => {
+                const { store, recordKey } = this.storeFor(key);
+                tx.objectStore(store).put(entries[key], recordKey);
+            });
+        });
+    }
+
+    async remove(key: string): Promise<void> {
+        const { store, recordKey } = this.storeFor(key);
+        await this.run([store], 'readwrite', tx => {
+            tx.objectStore(store).delete(recordKey);
+        }, key);
+    }
+
+    async clear(): Promise<void> {
+        const stores = [...ENTITY_STORES, MISC_STORE];
+        await this.run(stores, 'readwrite', tx => {
+            stores.forEach(store => tx.objectStore(store).clear());
+        });
+    }
+}
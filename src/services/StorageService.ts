@@ -1,15 +1,56 @@
 /**
  * StorageService.ts
- * PhD-level LocalStorage wrapper with strong typing, error handling, and serialization.
+ * PhD-level persistence wrapper with strong typing, error handling, and serialization.
+ *
+ * Reads are served synchronously from an in-memory cache that `init()` hydrates from the active driver.
+ * Writes update the cache immediately and are flushed to IndexedDB (or localStorage as a fallback) in the background.
+ * With a cipher installed (vault mode) every payload is encrypted before it reaches the driver; the cache stays plaintext.
  */
 
+import { IndexedDBDriver, LocalStorageDriver, StorageDriver, StorageError, isEntityKey, toStorageError } from './StorageDrivers';
+
+export type StorageErrorListener = (error: StorageError) => void;
+
+/**
+ * Encrypts payloads at rest (installed by VaultService)
+ */
+export interface StorageCipher {
+    encrypt(plain: string): Promise<string>;
+    decrypt(payload: string): Promise<string>;
+}
+
+const IDB_MIGRATION_FLAG = 'storage_idb_migrated';
+
+/**
+ * Values modules used to keep directly in localStorage (key here -> their old localStorage key).
+ * They are moved in once, so the backend and the vault cipher cover them too.
+ */
+const ADOPTED_LEGACY_KEYS: Record<string, string> = {
+    'drawing-state': 'planner-drawing-state',
+    'company-info': 'companyInfo',
+};
+/** Prefix of encrypted payloads; plain JSON can never start with it */
+export const ENCRYPTED_MARKER = 'vault:';
+
 export class StorageService {
     private static PREFIX = 'planner-';
+    private static driver: StorageDriver = new LocalStorageDriver(StorageService.PREFIX);
+    private static cache = new Map<string, string>();
+    private static initPromise: Promise<void> | null = null;
+    private static initialized = false;
+    private static listeners = new Set<StorageErrorListener>();
+    /** Replayed to listeners that subscribe after init() already failed over */
+    private static initError: StorageError | null = null;
+    private static cipher: StorageCipher | null = null;
+    /** Encrypted entries loaded while no cipher was installed (vault locked) */
+    private static sealed = new Map<string, string>();
+    /** Writes are serialized so async encryption can never reorder them */
+    private static writeQueue: Promise<unknown> = Promise.resolve();
 
     /**
      * Safe JSON parse with error handling
      */
-    private static parse<T>(value: string | null): T | null {
+    private static parse<T>(value: string | null | undefined): T | null {
         if (!value) return null;
         try {
             // Handle "undefined" string edge case
@@ -33,38 +74,250 @@ export class StorageService {
         }
     }
 
+    private static emitError(error: StorageError): void {
+        console.error(`StorageService ${error.kind} error:`, error.message);
+        this.listeners.forEach(listener => {
+            try {
+                listener(error);
+            } catch (e) {
+                console.error('StorageService listener failed:', e);
+            }
+        });
+    }
+
+    /**
+     * Select the backend and hydrate the cache.
+     * Prefers IndexedDB; copies legacy entity keys ('planner-notes', ...) from localStorage into it exactly once.
+     * Safe to call multiple times - all callers share the same promise.
+     */
+    static init(): Promise<void> {
+        if (typeof window === 'undefined') return Promise.resolve();
+        if (!this.initPromise) {
+            this.initPromise = this.doInit().finally(() => {
+                this.initialized = true;
+            });
+        }
+        return this.initPromise;
+    }
+
+    private static async doInit(): Promise<void> {
+        const legacy = new LocalStorageDriver(this.PREFIX);
+
+        if (IndexedDBDriver.isSupported()) {
+            try {
+                const idb = new IndexedDBDriver();
+                await idb.open();
+
+                if (!localStorage.getItem(IDB_MIGRATION_FLAG)) {
+                    // Only entity keys move here; other stores are adopted one by one (ADOPTED_LEGACY_KEYS)
+                    const legacyEntries = Object.fromEntries(
+                        Object.entries(await legacy.loadAll()).filter(([key]) => isEntityKey(this.PREFIX + key))
+                    );
+                    await idb.writeMany(legacyEntries);
+                    localStorage.setItem(IDB_MIGRATION_FLAG, new Date().toISOString());
+                    // Free the localStorage quota only after IndexedDB committed the copy
+                    await Promise.all(Object.keys(legacyEntries).map(key => legacy.remove(key)));
+                }
+
+                // Anything written while init was running went to the localStorage driver
+                if (this.cache.size > 0) await idb.writeMany(Object.fromEntries(this.cache));
+
+                this.driver = idb;
+                this.hydrate(await idb.loadAll());
+                this.adoptLegacyKeys();
+                return;
+            } catch (error) {
+                const storageError = toStorageError(error);
+                if (localStorage.getItem(IDB_MIGRATION_FLAG)) {
+                    // The real data is in IndexedDB: the localStorage fallback would show (and save into) an empty planner
+                    this.initError = new StorageError('migrated', storageError.message);
+                    this.emitError(this.initError);
+                } else if (storageError.kind === 'quota') {
+                    this.emitError(storageError);
+                } else {
+                    console.warn('StorageService: IndexedDB unavailable, falling back to localStorage', storageError);
+                }
+            }
+        }
+
+        this.driver = legacy;
+        this.hydrate(await legacy.loadAll());
+        this.adoptLegacyKeys();
+    }
+
+    /**
+     * Move the ADOPTED_LEGACY_KEYS values into the store. While the vault is locked this waits for setCipher(),
+     * so the values are never rewritten in plaintext.
+     */
+    private static adoptLegacyKeys(): void {
+        if (this.sealed.size > 0 && !this.cipher) return;
+        Object.entries(ADOPTED_LEGACY_KEYS).forEach(([key, legacyKey]) => {
+            if (this.cache.has(key) || this.sealed.has(key)) return;
+            const raw = localStorage.getItem(legacyKey);
+            if (raw === null) return;
+            this.setRaw(key, raw).then(saved => {
+                if (saved) localStorage.removeItem(legacyKey);
+            });
+        });
+    }
+
+    private static hydrate(entries: Record<string, string>): void {
+        Object.entries(entries).forEach(([key, value]) => {
+            // Keep anything written before init finished; it is newer than what was on disk
+            if (this.cache.has(key)) return;
+            if (value.startsWith(ENCRYPTED_MARKER)) this.sealed.set(key, value);
+            else this.cache.set(key, value);
+        });
+    }
+
+    /**
+     * Install (or remove) the at-rest cipher and decrypt entries that were sealed while locked.
+     * Rejects if the sealed data cannot be decrypted with this cipher; nothing is changed in that case.
+     */
+    static async setCipher(cipher: StorageCipher | null): Promise<void> {
+        await this.init();
+        if (cipher && this.sealed.size > 0) {
+            const opened: [string, string][] = [];
+            for (const [key, value] of this.sealed) {
+                opened.push([key, await cipher.decrypt(value)]);
+            }
+            opened.forEach(([key, value]) => {
+                if (!this.cache.has(key)) this.cache.set(key, value);
+            });
+            this.sealed.clear();
+        }
+        this.cipher = cipher;
+        if (cipher) this.adoptLegacyKeys();
+    }
+
+    /**
+     * True while encrypted data is waiting for the vault to be unlocked
+     */
+    static isSealed(): boolean {
+        return this.sealed.size > 0;
+    }
+
+    /**
+     * Switch ciphers and rewrite every entry with the new one (vault enable/disable, passphrase change)
+     * @returns false if any entry could not be rewritten
+     */
+    static async reencryptAll(cipher: StorageCipher | null): Promise<boolean> {
+        await this.init();
+        if (this.sealed.size > 0) return false;
+        await this.flush();
+        this.cipher = cipher;
+        const results = await Promise.all(
+            Array.from(this.cache.entries()).map(([key, value]) => this.persist(key, value))
+        );
+        return results.every(Boolean);
+    }
+
+    /**
+     * Encrypt a payload kept outside the drivers (e.g. snapshots) with the active cipher; plain when the vault is off
+     */
+    static async seal(plain: string): Promise<string> {
+        return this.cipher ? this.cipher.encrypt(plain) : plain;
+    }
+
     /**
-     * Get item from localStorage with type safety
+     * Reverse of seal(). Rejects if the payload is encrypted and the installed cipher cannot open it.
+     */
+    static async unseal(payload: string): Promise<string> {
+        if (!payload.startsWith(ENCRYPTED_MARKER)) return payload;
+        if (!this.cipher) throw new Error('The vault is locked');
+        return this.cipher.decrypt(payload);
+    }
+
+    /**
+     * Resolve once every queued write reached the backend
+     */
+    static flush(): Promise<void> {
+        return this.writeQueue.then(() => undefined, () => undefined);
+    }
+
+    private static persist(key: string, plain: string): Promise<boolean> {
+        const cipher = this.cipher;
+        const write = this.writeQueue.then(async () => {
+            const payload = cipher ? await cipher.encrypt(plain) : plain;
+            await this.driver.write(key, payload);
+        });
+        this.writeQueue = write.catch(() => undefined);
+        return write
+            .then(() => true)
+            .catch(error => {
+                this.emitError(toStorageError(error, key));
+                return false;
+            });
+    }
+
+    /**
+     * Name of the active backend ('indexeddb' | 'localstorage')
+     */
+    static getDriverName(): StorageDriver['name'] {
+        return this.driver.name;
+    }
+
+    /**
+     * Subscribe to persistence failures (quota exceeded, backend unavailable)
+     * @returns unsubscribe function
+     */
+    static onError(listener: StorageErrorListener): () => void {
+        this.listeners.add(listener);
+        if (this.initError) listener(this.initError);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Get item with type safety
      * @param key The key (without prefix)
      * @param fallback Optional fallback value if null or parse error
      */
     static get<T>(key: string, fallback: T | null = null): T | null {
         if (typeof window === 'undefined') return fallback;
-        const value = localStorage.getItem(this.PREFIX + key);
+        const value = this.initialized || this.cache.has(key)
+            ? this.cache.get(key)
+            : localStorage.getItem(this.PREFIX + key) ?? (key in ADOPTED_LEGACY_KEYS ? localStorage.getItem(ADOPTED_LEGACY_KEYS[key]) : null);
         const parsed = this.parse<T>(value);
         return parsed ?? fallback;
     }
 
     /**
-     * Set item in localStorage
+     * Set item. The cache is updated synchronously; the backend write is asynchronous.
      * @param key The key (without prefix)
      * @param value The value to store
+     * @returns Promise resolving to false if the backend rejected the write (listeners are notified)
      */
-    static set<T>(key: string, value: T): void {
-        if (typeof window === 'undefined') return;
+    static set<T>(key: string, value: T): Promise<boolean> {
+        if (typeof window === 'undefined') return Promise.resolve(false);
         const stringified = this.stringify(value);
-        if (stringified !== null) {
-            localStorage.setItem(this.PREFIX + key, stringified);
-        }
+        if (stringified === null) return Promise.resolve(false);
+
+        this.cache.set(key, stringified);
+        return this.persist(key, stringified);
+    }
+
+    /**
+     * Set an already-serialized JSON string (used by migrations and restores that move raw payloads)
+     */
+    static setRaw(key: string, raw: string): Promise<boolean> {
+        if (typeof window === 'undefined') return Promise.resolve(false);
+        this.cache.set(key, raw);
+        return this.persist(key, raw);
     }
 
     /**
-     * Remove item from localStorage
+     * Remove item
      * @param key The key (without prefix)
      */
     static remove(key: string): void {
         if (typeof window === 'undefined') return;
-        localStorage.removeItem(this.PREFIX + key);
+        this.cache.delete(key);
+        this.sealed.delete(key);
+        this.writeQueue = this.writeQueue
+            .then(() => this.driver.remove(key))
+            .catch(error => this.emitError(toStorageError(error, key)));
     }
 
     /**
@@ -72,10 +325,24 @@ export class StorageService {
      */
     static clear(): void {
         if (typeof window === 'undefined') return;
-        Object.keys(localStorage).forEach(key => {
-            if (key.startsWith(this.PREFIX)) {
-                localStorage.removeItem(key);
-            }
-        });
+        this.cache.clear();
+        this.sealed.clear();
+        this.writeQueue = this.writeQueue
+            .then(() => this.driver.clear())
+            .catch(error => this.emitError(toStorageError(error)));
+    }
+
+    /**
+     * All stored keys (without prefix), e.g. for backups
+     */
+    static keys(): string[] {
+        return Array.from(this.cache.keys());
+    }
+
+    /**
+     * Raw serialized value for a key, e.g. for backups
+     */
+    static getRaw(key: string): string | null {
+        return this.cache.get(key) ?? null;
     }
 }
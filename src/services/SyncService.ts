@@ -0,0 +1,472 @@
+/**
+ * SyncService
+ * Offline-first sync of DataContext collections with the Supabase `user_data` table (one row per data_type).
+ *
+ * - Local changes only mark a data_type dirty (persisted), so edits made offline are pushed once a session is available.
+ * - Pushes use optimistic concurrency on `updated_at`; if the row moved on meanwhile, the payloads are merged three-way
+ *   against the last synced base and conflicting records land in the conflict inbox.
+ * - Remote changes to clean data types are pulled and handed to the attached adapter (DataContext).
+ */
+
+import type { Session, SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseClient } from './supabaseClient';
+import { StorageService } from './StorageService';
+import { mergeSyncPayload, sameJson, SyncSide } from '../utils/syncMerge';
+import { recordLabel } from '../utils/changeJournal';
+
+export type SyncDataType =
+    | 'notes'
+    | 'goals'
+    | 'plans'
+    | 'drawings'
+    | 'subscriptions'
+    | 'transactions'
+    | 'budget_settings'
+    | 'invoices'
+    | 'clients'
+    | 'company_profiles'
+    | 'workflows'
+    | 'workflow_templates'
+    | 'recurring_skips'
+    | 'habits'
+    | 'budget_goals';
+
+/**
+ * Values of `data_type_enum` (supabase/migrations)
+ */
+export const SYNC_DATA_TYPES: SyncDataType[] = [
+    'notes', 'goals', 'plans', 'drawings', 'subscriptions', 'transactions', 'budget_settings',
+    'invoices', 'clients', 'company_profiles', 'workflows', 'workflow_templates', 'recurring_skips',
+    'habits', 'budget_goals',
+];
+
+export type SyncStatus = 'disabled' | 'signed-out' | 'offline' | 'idle' | 'syncing' | 'error';
+
+export interface SyncState {
+    status: SyncStatus;
+    email: string | null;
+    lastSyncedAt: string | null;
+    /** Data types with local changes not pushed yet */
+    pending: number;
+    conflicts: number;
+    error: string | null;
+}
+
+export interface SyncConflict {
+    id: string;
+    dataType: SyncDataType;
+    recordId: string | null;
+    label: string;
+    local: unknown;
+    remote: unknown;
+    /** Version that was applied automatically (newer timestamp) */
+    applied: SyncSide;
+    localChangedAt: string | null;
+    remoteUpdatedAt: string | null;
+    createdAt: string;
+}
+
+/**
+ * Bridge to the in-memory data (implemented by DataContext)
+ */
+export interface SyncAdapter {
+    read(type: SyncDataType): unknown;
+    apply(type: SyncDataType, data: unknown): void;
+}
+
+interface DataTypeState {
+    /** `updated_at` of the remote row at the last successful pull/push */
+    baseUpdatedAt: string | null;
+    /** Payload at the last successful pull/push (JSON form) */
+    base: unknown;
+    dirty: boolean;
+    localChangedAt: string | null;
+}
+
+interface PersistedSyncState {
+    userId: string | null;
+    lastSyncedAt: string | null;
+    types: Partial<Record<SyncDataType, DataTypeState>>;
+}
+
+interface RemoteRow {
+    data_type: SyncDataType;
+    data: unknown;
+    updated_at: string;
+}
+
+type Listener = (state: SyncState) => void;
+
+const STATE_KEY = 'sync-state';
+const CONFLICTS_KEY = 'sync-conflicts';
+const PUSH_DEBOUNCE_MS = 2000;
+const PULL_INTERVAL_MS = 60 * 1000;
+
+const emptyTypeState = (): DataTypeState => ({ baseUpdatedAt: null, base: null, dirty: false, localChangedAt: null });
+
+const toJson = (value: unknown): unknown => JSON.parse(JSON.stringify(value ?? null));
+
+const isEmptyPayload = (value: unknown) => value === null || (Array.isArray(value) && value.length === 0);
+
+const newId = () => {
+    const c = globalThis.crypto as Crypto | undefined;
+    if (c && 'randomUUID' in c) return c.randomUUID();
+    return Math.random().toString(36).slice(2, 11);
+};
+
+class SyncServiceClass {
+    private adapter: SyncAdapter | null = null;
+    private session: Session | null = null;
+    private listeners = new Set<Listener>();
+    private status: SyncStatus = 'disabled';
+    private error: string | null = null;
+    private running: Promise<void> | null = null;
+    private rerun = false;
+    private pushTimer: number | null = null;
+    private pullTimer: number | null = null;
+    private teardown: (() => void)[] = [];
+
+    private get client(): SupabaseClient | null {
+        return getSupabaseClient();
+    }
+
+    private loadState(): PersistedSyncState {
+        return StorageService.get<PersistedSyncState>(STATE_KEY) ?? { userId: null, lastSyncedAt: null, types: {} };
+    }
+
+    private saveState(state: PersistedSyncState): void {
+        StorageService.set(STATE_KEY, state);
+    }
+
+    private typeState(state: PersistedSyncState, type: SyncDataType): DataTypeState {
+        return state.types[type] ?? emptyTypeState();
+    }
+
+    getState(): SyncState {
+        const state = this.loadState();
+        return {
+            status: this.status,
+            email: this.session?.user.email ?? null,
+            lastSyncedAt: state.lastSyncedAt,
+            pending: SYNC_DATA_TYPES.filter(type => state.types[type]?.dirty).length,
+            conflicts: this.getConflicts().length,
+            error: this.error,
+        };
+    }
+
+    /**
+     * @returns unsubscribe function
+     */
+    subscribe(listener: Listener): () => void {
+        this.listeners.add(listener);
+        listener(this.getState());
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private emit(): void {
+        const state = this.getState();
+        this.listeners.forEach(listener => {
+            try {
+                listener(state);
+            } catch (e) {
+                console.error('SyncService listener failed:', e);
+            }
+        });
+    }
+
+    private setStatus(status: SyncStatus, error: string | null = null): void {
+        this.status = status;
+        this.error = error;
+        this.emit();
+    }
+
+    private idleStatus(): SyncStatus {
+        if (!this.client) return 'disabled';
+        if (!this.session) return 'signed-out';
+        if (typeof navigator !== 'undefined' && !navigator.onLine) return 'offline';
+        return 'idle';
+    }
+
+    /**
+     * Connect the engine to DataContext. Starts auth tracking, online/offline handling and periodic pulls.
+     * @returns detach function
+     */
+    attach(adapter: SyncAdapter): () => void {
+        this.adapter = adapter;
+        const client = this.client;
+        if (!client) {
+            this.setStatus('disabled');
+            return () => { this.adapter = null; };
+        }
+
+        client.auth.getSession().then(({ data }) => {
+            this.handleSession(data.session);
+        });
+        const { data: authListener } = client.auth.onAuthStateChange((_event, session) => {
+            this.handleSession(session);
+        });
+
+        const handleOnline = () => this.syncNow();
+        const handleOffline = () => this.setStatus(this.idleStatus());
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+        this.pullTimer = window.setInterval(() => this.syncNow(), PULL_INTERVAL_MS);
+
+        this.teardown = [
+            () => authListener.subscription.unsubscribe(),
+            () => window.removeEventListener('online', handleOnline),
+            () => window.removeEventListener('offline', handleOffline),
+        ];
+
+        return () => {
+            this.teardown.forEach(fn => fn());
+            this.teardown = [];
+            if (this.pullTimer !== null) window.clearInterval(this.pullTimer);
+            if (this.pushTimer !== null) window.clearTimeout(this.pushTimer);
+            this.pullTimer = null;
+            this.pushTimer = null;
+            this.adapter = null;
+        };
+    }
+
+    private handleSession(session: Session | null): void {
+        const previousUser = this.session?.user.id ?? null;
+        this.session = session;
+        if (!session) {
+            this.setStatus(this.idleStatus());
+            return;
+        }
+
+        // A different account starts from scratch: its rows are merged against an empty base
+        const state = this.loadState();
+        if (state.userId !== session.user.id) {
+            const types: PersistedSyncState['types'] = {};
+            SYNC_DATA_TYPES.forEach(type => {
+                types[type] = { ...emptyTypeState(), localChangedAt: state.types[type]?.localChangedAt ?? null };
+            });
+            this.saveState({ userId: session.user.id, lastSyncedAt: null, types });
+        }
+        if (previousUser !== session.user.id) this.syncNow();
+        else this.emit();
+    }
+
+    /**
+     * Record a local change of a data type (called from DataContext persistence effects)
+     */
+    markChanged(type: SyncDataType, data: unknown): void {
+        if (!this.client) return;
+        const state = this.loadState();
+        const current = this.typeState(state, type);
+        const dirty = !sameJson(data, current.base) && !(current.baseUpdatedAt === null && isEmptyPayload(data));
+        if (!dirty && !current.dirty) return;
+
+        state.types[type] = { ...current, dirty, localChangedAt: dirty ? new Date().toISOString() : current.localChangedAt };
+        this.saveState(state);
+        this.emit();
+
+        if (dirty) {
+            if (this.pushTimer !== null) window.clearTimeout(this.pushTimer);
+            this.pushTimer = window.setTimeout(() => {
+                this.pushTimer = null;
+                this.syncNow();
+            }, PUSH_DEBOUNCE_MS);
+        }
+    }
+
+    /**
+     * Push queued changes and pull remote ones. Concurrent calls are folded into one extra run.
+     */
+    syncNow(): Promise<void> {
+        if (this.running) {
+            this.rerun = true;
+            return this.running;
+        }
+        this.running = this.run().finally(() => {
+            this.running = null;
+            if (this.rerun) {
+                this.rerun = false;
+                this.syncNow();
+            }
+        });
+        return this.running;
+    }
+
+    private async run(): Promise<void> {
+        const client = this.client;
+        const idle = this.idleStatus();
+        if (!client || !this.session || !this.adapter || idle !== 'idle') {
+            this.setStatus(idle);
+            return;
+        }
+
+        const userId = this.session.user.id;
+        this.setStatus('syncing');
+        try {
+            const { data, error } = await client
+                .from('user_data')
+                .select('data_type, data, updated_at')
+                .eq('user_id', userId);
+            if (error) throw error;
+
+            const remoteByType = new Map((data as RemoteRow[]).map(row => [row.data_type, row]));
+            for (const type of SYNC_DATA_TYPES) {
+                await this.syncType(client, userId, type, remoteByType.get(type) ?? null);
+            }
+
+            const state = this.loadState();
+            this.saveState({ ...state, lastSyncedAt: new Date().toISOString() });
+            this.setStatus('idle');
+        } catch (error) {
+            const message = error instanceof Error ? error.message : (error as { message?: string })?.message ?? String(error);
+            console.error('SyncService: sync failed', error);
+            this.setStatus('error', message);
+        }
+    }
+
+    private async syncType(client: SupabaseClient, userId: string, type: SyncDataType, remote: RemoteRow | null): Promise<void> {
+        const adapter = this.adapter;
+        if (!adapter) return;
+        const state = this.loadState();
+        const current = this.typeState(state, type);
+        const local = toJson(adapter.read(type));
+        const remoteChanged = remote !== null && remote.updated_at !== current.baseUpdatedAt;
+        const localChanged = current.dirty || (current.baseUpdatedAt === null && !isEmptyPayload(local));
+
+        if (!localChanged) {
+            if (remoteChanged && remote) {
+                adapter.apply(type, remote.data);
+                state.types[type] = { ...current, base: remote.data, baseUpdatedAt: remote.updated_at, dirty: false };
+                this.saveState(state);
+            }
+            return;
+        }
+
+        let payload = local;
+        if (remoteChanged && remote) {
+            const { merged, conflicts } = mergeSyncPayload(current.base, local, remote.data, current.localChangedAt, remote.updated_at);
+            payload = merged;
+            if (conflicts.length > 0) {
+                this.addConflicts(conflicts.map(c => ({
+                    id: newId(),
+                    dataType: type,
+                    recordId: c.recordId,
+                    label: c.recordId ? recordLabel({ ...(c.local ?? c.remote) as object, id: c.recordId }) : type,
+                    local: c.local,
+                    remote: c.remote,
+                    applied: c.winner,
+                    localChangedAt: current.localChangedAt,
+                    remoteUpdatedAt: remote.updated_at,
+                    createdAt: new Date().toISOString(),
+                })));
+            }
+            if (!sameJson(payload, local)) adapter.apply(type, payload);
+        }
+
+        const updatedAt = await this.push(client, userId, type, payload, remote);
+        // null: the row changed between our read and write; the next run merges again
+        if (updatedAt === null) {
+            this.rerun = true;
+            return;
+        }
+
+        const latest = this.loadState();
+        const latestType = this.typeState(latest, type);
+        // Edits made while the push was in flight stay dirty
+        const stillDirty = !sameJson(toJson(adapter.read(type)), payload);
+        latest.types[type] = { ...latestType, base: payload, baseUpdatedAt: updatedAt, dirty: stillDirty };
+        this.saveState(latest);
+    }
+
+    private async push(client: SupabaseClient, userId: string, type: SyncDataType, payload: unknown, remote: RemoteRow | null): Promise<string | null> {
+        if (!remote) {
+            const { data, error } = await client
+                .from('user_data')
+                .insert({ user_id: userId, data_type: type, data: payload })
+                .select('updated_at')
+                .single();
+            if (error) {
+                if (error.code === '23505') return null; // another device created the row first
+                throw error;
+            }
+            return (data as { updated_at: string }).updated_at;
+        }
+
+        const { data, error } = await client
+            .from('user_data')
+            .update({ data: payload })
+            .eq('user_id', userId)
+            .eq('data_type', type)
+            .eq('updated_at', remote.updated_at)
+            .select('updated_at');
+        if (error) throw error;
+        const rows = data as { updated_at: string }[];
+        return rows.length > 0 ? rows[0].updated_at : null;
+    }
+
+    // --- Conflict inbox ---
+
+    getConflicts(): SyncConflict[] {
+        return StorageService.get<SyncConflict[]>(CONFLICTS_KEY, []) || [];
+    }
+
+    private addConflicts(conflicts: SyncConflict[]): void {
+        // A newer conflict on the same record replaces the older one
+        const keyOf = (c: SyncConflict) => `${c.dataType}:${c.recordId ?? ''}`;
+        const incoming = new Set(conflicts.map(keyOf));
+        StorageService.set(CONFLICTS_KEY, [...this.getConflicts().filter(c => !incoming.has(keyOf(c))), ...conflicts]);
+        this.emit();
+    }
+
+    /**
+     * Keep the chosen version of a conflicting record. Choosing the version that was not applied
+     * writes it back locally; the regular push then sends it to the server.
+     */
+    resolveConflict(conflictId: string, choice: SyncSide): void {
+        const conflicts = this.getConflicts();
+        const conflict = conflicts.find(c => c.id === conflictId);
+        if (!conflict) return;
+
+        if (choice !== conflict.applied && this.adapter) {
+            const chosen = choice === 'local' ? conflict.local : conflict.remote;
+            const current = toJson(this.adapter.read(conflict.dataType));
+            let next: unknown = chosen;
+            if (conflict.recordId !== null && Array.isArray(current)) {
+                const rows = current as { id: string }[];
+                const exists = rows.some(row => row.id === conflict.recordId);
+                next = chosen
+                    ? (exists ? rows.map(row => row.id === conflict.recordId ? chosen : row) : [...rows, chosen])
+                    : rows.filter(row => row.id !== conflict.recordId);
+            }
+            this.adapter.apply(conflict.dataType, next);
+        }
+
+        StorageService.set(CONFLICTS_KEY, conflicts.filter(c => c.id !== conflictId));
+        this.emit();
+    }
+
+    // --- Account ---
+
+    async signIn(email: string, password: string): Promise<{ success: boolean; message: string }> {
+        const client = this.client;
+        if (!client) return { success: false, message: 'Cloud sync is not configured.' };
+        const { error } = await client.auth.signInWithPassword({ email, password });
+        return error ? { success: false, message: error.message } : { success: true, message: 'Signed in.' };
+    }
+
+    async signUp(email: string, password: string): Promise<{ success: boolean; message: string }> {
+        const client = this.client;
+        if (!client) return { success: false, message: 'Cloud sync is not configured.' };
+        const { data, error } = await client.auth.signUp({ email, password });
+        if (error) return { success: false, message: error.message };
+        return { success: true, message: data.session ? 'Account created.' : 'Check your email to confirm the account.' };
+    }
+
+    async signOut(): Promise<void> {
+        await this.client?.auth.signOut();
+    }
+}
+
+export const SyncService = new SyncServiceClass();
+export default SyncService;
@@ -0,0 +1,122 @@
+/**
+ * TabSyncService
+ * Broadcasts DataContext changes to other open tabs of the planner.
+ * Uses BroadcastChannel where available and falls back to the `storage` event.
+ * The fallback passes messages through localStorage, so they are sealed with the vault cipher when it is on.
+ */
+
+import { CollectionDiff, JournalCollection } from '../utils/changeJournal';
+import type { AuditEntry } from '../utils/auditLog';
+import { StorageService } from './StorageService';
+
+export type TabSyncMessage =
+    | {
+        type: 'collection';
+        collection: JournalCollection;
+        diff: CollectionDiff;
+        skipsAdded?: string[];
+        skipsRemoved?: string[];
+    }
+    | { type: 'budgetSettings'; value: unknown }
+    | { type: 'audit'; entries: AuditEntry[] }
+    | { type: 'clearAll' };
+
+type Envelope = TabSyncMessage & { tabId: string; sentAt: number };
+type Listener = (message: TabSyncMessage) => void;
+
+const CHANNEL_NAME = 'digitalplanner-sync';
+const STORAGE_PING_KEY = 'digitalplanner_sync_ping';
+
+// Fields that hold dates across entities; JSON transport turns them into strings
+const DATE_FIELDS = new Set([
+    'date', 'createdAt', 'updatedAt', 'issueDate', 'dueDate', 'paidDate', 'fulfillmentDate',
+    'startTime', 'endTime', 'targetDate', 'nextPayment',
+]);
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/;
+
+const reviveDates = (key: string, value: unknown) =>
+    DATE_FIELDS.has(key) && typeof value === 'string' && ISO_DATE.test(value) ? new Date(value) : value;
+
+const newTabId = () => {
+    const c = globalThis.crypto as Crypto | undefined;
+    if (c && 'randomUUID' in c) return c.randomUUID();
+    return Math.random().toString(36).slice(2, 11);
+};
+
+class TabSyncServiceClass {
+    readonly tabId = newTabId();
+    private channel: BroadcastChannel | null = null;
+    private listeners = new Set<Listener>();
+    private started = false;
+    /** Keeps the async seal / unseal of fallback messages in send order */
+    private pingQueue: Promise<void> = Promise.resolve();
+
+    private start(): void {
+        if (this.started || typeof window === 'undefined') return;
+        this.started = true;
+
+        if (typeof BroadcastChannel !== 'undefined') {
+            this.channel = new BroadcastChannel(CHANNEL_NAME);
+            this.channel.onmessage = (event: MessageEvent<Envelope>) => this.deliver(event.data);
+            return;
+        }
+
+        window.addEventListener('storage', event => {
+            if (event.key !== STORAGE_PING_KEY || !event.newValue) return;
+            const payload = event.newValue;
+            this.pingQueue = this.pingQueue
+                .then(() => StorageService.unseal(payload))
+                .then(json => this.deliver(JSON.parse(json, reviveDates) as Envelope))
+                .catch(error => console.warn('TabSyncService: could not read sync message', error));
+        });
+    }
+
+    private deliver(envelope: Envelope | undefined): void {
+        if (!envelope || envelope.tabId === this.tabId) return;
+        this.listeners.forEach(listener => {
+            try {
+                listener(envelope);
+            } catch (error) {
+                console.error('TabSyncService listener failed:', error);
+            }
+        });
+    }
+
+    /**
+     * Send a change to every other tab (never echoed back to this one)
+     */
+    publish(message: TabSyncMessage): void {
+        this.start();
+        const envelope: Envelope = { ...message, tabId: this.tabId, sentAt: Date.now() };
+        try {
+            if (this.channel) {
+                this.channel.postMessage(envelope);
+            } else if (typeof window !== 'undefined') {
+                this.pingQueue = this.pingQueue
+                    .then(() => StorageService.seal(JSON.stringify(envelope)))
+                    .then(payload => {
+                        localStorage.setItem(STORAGE_PING_KEY, payload);
+                        localStorage.removeItem(STORAGE_PING_KEY);
+                    })
+                    .catch(error => console.warn('TabSyncService: publish failed', error));
+            }
+        } catch (error) {
+            console.warn('TabSyncService: publish failed', error);
+        }
+    }
+
+    /**
+     * Receive changes made in other tabs
+     * @returns unsubscribe function
+     */
+    subscribe(listener: Listener): () => void {
+        this.start();
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+}
+
+export const TabSyncService = new TabSyncServiceClass();
+export default TabSyncService;
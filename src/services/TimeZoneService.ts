@@ -0,0 +1,92 @@
+import { browserTimeZone, isValidTimeZone, localDayBounds, reanchorDate, toZonedHM, toZonedYMD, zonedDayAsLocal, zonedTimeToDate } from '../utils/timeZone';
+
+/**
+ * TimeZoneService - the configured time zone (Settings > General)
+ *
+ * - Which calendar day is "today", and its bounds for the recurring / subscription catch-up
+ * - Wall-clock times of timed items (plan start / end) are entered and shown in this zone
+ * - Date and time formatting for display
+ *
+ * Day-level dates stay floating browser-local days (see utils/timeZone); `startOfToday` / `endOfToday` are the
+ * browser-local bounds of the zone's today, so they compare directly with them.
+ * SettingsProvider keeps the zone in sync with the settings.
+ */
+
+type ZoneListener = (timeZone: string, previous: string) => void;
+
+class TimeZoneServiceClass {
+    private timeZone = browserTimeZone();
+    private listeners = new Set<ZoneListener>();
+
+    getTimeZone(): string {
+        return this.timeZone;
+    }
+
+    /**
+     * Switch zones; unknown zone names are ignored
+     */
+    setTimeZone(timeZone: string): void {
+        if (!timeZone || timeZone === this.timeZone || !isValidTimeZone(timeZone)) return;
+        const previous = this.timeZone;
+        this.timeZone = timeZone;
+        this.listeners.forEach(listener => listener(timeZone, previous));
+    }
+
+    subscribe(listener: ZoneListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /** Today as YYYY-MM-DD in the configured zone */
+    todayYMD(now: Date = new Date()): string {
+        return toZonedYMD(now, this.timeZone);
+    }
+
+    /** Today (noon, floating local day) in the configured zone */
+    today(now: Date = new Date()): Date {
+        return zonedDayAsLocal(now, this.timeZone);
+    }
+
+    startOfToday(now: Date = new Date()): Date {
+        return localDayBounds(this.todayYMD(now)).start;
+    }
+
+    endOfToday(now: Date = new Date()): Date {
+        return localDayBounds(this.todayYMD(now)).end;
+    }
+
+    /** YYYY-MM-DD of an instant in the configured zone */
+    toYMD(date: Date): string {
+        return toZonedYMD(date, this.timeZone);
+    }
+
+    /** HH:MM of an instant in the configured zone */
+    toTime(date: Date): string {
+        return toZonedHM(date, this.timeZone);
+    }
+
+    /** The instant of `time` (HH:MM) on `ymd` in the configured zone */
+    fromWallTime(ymd: string, time: string): Date {
+        return zonedTimeToDate(ymd, time, this.timeZone);
+    }
+
+    /** The same wall-clock time in the configured zone as `date` had in `previousZone` */
+    reanchor(date: Date, previousZone: string): Date {
+        return reanchorDate(date, previousZone, this.timeZone);
+    }
+
+    /**
+     * Intl formatting of an instant in the configured zone
+     */
+    format(date: Date | string | number, locale?: string, options: Intl.DateTimeFormatOptions = {}): string {
+        return new Intl.DateTimeFormat(locale, { ...options, timeZone: this.timeZone }).format(new Date(date));
+    }
+
+    formatTime(date: Date | string | number, locale?: string): string {
+        return this.format(date, locale, { hour: '2-digit', minute: '2-digit' });
+    }
+}
+
+export const TimeZoneService = new TimeZoneServiceClass();
@@ -0,0 +1,301 @@
+/**
+ * VaultService
+ * Opt-in encryption at rest for everything stored through StorageService, plus the AI API key.
+ * Settings, exchange rates, invoice number counters and similar non-personal values stay in plaintext localStorage
+ * (listed under 'vault.plaintext' in the vault settings).
+ *
+ * - The passphrase is never stored; a PBKDF2-derived AES-GCM key lives in memory only while unlocked.
+ * - Vault metadata (salt, KDF parameters, a verifier payload) is kept in localStorage so the unlock screen works before any data loads.
+ * - Locking drops the key and reloads the page, so no decrypted data survives in memory.
+ */
+
+import { StorageCipher, StorageService } from './StorageService';
+import {
+    PBKDF2_ITERATIONS, decryptString, deriveVaultKey, encryptString, generateSalt, isVaultCryptoSupported
+} from '../utils/vaultCrypto';
+
+export const VAULT_META_KEY = 'digitalplanner_vault';
+const VERIFIER_TEXT = 'digitalplanner-vault-v1';
+const AI_SECRET_KEY = 'ai-secret';
+const SETTINGS_KEY = 'digitalplanner-settings';
+const AI_CONFIG_KEY = 'digitalplanner_ai_config';
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+interface VaultKeyDescriptor {
+    iterations: number;
+    salt: string;
+    /** Known text encrypted with the vault key; decrypting it proves the passphrase is right */
+    verifier: string;
+}
+
+export interface VaultMeta extends VaultKeyDescriptor {
+    version: 1;
+    kdf: 'PBKDF2-SHA256';
+    /** 0 = never auto-lock */
+    autoLockMinutes: number;
+    createdAt: string;
+    passphraseChangedAt?: string;
+    /**
+     * Only while a passphrase change rewrites the data: the old key, plus each passphrase encrypted under the other
+     * key, so after an interrupted rewrite either passphrase opens the entries of both keys
+     */
+    previous?: VaultKeyDescriptor & { passphrase: string; nextPassphrase: string };
+}
+
+export interface VaultAIConfig {
+    provider: string | null;
+    apiKey: string;
+}
+
+export interface VaultResult {
+    success: boolean;
+    message: string;
+}
+
+let activeKey: CryptoKey | null = null;
+
+/**
+ * Encrypts with the first key; decrypts with whichever key opens the payload
+ */
+const createCipher = (...keys: CryptoKey[]): StorageCipher => ({
+    encrypt: plain => encryptString(keys[0], plain),
+    decrypt: async payload => {
+        let lastError: unknown;
+        for (const key of keys) {
+            try {
+                return await decryptString(key, payload);
+            } catch (error) {
+                lastError = error;
+            }
+        }
+        throw lastError;
+    },
+});
+
+const saveMeta = (meta: VaultMeta) => localStorage.setItem(VAULT_META_KEY, JSON.stringify(meta));
+
+/**
+ * Derive the key for a passphrase and check it against the stored verifier
+ */
+const openKey = async (descriptor: VaultKeyDescriptor, passphrase: string): Promise<CryptoKey | null> => {
+    try {
+        const key = await deriveVaultKey(passphrase, descriptor.salt, descriptor.iterations);
+        return (await decryptString(key, descriptor.verifier)) === VERIFIER_TEXT ? key : null;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Keys a passphrase opens, current key first: one normally, two while an interrupted passphrase change is pending
+ */
+const openKeys = async (meta: VaultMeta, passphrase: string): Promise<CryptoKey[] | null> => {
+    const current = await openKey(meta, passphrase);
+    const { previous } = meta;
+    if (!previous) return current ? [current] : null;
+    try {
+        if (current) {
+            const old = await openKey(previous, await decryptString(current, previous.passphrase));
+            return old ? [current, old] : [current];
+        }
+        const old = await openKey(previous, passphrase);
+        if (!old) return null;
+        const next = await openKey(meta, await decryptString(old, previous.nextPassphrase));
+        return next ? [next, old] : null;
+    } catch {
+        return current ? [current] : null;
+    }
+};
+
+const withoutPrevious = (meta: VaultMeta): VaultMeta => ({ ...meta, previous: undefined });
+
+const createMeta = async (passphrase: string, autoLockMinutes: number, base?: VaultMeta): Promise<{ meta: VaultMeta; key: CryptoKey }> => {
+    const salt = generateSalt();
+    const key = await deriveVaultKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const meta: VaultMeta = {
+        ...base,
+        version: 1,
+        kdf: 'PBKDF2-SHA256',
+        iterations: PBKDF2_ITERATIONS,
+        salt,
+        verifier: await encryptString(key, VERIFIER_TEXT),
+        autoLockMinutes,
+        createdAt: base?.createdAt ?? new Date().toISOString(),
+    };
+    return { meta, key };
+};
+
+// --- Plaintext copies of the AI key (SettingsContext and AIService both persist it in localStorage) ---
+
+const readJson = (key: string): Record<string, unknown> | null => {
+    try {
+        return JSON.parse(localStorage.getItem(key) || 'null');
+    } catch {
+        return null;
+    }
+};
+
+const readPlaintextAIConfig = (): VaultAIConfig | null => {
+    const settings = readJson(SETTINGS_KEY);
+    const fromSettings = settings?.aiConfig as VaultAIConfig | undefined;
+    if (fromSettings?.apiKey) return { provider: fromSettings.provider ?? null, apiKey: fromSettings.apiKey };
+    const legacy = readJson(AI_CONFIG_KEY) as VaultAIConfig | null;
+    if (legacy?.apiKey) return { provider: legacy.provider ?? null, apiKey: legacy.apiKey };
+    return null;
+};
+
+const writePlaintextAIKey = (apiKey: string) => {
+    const settings = readJson(SETTINGS_KEY);
+    if (settings?.aiConfig) {
+        localStorage.setItem(SETTINGS_KEY, JSON.stringify({ ...settings, aiConfig: { ...(settings.aiConfig as object), apiKey } }));
+    }
+    const legacy = readJson(AI_CONFIG_KEY);
+    if (legacy) localStorage.setItem(AI_CONFIG_KEY, JSON.stringify({ ...legacy, apiKey }));
+};
+
+export const VaultService = {
+    isSupported: (): boolean => isVaultCryptoSupported(),
+
+    getMeta: (): VaultMeta | null => {
+        const meta = readJson(VAULT_META_KEY) as VaultMeta | null;
+        return meta && meta.version === 1 && meta.salt && meta.verifier ? meta : null;
+    },
+
+    isEnabled: (): boolean => VaultService.getMeta() !== null,
+
+    isUnlocked: (): boolean => activeKey !== null,
+
+    /**
+     * Unlock with the passphrase and decrypt the stored data into StorageService
+     */
+    unlock: async (passphrase: string): Promise<boolean> => {
+        const meta = VaultService.getMeta();
+        if (!meta) return false;
+        const keys = await openKeys(meta, passphrase);
+        if (!keys) return false;
+        try {
+            await StorageService.setCipher(createCipher(...keys));
+        } catch (error) {
+            console.error('VaultService: stored data could not be decrypted', error);
+            return false;
+        }
+        // Finish an interrupted passphrase change: rewrite everything under the new key, then forget the old one
+        if (keys.length > 1 && await StorageService.reencryptAll(createCipher(keys[0]))) {
+            saveMeta(withoutPrevious(meta));
+        }
+        activeKey = keys[0];
+        return true;
+    },
+
+    /**
+     * Drop the key and reload, after pending writes reached storage
+     */
+    lock: async (): Promise<void> => {
+        await StorageService.flush();
+        activeKey = null;
+        window.location.reload();
+    },
+
+    enable: async (passphrase: string, autoLockMinutes = DEFAULT_AUTO_LOCK_MINUTES): Promise<VaultResult> => {
+        if (!VaultService.isSupported()) return { success: false, message: 'This browser does not support WebCrypto.' };
+        if (VaultService.isEnabled()) return { success: false, message: 'The vault is already enabled.' };
+        if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+            return { success: false, message: `The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.` };
+        }
+
+        const { meta, key } = await createMeta(passphrase, autoLockMinutes);
+        const aiConfig = readPlaintextAIConfig();
+        if (aiConfig) await StorageService.set(AI_SECRET_KEY, aiConfig);
+
+        // Meta first: if the tab dies mid-rewrite, the mix of plain and encrypted entries still opens
+        saveMeta(meta);
+        if (!await StorageService.reencryptAll(createCipher(key))) {
+            await StorageService.reencryptAll(null);
+            localStorage.removeItem(VAULT_META_KEY);
+            return { success: false, message: 'Encryption failed: storage could not be rewritten.' };
+        }
+
+        activeKey = key;
+        if (aiConfig) writePlaintextAIKey('');
+        return { success: true, message: 'Vault enabled. Your data is now encrypted.' };
+    },
+
+    disable: async (passphrase: string): Promise<VaultResult> => {
+        const meta = VaultService.getMeta();
+        if (!meta) return { success: false, message: 'The vault is not enabled.' };
+        if (!await openKeys(meta, passphrase)) return { success: false, message: 'Wrong passphrase.' };
+
+        if (!await StorageService.reencryptAll(null)) {
+            await StorageService.reencryptAll(activeKey ? createCipher(activeKey) : null);
+            return { success: false, message: 'Decryption failed: storage could not be rewritten.' };
+        }
+
+        const aiConfig = VaultService.getAIConfig();
+        if (aiConfig?.apiKey) writePlaintextAIKey(aiConfig.apiKey);
+        StorageService.remove(AI_SECRET_KEY);
+        localStorage.removeItem(VAULT_META_KEY);
+        activeKey = null;
+        return { success: true, message: 'Vault disabled. Your data is stored unencrypted again.' };
+    },
+
+    /**
+     * Re-encrypt every entry with a key derived from the new passphrase (fresh salt)
+     */
+    changePassphrase: async (current: string, next: string): Promise<VaultResult> => {
+        const meta = VaultService.getMeta();
+        if (!meta) return { success: false, message: 'The vault is not enabled.' };
+        if (next.length < MIN_PASSPHRASE_LENGTH) {
+            return { success: false, message: `The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.` };
+        }
+        const oldKey = (await openKeys(meta, current))?.[0];
+        if (!oldKey) return { success: false, message: 'Wrong passphrase.' };
+
+        const { meta: nextMeta, key } = await createMeta(next, meta.autoLockMinutes, withoutPrevious(meta));
+        // Staged meta first: if the tab dies mid-rewrite, entries under either key stay readable (see openKeys)
+        saveMeta({
+            ...nextMeta,
+            previous: {
+                iterations: meta.iterations,
+                salt: meta.salt,
+                verifier: meta.verifier,
+                passphrase: await encryptString(key, current),
+                nextPassphrase: await encryptString(oldKey, next),
+            },
+        });
+        if (!await StorageService.reencryptAll(createCipher(key))) {
+            await StorageService.reencryptAll(createCipher(oldKey));
+            saveMeta(withoutPrevious(meta));
+            return { success: false, message: 'Re-encryption failed: the old passphrase is still active.' };
+        }
+
+        saveMeta({ ...nextMeta, passphraseChangedAt: new Date().toISOString() });
+        activeKey = key;
+        return { success: true, message: 'Passphrase changed. All data was re-encrypted.' };
+    },
+
+    setAutoLockMinutes: (minutes: number): void => {
+        const meta = VaultService.getMeta();
+        if (!meta) return;
+        saveMeta({ ...meta, autoLockMinutes: Math.max(0, Math.round(minutes)) });
+    },
+
+    /**
+     * AI provider config kept inside the vault (null when the vault is off or locked)
+     */
+    getAIConfig: (): VaultAIConfig | null =>
+        activeKey ? StorageService.get<VaultAIConfig>(AI_SECRET_KEY) : null,
+
+    setAIConfig: (config: VaultAIConfig): void => {
+        if (!activeKey) return;
+        StorageService.set(AI_SECRET_KEY, config);
+    },
+
+    /**
+     * Store an AI key coming from a backup: encrypted when the vault is unlocked, in the plaintext settings otherwise
+     */
+    importAIConfig: (config: VaultAIConfig): void => {
+        if (activeKey) StorageService.set(AI_SECRET_KEY, config);
+        else writePlaintextAIKey(config.apiKey);
+    },
+};
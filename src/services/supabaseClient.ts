@@ -0,0 +1,27 @@
+/**
+ * supabaseClient.ts
+ * Lazily created Supabase client. Cloud features stay disabled when the project URL / anon key are not configured.
+ *
+ * Local stack: `supabase start`, then put the printed API URL and anon key into `.env.local`
+ * as VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+let client: SupabaseClient | null | undefined;
+
+export const getSupabaseClient = (): SupabaseClient | null => {
+    if (client === undefined) {
+        const url = import.meta.env.VITE_SUPABASE_URL;
+        const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+        client = url && anonKey ? createClient(url, anonKey) : null;
+    }
+    return client;
+};
+
+/**
+ * Override the client (e.g. to point at a local Supabase stack from a test harness)
+ */
+export const setSupabaseClient = (next: SupabaseClient | null): void => {
+    client = next;
+};
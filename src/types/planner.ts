@@ -1,8 +1,14 @@
-export type ViewType = 'hourly' | 'daily' | 'weekly' | 'monthly' | 'yearly' | 'notes' | 'goals' | 'drawing' | 'budget' | 'invoicing' | 'pomodoro' | 'statistics' | 'habits' | 'integrations' | 'settings';
+export type ViewType = 'hourly' | 'daily' | 'weekly' | 'monthly' | 'yearly' | 'notes' | 'goals' | 'drawing' | 'budget' | 'subscriptions' | 'invoicing' | 'pomodoro' | 'statistics' | 'habits' | 'integrations' | 'trash' | 'settings';
 
 export type TransactionPeriod = 'daily' | 'weekly' | 'monthly' | 'yearly' | 'oneTime';
 
-export interface Note {
+// Records that can sit in the trash bin (see utils/trash)
+export interface SoftDeletable {
+  id: string;
+  deletedAt?: string; // ISO time it was moved to the trash (soft delete)
+}
+
+export interface Note extends SoftDeletable {
   id: string;
   title: string;
   content: string;
@@ -11,7 +17,7 @@ export interface Note {
   tags: string[];
 }
 
-export interface Goal {
+export interface Goal extends SoftDeletable {
   id: string;
   title: string;
   description: string;
@@ -21,7 +27,7 @@ export interface Goal {
   createdAt: Date;
 }
 
-export interface PlanItem {
+export interface PlanItem extends SoftDeletable {
   id: string;
   title: string;
   description: string;
@@ -31,15 +37,56 @@ export interface PlanItem {
   completed: boolean;
   priority: 'low' | 'medium' | 'high';
   linkedNotes: string[];
+  // Recurring series: `date` is the first occurrence (DTSTART); occurrences are expanded on demand (utils/planSeries)
+  rrule?: string; // RFC 5545 RRULE, e.g. FREQ=WEEKLY;BYDAY=MO
+  exdates?: string[]; // YYYY-MM-DD occurrences removed from the series
+  completedDates?: string[]; // YYYY-MM-DD occurrences marked as done
+  overrides?: Record<string, PlanOccurrenceOverride>; // per-occurrence edits, keyed by YYYY-MM-DD
 }
 
-export interface Drawing {
+/** Fields a single occurrence of a recurring plan can change ("edit this occurrence") */
+export type PlanOccurrenceOverride = Partial<Pick<PlanItem, 'title' | 'description' | 'priority'>>;
+
+export interface Drawing extends SoftDeletable {
   id: string;
   title: string;
   data: string; // base64 encoded image data
   createdAt: Date;
 }
 
+export type HabitGoalPeriod = 'daily' | 'weekly' | 'monthly';
+export type HabitGoalMode = 'binary' | 'count';
+
+export interface HabitGoal {
+  period: HabitGoalPeriod;
+  target: number;
+  mode: HabitGoalMode;
+}
+
+export interface HabitDayLog {
+  date: string; // YYYY-MM-DD local
+  count: number;
+  completed: boolean;
+  timestamps?: number[];
+  times?: string[];
+  note?: string;
+}
+
+export interface Habit {
+  id: string;
+  name: string;
+  description?: string;
+  emoji: string;
+  color: string;
+  goal: HabitGoal;
+  history: Record<string, HabitDayLog>; // keyed by YYYY-MM-DD
+  createdAt: string; // ISO
+  archived?: boolean;
+  mastery: number; // 0-100 (manual mastery)
+  formed?: boolean; // 66-day challenge completion
+  order?: number;
+}
+
 export interface Subscription {
   id: string;
   name: string;
@@ -47,10 +94,22 @@ export interface Subscription {
   cost: number;
   currency: string;
   billingCycle: 'monthly' | 'yearly' | 'weekly' | 'daily' | 'one-time';
-  nextPayment: Date;
-  isActive: boolean;
+  nextPayment: Date; // Next payment the subscription engine posts (utils/subscriptionCatchUp)
+  isActive: boolean; // false = paused / cancelled: nothing is posted
   category: string;
   createdAt: Date;
+  billingStart?: string; // DTSTART (ISO) of the billing cycle, pinned at the first posted payment. Defaults to nextPayment
+  trialEndsAt?: string; // Free trial end (YYYY-MM-DD): payments before it are not charged
+  lastUsedAt?: string; // ISO time the user last marked it as used (cancel candidates)
+  priceHistory?: SubscriptionPriceChange[]; // Oldest first, recorded by updateSubscription
+}
+
+export interface SubscriptionPriceChange {
+  date: string; // ISO time of the change
+  previousCost: number;
+  previousCurrency: string;
+  cost: number;
+  currency: string;
 }
 
 export interface BudgetSettings {
@@ -60,9 +119,9 @@ export interface BudgetSettings {
   warningThreshold: number; // percentage
 }
 
-export interface Transaction {
+export interface Transaction extends SoftDeletable {
   id: string;
-  subscriptionId?: string;
+  subscriptionId?: string; // Payments posted by the subscription engine: the subscription they belong to
   amount: number;
   description: string; // Used as name
   date: Date | string;
@@ -76,6 +135,12 @@ export interface Transaction {
   // PhD Level: Master/History model for recurring transactions
   kind?: 'master' | 'history'; // 'master' = template, 'history' = actual payment
   originId?: string; // For history items: the ID of the master they came from
+  // Recurrence (masters): RFC 5545 RRULE value, e.g. 'FREQ=WEEKLY;INTERVAL=2;BYDAY=FR' (see utils/rrule).
+  // Without it the rule is derived from `period`.
+  rrule?: string;
+  recurrenceStart?: string; // DTSTART (ISO); COUNT is counted from here. Defaults to the master's date
+  exdates?: string[]; // EXDATEs (YYYY-MM-DD): occurrences left out of the series
+  splitFromId?: string; // Masters created by "this and following": the master the series continues from
 
   // Enhanced Budget View Fields
   effectiveDateYMD?: string;
@@ -88,17 +153,19 @@ export interface Transaction {
   reminderId?: string;
   notes?: string;
   createdAtISO?: string;
+  budgetGoalId?: string; // Contribution to (expense) or withdrawal from (income) a savings goal
 }
 
+// Progress is not stored: it is the sum of the goal's linked transactions (utils/budgetGoals)
 export interface BudgetGoal {
   id: string;
   name: string;
   targetAmount: number;
-  currentAmount: number;
   deadlineYMD: string;
   category: string;
   currency: string;
-  isCompleted: boolean;
+  isCompleted: boolean; // Closed by the user, regardless of progress
+  createdAt: Date;
 }
 
 // Enterprise Grade Patch Type: Explicitly allows null to signal deletion
@@ -116,7 +183,7 @@ export interface InvoiceItem {
   amount: number;
 }
 
-export interface Invoice {
+export interface Invoice extends SoftDeletable {
   id: string;
   invoiceNumber: string;
   clientId: string;
@@ -139,7 +206,7 @@ export interface Invoice {
   createdAt: Date;
 }
 
-export interface Client {
+export interface Client extends SoftDeletable {
   id: string;
   name: string;
   email: string;
@@ -152,7 +219,7 @@ export interface Client {
   createdAt: Date;
 }
 
-export interface CompanyProfile {
+export interface CompanyProfile extends SoftDeletable {
   id: string;
   name: string;
   address: string;
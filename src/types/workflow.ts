@@ -4,6 +4,8 @@
  * Mind-map style project planning with n8n-like visual interface
  */
 
+import { SoftDeletable } from './planner';
+
 // Node types - each step type in the workflow
 export type WorkflowNodeType =
     | 'task'        // General task
@@ -66,7 +68,7 @@ export interface WorkflowTemplate {
 }
 
 // Project workflow - actual project using a workflow
-export interface ProjectWorkflow {
+export interface ProjectWorkflow extends SoftDeletable {
     id: string;
     name: string;
     description?: string;
@@ -1,18 +1,25 @@
 import { Transaction, Invoice } from '../types/planner';
 import { CurrencyService } from '../services/CurrencyService';
 import { FinancialMathService } from './financialMath';
+import { FinancialReport, buildFinancialReport, futureBalance, runwayMonths } from './financialReport';
+
+export type { FinancialReport };
+
+/** Day whose exchange rate applies to a transaction */
+const transactionDay = (t: Transaction): Date | string => t.effectiveDateYMD ?? t.date;
 
 /**
  * FinancialEngine - PhD Level Mathematical Model
  * Handles currency conversion via CurrencyService, cash flow analysis, and forecasting.
+ * Invoices convert at the rate of their issue date, transactions at the rate of their day.
  */
 export class FinancialEngine {
 
     /**
-     * Convert amount between currencies using CurrencyService
+     * Convert amount between currencies using CurrencyService (at the rate of `onDate` when given)
      */
-    static convert(amount: number, from: string, to: string): number {
-        return CurrencyService.convert(amount, from, to);
+    static convert(amount: number, from: string, to: string, onDate?: Date | string): number {
+        return CurrencyService.convert(amount, from, to, onDate);
     }
 
     /**
@@ -39,7 +46,7 @@ export class FinancialEngine {
             .reduce((sum, inv) => {
                 const amount = inv.total || 0;
                 const currency = inv.currency || targetCurrency;
-                return sum + CurrencyService.convert(amount, currency, targetCurrency);
+                return sum + CurrencyService.convert(amount, currency, targetCurrency, inv.issueDate);
             }, 0);
     }
 
@@ -52,7 +59,7 @@ export class FinancialEngine {
             .reduce((sum, inv) => {
                 const amount = inv.total || 0;
                 const currency = inv.currency || targetCurrency;
-                return sum + CurrencyService.convert(amount, currency, targetCurrency);
+                return sum + CurrencyService.convert(amount, currency, targetCurrency, inv.issueDate);
             }, 0);
     }
 
@@ -65,7 +72,7 @@ export class FinancialEngine {
             .reduce((sum, inv) => {
                 const amount = inv.total || 0;
                 const currency = inv.currency || targetCurrency;
-                return sum + CurrencyService.convert(amount, currency, targetCurrency);
+                return sum + CurrencyService.convert(amount, currency, targetCurrency, inv.issueDate);
             }, 0);
     }
 
@@ -78,7 +85,7 @@ export class FinancialEngine {
             .reduce((sum, inv) => {
                 const amount = inv.total || 0;
                 const currency = inv.currency || targetCurrency;
-                return sum + CurrencyService.convert(amount, currency, targetCurrency);
+                return sum + CurrencyService.convert(amount, currency, targetCurrency, inv.issueDate);
             }, 0);
     }
 
@@ -136,7 +143,7 @@ export class FinancialEngine {
                         invDate.getMonth() === monthDate.getMonth() &&
                         invDate.getFullYear() === monthDate.getFullYear();
                 })
-                .reduce((sum, inv) => sum + CurrencyService.convert(inv.total, inv.currency || targetCurrency, targetCurrency), 0);
+                .reduce((sum, inv) => sum + CurrencyService.convert(inv.total, inv.currency || targetCurrency, targetCurrency, inv.issueDate), 0);
 
             historicalMonths.push(monthRevenue);
             xValues.push(i); // 0 to 5
@@ -159,7 +166,7 @@ export class FinancialEngine {
                             invDate.getMonth() === monthDate.getMonth() &&
                             invDate.getFullYear() === monthDate.getFullYear();
                     })
-                    .reduce((sum, inv) => sum + CurrencyService.convert(inv.total, inv.currency || targetCurrency, targetCurrency), 0);
+                    .reduce((sum, inv) => sum + CurrencyService.convert(inv.total, inv.currency || targetCurrency, targetCurrency, inv.issueDate), 0);
 
                 actual.push(Math.round(monthRevenue));
                 predicted.push(0); // No prediction for past
@@ -203,7 +210,7 @@ export class FinancialEngine {
     static calculateBurnRate(transactions: Transaction[], targetCurrency: string): number {
         const expenses = transactions
             .filter(t => t.type === 'expense' && t.kind !== 'master')
-            .reduce((sum, t) => sum + CurrencyService.convert(Math.abs(t.amount), (t as any).currency || targetCurrency, targetCurrency), 0);
+            .reduce((sum, t) => sum + CurrencyService.convert(Math.abs(t.amount), (t as any).currency || targetCurrency, targetCurrency, transactionDay(t)), 0);
 
         // Assume transactions span ~last month (simplified for now)
         return expenses;
@@ -213,8 +220,7 @@ export class FinancialEngine {
      * Calculate runway in months (Delegates to FinancialMathService)
      */
     static calculateRunway(currentBalance: number, monthlyBurn: number): number | null {
-        const res = FinancialMathService.runway(currentBalance, monthlyBurn);
-        return res === Infinity ? null : Math.floor(res);
+        return runwayMonths(currentBalance, monthlyBurn);
     }
 
     /**
@@ -230,32 +236,18 @@ export class FinancialEngine {
         months: number,
         annualInterestRate: number = 0
     ): number {
-        // Use Future Value for Principal
-        const r = annualInterestRate / 100 / 12; // Monthly interest rate decimal
-        if (r === 0) {
-            return currentBalance + (monthlyNet * months);
-        }
-
-        // FV = P(1+r)^n
-        const futurePrincipal = FinancialMathService.futureValue(currentBalance, r, months);
-
-        // Future value of a series (PMT)
-        // PMT * [((1 + r)^n - 1) / r]
-        const compoundFactor = Math.pow(1 + r, months);
-        const futureContributions = monthlyNet * ((compoundFactor - 1) / r);
-
-        return futurePrincipal + futureContributions;
+        return futureBalance(currentBalance, monthlyNet, months, annualInterestRate);
     }
 
     /**
-     * Calculate current total balance from transactions
+     * Calculate current total balance from transactions (each converted at the rate of its own day)
      */
     static calculateCurrentBalance(transactions: Transaction[], targetCurrency: string): number {
         return transactions
             .filter(t => t.kind !== 'master') // EXCLUDE TEMPLATES
             .reduce((sum, t) => {
                 const amount = t.type === 'expense' ? -Math.abs(t.amount) : Math.abs(t.amount);
-                return sum + CurrencyService.convert(amount, t.currency || targetCurrency, targetCurrency);
+                return sum + CurrencyService.convert(amount, t.currency || targetCurrency, targetCurrency, transactionDay(t));
             }, 0);
     }
     /**
@@ -263,85 +255,7 @@ export class FinancialEngine {
      * Calculates recurrent cash flow, projections, runway, and interest analytics.
      */
     static getFinancialReport(transactions: Transaction[], baseCurrency: string): FinancialReport {
-        const currentBalance = this.calculateCurrentBalance(transactions, baseCurrency);
-
-        // 1. Calculate Recurring Monthly Income
-        const incomeTransactions = transactions.filter(t => t.type === 'income');
-        const recurringIncomeTransactions = incomeTransactions.filter(t => t.recurring === true && t.period && t.period !== 'oneTime');
-
-        const recurringIncome = recurringIncomeTransactions.reduce((sum, t) => {
-            let amount = this.convert(t.amount, t.currency || baseCurrency, baseCurrency);
-            switch (t.period) {
-                case 'daily': return sum + (amount * 30);
-                case 'weekly': return sum + (amount * 4);
-                case 'monthly': return sum + amount;
-                case 'yearly': return sum + (amount / 12);
-                default: return sum;
-            }
-        }, 0);
-
-        // 2. Calculate Recurring Monthly Expenses
-        const expenseTransactions = transactions.filter(t => t.type === 'expense');
-        const recurringExpenseTransactions = expenseTransactions.filter(t => t.recurring === true && t.period && t.period !== 'oneTime');
-
-        const recurringExpenses = recurringExpenseTransactions.reduce((sum, t) => {
-            let amount = this.convert(Math.abs(t.amount), t.currency || baseCurrency, baseCurrency);
-            switch (t.period) {
-                case 'daily': return sum + (amount * 30);
-                case 'weekly': return sum + (amount * 4);
-                case 'monthly': return sum + amount;
-                case 'yearly': return sum + (amount / 12);
-                default: return sum;
-            }
-        }, 0);
-
-        // 3. Net Monthly Cash Flow
-        const monthlyNet = recurringIncome - recurringExpenses;
-        const monthlyBurn = recurringExpenses;
-
-        // 4. Weighted Average Interest Rate
-        const incomeWithInterest = transactions.filter(t => t.type === 'income' && t.interestRate);
-        const totalIncomeWithInterest = incomeWithInterest.reduce((sum, t) => sum + this.convert(t.amount, t.currency || baseCurrency, baseCurrency), 0);
-        const weightedSumRate = incomeWithInterest.reduce((sum, t) => {
-            const amt = this.convert(t.amount, t.currency || baseCurrency, baseCurrency);
-            return sum + (amt * (t.interestRate || 0));
-        }, 0);
-        const avgInterestRate = totalIncomeWithInterest > 0 ? (weightedSumRate / totalIncomeWithInterest) : 0;
-
-        // 5. Projections
-        const projected3Months = this.calculateFutureBalance(currentBalance, monthlyNet, 3, avgInterestRate);
-        const projected1Year = this.calculateFutureBalance(currentBalance, monthlyNet, 12, avgInterestRate);
-        const projected3Years = this.calculateFutureBalance(currentBalance, monthlyNet, 36, avgInterestRate);
-        const runway = this.calculateRunway(currentBalance, monthlyBurn);
-
-        return {
-            currentBalance,
-            recurringIncome,
-            recurringExpenses,
-            monthlyNet,
-            monthlyBurn,
-            avgInterestRate,
-            runway,
-            projections: {
-                threeMonths: projected3Months,
-                oneYear: projected1Year,
-                threeYears: projected3Years
-            }
-        };
+        // Built from per-transaction contributions (see utils/financialReport), shared with the finance worker
+        return buildFinancialReport(transactions, baseCurrency, CurrencyService.getDatedRates());
     }
 }
-
-export interface FinancialReport {
-    currentBalance: number;
-    recurringIncome: number;
-    recurringExpenses: number;
-    monthlyNet: number;
-    monthlyBurn: number;
-    avgInterestRate: number;
-    runway: number | null;
-    projections: {
-        threeMonths: number;
-        oneYear: number;
-        threeYears: number;
-    };
-}
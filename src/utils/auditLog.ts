@@ -0,0 +1,140 @@
+/**
+ * auditLog.ts
+ * Field-level change records for the append-only audit log (see AuditLogService).
+ *
+ * Entries are derived from the same entity diffs the undo journal uses, so every change that goes through
+ * DataContext is covered without touching the individual CRUD functions.
+ */
+
+import { CollectionDiff, Identifiable, JournalCollection, recordLabel } from './changeJournal';
+
+/** Where a change came from */
+export type AuditOrigin = 'ui' | 'assistant' | 'import' | 'recurring' | 'system';
+
+export const AUDIT_ORIGINS: AuditOrigin[] = ['ui', 'assistant', 'import', 'recurring', 'system'];
+
+/** trash/restore are soft deletes; delete removes the record for good */
+export type AuditAction = 'create' | 'update' | 'trash' | 'restore' | 'delete';
+
+export type AuditEntityType = JournalCollection | 'budgetSettings';
+
+export interface AuditFieldChange {
+    field: string;
+    before?: unknown;
+    after?: unknown;
+}
+
+export interface AuditEntry {
+    id: string;
+    /** ISO timestamp */
+    at: string;
+    entityType: AuditEntityType;
+    entityId: string;
+    label: string;
+    action: AuditAction;
+    origin: AuditOrigin;
+    changes: AuditFieldChange[];
+}
+
+/** Entries kept in the store rewritten on every append; older ones move to the archive store, nothing is dropped */
+export const AUDIT_LOG_RECENT_LIMIT = 1000;
+
+// Bookkeeping fields that change with every edit and would only add noise
+const IGNORED_FIELDS = new Set(['id', 'updatedAt']);
+const MAX_VALUE_LENGTH = 300;
+
+const truncate = (text: string) => text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+
+/**
+ * Storable form of a field value: dates as ISO strings, nested objects as JSON, long text (drawings, note bodies) shortened
+ */
+const auditValue = (value: unknown): unknown => {
+    if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value.toISOString();
+    if (typeof value === 'string') return truncate(value);
+    if (value !== null && typeof value === 'object') {
+        try {
+            return truncate(JSON.stringify(value));
+        } catch {
+            return null;
+        }
+    }
+    return value;
+};
+
+const sameValue = (a: unknown, b: unknown) => a === b || JSON.stringify(auditValue(a)) === JSON.stringify(auditValue(b));
+
+export const diffFields = (before: object, after: object): AuditFieldChange[] => {
+    const prev = before as Record<string, unknown>;
+    const next = after as Record<string, unknown>;
+    const changes: AuditFieldChange[] = [];
+    new Set([...Object.keys(prev), ...Object.keys(next)]).forEach(field => {
+        if (IGNORED_FIELDS.has(field) || sameValue(prev[field], next[field])) return;
+        changes.push({ field, before: auditValue(prev[field]), after: auditValue(next[field]) });
+    });
+    return changes;
+};
+
+const actionOf = (before: Record<string, unknown>, after: Record<string, unknown>): AuditAction => {
+    if (!before.deletedAt && after.deletedAt) return 'trash';
+    if (before.deletedAt && !after.deletedAt) return 'restore';
+    return 'update';
+};
+
+/**
+ * One entry per record touched by a collection diff
+ */
+export const auditEntriesFromDiff = (
+    entityType: JournalCollection,
+    diff: CollectionDiff,
+    origin: AuditOrigin,
+    newId: () => string,
+    at: string = new Date().toISOString()
+): AuditEntry[] => {
+    const entry = (item: Identifiable, action: AuditAction, changes: AuditFieldChange[]): AuditEntry => ({
+        id: newId(), at, entityType, entityId: item.id, label: recordLabel(item), action, origin, changes,
+    });
+
+    const entries: AuditEntry[] = diff.added.map(item => entry(item, 'create', []));
+    diff.updated.forEach(({ before, after }) => {
+        const changes = diffFields(before, after);
+        if (changes.length === 0) return;
+        entries.push(entry(after, actionOf(before as unknown as Record<string, unknown>, after as unknown as Record<string, unknown>), changes));
+    });
+    diff.removed.forEach(({ item }) => entries.push(entry(item, 'delete', [])));
+    return entries;
+};
+
+/**
+ * Entry for a single-object collection (budget settings)
+ */
+export const auditEntryFromValues = (
+    entityType: AuditEntityType,
+    before: object,
+    after: object,
+    origin: AuditOrigin,
+    id: string,
+    at: string = new Date().toISOString()
+): AuditEntry | null => {
+    const changes = diffFields(before, after);
+    if (changes.length === 0) return null;
+    return { id, at, entityType, entityId: entityType, label: entityType, action: 'update', origin, changes };
+};
+
+const csvCell = (value: unknown): string => {
+    const text = value === undefined || value === null ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+    return `"${text.replace(/"/g, '""')}"`;
+};
+
+/**
+ * One row per changed field (creates and deletes get a single row without a field)
+ */
+export const auditLogToCsv = (entries: AuditEntry[]): string => {
+    const headers = ['timestamp', 'entity_type', 'entity_id', 'label', 'action', 'origin', 'field', 'before', 'after'];
+    const rows = entries.flatMap(entry => {
+        const base = [entry.at, entry.entityType, entry.entityId, entry.label, entry.action, entry.origin];
+        return entry.changes.length === 0
+            ? [[...base, '', '', '']]
+            : entry.changes.map(change => [...base, change.field, change.before, change.after]);
+    });
+    return [headers.join(','), ...rows.map(row => row.map(csvCell).join(','))].join('\n');
+};
@@ -0,0 +1,266 @@
+/**
+ * backupSchemas.ts
+ * zod schemas for the records stored in a backup file.
+ *
+ * Schemas check what the app relies on (ids, required fields, enums, parseable dates) and keep unknown fields,
+ * so backups from newer versions with extra fields still restore.
+ */
+
+import { z } from 'zod';
+import { isValidRRule } from './rrule';
+
+const dateLike = z
+    .union([z.string(), z.number(), z.date()])
+    .refine(value => !Number.isNaN(new Date(value).getTime()), { message: 'Invalid date' });
+
+const id = z.union([z.string().min(1), z.number()]).transform(value => String(value));
+const priority = z.enum(['low', 'medium', 'high']);
+const rrule = z.string().refine(isValidRRule, { message: 'Invalid recurrence rule' });
+const ymd = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+export const noteSchema = z.looseObject({
+    id,
+    title: z.string(),
+    content: z.string(),
+    createdAt: dateLike,
+    linkedPlans: z.array(z.string()).default([]),
+    tags: z.array(z.string()).default([]),
+});
+
+export const goalSchema = z.looseObject({
+    id,
+    title: z.string(),
+    description: z.string().default(''),
+    targetDate: dateLike,
+    progress: z.number().min(0).max(100),
+    status: z.enum(['not-started', 'in-progress', 'completed', 'paused']),
+    createdAt: dateLike,
+});
+
+export const planSchema = z.looseObject({
+    id,
+    title: z.string(),
+    description: z.string().default(''),
+    startTime: dateLike.optional(),
+    endTime: dateLike.optional(),
+    date: dateLike,
+    completed: z.boolean(),
+    priority,
+    linkedNotes: z.array(z.string()).default([]),
+    rrule: rrule.optional(),
+    exdates: z.array(ymd).optional(),
+    completedDates: z.array(ymd).optional(),
+    overrides: z.record(ymd, z.looseObject({
+        title: z.string().optional(),
+        description: z.string().optional(),
+        priority: priority.optional(),
+    })).optional(),
+});
+
+export const drawingSchema = z.looseObject({
+    id,
+    title: z.string(),
+    data: z.string(),
+    createdAt: dateLike,
+});
+
+export const subscriptionSchema = z.looseObject({
+    id,
+    name: z.string(),
+    description: z.string().default(''),
+    cost: z.number().finite(),
+    currency: z.string().min(1),
+    billingCycle: z.enum(['monthly', 'yearly', 'weekly', 'daily', 'one-time']),
+    nextPayment: dateLike,
+    isActive: z.boolean(),
+    category: z.string(),
+    createdAt: dateLike,
+    billingStart: dateLike.optional(),
+    trialEndsAt: ymd.optional(),
+    lastUsedAt: dateLike.optional(),
+    priceHistory: z.array(z.looseObject({
+        date: dateLike,
+        previousCost: z.number().finite(),
+        previousCurrency: z.string().min(1),
+        cost: z.number().finite(),
+        currency: z.string().min(1),
+    })).optional(),
+});
+
+export const transactionSchema = z.looseObject({
+    id,
+    amount: z.number().finite(),
+    description: z.string(),
+    date: dateLike,
+    type: z.enum(['income', 'expense', 'subscription']),
+    category: z.string(),
+    period: z.enum(['daily', 'weekly', 'monthly', 'yearly', 'oneTime']).optional(),
+    recurring: z.boolean().optional(),
+    currency: z.string().optional(),
+    kind: z.enum(['master', 'history']).optional(),
+    originId: z.string().optional(),
+    budgetGoalId: z.string().optional(),
+    subscriptionId: z.string().optional(),
+    rrule: rrule.optional(),
+    recurrenceStart: dateLike.optional(),
+    exdates: z.array(ymd).optional(),
+    splitFromId: z.string().optional(),
+});
+
+const invoiceItemSchema = z.looseObject({
+    id,
+    description: z.string(),
+    quantity: z.number().finite(),
+    rate: z.number().finite(),
+    amount: z.number().finite(),
+});
+
+export const invoiceSchema = z.looseObject({
+    id,
+    invoiceNumber: z.string().min(1),
+    clientId: z.string(),
+    companyProfileId: z.string().optional(),
+    items: z.array(invoiceItemSchema),
+    subtotal: z.number().finite(),
+    taxRate: z.number().finite(),
+    tax: z.number().finite(),
+    total: z.number().finite(),
+    status: z.enum(['draft', 'sent', 'paid', 'overdue', 'cancelled']),
+    issueDate: dateLike,
+    dueDate: dateLike,
+    fulfillmentDate: dateLike.optional(),
+    paidDate: dateLike.optional(),
+    currency: z.string().min(1),
+    notes: z.string().default(''),
+    createdAt: dateLike,
+});
+
+export const clientSchema = z.looseObject({
+    id,
+    name: z.string().min(1),
+    email: z.string(),
+    taxId: z.string().optional(),
+    createdAt: dateLike,
+});
+
+export const companyProfileSchema = z.looseObject({
+    id,
+    name: z.string().min(1),
+    address: z.string(),
+    email: z.string(),
+    phone: z.string(),
+    taxNumber: z.string(),
+    bankAccount: z.string().optional(),
+    logo: z.string().nullable(),
+    createdAt: dateLike,
+});
+
+const workflowNodeSchema = z.looseObject({
+    id,
+    type: z.string(),
+    title: z.string(),
+    position: z.looseObject({ x: z.number(), y: z.number() }),
+    status: z.enum(['pending', 'in-progress', 'completed', 'skipped']),
+});
+
+const workflowEdgeSchema = z.looseObject({
+    id,
+    source: z.string(),
+    target: z.string(),
+});
+
+export const workflowSchema = z.looseObject({
+    id,
+    name: z.string(),
+    nodes: z.array(workflowNodeSchema),
+    edges: z.array(workflowEdgeSchema),
+    status: z.enum(['planning', 'active', 'completed', 'archived']),
+    progress: z.number(),
+    createdAt: dateLike,
+    updatedAt: dateLike,
+});
+
+export const workflowTemplateSchema = z.looseObject({
+    id,
+    name: z.string(),
+    description: z.string().default(''),
+    category: z.string(),
+    nodes: z.array(workflowNodeSchema),
+    edges: z.array(workflowEdgeSchema),
+    icon: z.string(),
+    isBuiltIn: z.boolean(),
+    createdAt: dateLike,
+});
+
+const habitDayLogSchema = z.looseObject({
+    count: z.number().min(0),
+    completed: z.boolean(),
+});
+
+export const habitSchema = z.looseObject({
+    id,
+    name: z.string(),
+    goal: z.looseObject({
+        period: z.enum(['daily', 'weekly', 'monthly']),
+        target: z.number().min(1),
+        mode: z.enum(['binary', 'count']),
+    }),
+    history: z.record(z.string(), habitDayLogSchema),
+    createdAt: dateLike,
+    mastery: z.number().min(0).max(100).default(0),
+});
+
+export const budgetGoalSchema = z.looseObject({
+    id,
+    name: z.string(),
+    targetAmount: z.number().finite().min(0),
+    deadlineYMD: z.string(),
+    category: z.string(),
+    currency: z.string().min(1),
+    isCompleted: z.boolean().default(false),
+    createdAt: dateLike,
+});
+
+export const auditEntrySchema = z.looseObject({
+    id,
+    at: dateLike,
+    entityType: z.string().min(1),
+    entityId: z.string().min(1),
+    label: z.string().default(''),
+    action: z.enum(['create', 'update', 'trash', 'restore', 'delete']),
+    origin: z.enum(['ui', 'assistant', 'import', 'recurring', 'system']),
+    changes: z.array(z.looseObject({ field: z.string() })).default([]),
+});
+
+export const budgetSettingsSchema = z.looseObject({
+    monthlyBudget: z.number().finite(),
+    currency: z.string().min(1),
+    notifications: z.boolean(),
+    warningThreshold: z.number().finite(),
+});
+
+export const recurringSkipSchema = z.string().min(1);
+
+export const backupManifestSchema = z.object({
+    format: z.string(),
+    formatVersion: z.number().int().positive(),
+    appVersion: z.string(),
+    schemaVersion: z.number().int().nonnegative(),
+    createdAt: z.string(),
+    /** Items per collection id, for display before restoring */
+    counts: z.record(z.string(), z.number().int().nonnegative()),
+    includesSecrets: z.boolean(),
+    checksum: z.object({
+        algorithm: z.literal('SHA-256'),
+        /** Hex digest of JSON.stringify(data) */
+        value: z.string().regex(/^[0-9a-f]{64}$/),
+    }),
+});
+
+export type BackupManifest = z.infer<typeof backupManifestSchema>;
+
+/**
+ * Human-readable summary of a zod error ("items.0.amount: Expected number")
+ */
+export const formatIssues = (error: z.ZodError): string[] =>
+    error.issues.map(issue => `${issue.path.length ? issue.path.join('.') + ': ' : ''}${issue.message}`);
@@ -0,0 +1,39 @@
+/**
+ * budgetGoals.ts
+ * Savings goal progress, derived from the transactions linked to a goal.
+ *
+ * A contribution is an expense with `budgetGoalId` (money set aside), a withdrawal is an income
+ * with the same link. Cancelled transactions do not count. Amounts are converted into the goal's currency
+ * at the rates of each transaction's day.
+ */
+
+import { BudgetGoal, Transaction } from '../types/planner';
+import { CurrencyService } from '../services/CurrencyService';
+
+export interface BudgetGoalProgress {
+    saved: number;
+    remaining: number;
+    /** 0-100 */
+    percent: number;
+    reached: boolean;
+    contributions: Transaction[];
+}
+
+export const getGoalContributions = (goalId: string, transactions: Transaction[]): Transaction[] =>
+    transactions.filter(tx => tx.budgetGoalId === goalId && tx.status !== 'cancelled' && tx.kind !== 'master');
+
+export const getBudgetGoalProgress = (goal: BudgetGoal, transactions: Transaction[]): BudgetGoalProgress => {
+    const contributions = getGoalContributions(goal.id, transactions);
+    const saved = Math.max(0, contributions.reduce((sum, tx) => {
+        const amount = CurrencyService.convert(Math.abs(tx.amount), tx.currency || goal.currency, goal.currency, tx.effectiveDateYMD ?? tx.date);
+        return sum + (tx.type === 'income' ? -amount : amount);
+    }, 0));
+    const percent = goal.targetAmount > 0 ? Math.min(100, (saved / goal.targetAmount) * 100) : 0;
+    return {
+        saved,
+        remaining: Math.max(0, goal.targetAmount - saved),
+        percent,
+        reached: goal.targetAmount > 0 && saved >= goal.targetAmount,
+        contributions,
+    };
+};
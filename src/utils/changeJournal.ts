@@ -0,0 +1,229 @@
+/**
+ * changeJournal.ts
+ * Entity-level diffs for the DataContext undo/redo journal.
+ *
+ * Diffs are applied by id rather than by replacing whole arrays, so undoing one change
+ * never throws away unrelated edits made after it (e.g. history generated by the recurring engine).
+ */
+
+import type { AuditOrigin } from './auditLog';
+
+export interface Identifiable {
+    id: string;
+}
+
+export type JournalCollection =
+    | 'notes'
+    | 'goals'
+    | 'plans'
+    | 'drawings'
+    | 'subscriptions'
+    | 'transactions'
+    | 'invoices'
+    | 'clients'
+    | 'companyProfiles'
+    | 'workflows'
+    | 'workflowTemplates'
+    | 'habits'
+    | 'budgetGoals';
+
+export interface CollectionDiff<T extends Identifiable = Identifiable> {
+    added: T[];
+    removed: { item: T; index: number }[];
+    updated: { before: T; after: T }[];
+}
+
+export type JournalEntryKind = 'add' | 'update' | 'delete' | 'settings';
+
+export interface JournalEntry {
+    id: string;
+    kind: JournalEntryKind;
+    collection: JournalCollection | 'budgetSettings';
+    timestamp: number;
+    diff?: CollectionDiff;
+    /** budgetSettings is a single object, journaled as a whole value */
+    valueBefore?: unknown;
+    valueAfter?: unknown;
+    /** Recurring-history ids pushed into 'recurring-skips' by this change */
+    skipsAdded?: string[];
+    /** Recurring-history ids taken out of 'recurring-skips' by this change (un-skipped occurrences) */
+    skipsRemoved?: string[];
+    /** Consecutive updates with the same key are merged into one entry */
+    coalesceKey?: string;
+    /** Sent to other tabs but kept off the undo stack (permanent trash purges) */
+    untracked?: boolean;
+    /** Recorded with the change in the audit log */
+    origin?: AuditOrigin;
+}
+
+export const JOURNAL_LIMIT = 100;
+export const COALESCE_WINDOW_MS = 1500;
+
+export const diffCollections = <T extends Identifiable>(prev: T[], next: T[]): CollectionDiff<T> => {
+    const prevById = new Map(prev.map((item, index) => [item.id, { item, index }]));
+    const nextIds = new Set(next.map(item => item.id));
+
+    const added: T[] = [];
+    const updated: { before: T; after: T }[] = [];
+    next.forEach(item => {
+        const before = prevById.get(item.id);
+        if (!before) added.push(item);
+        else if (before.item !== item) updated.push({ before: before.item, after: item });
+    });
+
+    const removed = prev
+        .map((item, index) => ({ item, index }))
+        .filter(({ item }) => !nextIds.has(item.id));
+
+    return { added, removed, updated };
+};
+
+export const isEmptyDiff = (diff: CollectionDiff): boolean =>
+    diff.added.length === 0 && diff.removed.length === 0 && diff.updated.length === 0;
+
+/**
+ * Undo: drop added records, restore removed ones at their old position, roll updates back
+ */
+export const revertDiff = <T extends Identifiable>(current: T[], diff: CollectionDiff<T>): T[] => {
+    const addedIds = new Set(diff.added.map(item => item.id));
+    const beforeById = new Map(diff.updated.map(u => [u.before.id, u.before]));
+
+    const result = current
+        .filter(item => !addedIds.has(item.id))
+        .map(item => beforeById.get(item.id) ?? item);
+
+    const presentIds = new Set(result.map(item => item.id));
+    [...diff.removed]
+        .sort((a, b) => a.index - b.index)
+        .forEach(({ item, index }) => {
+            if (presentIds.has(item.id)) return;
+            result.splice(Math.min(index, result.length), 0, item);
+            presentIds.add(item.id);
+        });
+
+    return result;
+};
+
+/**
+ * Redo: re-apply a previously reverted diff
+ */
+export const applyDiff = <T extends Identifiable>(current: T[], diff: CollectionDiff<T>): T[] => {
+    const removedIds = new Set(diff.removed.map(r => r.item.id));
+    const afterById = new Map(diff.updated.map(u => [u.after.id, u.after]));
+
+    const result = current
+        .filter(item => !removedIds.has(item.id))
+        .map(item => afterById.get(item.id) ?? item);
+
+    const presentIds = new Set(result.map(item => item.id));
+    diff.added.forEach(item => {
+        if (!presentIds.has(item.id)) result.push(item);
+    });
+
+    return result;
+};
+
+/**
+ * Merge two consecutive update entries on the same record: keep the oldest "before" and newest "after"
+ */
+export const coalesceEntries = (older: JournalEntry, newer: JournalEntry): JournalEntry => {
+    if (older.diff && newer.diff) {
+        const olderBefore = new Map(older.diff.updated.map(u => [u.before.id, u.before]));
+        return {
+            ...newer,
+            id: older.id,
+            diff: {
+                ...newer.diff,
+                updated: newer.diff.updated.map(u => ({ before: olderBefore.get(u.before.id) ?? u.before, after: u.after }))
+            }
+        };
+    }
+    return { ...newer, id: older.id, valueBefore: older.valueBefore };
+};
+
+/**
+ * Human-readable name of a record (conflict notices, trash and history lists)
+ */
+export const recordLabel = (item: Identifiable): string => {
+    const rec = item as unknown as Record<string, unknown>;
+    const label = rec.title ?? rec.name ?? rec.invoiceNumber ?? rec.description;
+    return typeof label === 'string' && label ? label : item.id;
+};
+
+/**
+ * Number of records touched by an entry, for toast messages
+ */
+export const entrySize = (entry: JournalEntry): number => {
+    if (!entry.diff) return 1;
+    return entry.diff.added.length + entry.diff.removed.length + entry.diff.updated.length;
+};
+
+/**
+ * Inverse of a diff (used to broadcast an undo to other tabs)
+ */
+export const invertDiff = <T extends Identifiable>(diff: CollectionDiff<T>): CollectionDiff<T> => ({
+    added: diff.removed.map(r => r.item),
+    removed: diff.added.map((item, index) => ({ item, index })),
+    updated: diff.updated.map(u => ({ before: u.after, after: u.before })),
+});
+
+const sameValue = (a: unknown, b: unknown): boolean => {
+    if (a === b) return true;
+    try {
+        return JSON.stringify(a) === JSON.stringify(b);
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Apply a diff produced in another tab onto local state with field-level three-way merging.
+ * Fields changed remotely win; fields only changed locally are kept.
+ * `onConflict` fires when both sides changed the same field of the same record.
+ */
+export const mergeRemoteDiff = <T extends Identifiable>(
+    current: T[],
+    diff: CollectionDiff<T>,
+    onConflict: (item: T) => void
+): T[] => {
+    const removedIds = new Set(diff.removed.map(r => r.item.id));
+    const updatesById = new Map(diff.updated.map(u => [u.after.id, u]));
+
+    const result = current
+        .filter(item => !removedIds.has(item.id))
+        .map(local => {
+            const update = updatesById.get(local.id);
+            if (!update) return local;
+            updatesById.delete(local.id);
+
+            const before = update.before as unknown as Record<string, unknown>;
+            const after = update.after as unknown as Record<string, unknown>;
+            const mine = local as unknown as Record<string, unknown>;
+            const merged: Record<string, unknown> = { ...mine };
+            let conflict = false;
+
+            new Set([...Object.keys(before), ...Object.keys(after)]).forEach(key => {
+                if (sameValue(before[key], after[key])) return;
+                if (!sameValue(mine[key], before[key]) && !sameValue(mine[key], after[key])) conflict = true;
+                if (key in after) merged[key] = after[key];
+                else delete merged[key];
+            });
+
+            if (conflict) onConflict(local);
+            return merged as unknown as T;
+        });
+
+    const presentIds = new Set(result.map(item => item.id));
+    // Updates for records this tab does not have yet behave like inserts
+    updatesById.forEach(u => {
+        if (!presentIds.has(u.after.id)) {
+            result.push(u.after);
+            presentIds.add(u.after.id);
+        }
+    });
+    diff.added.forEach(item => {
+        if (!presentIds.has(item.id)) result.push(item);
+    });
+
+    return result;
+};
@@ -0,0 +1,143 @@
+/**
+ * financialReport.ts
+ * The cash-flow report behind FinancialEngine.getFinancialReport, split into per-transaction contributions.
+ *
+ * Every figure of the report is a sum over transactions, so the finance worker keeps one contribution per
+ * transaction and only recomputes the ones that changed. Conversion takes an explicit rate lookup
+ * (the worker has no access to CurrencyService): balances at the rate of the transaction's day, recurring
+ * (forward-looking) figures at the current rates.
+ */
+
+import { Transaction } from '../types/planner';
+import { FinancialMathService } from './financialMath';
+import { DatedRates, RateLookup, convertWithRates, createRateLookup } from './rateHistory';
+import { approxOccurrencesPerMonth, parseRRule, toLocalYMD } from './rrule';
+
+export interface FinancialReport {
+    currentBalance: number;
+    recurringIncome: number;
+    recurringExpenses: number;
+    monthlyNet: number;
+    monthlyBurn: number;
+    avgInterestRate: number;
+    runway: number | null;
+    projections: {
+        threeMonths: number;
+        oneYear: number;
+        threeYears: number;
+    };
+}
+
+/** One transaction's share of the report sums */
+export interface ReportContribution {
+    balance: number;
+    recurringIncome: number;
+    recurringExpenses: number;
+    /** Income amount carrying an interest rate, and that amount weighted by the rate */
+    interestBase: number;
+    interestWeighted: number;
+}
+
+/** Monthly equivalent of a recurring amount */
+const monthlyAmount = (amount: number, t: Transaction): number => {
+    if (t.rrule) {
+        try {
+            return amount * approxOccurrencesPerMonth(parseRRule(t.rrule));
+        } catch {
+            return 0;
+        }
+    }
+    switch (t.period) {
+        case 'daily': return amount * 30;
+        case 'weekly': return amount * 4;
+        case 'monthly': return amount;
+        case 'yearly': return amount / 12;
+        default: return 0;
+    }
+};
+
+/** Day of a transaction for its exchange rate */
+const transactionDay = (t: Transaction): string | undefined => {
+    if (t.effectiveDateYMD) return t.effectiveDateYMD;
+    const date = new Date(t.date);
+    return Number.isNaN(date.getTime()) ? undefined : toLocalYMD(date);
+};
+
+export const transactionContribution = (t: Transaction, baseCurrency: string, rates: RateLookup): ReportContribution => {
+    const from = t.currency || baseCurrency;
+    const convert = (amount: number) => convertWithRates(amount, from, baseCurrency, rates());
+    const convertOnDay = (amount: number) => convertWithRates(amount, from, baseCurrency, rates(transactionDay(t)));
+    const isRecurring = t.recurring === true && (!!t.rrule || (!!t.period && t.period !== 'oneTime'));
+    const hasInterest = t.type === 'income' && !!t.interestRate;
+    const signed = t.type === 'expense' ? -Math.abs(t.amount) : Math.abs(t.amount);
+
+    return {
+        // Templates (masters) are not money that moved
+        balance: t.kind !== 'master' ? convertOnDay(signed) : 0,
+        recurringIncome: isRecurring && t.type === 'income' ? monthlyAmount(convert(t.amount), t) : 0,
+        recurringExpenses: isRecurring && t.type === 'expense' ? monthlyAmount(convert(Math.abs(t.amount)), t) : 0,
+        interestBase: hasInterest ? convert(t.amount) : 0,
+        interestWeighted: hasInterest ? convert(t.amount) * (t.interestRate || 0) : 0,
+    };
+};
+
+/**
+ * Future balance with compound interest
+ * @param annualInterestRate Annual interest rate (e.g. 5 for 5%)
+ */
+export const futureBalance = (currentBalance: number, monthlyNet: number, months: number, annualInterestRate: number = 0): number => {
+    const r = annualInterestRate / 100 / 12; // Monthly interest rate decimal
+    if (r === 0) {
+        return currentBalance + (monthlyNet * months);
+    }
+    // FV of the principal plus FV of the monthly series: PMT * [((1 + r)^n - 1) / r]
+    const futurePrincipal = FinancialMathService.futureValue(currentBalance, r, months);
+    const futureContributions = monthlyNet * ((Math.pow(1 + r, months) - 1) / r);
+    return futurePrincipal + futureContributions;
+};
+
+export const runwayMonths = (currentBalance: number, monthlyBurn: number): number | null => {
+    const res = FinancialMathService.runway(currentBalance, monthlyBurn);
+    return res === Infinity ? null : Math.floor(res);
+};
+
+/**
+ * Assemble the report from transaction contributions
+ */
+export const reportFromContributions = (contributions: Iterable<ReportContribution>): FinancialReport => {
+    let currentBalance = 0;
+    let recurringIncome = 0;
+    let recurringExpenses = 0;
+    let interestBase = 0;
+    let interestWeighted = 0;
+    for (const c of contributions) {
+        currentBalance += c.balance;
+        recurringIncome += c.recurringIncome;
+        recurringExpenses += c.recurringExpenses;
+        interestBase += c.interestBase;
+        interestWeighted += c.interestWeighted;
+    }
+
+    const monthlyNet = recurringIncome - recurringExpenses;
+    const avgInterestRate = interestBase > 0 ? interestWeighted / interestBase : 0;
+
+    return {
+        currentBalance,
+        recurringIncome,
+        recurringExpenses,
+        monthlyNet,
+        monthlyBurn: recurringExpenses,
+        avgInterestRate,
+        runway: runwayMonths(currentBalance, recurringExpenses),
+        projections: {
+            threeMonths: futureBalance(currentBalance, monthlyNet, 3, avgInterestRate),
+            oneYear: futureBalance(currentBalance, monthlyNet, 12, avgInterestRate),
+            threeYears: futureBalance(currentBalance, monthlyNet, 36, avgInterestRate),
+        },
+    };
+};
+
+export const buildFinancialReport = (transactions: Transaction[], baseCurrency: string, rates: DatedRates): FinancialReport => {
+    const lookup = createRateLookup(rates);
+    return reportFromContributions(transactions.map(t => transactionContribution(t, baseCurrency, lookup)));
+};
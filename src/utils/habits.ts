@@ -0,0 +1,112 @@
+/**
+ * habits.ts
+ * Normalization of stored habits, including the two legacy formats:
+ * - 'habit-studio-v3-data' (HabitView): { version, habits: Habit[] } or a bare array
+ * - 'planner.habits.v2' (old month view / JSON export): { id, name, createdAtISO, checkins: { [date]: { completed } }, isMastered }
+ */
+
+import { Habit, HabitDayLog, HabitGoalMode, HabitGoalPeriod } from '../types/planner';
+
+export const HABIT_EMOJIS = ['💪', '📚', '🏃', '🧘', '💧', '🥗', '😴', '✍️', '🎯', '🧠', '🎨', '🎵', '🌱', '☀️', '💻', '💸', '🏆', '🔥'];
+export const HABIT_COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899', '#14B8A6', '#6366F1'];
+
+type RawRecord = Record<string, unknown>;
+
+const clamp = (n: number, min: number, max: number) => Math.max(min, Math.min(max, n));
+
+const asRecord = (value: unknown): RawRecord => (value && typeof value === 'object' ? value as RawRecord : {});
+
+// Imports can carry several id-less habits at once, so the fallback id must not depend on the clock
+const newHabitId = () => {
+    const c = globalThis.crypto as Crypto | undefined;
+    if (c && 'randomUUID' in c) return c.randomUUID();
+    return Math.random().toString(36).slice(2, 11);
+};
+
+const PERIODS: HabitGoalPeriod[] = ['daily', 'weekly', 'monthly'];
+const MODES: HabitGoalMode[] = ['binary', 'count'];
+
+/**
+ * Fill defaults and repair a habit in the current format (missing goal, string counts, etc.)
+ */
+export const normalizeHabit = (value: unknown): Habit => {
+    const raw = asRecord(value);
+    const rawGoal = asRecord(raw.goal);
+    const period = PERIODS.includes(rawGoal.period as HabitGoalPeriod) ? rawGoal.period as HabitGoalPeriod : 'daily';
+    const mode = MODES.includes(rawGoal.mode as HabitGoalMode) ? rawGoal.mode as HabitGoalMode : 'binary';
+
+    const history: Record<string, HabitDayLog> = {};
+    Object.entries(asRecord(raw.history)).forEach(([date, entry]) => {
+        const log = asRecord(entry);
+        const completed = !!log.completed;
+        const count = clamp(Number(log.count ?? (completed ? 1 : 0)) || 0, 0, 9999);
+        history[date] = {
+            date,
+            count,
+            completed: completed || count >= 1,
+            note: typeof log.note === 'string' ? log.note : undefined,
+            timestamps: Array.isArray(log.timestamps) ? log.timestamps as number[] : undefined,
+            times: Array.isArray(log.times) ? log.times as string[] : undefined,
+        };
+    });
+
+    return {
+        id: raw.id !== undefined && raw.id !== null && raw.id !== '' ? String(raw.id) : newHabitId(),
+        name: String(raw.name ?? raw.text ?? 'Habit').trim(),
+        description: typeof raw.description === 'string' ? raw.description : undefined,
+        emoji: typeof raw.emoji === 'string' ? raw.emoji : HABIT_EMOJIS[0],
+        color: typeof raw.color === 'string' ? raw.color : HABIT_COLORS[0],
+        goal: { period, mode, target: clamp(Number(rawGoal.target ?? 1) || 1, 1, 9999) },
+        history,
+        createdAt: typeof raw.createdAt === 'string' ? raw.createdAt : new Date().toISOString(),
+        archived: !!raw.archived,
+        formed: !!raw.formed,
+        mastery: clamp(Number(raw.mastery ?? 0) || 0, 0, 100),
+        order: typeof raw.order === 'number' ? raw.order : undefined,
+    };
+};
+
+/**
+ * Convert a 'planner.habits.v2' habit (binary check-ins only)
+ */
+export const fromLegacyMonthlyHabit = (value: unknown): Habit => {
+    const raw = asRecord(value);
+    const history: Record<string, HabitDayLog> = {};
+    Object.entries(asRecord(raw.checkins)).forEach(([date, entry]) => {
+        if (asRecord(entry).completed) history[date] = { date, count: 1, completed: true };
+    });
+    return normalizeHabit({
+        id: raw.id,
+        name: raw.name,
+        createdAt: typeof raw.createdAtISO === 'string' ? new Date(raw.createdAtISO).toISOString() : undefined,
+        formed: !!raw.isMastered,
+        history,
+    });
+};
+
+/**
+ * Merge both legacy stores into one list. The habit studio wins on field conflicts;
+ * check-ins only recorded in the old format are added to its history.
+ * @param studio parsed 'habit-studio-v3-data' value
+ * @param monthly parsed 'planner.habits.v2' value
+ */
+export const mergeLegacyHabits = (studio: unknown, monthly: unknown): Habit[] => {
+    const studioRecord = asRecord(studio);
+    const studioList = Array.isArray(studio) ? studio : Array.isArray(studioRecord.habits) ? studioRecord.habits : [];
+    const monthlyList = Array.isArray(monthly) ? monthly : [];
+
+    const byId = new Map<string, Habit>();
+    studioList.map(normalizeHabit).forEach(habit => byId.set(habit.id, habit));
+    monthlyList.map(fromLegacyMonthlyHabit).forEach(habit => {
+        const existing = byId.get(habit.id);
+        if (!existing) {
+            byId.set(habit.id, habit);
+            return;
+        }
+        byId.set(habit.id, { ...existing, history: { ...habit.history, ...existing.history } });
+    });
+
+    return Array.from(byId.values())
+        .sort((a, b) => (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER))
+        .map((habit, index) => ({ ...habit, order: index }));
+};
@@ -0,0 +1,177 @@
+/**
+ * occurrences.ts
+ * Virtual occurrences of everything scheduled in a date range: recurring transaction masters, active
+ * subscriptions and plans (series expanded). Nothing is materialised - recurring history is only generated by
+ * the catch-up once an occurrence is due, so a projection over any range never writes records.
+ *
+ * Occurrence ids are `${sourceId}@${YYYY-MM-DD}`.
+ */
+
+import { PlanItem, Subscription, Transaction } from '../types/planner';
+import { expandPlans } from './planSeries';
+import { recurrenceOf } from './recurringCatchUp';
+import { occurrencesBetween, toLocalYMD } from './rrule';
+import { billingOf, isTrialPayment } from './subscriptionCatchUp';
+
+export type OccurrenceSource = 'transaction' | 'subscription' | 'plan';
+
+export interface VirtualOccurrence {
+    id: string;
+    source: OccurrenceSource;
+    /** The master transaction, subscription or plan (series) it comes from */
+    sourceId: string;
+    date: Date;
+    ymd: string;
+    title: string;
+    /** Set for transactions and subscriptions; always positive, the direction is in `type` (subscription transactions are expenses) */
+    amount?: number;
+    currency?: string;
+    type?: 'income' | 'expense';
+    category?: string;
+    /** Plans only */
+    completed?: boolean;
+    priority?: PlanItem['priority'];
+}
+
+export interface OccurrenceFilter {
+    sources?: OccurrenceSource[];
+    type?: 'income' | 'expense';
+    category?: string;
+}
+
+export interface OccurrenceSources {
+    transactions: Transaction[];
+    subscriptions: Subscription[];
+    plans: PlanItem[];
+}
+
+const occurrenceKey = (sourceId: string, ymd: string) => `${sourceId}@${ymd}`;
+
+/**
+ * Upcoming occurrences of recurring masters: from each master's next due occurrence (its `date`), EXDATEs excluded.
+ * Earlier ones are history transactions already.
+ */
+const transactionOccurrences = (transactions: Transaction[], from: Date, to: Date): VirtualOccurrence[] =>
+    transactions
+        .filter(t => t.kind === 'master' && t.recurring && !t.deletedAt)
+        .flatMap(master => {
+            const recurrence = recurrenceOf(master);
+            if (!recurrence) return [];
+            const start = new Date(Math.max(from.getTime(), new Date(master.date).getTime()));
+            return occurrencesBetween(recurrence.rule, recurrence.start, start, to, master.exdates).map(date => {
+                const ymd = toLocalYMD(date);
+                return {
+                    id: occurrenceKey(master.id, ymd),
+                    source: 'transaction' as const,
+                    sourceId: master.id,
+                    date,
+                    ymd,
+                    title: master.description,
+                    amount: Math.abs(master.amount),
+                    currency: master.currency,
+                    type: master.type === 'income' ? 'income' as const : 'expense' as const,
+                    category: master.category,
+                };
+            });
+        });
+
+/**
+ * Payments of active subscriptions from `nextPayment` on (earlier ones are posted transactions already),
+ * free-trial ones excluded.
+ * A subscription tracked by a recurring master (`subscriptionId`) is left out, as the master's occurrences
+ * already are its payments.
+ */
+const subscriptionOccurrences = (
+    subscriptions: Subscription[],
+    transactions: Transaction[],
+    from: Date,
+    to: Date
+): VirtualOccurrence[] => {
+    const tracked = new Set(transactions
+        .filter(t => t.kind === 'master' && t.recurring && !t.deletedAt && t.subscriptionId)
+        .map(t => t.subscriptionId));
+    return subscriptions
+        .filter(s => s.isActive && !tracked.has(s.id))
+        .flatMap(subscription => {
+            const billing = billingOf(subscription);
+            const nextPayment = new Date(subscription.nextPayment);
+            if (!billing || Number.isNaN(nextPayment.getTime())) return [];
+            const dates = billing.rule
+                ? occurrencesBetween(billing.rule, billing.start, new Date(Math.max(from.getTime(), nextPayment.getTime())), to)
+                : nextPayment >= from && nextPayment <= to ? [nextPayment] : [];
+            return dates.filter(date => !isTrialPayment(subscription, date)).map(date => {
+                const ymd = toLocalYMD(date);
+                return {
+                    id: occurrenceKey(subscription.id, ymd),
+                    source: 'subscription' as const,
+                    sourceId: subscription.id,
+                    date,
+                    ymd,
+                    title: subscription.name,
+                    amount: Math.abs(subscription.cost),
+                    currency: subscription.currency,
+                    type: 'expense' as const,
+                    category: subscription.category,
+                };
+            });
+        });
+};
+
+/** Plans dated within the range, series expanded into their occurrences */
+const planOccurrences = (plans: PlanItem[], from: Date, to: Date): VirtualOccurrence[] =>
+    expandPlans(plans, from, to)
+        .filter(plan => {
+            const time = new Date(plan.date).getTime();
+            return time >= from.getTime() && time <= to.getTime();
+        })
+        .map(plan => {
+            const date = new Date(plan.date);
+            const ymd = plan.occurrenceDate ?? toLocalYMD(date);
+            return {
+                id: occurrenceKey(plan.seriesId ?? plan.id, ymd),
+                source: 'plan' as const,
+                sourceId: plan.seriesId ?? plan.id,
+                date,
+                ymd,
+                title: plan.title,
+                completed: plan.completed,
+                priority: plan.priority,
+            };
+        });
+
+/**
+ * Everything scheduled within [from, to] (inclusive), oldest first.
+ * `filter.type` / `filter.category` only match transactions and subscriptions.
+ */
+export const expandOccurrences = (
+    data: OccurrenceSources,
+    from: Date,
+    to: Date,
+    filter: OccurrenceFilter = {}
+): VirtualOccurrence[] => {
+    if (to.getTime() < from.getTime()) return [];
+    const wanted = (source: OccurrenceSource) => !filter.sources || filter.sources.includes(source);
+    const financialOnly = filter.type !== undefined || filter.category !== undefined;
+
+    const result: VirtualOccurrence[] = [];
+    if (wanted('transaction')) result.push(...transactionOccurrences(data.transactions, from, to));
+    if (wanted('subscription')) result.push(...subscriptionOccurrences(data.subscriptions, data.transactions, from, to));
+    if (wanted('plan') && !financialOnly) result.push(...planOccurrences(data.plans, from, to));
+
+    return result
+        .filter(o => (filter.type === undefined || o.type === filter.type) && (filter.category === undefined || o.category === filter.category))
+        .sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+/**
+ * Total of financial occurrences by type, converted with `convert(amount, from)`
+ */
+export const sumOccurrences = (
+    occurrences: VirtualOccurrence[],
+    convert: (amount: number, fromCurrency: string) => number
+): { income: number; expense: number } =>
+    occurrences.reduce((totals, o) => {
+        if (o.amount === undefined || !o.type) return totals;
+        totals[o.type] += convert(o.amount, o.currency || 'USD');
+        return totals;
+    }, { income: 0, expense: 0 });
@@ -0,0 +1,243 @@
+/**
+ * planSeries.ts
+ * Recurring plans: expansion of a series into occurrences and the "this / this and following / all" edits.
+ *
+ * A series is a single PlanItem with an `rrule`; its `date` (and start/end time) is the first occurrence.
+ * Occurrences are never stored - they are expanded for the visible range, and per-occurrence state lives on
+ * the series: `exdates` (removed), `completedDates` (done) and `overrides` (edited title/description/priority).
+ * Occurrence ids are `${seriesId}@${YYYY-MM-DD}`.
+ * Start / end times keep their wall-clock time in the configured time zone on every occurrence.
+ */
+
+import { PlanItem, PlanOccurrenceOverride } from '../types/planner';
+import { TimeZoneService } from '../services/TimeZoneService';
+import { RecurrenceRule, addDaysYMD, formatRRule, iterateOccurrences, occurrencesBetween, parseRRule, toLocalYMD } from './rrule';
+import { reanchorDate, zonedParts, zonedTimeToDate } from './timeZone';
+
+export type SeriesEditScope = 'this' | 'following' | 'all';
+
+/** A plan as shown in the calendar views: a one-off plan, or one occurrence of a series */
+export interface PlanOccurrence extends PlanItem {
+    /** Set on occurrences of a series: the series (PlanItem) id and the occurrence day */
+    seriesId?: string;
+    occurrenceDate?: string;
+}
+
+export type PlanSeriesUpdate = Partial<Pick<PlanItem, 'title' | 'description' | 'priority' | 'startTime' | 'endTime' | 'completed' | 'rrule'>>;
+
+const OVERRIDE_FIELDS = ['title', 'description', 'priority'] as const;
+
+const parseSeriesRule = (plan: PlanItem): RecurrenceRule | null => {
+    if (!plan.rrule) return null;
+    try {
+        return parseRRule(plan.rrule);
+    } catch (e) {
+        console.warn(`Invalid recurrence rule on plan ${plan.id}:`, e);
+        return null;
+    }
+};
+
+/** `time`'s wall-clock time (in the configured zone) on the calendar day `day` */
+const onDay = (time: Date | undefined, day: Date): Date | undefined => {
+    if (!time) return undefined;
+    const timeZone = TimeZoneService.getTimeZone();
+    const { hour, minute, second } = zonedParts(new Date(time), timeZone);
+    return zonedTimeToDate(toLocalYMD(day), `${hour}:${minute}:${second}`, timeZone);
+};
+
+const fromYMD = (ymd: string, time: Date): Date => {
+    const [year, month, day] = ymd.split('-').map(Number);
+    const t = new Date(time);
+    return new Date(year, month - 1, day, t.getHours(), t.getMinutes(), t.getSeconds());
+};
+
+export const isSeries = (plan: PlanItem): boolean => !!plan.rrule;
+
+export const occurrenceId = (seriesId: string, ymd: string): string => `${seriesId}@${ymd}`;
+
+/**
+ * The plans to show between `from` and `to`: one-off plans as they are (whatever their date, like the
+ * `plans` collection itself) and each series expanded into its occurrences within the range.
+ */
+export const expandPlans = (plans: PlanItem[], from: Date, to: Date): PlanOccurrence[] => {
+    const result: PlanOccurrence[] = [];
+    plans.forEach(plan => {
+        const rule = parseSeriesRule(plan);
+        if (!rule) {
+            result.push(plan);
+            return;
+        }
+        const completed = new Set(plan.completedDates);
+        occurrencesBetween(rule, new Date(plan.date), from, to, plan.exdates).forEach(date => {
+            const ymd = toLocalYMD(date);
+            result.push({
+                ...plan,
+                ...plan.overrides?.[ymd],
+                id: occurrenceId(plan.id, ymd),
+                date,
+                startTime: onDay(plan.startTime, date),
+                endTime: onDay(plan.endTime, date),
+                completed: completed.has(ymd),
+                seriesId: plan.id,
+                occurrenceDate: ymd,
+            });
+        });
+    });
+    return result;
+};
+
+const before = (ymd: string) => (day: string) => day < ymd;
+const fromDay = (ymd: string) => (day: string) => day >= ymd;
+
+const filterOverrides = (overrides: PlanItem['overrides'], keep: (day: string) => boolean) => {
+    if (!overrides) return undefined;
+    const kept = Object.entries(overrides).filter(([day]) => keep(day));
+    return kept.length > 0 ? Object.fromEntries(kept) : undefined;
+};
+
+const filterDays = (days: string[] | undefined, keep: (day: string) => boolean) => {
+    const kept = days?.filter(keep);
+    return kept && kept.length > 0 ? kept : undefined;
+};
+
+/**
+ * The series ended the day before `ymd` (COUNT is replaced by the equivalent UNTIL)
+ */
+export const endSeriesBefore = (series: PlanItem, ymd: string): PlanItem => {
+    const rule = parseSeriesRule(series);
+    if (!rule) return series;
+    const until = addDaysYMD(ymd, -1);
+    return {
+        ...series,
+        rrule: formatRRule({ ...rule, count: undefined, until: rule.until && rule.until < until ? rule.until : until }),
+        exdates: filterDays(series.exdates, before(ymd)),
+        completedDates: filterDays(series.completedDates, before(ymd)),
+        overrides: filterOverrides(series.overrides, before(ymd)),
+    };
+};
+
+/**
+ * The part of the series from the occurrence on `ymd` onwards, as a new series starting on that day.
+ * A COUNT is reduced by the occurrences before the split (removed ones included, as they count too).
+ */
+const seriesFrom = (series: PlanItem, ymd: string, id: string): PlanItem => {
+    const rule = parseSeriesRule(series);
+    if (!rule) return series;
+    let count = rule.count;
+    if (count !== undefined) {
+        let elapsed = 0;
+        for (const occurrence of iterateOccurrences(rule, new Date(series.date))) {
+            if (toLocalYMD(occurrence) >= ymd) break;
+            elapsed++;
+        }
+        count = Math.max(1, count - elapsed);
+    }
+    const start = fromYMD(ymd, series.date);
+    return {
+        ...series,
+        id,
+        date: start,
+        startTime: onDay(series.startTime, start),
+        endTime: onDay(series.endTime, start),
+        rrule: formatRRule({ ...rule, count }),
+        exdates: filterDays(series.exdates, fromDay(ymd)),
+        completedDates: filterDays(series.completedDates, fromDay(ymd)),
+        overrides: filterOverrides(series.overrides, fromDay(ymd)),
+    };
+};
+
+const isFirstOccurrence = (series: PlanItem, ymd: string) => ymd <= toLocalYMD(new Date(series.date));
+
+/** Only the changes a single occurrence can carry */
+const overrideOf = (updates: PlanSeriesUpdate): PlanOccurrenceOverride => {
+    const override: PlanOccurrenceOverride = {};
+    OVERRIDE_FIELDS.forEach(field => {
+        if (updates[field] !== undefined) Object.assign(override, { [field]: updates[field] });
+    });
+    return override;
+};
+
+/** Occurrence state of the old rule does not map onto a new one */
+const withRuleChange = (next: PlanItem, previous: PlanItem): PlanItem =>
+    next.rrule === previous.rrule ? next : { ...next, exdates: undefined, overrides: undefined };
+
+/**
+ * Apply `updates` to the occurrence of `seriesId` on `ymd` with the given scope:
+ * - `this`: only that occurrence (completion and title/description/priority; time and rule changes need a wider scope)
+ * - `following`: the series is split; the new series (id from `newId`) starts on `ymd` with the updates
+ * - `all`: the whole series
+ * Returns `plans` itself when the series does not exist.
+ */
+export const editPlanSeries = (
+    plans: PlanItem[],
+    seriesId: string,
+    ymd: string,
+    updates: PlanSeriesUpdate,
+    scope: SeriesEditScope,
+    newId: () => string
+): PlanItem[] => {
+    const series = plans.find(p => p.id === seriesId);
+    if (!series || !isSeries(series)) return plans;
+    const { completed, ...changes } = updates;
+
+    if (scope === 'this') {
+        let next: PlanItem = { ...series };
+        if (completed !== undefined) {
+            const others = (series.completedDates ?? []).filter(day => day !== ymd);
+            next.completedDates = completed ? [...others, ymd].sort() : filterDays(others, () => true);
+        }
+        const override = overrideOf(changes);
+        if (Object.keys(override).length > 0) {
+            next = { ...next, overrides: { ...series.overrides, [ymd]: { ...series.overrides?.[ymd], ...override } } };
+        }
+        return plans.map(p => (p.id === seriesId ? next : p));
+    }
+
+    if (scope === 'all' || isFirstOccurrence(series, ymd)) {
+        // Time changes keep the series' first day; completion of "all" is not a series-wide state
+        const next: PlanItem = {
+            ...series,
+            ...changes,
+            startTime: changes.startTime ? onDay(changes.startTime, new Date(series.date)) : series.startTime,
+            endTime: changes.endTime ? onDay(changes.endTime, new Date(series.date)) : series.endTime,
+        };
+        return plans.map(p => (p.id === seriesId ? withRuleChange(next, series) : p));
+    }
+
+    const tail = seriesFrom(series, ymd, newId());
+    const split: PlanItem = withRuleChange({
+        ...tail,
+        ...changes,
+        startTime: changes.startTime ? onDay(changes.startTime, tail.date) : tail.startTime,
+        endTime: changes.endTime ? onDay(changes.endTime, tail.date) : tail.endTime,
+    }, tail);
+    return [...plans.map(p => (p.id === seriesId ? endSeriesBefore(series, ymd) : p)), split];
+};
+
+/**
+ * Remove occurrences of a series: `this` adds an exception date, `following` ends the series before `ymd`.
+ * Returns null when the whole series goes (scope `all`, or `following` from its first occurrence).
+ */
+export const removeFromSeries = (series: PlanItem, ymd: string, scope: SeriesEditScope): PlanItem | null => {
+    if (scope === 'all' || (scope === 'following' && isFirstOccurrence(series, ymd))) return null;
+    if (scope === 'following') return endSeriesBefore(series, ymd);
+    return {
+        ...series,
+        exdates: Array.from(new Set([...(series.exdates ?? []), ymd])).sort(),
+        completedDates: filterDays(series.completedDates, day => day !== ymd),
+        overrides: filterOverrides(series.overrides, day => day !== ymd),
+    };
+};
+
+/**
+ * Plans with their start / end times moved from `fromZone` to the same wall-clock time in `toZone`.
+ * Returns `plans` itself when none has a time.
+ */
+export const reanchorPlanTimes = (plans: PlanItem[], fromZone: string, toZone: string): PlanItem[] => {
+    if (fromZone === toZone || !plans.some(p => p.startTime || p.endTime)) return plans;
+    return plans.map(plan => (plan.startTime || plan.endTime ? {
+        ...plan,
+        startTime: plan.startTime ? reanchorDate(new Date(plan.startTime), fromZone, toZone) : undefined,
+        endTime: plan.endTime ? reanchorDate(new Date(plan.endTime), fromZone, toZone) : undefined,
+    } : plan));
+};
@@ -0,0 +1,104 @@
+/**
+ * rateHistory.ts
+ * Exchange rates per day, so amounts are converted at the rate of their own date (a transaction's day, an
+ * invoice's issue date) rather than today's.
+ *
+ * Rates are relative to HUF (1 unit = X HUF), like CurrencyService's current rates. A day holds only the
+ * currencies recorded that day; a lookup takes each currency from the nearest earlier day that has it, and falls
+ * back to the current rates for dates before any recorded one.
+ *
+ * Pure functions; the worker gets the same data as CurrencyService (DatedRates).
+ */
+
+/** Rates relative to HUF, as stored by CurrencyService */
+export type RateTable = Record<string, number>;
+
+/** Recorded rates by day (YYYY-MM-DD) */
+export type RateHistory = Record<string, RateTable>;
+
+export interface DatedRates {
+    current: RateTable;
+    history: RateHistory;
+    /** Changes whenever `history` does, so caches can tell without comparing it */
+    revision: number;
+}
+
+/** Rates on a day (YYYY-MM-DD), or the current rates when no day is given */
+export type RateLookup = (ymd?: string) => RateTable;
+
+const TECHNICAL_BASE = 'HUF';
+
+/**
+ * Convert using HUF as the hub for any-to-any conversion (same rules as CurrencyService.convert)
+ */
+export const convertWithRates = (amount: number, from: string, to: string, rates: RateTable): number => {
+    if (from === to) return amount;
+    const inBase = from === TECHNICAL_BASE ? amount : amount * (rates[from] || 1);
+    return to === TECHNICAL_BASE ? inBase : inBase / (rates[to] || 1);
+};
+
+/**
+ * `history` with `rates` recorded on `ymd` (merged into what that day already has).
+ * Non-positive or non-numeric rates are ignored; returns `history` itself when nothing changes.
+ */
+export const recordRates = (history: RateHistory, ymd: string, rates: RateTable): RateHistory => {
+    const valid = Object.entries(rates).filter(([currency, rate]) =>
+        currency !== TECHNICAL_BASE && typeof rate === 'number' && Number.isFinite(rate) && rate > 0);
+    const day = history[ymd] ?? {};
+    if (valid.every(([currency, rate]) => day[currency] === rate)) return history;
+    return { ...history, [ymd]: { ...day, ...Object.fromEntries(valid) } };
+};
+
+/**
+ * Last index in the sorted `days` on or before `ymd`, -1 if none
+ */
+const lastDayIndex = (days: string[], ymd: string): number => {
+    let low = 0;
+    let high = days.length - 1;
+    let found = -1;
+    while (low <= high) {
+        const mid = (low + high) >> 1;
+        if (days[mid] <= ymd) {
+            found = mid;
+            low = mid + 1;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return found;
+};
+
+/**
+ * Rates in effect on `ymd`: for each currency, the one of the nearest recorded day on or before it
+ */
+export const ratesOn = (dated: Pick<DatedRates, 'current' | 'history'>, ymd: string, days: string[] = Object.keys(dated.history).sort()): RateTable => {
+    const result: RateTable = { ...dated.current };
+    const index = lastDayIndex(days, ymd);
+    if (index < 0) return result;
+    const resolved = new Set<string>();
+    for (let i = index; i >= 0; i--) {
+        Object.entries(dated.history[days[i]]).forEach(([currency, rate]) => {
+            if (resolved.has(currency)) return;
+            resolved.add(currency);
+            result[currency] = rate;
+        });
+    }
+    return result;
+};
+
+/**
+ * Memoised lookup over `dated` (one table per day asked for)
+ */
+export const createRateLookup = (dated: Pick<DatedRates, 'current' | 'history'>): RateLookup => {
+    const days = Object.keys(dated.history).sort();
+    const cache = new Map<string, RateTable>();
+    return (ymd?: string) => {
+        if (!ymd || days.length === 0) return dated.current;
+        let table = cache.get(ymd);
+        if (!table) {
+            table = ratesOn(dated, ymd, days);
+            cache.set(ymd, table);
+        }
+        return table;
+    };
+};
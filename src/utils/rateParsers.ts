@@ -0,0 +1,171 @@
+/**
+ * rateParsers.ts
+ * Parsers for the exchange-rate sources CurrencyService can use: the ECB euro reference rates (XML), the
+ * Magyar Nemzeti Bank official rates (SOAP / XML), Frankfurter (JSON) and rate files imported by hand (CSV or
+ * either XML format).
+ *
+ * Every parser returns rates relative to HUF (1 unit = X HUF, see utils/rateHistory) per day, newest day first.
+ * Regex based rather than DOMParser, so they run the same in the browser, a worker and Node.
+ */
+
+import { RateTable } from './rateHistory';
+
+export interface RateSnapshot {
+    /** YYYY-MM-DD the rates were published for */
+    date: string;
+    rates: RateTable;
+}
+
+export class RateParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RateParseError';
+    }
+}
+
+const TECHNICAL_BASE = 'HUF';
+
+const isYMD = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+/** Attributes of an XML start tag, by name */
+const attributes = (tag: string): Record<string, string> => {
+    const result: Record<string, string> = {};
+    for (const match of tag.matchAll(/([\w:-]+)\s*=\s*"([^"]*)"|([\w:-]+)\s*=\s*'([^']*)'/g)) {
+        result[match[1] ?? match[3]] = match[2] ?? match[4];
+    }
+    return result;
+};
+
+const decodeEntities = (text: string): string =>
+    text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+        .replace(/&amp;/g, '&');
+
+/** "390,12" or "390.12" */
+const parseNumber = (value: string): number => Number(value.trim().replace(/\s/g, '').replace(',', '.'));
+
+const validRates = (rates: RateTable): RateTable =>
+    Object.fromEntries(Object.entries(rates).filter(([, rate]) => Number.isFinite(rate) && rate > 0));
+
+const newestFirst = (snapshots: RateSnapshot[]): RateSnapshot[] =>
+    snapshots.filter(s => Object.keys(s.rates).length > 0).sort((a, b) => b.date.localeCompare(a.date));
+
+/**
+ * ECB euro foreign exchange reference rates (eurofxref-daily.xml, or the -hist / -hist-90d files).
+ * Rates are per 1 EUR, so they are rebased on the EUR/HUF rate of the same day.
+ */
+export const parseEcbXml = (xml: string): RateSnapshot[] => {
+    const snapshots: RateSnapshot[] = [];
+    const days = xml.split(/<Cube\s+time\s*=/).slice(1);
+    if (days.length === 0) throw new RateParseError('No dated rates in the ECB XML');
+
+    days.forEach(chunk => {
+        const date = /^\s*["']([^"']+)["']/.exec(chunk)?.[1] ?? '';
+        if (!isYMD(date)) return;
+        const perEur: RateTable = {};
+        for (const match of chunk.matchAll(/<Cube\s[^>]*currency\s*=[^>]*>/g)) {
+            const { currency, rate } = attributes(match[0]);
+            if (currency && rate) perEur[currency.toUpperCase()] = parseNumber(rate);
+        }
+        const hufPerEur = perEur[TECHNICAL_BASE];
+        // Without a forint rate that day nothing can be rebased
+        if (!hufPerEur) return;
+        const rates: RateTable = { EUR: hufPerEur };
+        Object.entries(perEur).forEach(([currency, rate]) => {
+            if (currency !== TECHNICAL_BASE && rate > 0) rates[currency] = hufPerEur / rate;
+        });
+        snapshots.push({ date, rates: validRates(rates) });
+    });
+
+    if (snapshots.length === 0) throw new RateParseError('The ECB XML has no day with a HUF rate');
+    return newestFirst(snapshots);
+};
+
+/**
+ * MNB official rates: the SOAP response of GetCurrentExchangeRates / GetExchangeRates (the result is XML escaped
+ * inside the envelope), or the bare MNBCurrentExchangeRates / MNBExchangeRates document.
+ * Rates are in HUF per `unit` (100 JPY, ...) with a decimal comma.
+ */
+export const parseMnbXml = (xml: string): RateSnapshot[] => {
+    const result = /<(?:\w+:)?Get\w*ExchangeRatesResult[^>]*>([\s\S]*?)<\/(?:\w+:)?Get\w*ExchangeRatesResult>/.exec(xml);
+    const document = result ? decodeEntities(result[1]) : xml;
+    const snapshots: RateSnapshot[] = [];
+
+    for (const day of document.matchAll(/<Day\b([^>]*)>([\s\S]*?)<\/Day>/g)) {
+        const date = attributes(day[1]).date ?? '';
+        if (!isYMD(date)) continue;
+        const rates: RateTable = {};
+        for (const rate of day[2].matchAll(/<Rate\b([^>]*)>([^<]*)<\/Rate>/g)) {
+            const { curr, unit } = attributes(rate[1]);
+            if (!curr) continue;
+            rates[curr.toUpperCase()] = parseNumber(rate[2]) / (unit ? parseNumber(unit) || 1 : 1);
+        }
+        snapshots.push({ date, rates: validRates(rates) });
+    }
+
+    if (snapshots.length === 0) throw new RateParseError('No dated rates in the MNB response');
+    return newestFirst(snapshots);
+};
+
+/**
+ * Frankfurter `/latest?from=HUF` (or `/{date}?from=HUF`): 1 HUF = x units, inverted to 1 unit = 1/x HUF
+ */
+export const parseFrankfurterJson = (data: unknown): RateSnapshot[] => {
+    const body = data as { base?: unknown; date?: unknown; rates?: unknown } | null;
+    if (!body || typeof body.rates !== 'object' || body.rates === null) throw new RateParseError('No rates in the Frankfurter response');
+    if (body.base !== undefined && body.base !== TECHNICAL_BASE) throw new RateParseError(`Expected HUF based rates, got ${String(body.base)}`);
+    const date = typeof body.date === 'string' && isYMD(body.date) ? body.date : '';
+    if (!date) throw new RateParseError('The Frankfurter response has no date');
+
+    const rates: RateTable = {};
+    Object.entries(body.rates as Record<string, unknown>).forEach(([currency, rate]) => {
+        if (typeof rate === 'number' && rate > 0) rates[currency.toUpperCase()] = 1 / rate;
+    });
+    return newestFirst([{ date, rates }]);
+};
+
+/**
+ * Rate CSV: one rate per line as `date,currency,rate` (HUF per 1 unit), optionally with a header line and an
+ * optional 4th `unit` column. `;` or tab separators work too, and so does a decimal comma with `;`.
+ * A comma-separated line with more cells than that is ambiguous (`EUR,390,12` may be 390.12) and is rejected,
+ * unless a header names the unit column. Lines without a date use `defaultDate`.
+ */
+export const parseRateCsv = (csv: string, defaultDate?: string): RateSnapshot[] => {
+    const byDay = new Map<string, RateTable>();
+    let hasUnitColumn = false;
+    csv.split(/\r?\n/).forEach((line, index) => {
+        const trimmed = line.trim();
+        if (!trimmed || trimmed.startsWith('#')) return;
+        const separator = trimmed.includes(';') ? ';' : trimmed.includes('\t') ? '\t' : ',';
+        const cells = trimmed.split(separator).map(cell => cell.trim().replace(/^"|"$/g, ''));
+        if (cells.some(cell => /^(unit|units|egység)$/i.test(cell))) hasUnitColumn = true;
+        const dated = isYMD(cells[0]);
+        const [date, currency, ...values] = dated ? cells : [defaultDate ?? '', ...cells];
+        if (!isYMD(date) || !/^[A-Za-z]{3}$/.test(currency ?? '')) return; // header or malformed line
+        if (separator === ',' && values.length > (hasUnitColumn ? 2 : 1)) {
+            throw new RateParseError(`Line ${index + 1}: ambiguous decimal comma - separate the columns with ";" or add a header with a unit column`);
+        }
+        const [rateText, unitText] = values;
+        const rate = parseNumber(rateText ?? '') / (unitText ? parseNumber(unitText) || 1 : 1);
+        if (!Number.isFinite(rate) || rate <= 0) return;
+        byDay.set(date, { ...byDay.get(date), [currency.toUpperCase()]: rate });
+    });
+
+    if (byDay.size === 0) throw new RateParseError('No rates found in the CSV (expected date,currency,rate lines)');
+    return newestFirst(Array.from(byDay, ([date, rates]) => ({ date, rates })));
+};
+
+/**
+ * A rate file picked for offline import: MNB or ECB XML, or CSV
+ */
+export const parseRateFile = (text: string, defaultDate?: string): RateSnapshot[] => {
+    const content = text.replace(/^\uFEFF/, '').trim();
+    if (!content.startsWith('<')) return parseRateCsv(content, defaultDate);
+    if (/MNB\w*ExchangeRates|<Day\b/.test(content)) return parseMnbXml(content);
+    if (/<Cube\b/.test(content)) return parseEcbXml(content);
+    throw new RateParseError('Unknown XML rate format (expected ECB or MNB rates)');
+};
@@ -0,0 +1,183 @@
+/**
+ * recurringCatchUp.ts
+ * Generates the missed occurrences of recurring transactions ("catch-up").
+ *
+ * Pure functions, so the catch-up can run in the finance worker as well as on the main thread.
+ * A recurring master's `date` is always its next due occurrence of its recurrence rule (utils/rrule);
+ * every occurrence up to today becomes a `history` transaction with the id `${masterId}_${YYYY-MM-DD}` (historyIdFor).
+ */
+
+import { Transaction } from '../types/planner';
+import { RecurrenceRule, RRuleFrequency, iterateOccurrences, parseRRule, ruleFromPeriod, toLocalYMD } from './rrule';
+
+/** Safety brake per frequency (daily can be many) */
+const MAX_CATCHUP: Record<RRuleFrequency, number> = {
+    DAILY: 3660, // ~10 years daily
+    WEEKLY: 1040, // ~20 years weekly
+    MONTHLY: 600, // 50 years
+    YEARLY: 200,
+};
+
+export interface RecurringCatchUp {
+    /**
+     * Masters whose next occurrence moved forward: `previousDate` is the date the catch-up started from.
+     * `ended` = the rule has no occurrences left (COUNT/UNTIL); `recurrenceStart` pins DTSTART on masters without one.
+     */
+    masters: { id: string; previousDate: number; date: Date; ended?: boolean; recurrenceStart?: string }[];
+    history: Transaction[];
+}
+
+/**
+ * End of the browser's today. The app catches up to the end of today in the configured zone
+ * (TimeZoneService.endOfToday) and passes it in as `now`.
+ */
+export const endOfToday = (): Date => {
+    const d = new Date();
+    d.setHours(23, 59, 59, 999);
+    return d;
+};
+
+/** Id of the history transaction a master generates for the occurrence on `ymd` (YYYY-MM-DD) */
+export const historyIdFor = (masterId: string, ymd: string): string => `${masterId}_${ymd}`;
+
+/**
+ * The history transaction of one occurrence: a copy of the master without its recurrence
+ */
+export const historyFromMaster = (master: Transaction, occurrence: Date, createdAtISO: string): Transaction => {
+    const dayKey = toLocalYMD(occurrence);
+    return {
+        ...master,
+        id: historyIdFor(master.id, dayKey),
+        originId: master.id,
+        kind: 'history',
+        date: new Date(occurrence),
+        effectiveDateYMD: dayKey, // Explicit sync for engine alignment
+        recurring: false,
+        // The rule belongs to the master only
+        rrule: undefined,
+        recurrenceStart: undefined,
+        exdates: undefined,
+        splitFromId: undefined,
+        createdAtISO,
+    };
+};
+
+/**
+ * Recurrence rule and DTSTART of a master: its `rrule`, or the rule equivalent of its `period`
+ */
+export const recurrenceOf = (t: Transaction): { rule: RecurrenceRule; start: Date } | null => {
+    const start = new Date(t.recurrenceStart ?? t.date);
+    if (Number.isNaN(start.getTime())) return null;
+    if (t.rrule) {
+        try {
+            return { rule: parseRRule(t.rrule), start };
+        } catch (e) {
+            console.warn(`Invalid recurrence rule on transaction ${t.id}:`, e);
+            return null;
+        }
+    }
+    const rule = ruleFromPeriod(t.period, start);
+    return rule ? { rule, start } : null;
+};
+
+/**
+ * Catch every recurring master up to `now`.
+ * Occurrences that already exist or were skipped (deleted by the user) are not generated again.
+ */
+export const catchUpRecurring = (
+    transactions: Iterable<Transaction>,
+    skips: ReadonlySet<string>,
+    now: Date = endOfToday()
+): RecurringCatchUp => {
+    const all = Array.from(transactions);
+    // quick lookup existing ids to avoid O(n^2)
+    const existingIds = new Set(all.map(t => t.id));
+    const result: RecurringCatchUp = { masters: [], history: [] };
+    const createdAtISO = new Date().toISOString();
+
+    all.forEach(master => {
+        // only recurring masters are processed (trashed ones stay frozen until restored)
+        if (!master.recurring || master.deletedAt) return;
+        const recurrence = recurrenceOf(master);
+        if (!recurrence) return;
+
+        const masterDate = new Date(master.date);
+        // Invalid date, or next occurrence in the future -> nothing to catch up
+        if (Number.isNaN(masterDate.getTime()) || masterDate.getTime() > now.getTime()) return;
+
+        const maxCatchUp = MAX_CATCHUP[recurrence.rule.freq];
+        let next: Date | null = null;
+        let last = masterDate;
+        let iterations = 0;
+
+        for (const occurrence of iterateOccurrences(recurrence.rule, recurrence.start, master.exdates)) {
+            // Occurrences before the master's date were handled by earlier catch-ups
+            if (occurrence.getTime() < masterDate.getTime()) continue;
+            if (occurrence.getTime() > now.getTime() || iterations >= maxCatchUp) {
+                next = occurrence;
+                break;
+            }
+
+            const historyId = historyIdFor(master.id, toLocalYMD(occurrence));
+            if (!existingIds.has(historyId) && !skips.has(historyId)) {
+                existingIds.add(historyId); // prevent duplicate generation in the same pass
+                result.history.push(historyFromMaster(master, occurrence, createdAtISO));
+            }
+            last = occurrence;
+            iterations++;
+        }
+
+        const ended = next === null;
+        const date = next ?? last;
+        if (!ended && date.getTime() === masterDate.getTime()) return;
+        result.masters.push({
+            id: master.id,
+            previousDate: masterDate.getTime(),
+            date,
+            ...(ended && { ended }),
+            ...(!master.recurrenceStart && { recurrenceStart: recurrence.start.toISOString() }),
+        });
+    });
+
+    return result;
+};
+
+/**
+ * Merge a catch-up result into the current transactions.
+ * The catch-up may have been computed from an older snapshot (in the worker), so masters that were edited
+ * meanwhile are left alone and occurrences that exist or were skipped by now are dropped.
+ * Returns `transactions` itself when nothing changes.
+ */
+export const applyRecurringCatchUp = (
+    transactions: Transaction[],
+    catchUp: RecurringCatchUp,
+    skips: ReadonlySet<string>
+): Transaction[] => {
+    const existingIds = new Set(transactions.map(t => t.id));
+    const advanced = new Map(catchUp.masters.map(master => [master.id, master]));
+    const staleMasters = new Set<string>();
+    let changed = false;
+
+    const updated = transactions.map(tr => {
+        const master = advanced.get(tr.id);
+        if (!master) return tr;
+        if (!tr.recurring || tr.deletedAt || new Date(tr.date).getTime() !== master.previousDate) {
+            staleMasters.add(tr.id);
+            return tr;
+        }
+        changed = true;
+        return {
+            ...tr,
+            kind: 'master' as const,
+            date: new Date(master.date),
+            ...(master.recurrenceStart && { recurrenceStart: master.recurrenceStart }),
+            // A finished series (COUNT/UNTIL reached) stops being a recurring master
+            ...(master.ended && { recurring: false }),
+        };
+    });
+
+    const history = catchUp.history.filter(h =>
+        !existingIds.has(h.id) && !skips.has(h.id) && !staleMasters.has(h.originId ?? '') && existingIds.has(h.originId ?? ''));
+    if (!changed && history.length === 0) return transactions;
+    return [...updated, ...history];
+};
@@ -0,0 +1,223 @@
+/**
+ * recurringSeries.ts
+ * The series editor's view of recurring transactions: occurrences of a master, skipping and un-skipping them,
+ * and splitting a master at a date so changes apply from that date onwards ("this and following").
+ *
+ * An occurrence is skipped when its history transaction is in the trash, was purged (its id is in
+ * 'recurring-skips'), or - before it was generated - its date is an EXDATE of the master.
+ */
+
+import { Transaction } from '../types/planner';
+import { historyFromMaster, historyIdFor, recurrenceOf } from './recurringCatchUp';
+import { addDaysYMD, formatRRule, iterateOccurrences, toLocalYMD } from './rrule';
+import { moveToTrash, restoreTrashed } from './trash';
+
+export type OccurrenceStatus = 'posted' | 'skipped' | 'upcoming';
+
+export interface SeriesOccurrence {
+    ymd: string;
+    date: Date;
+    status: OccurrenceStatus;
+    /** The history transaction generated for it (live, or in the trash when skipped) */
+    history?: Transaction;
+}
+
+/** One master of a series with its occurrences */
+export interface RecurringSeriesPart {
+    master: Transaction;
+    occurrences: SeriesOccurrence[];
+}
+
+/** Fields that can change from a given occurrence onwards */
+export type SeriesChanges = Partial<Pick<Transaction, 'amount' | 'description' | 'category' | 'currency' | 'type' | 'interestRate'>>;
+
+const isYMD = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+/**
+ * The occurrence of a master's rule on `ymd` (EXDATEs included), or null when the rule has none that day
+ */
+export const occurrenceOn = (master: Transaction, ymd: string): Date | null => {
+    const recurrence = recurrenceOf(master);
+    if (!recurrence) return null;
+    for (const occurrence of iterateOccurrences(recurrence.rule, recurrence.start)) {
+        const day = toLocalYMD(occurrence);
+        if (day === ymd) return occurrence;
+        if (day > ymd) return null;
+    }
+    return null;
+};
+
+/**
+ * All masters of the series `masterId` belongs to, oldest first (linked by `splitFromId`)
+ */
+export const seriesChain = (transactions: Transaction[], masterId: string): Transaction[] => {
+    const byId = new Map(transactions.map(t => [t.id, t]));
+    let root = byId.get(masterId);
+    if (!root) return [];
+    const seen = new Set([root.id]);
+    while (root.splitFromId && byId.has(root.splitFromId) && !seen.has(root.splitFromId)) {
+        root = byId.get(root.splitFromId)!;
+        seen.add(root.id);
+    }
+
+    const chain = [root];
+    const inChain = new Set([root.id]);
+    for (let current = root; ;) {
+        const next = transactions.find(t => t.splitFromId === current.id && t.kind !== 'history' && !inChain.has(t.id));
+        if (!next) break;
+        inChain.add(next.id);
+        chain.push(next);
+        current = next;
+    }
+    return chain;
+};
+
+/**
+ * Occurrences of one master: everything it generated or skipped so far, and the next `upcomingLimit` ones
+ */
+export const masterOccurrences = (
+    master: Transaction,
+    transactions: Transaction[],
+    skips: ReadonlySet<string>,
+    upcomingLimit = 12
+): SeriesOccurrence[] => {
+    const histories = new Map(transactions.filter(t => t.originId === master.id && t.kind === 'history').map(t => [t.id, t]));
+    const result = new Map<string, SeriesOccurrence>();
+
+    histories.forEach(history => {
+        const date = new Date(history.date);
+        const ymd = history.effectiveDateYMD ?? toLocalYMD(date);
+        result.set(ymd, { ymd, date, status: history.deletedAt ? 'skipped' : 'posted', history });
+    });
+
+    // Purged history and EXDATEs the catch-up already passed
+    const nextDue = new Date(master.date).getTime();
+    const prefix = historyIdFor(master.id, '');
+    const passedDays = [
+        ...Array.from(skips).filter(id => id.startsWith(prefix)).map(id => id.slice(prefix.length)),
+        ...(master.exdates ?? []),
+    ];
+    passedDays.forEach(ymd => {
+        if (!isYMD(ymd) || result.has(ymd)) return;
+        const date = occurrenceOn(master, ymd);
+        if (date && date.getTime() < nextDue) result.set(ymd, { ymd, date, status: 'skipped' });
+    });
+
+    const recurrence = master.recurring && !master.deletedAt ? recurrenceOf(master) : null;
+    if (recurrence) {
+        const exdates = new Set(master.exdates);
+        let upcoming = 0;
+        for (const date of iterateOccurrences(recurrence.rule, recurrence.start)) {
+            if (upcoming >= upcomingLimit) break;
+            if (date.getTime() < nextDue) continue;
+            const ymd = toLocalYMD(date);
+            upcoming++;
+            if (result.has(ymd)) continue;
+            const skipped = exdates.has(ymd) || skips.has(historyIdFor(master.id, ymd));
+            result.set(ymd, { ymd, date, status: skipped ? 'skipped' : 'upcoming' });
+        }
+    }
+
+    return Array.from(result.values()).sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+/**
+ * Skip or un-skip the occurrence of `masterId` on `ymd`.
+ * Generated occurrences move to / come back from the trash; upcoming ones become / stop being EXDATEs.
+ * Un-skipping an occurrence the catch-up has already passed generates its history right away, and returns the
+ * purged id that has to leave 'recurring-skips' in `skipsRemoved`.
+ */
+export const setOccurrenceSkipped = (
+    transactions: Transaction[],
+    masterId: string,
+    ymd: string,
+    skipped: boolean,
+    skips: ReadonlySet<string>,
+    now: Date = new Date()
+): { transactions: Transaction[]; skipsRemoved: string[] } => {
+    const unchanged = { transactions, skipsRemoved: [] };
+    const master = transactions.find(t => t.id === masterId);
+    if (!master) return unchanged;
+    const id = historyIdFor(masterId, ymd);
+    const history = transactions.find(t => t.id === id);
+    const exdates = new Set(master.exdates);
+
+    if (skipped) {
+        if (history) return { transactions: moveToTrash(transactions, new Set([id]), now.toISOString()), skipsRemoved: [] };
+        if (exdates.has(ymd)) return unchanged;
+        exdates.add(ymd);
+        return { transactions: transactions.map(t => (t.id === masterId ? { ...t, exdates: Array.from(exdates).sort() } : t)), skipsRemoved: [] };
+    }
+
+    let next = transactions;
+    if (exdates.delete(ymd)) {
+        next = next.map(t => (t.id === masterId ? { ...t, exdates: exdates.size > 0 ? Array.from(exdates).sort() : undefined } : t));
+    }
+    if (history) return { transactions: restoreTrashed(next, new Set([id])), skipsRemoved: [] };
+
+    // Later occurrences are generated by the catch-up when they are due
+    const occurrence = occurrenceOn(master, ymd);
+    if (occurrence && occurrence.getTime() < new Date(master.date).getTime()) {
+        next = [...next, historyFromMaster(master, occurrence, now.toISOString())];
+    }
+    return { transactions: next, skipsRemoved: skips.has(id) ? [id] : [] };
+};
+
+/**
+ * Apply `changes` from the occurrence on `ymd` onwards.
+ * The master ends the day before (COUNT becomes the equivalent UNTIL) and a new master with the changes continues
+ * the series from `ymd`, with the remaining COUNT. From the master's next due occurrence the master itself changes.
+ * Only upcoming occurrences can be split at; returns `transactions` itself otherwise.
+ */
+export const splitRecurringMaster = (
+    transactions: Transaction[],
+    masterId: string,
+    ymd: string,
+    changes: SeriesChanges,
+    newId: () => string,
+    now: Date = new Date()
+): Transaction[] => {
+    const master = transactions.find(t => t.id === masterId);
+    const recurrence = master ? recurrenceOf(master) : null;
+    const occurrence = master ? occurrenceOn(master, ymd) : null;
+    if (!master || !recurrence || !occurrence) return transactions;
+
+    const nextDue = new Date(master.date);
+    if (occurrence.getTime() < nextDue.getTime()) return transactions;
+    if (ymd === toLocalYMD(nextDue)) return transactions.map(t => (t.id === masterId ? { ...t, ...changes } : t));
+
+    const { rule, start } = recurrence;
+    let count = rule.count;
+    if (count !== undefined) {
+        let elapsed = 0;
+        for (const date of iterateOccurrences(rule, start)) {
+            if (toLocalYMD(date) >= ymd) break;
+            elapsed++;
+        }
+        count = Math.max(1, count - elapsed);
+    }
+    const until = addDaysYMD(ymd, -1);
+    const exdates = master.exdates ?? [];
+    const before = exdates.filter(day => day < ymd);
+    const after = exdates.filter(day => day >= ymd);
+
+    const head: Transaction = {
+        ...master,
+        rrule: formatRRule({ ...rule, count: undefined, until: rule.until && rule.until < until ? rule.until : until }),
+        recurrenceStart: start.toISOString(),
+        exdates: before.length > 0 ? before : undefined,
+    };
+    const tail: Transaction = {
+        ...master,
+        ...changes,
+        id: newId(),
+        kind: 'master',
+        date: occurrence,
+        rrule: formatRRule({ ...rule, count }),
+        recurrenceStart: occurrence.toISOString(),
+        exdates: after.length > 0 ? after : undefined,
+        splitFromId: master.id,
+        createdAtISO: now.toISOString(),
+    };
+    return [...transactions.map(t => (t.id === masterId ? head : t)), tail];
+};
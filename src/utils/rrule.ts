@@ -0,0 +1,393 @@
+/**
+ * rrule.ts
+ * RFC 5545 recurrence rules (the RRULE part of iCalendar) for recurring transactions and plans.
+ *
+ * Supported: FREQ (DAILY/WEEKLY/MONTHLY/YEARLY), INTERVAL, BYDAY (with ordinals such as 2FR or -1MO),
+ * BYMONTHDAY (negative = from the end of the month), BYMONTH, BYSETPOS, COUNT, UNTIL, WKST; exception dates
+ * are passed separately as EXDATEs. Everything runs in local time and keeps the wall-clock time of DTSTART.
+ *
+ * Examples:
+ *   FREQ=WEEKLY;INTERVAL=2;BYDAY=FR                     every 2 weeks on Friday
+ *   FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1       last business day of the month
+ *   FREQ=MONTHLY;COUNT=12                               12 monthly instalments
+ */
+
+import { TransactionPeriod } from '../types/planner';
+
+export type RRuleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+export type Weekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+export interface WeekdaySpec {
+    weekday: Weekday;
+    /** nth occurrence within the month (or year); negative counts from the end; omitted = every */
+    n?: number;
+}
+
+export interface RecurrenceRule {
+    freq: RRuleFrequency;
+    interval: number;
+    byDay?: WeekdaySpec[];
+    /** 1..31 or -31..-1 */
+    byMonthDay?: number[];
+    /** 1..12 */
+    byMonth?: number[];
+    bySetPos?: number[];
+    count?: number;
+    /** Last allowed date (inclusive), YYYY-MM-DD */
+    until?: string;
+    wkst?: Weekday;
+}
+
+export class RRuleError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RRuleError';
+    }
+}
+
+/** In JS `getDay()` order */
+export const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: RRuleFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+/** Stop looking once this many periods in a row produced nothing (e.g. BYMONTH=2;BYMONTHDAY=30) */
+const MAX_EMPTY_PERIODS = 5000;
+
+// --- Dates (local time) ---
+
+const pad2 = (n: number) => String(n).padStart(2, '0');
+
+export const toLocalYMD = (d: Date): string => `${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())}`;
+
+/** The YYYY-MM-DD date `days` calendar days after (or before) `ymd` */
+export const addDaysYMD = (ymd: string, days: number): string => {
+    const [year, month, day] = ymd.split('-').map(Number);
+    return toLocalYMD(new Date(year, month - 1, day + days));
+};
+
+const daysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
+
+/** Same wall-clock time as `time`, on the given day */
+const atTimeOf = (time: Date, year: number, month: number, day: number) =>
+    new Date(year, month, day, time.getHours(), time.getMinutes(), time.getSeconds(), time.getMilliseconds());
+
+// --- Parsing / formatting ---
+
+const parseIntList = (name: string, value: string, min: number, max: number, allowNegative: boolean): number[] =>
+    value.split(',').map(part => {
+        const n = Number(part);
+        const abs = Math.abs(n);
+        if (!Number.isInteger(n) || abs < min || abs > max || (n < 0 && !allowNegative)) {
+            throw new RRuleError(`Invalid ${name} value: ${part}`);
+        }
+        return n;
+    });
+
+const parseWeekday = (value: string): Weekday => {
+    if (!WEEKDAYS.includes(value as Weekday)) throw new RRuleError(`Invalid weekday: ${value}`);
+    return value as Weekday;
+};
+
+const parseByDay = (value: string): WeekdaySpec[] =>
+    value.split(',').map(part => {
+        const m = /^([+-]?\d{1,2})?([A-Z]{2})$/.exec(part);
+        if (!m) throw new RRuleError(`Invalid BYDAY value: ${part}`);
+        const weekday = parseWeekday(m[2]);
+        if (m[1] === undefined) return { weekday };
+        const n = Number(m[1]);
+        if (n === 0 || Math.abs(n) > 53) throw new RRuleError(`Invalid BYDAY ordinal: ${part}`);
+        return { weekday, n };
+    });
+
+/** UNTIL is either a date (YYYYMMDD) or a date-time (YYYYMMDDTHHMMSS[Z]); only the local date is kept */
+const parseUntil = (value: string): string => {
+    const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value);
+    if (!m) throw new RRuleError(`Invalid UNTIL value: ${value}`);
+    if (!m[4]) return `${m[1]}-${m[2]}-${m[3]}`;
+    const parts = [Number(m[1]), Number(m[2]) - 1, Number(m[3]), Number(m[4]), Number(m[5]), Number(m[6])] as const;
+    return toLocalYMD(m[7] ? new Date(Date.UTC(...parts)) : new Date(...parts));
+};
+
+/**
+ * Parse an RRULE value (`FREQ=...;...`, an optional `RRULE:` prefix is accepted)
+ * @throws RRuleError on unknown or malformed parts
+ */
+export const parseRRule = (text: string): RecurrenceRule => {
+    const body = text.trim().replace(/^RRULE:/i, '');
+    const rule: Partial<RecurrenceRule> = { interval: 1 };
+
+    body.split(';').filter(Boolean).forEach(part => {
+        const [rawName, value] = part.split('=');
+        const name = rawName?.toUpperCase();
+        if (!name || !value) throw new RRuleError(`Invalid rule part: ${part}`);
+        const upper = value.toUpperCase();
+        switch (name) {
+            case 'FREQ':
+                if (!FREQUENCIES.includes(upper as RRuleFrequency)) throw new RRuleError(`Unsupported FREQ: ${value}`);
+                rule.freq = upper as RRuleFrequency;
+                break;
+            case 'INTERVAL':
+                [rule.interval] = parseIntList(name, value, 1, 10000, false);
+                break;
+            case 'COUNT':
+                [rule.count] = parseIntList(name, value, 1, 100000, false);
+                break;
+            case 'UNTIL': rule.until = parseUntil(upper); break;
+            case 'BYDAY': rule.byDay = parseByDay(upper); break;
+            case 'BYMONTHDAY': rule.byMonthDay = parseIntList(name, value, 1, 31, true); break;
+            case 'BYMONTH': rule.byMonth = parseIntList(name, value, 1, 12, false); break;
+            case 'BYSETPOS': rule.bySetPos = parseIntList(name, value, 1, 366, true); break;
+            case 'WKST': rule.wkst = parseWeekday(upper); break;
+            default:
+                throw new RRuleError(`Unsupported rule part: ${name}`);
+        }
+    });
+
+    if (!rule.freq) throw new RRuleError('FREQ is required');
+    if (rule.byDay?.some(spec => spec.n !== undefined) && rule.freq !== 'MONTHLY' && rule.freq !== 'YEARLY') {
+        throw new RRuleError('BYDAY ordinals are only allowed with FREQ=MONTHLY or FREQ=YEARLY');
+    }
+    if (rule.count !== undefined && rule.until !== undefined) throw new RRuleError('COUNT and UNTIL cannot be combined');
+    return rule as RecurrenceRule;
+};
+
+export const isValidRRule = (text: string): boolean => {
+    try {
+        parseRRule(text);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+export const formatRRule = (rule: RecurrenceRule): string => {
+    const parts = [`FREQ=${rule.freq}`];
+    if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+    if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+    if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+    if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.map(d => `${d.n ?? ''}${d.weekday}`).join(',')}`);
+    if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+    if (rule.wkst) parts.push(`WKST=${rule.wkst}`);
+    if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+    if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+    return parts.join(';');
+};
+
+/**
+ * The rule equivalent of a legacy `period`. Monthly/yearly dates past the 28th use the last possible day
+ * of shorter months (Jan 31 -> Feb 28 -> Mar 31), like the old clamped month arithmetic.
+ */
+export const ruleFromPeriod = (period: TransactionPeriod | undefined, start: Date): RecurrenceRule | null => {
+    const day = start.getDate();
+    const clampedDays = Array.from({ length: day - 27 }, (_, i) => 28 + i);
+    switch (period) {
+        case 'daily': return { freq: 'DAILY', interval: 1 };
+        case 'weekly': return { freq: 'WEEKLY', interval: 1 };
+        case 'monthly':
+            return day > 28
+                ? { freq: 'MONTHLY', interval: 1, byMonthDay: clampedDays, bySetPos: [-1] }
+                : { freq: 'MONTHLY', interval: 1 };
+        case 'yearly':
+            return day > 28
+                ? { freq: 'YEARLY', interval: 1, byMonth: [start.getMonth() + 1], byMonthDay: clampedDays, bySetPos: [-1] }
+                : { freq: 'YEARLY', interval: 1 };
+        default:
+            return null;
+    }
+};
+
+// --- Expansion ---
+
+/** Days of the month matching a BYDAY list (ordinals count within the month) */
+const weekdaysInMonth = (year: number, month: number, byDay: WeekdaySpec[]): number[] => {
+    const dim = daysInMonth(year, month);
+    const days: number[] = [];
+    byDay.forEach(({ weekday, n }) => {
+        const target = WEEKDAYS.indexOf(weekday);
+        const first = 1 + ((target - new Date(year, month, 1).getDay() + 7) % 7);
+        const matches: number[] = [];
+        for (let d = first; d <= dim; d += 7) matches.push(d);
+        if (n === undefined) days.push(...matches);
+        else {
+            const pick = n > 0 ? matches[n - 1] : matches[matches.length + n];
+            if (pick !== undefined) days.push(pick);
+        }
+    });
+    return days;
+};
+
+/** Candidate days of one month for MONTHLY rules, and for YEARLY rules with BYMONTH */
+const monthCandidates = (rule: RecurrenceRule, year: number, month: number, defaultDay: number): number[] => {
+    const dim = daysInMonth(year, month);
+    let days: number[] | null = null;
+    if (rule.byMonthDay?.length) {
+        days = rule.byMonthDay.map(n => (n > 0 ? n : dim + 1 + n)).filter(d => d >= 1 && d <= dim);
+    }
+    if (rule.byDay?.length) {
+        const weekdays = new Set(weekdaysInMonth(year, month, rule.byDay));
+        days = days ? days.filter(d => weekdays.has(d)) : Array.from(weekdays);
+    }
+    return days ?? (defaultDay <= dim ? [defaultDay] : []);
+};
+
+/** Days of a year matching a BYDAY list (ordinals count within the year) */
+const weekdaysInYear = (year: number, byDay: WeekdaySpec[]): Date[] => {
+    const dates: Date[] = [];
+    byDay.forEach(({ weekday, n }) => {
+        const target = WEEKDAYS.indexOf(weekday);
+        const matches: Date[] = [];
+        const d = new Date(year, 0, 1 + ((target - new Date(year, 0, 1).getDay() + 7) % 7));
+        while (d.getFullYear() === year) {
+            matches.push(new Date(d));
+            d.setDate(d.getDate() + 7);
+        }
+        if (n === undefined) dates.push(...matches);
+        else {
+            const pick = n > 0 ? matches[n - 1] : matches[matches.length + n];
+            if (pick) dates.push(pick);
+        }
+    });
+    return dates;
+};
+
+const matchesDayFilters = (rule: RecurrenceRule, d: Date): boolean => {
+    if (rule.byMonth?.length && !rule.byMonth.includes(d.getMonth() + 1)) return false;
+    if (rule.byMonthDay?.length) {
+        const dim = daysInMonth(d.getFullYear(), d.getMonth());
+        if (!rule.byMonthDay.some(n => (n > 0 ? n : dim + 1 + n) === d.getDate())) return false;
+    }
+    if (rule.byDay?.length && !rule.byDay.some(spec => WEEKDAYS.indexOf(spec.weekday) === d.getDay())) return false;
+    return true;
+};
+
+/**
+ * Candidate occurrences of the `index`-th period (0 = the period containing DTSTART), unsorted
+ */
+const periodCandidates = (rule: RecurrenceRule, dtstart: Date, index: number): Date[] => {
+    const step = index * rule.interval;
+    const y = dtstart.getFullYear();
+    const m = dtstart.getMonth();
+    const day = dtstart.getDate();
+
+    switch (rule.freq) {
+        case 'DAILY': {
+            const d = atTimeOf(dtstart, y, m, day + step);
+            return matchesDayFilters(rule, d) ? [d] : [];
+        }
+        case 'WEEKLY': {
+            const wkst = WEEKDAYS.indexOf(rule.wkst ?? 'MO');
+            const weekStart = day - ((dtstart.getDay() - wkst + 7) % 7) + step * 7;
+            const weekdays = rule.byDay?.length ? rule.byDay.map(spec => WEEKDAYS.indexOf(spec.weekday)) : [dtstart.getDay()];
+            return weekdays
+                .map(wd => atTimeOf(dtstart, y, m, weekStart + ((wd - wkst + 7) % 7)))
+                .filter(d => !rule.byMonth?.length || rule.byMonth.includes(d.getMonth() + 1));
+        }
+        case 'MONTHLY': {
+            const first = new Date(y, m + step, 1);
+            if (rule.byMonth?.length && !rule.byMonth.includes(first.getMonth() + 1)) return [];
+            return monthCandidates(rule, first.getFullYear(), first.getMonth(), day)
+                .map(d => atTimeOf(dtstart, first.getFullYear(), first.getMonth(), d));
+        }
+        case 'YEARLY': {
+            const year = y + step;
+            if (rule.byMonth?.length) {
+                return rule.byMonth.flatMap(month =>
+                    monthCandidates(rule, year, month - 1, day).map(d => atTimeOf(dtstart, year, month - 1, d)));
+            }
+            if (rule.byMonthDay?.length) {
+                return Array.from({ length: 12 }, (_, month) => month).flatMap(month =>
+                    monthCandidates(rule, year, month, day).map(d => atTimeOf(dtstart, year, month, d)));
+            }
+            if (rule.byDay?.length) {
+                return weekdaysInYear(year, rule.byDay).map(d => atTimeOf(dtstart, year, d.getMonth(), d.getDate()));
+            }
+            return day <= daysInMonth(year, m) ? [atTimeOf(dtstart, year, m, day)] : [];
+        }
+    }
+};
+
+const applySetPos = (rule: RecurrenceRule, sorted: Date[]): Date[] => {
+    if (!rule.bySetPos?.length) return sorted;
+    const picked = new Map<number, Date>();
+    rule.bySetPos.forEach(pos => {
+        const d = pos > 0 ? sorted[pos - 1] : sorted[sorted.length + pos];
+        if (d) picked.set(d.getTime(), d);
+    });
+    return Array.from(picked.values()).sort((a, b) => a.getTime() - b.getTime());
+};
+
+/**
+ * Occurrences of `rule` starting at `dtstart`, in order. Ends at COUNT/UNTIL, otherwise the caller stops iterating.
+ * Dates in `exdates` (YYYY-MM-DD) are left out; as in RFC 5545 they still count towards COUNT.
+ */
+export function* iterateOccurrences(rule: RecurrenceRule, dtstart: Date, exdates: Iterable<string> = []): Generator<Date> {
+    if (Number.isNaN(dtstart.getTime())) return;
+    const excluded = new Set(exdates);
+    let produced = 0;
+    let emptyPeriods = 0;
+
+    for (let index = 0; emptyPeriods < MAX_EMPTY_PERIODS; index++) {
+        const seen = new Set<number>();
+        const candidates = periodCandidates(rule, dtstart, index)
+            .filter(d => !seen.has(d.getTime()) && seen.add(d.getTime()))
+            .sort((a, b) => a.getTime() - b.getTime());
+        const occurrences = applySetPos(rule, candidates).filter(d => d.getTime() >= dtstart.getTime());
+
+        if (occurrences.length === 0) {
+            emptyPeriods++;
+            continue;
+        }
+        emptyPeriods = 0;
+
+        for (const occurrence of occurrences) {
+            const ymd = toLocalYMD(occurrence);
+            if (rule.until && ymd > rule.until) return;
+            if (occurrence.getFullYear() > 9999) return;
+            produced++;
+            if (!excluded.has(ymd)) yield occurrence;
+            if (rule.count !== undefined && produced >= rule.count) return;
+        }
+    }
+}
+
+/**
+ * Occurrences within [from, to] (inclusive), at most `limit`
+ */
+export const occurrencesBetween = (
+    rule: RecurrenceRule,
+    dtstart: Date,
+    from: Date,
+    to: Date,
+    exdates: Iterable<string> = [],
+    limit = 10000
+): Date[] => {
+    const result: Date[] = [];
+    for (const occurrence of iterateOccurrences(rule, dtstart, exdates)) {
+        if (occurrence.getTime() > to.getTime() || result.length >= limit) break;
+        if (occurrence.getTime() >= from.getTime()) result.push(occurrence);
+    }
+    return result;
+};
+
+/**
+ * Rough number of occurrences per month, for monthly cash-flow figures (a month counts as 30 days / 4 weeks,
+ * like the legacy `period` figures)
+ */
+export const approxOccurrencesPerMonth = (rule: RecurrenceRule): number => {
+    const days = rule.byDay?.length ?? 0;
+    const perPeriod = (() => {
+        switch (rule.freq) {
+            case 'DAILY': return 30 * (days ? days / 7 : 1);
+            case 'WEEKLY': return 4 * Math.max(1, days);
+            case 'MONTHLY': {
+                if (rule.bySetPos?.length) return rule.bySetPos.length;
+                if (rule.byMonthDay?.length) return rule.byMonthDay.length;
+                return days ? rule.byDay!.reduce((sum, spec) => sum + (spec.n === undefined ? 4 : 1), 0) : 1;
+            }
+            case 'YEARLY': {
+                const months = rule.byMonth?.length ?? 1;
+                return (rule.bySetPos?.length ? rule.bySetPos.length * months : months) / 12;
+            }
+        }
+    })();
+    return perPeriod / rule.interval;
+};
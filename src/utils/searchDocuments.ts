@@ -0,0 +1,118 @@
+/**
+ * searchDocuments.ts
+ * Turns planner records into documents for the global search index.
+ *
+ * Every document gets a `type` filter field with English and (accent-free) Hungarian aliases,
+ * so both `type:invoice` and `type:szamla` work.
+ */
+
+import { Note, PlanItem, Goal, Transaction, Invoice, Client, Habit, ViewType } from '../types/planner';
+import { ProjectWorkflow } from '../types/workflow';
+import { JournalCollection } from './changeJournal';
+import { SearchDocument } from './searchIndex';
+import { formatDate } from './formatters';
+
+export type SearchEntityType = Extract<JournalCollection,
+    'notes' | 'plans' | 'goals' | 'transactions' | 'invoices' | 'clients' | 'workflows' | 'habits'>;
+
+export const SEARCH_ENTITY_TYPES: SearchEntityType[] = [
+    'invoices', 'clients', 'transactions', 'notes', 'plans', 'goals', 'habits', 'workflows',
+];
+
+/** View that shows a record of each type (workflows have no view of their own yet) */
+export const SEARCH_TYPE_VIEWS: Record<SearchEntityType, ViewType | null> = {
+    notes: 'notes',
+    plans: 'daily',
+    goals: 'goals',
+    transactions: 'budget',
+    invoices: 'invoicing',
+    clients: 'invoicing',
+    workflows: null,
+    habits: 'habits',
+};
+
+const TYPE_ALIASES: Record<SearchEntityType, string> = {
+    notes: 'note notes jegyzet',
+    plans: 'plan plans task tasks feladat terv',
+    goals: 'goal goals cel',
+    transactions: 'transaction transactions tx tranzakcio',
+    invoices: 'invoice invoices szamla',
+    clients: 'client clients ugyfel',
+    workflows: 'workflow workflows project projekt munkafolyamat',
+    habits: 'habit habits szokas',
+};
+
+const toYMD = (value: Date | string | undefined): string => {
+    if (!value) return '';
+    const date = value instanceof Date ? value : new Date(value);
+    return Number.isNaN(date.getTime()) ? '' : date.toISOString().slice(0, 10);
+};
+
+const join = (...parts: (string | number | undefined | null | false)[]) =>
+    parts.filter(part => part !== undefined && part !== null && part !== false && part !== '').join(' ');
+
+const doc = (type: SearchEntityType, id: string, title: string, fields: Record<string, string>, text: string, subtitle?: string): SearchDocument => ({
+    key: `${type}:${id}`,
+    type,
+    id,
+    title: title || id,
+    subtitle,
+    fields: { type: TYPE_ALIASES[type], ...fields },
+    text,
+});
+
+export const noteDocument = (note: Note): SearchDocument =>
+    doc('notes', note.id, note.title, { tag: note.tags.join(' ') },
+        join(note.content, note.tags.join(' ')),
+        note.content.slice(0, 80));
+
+export const planDocument = (plan: PlanItem): SearchDocument =>
+    doc('plans', plan.id, plan.title, {
+        priority: plan.priority,
+        status: plan.completed ? 'done completed' : 'open pending',
+        date: toYMD(plan.date),
+    }, plan.description, formatDate(plan.date));
+
+export const goalDocument = (goal: Goal): SearchDocument =>
+    doc('goals', goal.id, goal.title, { status: goal.status, date: toYMD(goal.targetDate) },
+        goal.description, `${Math.round(goal.progress)}% · ${formatDate(goal.targetDate)}`);
+
+export const transactionDocument = (tx: Transaction): SearchDocument =>
+    doc('transactions', tx.id, tx.description, {
+        kind: tx.type,
+        category: tx.category,
+        status: tx.status ?? '',
+        currency: tx.currency ?? '',
+        date: toYMD(tx.date),
+        recurring: tx.kind === 'master' ? 'yes recurring' : 'no',
+    }, join(tx.category, tx.amount, tx.currency, tx.notes, tx.location, (tx.tags ?? []).join(' ')),
+        `${tx.type === 'income' ? '+' : '-'}${tx.amount} ${tx.currency ?? ''} · ${formatDate(tx.date)}`);
+
+/** Invoice documents include the client name, so rebuild them when clients change */
+export const invoiceDocument = (invoice: Invoice, clientsById: Map<string, Client>): SearchDocument => {
+    const client = clientsById.get(invoice.clientId);
+    const clientName = client ? (client.company || client.name) : '';
+    return doc('invoices', invoice.id, invoice.invoiceNumber, {
+        status: invoice.status,
+        client: clientName,
+        currency: invoice.currency,
+        date: toYMD(invoice.issueDate),
+        due: toYMD(invoice.dueDate),
+    }, join(clientName, client?.name, invoice.total, invoice.currency, invoice.notes, invoice.items.map(item => item.description).join(' ')),
+        join(clientName, `${invoice.total} ${invoice.currency}`, formatDate(invoice.dueDate)));
+};
+
+export const clientDocument = (client: Client): SearchDocument =>
+    doc('clients', client.id, client.company || client.name, { city: client.city ?? '', country: client.country ?? '' },
+        join(client.name, client.email, client.phone, client.address, client.city, client.country, client.taxId),
+        join(client.company ? client.name : '', client.email));
+
+export const workflowDocument = (workflow: ProjectWorkflow): SearchDocument =>
+    doc('workflows', workflow.id, workflow.name, { status: workflow.status, due: workflow.dueDate ?? '' },
+        join(workflow.description, workflow.nodes.map(node => join(node.title, node.description)).join(' ')),
+        `${Math.round(workflow.progress)}%`);
+
+export const habitDocument = (habit: Habit): SearchDocument =>
+    doc('habits', habit.id, habit.name, { status: habit.archived ? 'archived' : 'active', period: habit.goal.period },
+        join(habit.description, habit.emoji),
+        join(habit.emoji, habit.description));
@@ -0,0 +1,222 @@
+/**
+ * searchIndex.ts
+ * Incremental in-memory full-text index for the command palette.
+ *
+ * - Text is folded to lowercase without diacritics, so "szamla" finds "számla" and "ő"/"ű" match "o"/"u".
+ * - Terms match whole tokens, token prefixes, substrings and (for longer terms) tokens within a small edit distance.
+ * - `field:value` parts of a query filter on document fields (e.g. `type:invoice status:overdue`).
+ * - `sync()` only re-indexes records whose object identity changed since the previous call.
+ */
+
+export interface SearchDocument {
+    /** `${type}:${id}` */
+    key: string;
+    type: string;
+    id: string;
+    title: string;
+    subtitle?: string;
+    /** Values for `field:value` filters; several accepted words may be separated by spaces */
+    fields: Record<string, string>;
+    /** Everything the free-text terms are matched against */
+    text: string;
+}
+
+export interface SearchResult {
+    doc: SearchDocument;
+    score: number;
+}
+
+export interface ParsedQuery {
+    terms: string[];
+    filters: { field: string; value: string }[];
+}
+
+const FILTER_PATTERN = /^([a-z]+):(.+)$/;
+
+const SCORE_EXACT = 4;
+const SCORE_PREFIX = 3;
+const SCORE_SUBSTRING = 1.5;
+const SCORE_FUZZY = 1;
+const SCORE_TITLE_BONUS = 1;
+
+export const foldText = (text: string): string =>
+    text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+export const tokenize = (text: string): string[] =>
+    foldText(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+export const parseSearchQuery = (query: string): ParsedQuery => {
+    const parsed: ParsedQuery = { terms: [], filters: [] };
+    query.trim().split(/\s+/).filter(Boolean).forEach(part => {
+        const folded = foldText(part);
+        const filter = FILTER_PATTERN.exec(folded);
+        if (filter) parsed.filters.push({ field: filter[1], value: filter[2] });
+        else parsed.terms.push(...tokenize(part));
+    });
+    return parsed;
+};
+
+/**
+ * Edit distance with adjacent transpositions ("desing" -> "design" is one edit), giving up as soon as it exceeds `max`
+ */
+const withinDistance = (a: string, b: string, max: number): boolean => {
+    if (Math.abs(a.length - b.length) > max) return false;
+    let beforePrevious: number[] = [];
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        let rowMin = i;
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+            }
+            rowMin = Math.min(rowMin, current[j]);
+        }
+        if (rowMin > max) return false;
+        beforePrevious = previous;
+        previous = current;
+    }
+    return previous[b.length] <= max;
+};
+
+const maxEdits = (term: string) => term.length >= 7 ? 2 : term.length >= 4 ? 1 : 0;
+
+/**
+ * How well one query term matches one indexed token (0 = no match)
+ */
+export const scoreToken = (term: string, token: string): number => {
+    if (token === term) return SCORE_EXACT;
+    if (token.startsWith(term)) return SCORE_PREFIX;
+    if (term.length >= 3 && token.includes(term)) return SCORE_SUBSTRING;
+    const edits = maxEdits(term);
+    if (edits === 0) return 0;
+    // Compare with the token's prefix too, so a typo in a partially typed word still matches
+    if (withinDistance(term, token, edits) || (token.length > term.length && withinDistance(term, token.slice(0, term.length), edits))) {
+        return SCORE_FUZZY;
+    }
+    return 0;
+};
+
+/**
+ * Score a short standalone text (command palette actions) the way indexed documents are scored; 0 = no match
+ */
+export const scoreText = (terms: string[], text: string): number => {
+    const tokens = tokenize(text);
+    let total = 0;
+    for (const term of terms) {
+        const best = Math.max(0, ...tokens.map(token => scoreToken(term, token)));
+        if (best === 0) return 0;
+        total += best;
+    }
+    return total;
+};
+
+const matchesFilter = (doc: SearchDocument, field: string, value: string): boolean => {
+    const raw = doc.fields[field];
+    if (raw === undefined) return false;
+    return tokenize(raw).some(token => token.startsWith(value)) || foldText(raw).startsWith(value);
+};
+
+export class SearchIndex {
+    private docs = new Map<string, SearchDocument>();
+    private sources = new Map<string, unknown>();
+    private docTokens = new Map<string, string[]>();
+    private postings = new Map<string, Set<string>>();
+    private keysByType = new Map<string, Set<string>>();
+    private depsByType = new Map<string, unknown[]>();
+
+    get size(): number {
+        return this.docs.size;
+    }
+
+    /**
+     * Bring one record type up to date.
+     * `deps` are other values the documents are built from (e.g. clients for invoice documents); when any of them
+     * changes identity every record of the type is rebuilt.
+     */
+    sync<T extends { id: string }>(type: string, records: T[], build: (record: T) => SearchDocument, deps: unknown[] = []): void {
+        const previousDeps = this.depsByType.get(type);
+        const depsChanged = !previousDeps || previousDeps.length !== deps.length || deps.some((dep, i) => dep !== previousDeps[i]);
+        this.depsByType.set(type, deps);
+
+        const previousKeys = this.keysByType.get(type) ?? new Set<string>();
+        const keys = new Set<string>();
+        records.forEach(record => {
+            const key = `${type}:${record.id}`;
+            keys.add(key);
+            if (!depsChanged && this.sources.get(key) === record) return;
+            this.remove(key);
+            this.add(build(record));
+            this.sources.set(key, record);
+        });
+        previousKeys.forEach(key => {
+            if (!keys.has(key)) this.remove(key);
+        });
+        this.keysByType.set(type, keys);
+    }
+
+    search(query: string, limit = 30): SearchResult[] {
+        const { terms, filters } = parseSearchQuery(query);
+        if (terms.length === 0 && filters.length === 0) return [];
+
+        let candidates: Map<string, number> | null = null;
+        for (const term of terms) {
+            const scores = new Map<string, number>();
+            this.postings.forEach((keys, token) => {
+                const score = scoreToken(term, token);
+                if (score === 0) return;
+                keys.forEach(key => scores.set(key, Math.max(scores.get(key) ?? 0, score)));
+            });
+            // Every term has to match (AND), scores add up
+            const previous: Map<string, number> | null = candidates;
+            candidates = new Map();
+            scores.forEach((score, key) => {
+                if (previous && !previous.has(key)) return;
+                candidates!.set(key, (previous?.get(key) ?? 0) + score);
+            });
+            if (candidates.size === 0) return [];
+        }
+
+        const pool: [string, number][] = candidates
+            ? Array.from(candidates.entries())
+            : Array.from(this.docs.keys(), key => [key, 0] as [string, number]);
+
+        const results: SearchResult[] = [];
+        pool.forEach(([key, score]) => {
+            const doc = this.docs.get(key);
+            if (!doc || !filters.every(filter => matchesFilter(doc, filter.field, filter.value))) return;
+            const title = foldText(doc.title);
+            const titleBonus = terms.filter(term => title.includes(term)).length * SCORE_TITLE_BONUS;
+            results.push({ doc, score: score + titleBonus });
+        });
+
+        return results
+            .sort((a, b) => b.score - a.score || a.doc.title.localeCompare(b.doc.title))
+            .slice(0, limit);
+    }
+
+    private add(doc: SearchDocument): void {
+        const tokens = Array.from(new Set(tokenize(`${doc.title} ${doc.text}`)));
+        this.docs.set(doc.key, doc);
+        this.docTokens.set(doc.key, tokens);
+        tokens.forEach(token => {
+            const keys = this.postings.get(token) ?? new Set<string>();
+            keys.add(doc.key);
+            this.postings.set(token, keys);
+        });
+    }
+
+    private remove(key: string): void {
+        this.docTokens.get(key)?.forEach(token => {
+            const keys = this.postings.get(token);
+            if (!keys) return;
+            keys.delete(key);
+            if (keys.size === 0) this.postings.delete(token);
+        });
+        this.docs.delete(key);
+        this.docTokens.delete(key);
+        this.sources.delete(key);
+    }
+}
@@ -0,0 +1,186 @@
+/**
+ * subscriptionCatchUp.ts
+ * The subscription engine: every payment of an active subscription that came due is posted as a linked expense
+ * transaction (`subscriptionId`), and `nextPayment` moves on to the following one.
+ *
+ * Pure functions, like the recurring catch-up (utils/recurringCatchUp).
+ * Billing follows the rule of `billingCycle` (ruleFromPeriod), so month-end days clamp the same way as recurring
+ * transactions do: Jan 31 -> Feb 28 -> Mar 31. `billingStart` keeps the anchor day once the cycle has started.
+ * Paused or cancelled subscriptions (`isActive` false) post nothing; payments that fell due while paused are not
+ * posted on resume, and neither are payments before the end of a free trial (`trialEndsAt`).
+ * Payment ids are `${subscriptionId}_${YYYY-MM-DD}`, so tabs catching up at once agree.
+ */
+
+import { Subscription, Transaction } from '../types/planner';
+import { endOfToday } from './recurringCatchUp';
+import { RecurrenceRule, iterateOccurrences, ruleFromPeriod, toLocalYMD } from './rrule';
+
+/** Safety brake per subscription (~10 years daily) */
+const MAX_CATCHUP = 3660;
+
+export interface SubscriptionCatchUp {
+    /**
+     * Subscriptions whose next payment moved forward: `previousNextPayment` is the one the catch-up started from.
+     * `ended` = a one-time payment was posted; `billingStart` pins the cycle's anchor on subscriptions without one.
+     */
+    subscriptions: { id: string; previousNextPayment: number; nextPayment: Date; ended?: boolean; billingStart?: string }[];
+    payments: Transaction[];
+}
+
+/** Id of the transaction posted for the payment of `subscriptionId` on `ymd` (YYYY-MM-DD) */
+export const subscriptionPaymentId = (subscriptionId: string, ymd: string): string => `${subscriptionId}_${ymd}`;
+
+/**
+ * Billing rule and DTSTART of a subscription; the rule is null for one-time subscriptions
+ */
+export const billingOf = (subscription: Subscription): { rule: RecurrenceRule | null; start: Date } | null => {
+    const start = new Date(subscription.billingStart ?? subscription.nextPayment);
+    if (Number.isNaN(start.getTime())) return null;
+    const rule = subscription.billingCycle === 'one-time' ? null : ruleFromPeriod(subscription.billingCycle, start);
+    return { rule, start };
+};
+
+/** True for payments that fall within the subscription's free trial */
+export const isTrialPayment = (subscription: Subscription, date: Date): boolean =>
+    !!subscription.trialEndsAt && toLocalYMD(date) < subscription.trialEndsAt;
+
+/**
+ * The expense transaction of one payment
+ */
+export const paymentFromSubscription = (subscription: Subscription, date: Date, createdAtISO: string): Transaction => {
+    const dayKey = toLocalYMD(date);
+    return {
+        id: subscriptionPaymentId(subscription.id, dayKey),
+        subscriptionId: subscription.id,
+        amount: -Math.abs(subscription.cost),
+        description: subscription.name,
+        date: new Date(date),
+        effectiveDateYMD: dayKey,
+        type: 'expense',
+        category: subscription.category,
+        currency: subscription.currency,
+        kind: 'history',
+        recurring: false,
+        status: 'completed',
+        createdAtISO,
+    };
+};
+
+/**
+ * Post every payment of the active subscriptions due up to `now`.
+ * Payments that exist already (posted by another tab, or restored from the trash) are not posted again.
+ */
+export const catchUpSubscriptions = (
+    subscriptions: Subscription[],
+    transactions: Transaction[],
+    now: Date = endOfToday()
+): SubscriptionCatchUp => {
+    const existingIds = new Set(transactions.map(t => t.id));
+    const result: SubscriptionCatchUp = { subscriptions: [], payments: [] };
+    const createdAtISO = new Date().toISOString();
+
+    const post = (subscription: Subscription, date: Date) => {
+        if (isTrialPayment(subscription, date)) return;
+        const payment = paymentFromSubscription(subscription, date, createdAtISO);
+        if (existingIds.has(payment.id)) return;
+        existingIds.add(payment.id);
+        result.payments.push(payment);
+    };
+
+    subscriptions.forEach(subscription => {
+        if (!subscription.isActive) return;
+        const billing = billingOf(subscription);
+        const nextPayment = new Date(subscription.nextPayment);
+        if (!billing || Number.isNaN(nextPayment.getTime()) || nextPayment.getTime() > now.getTime()) return;
+
+        if (!billing.rule) {
+            post(subscription, nextPayment);
+            result.subscriptions.push({ id: subscription.id, previousNextPayment: nextPayment.getTime(), nextPayment, ended: true });
+            return;
+        }
+
+        let next: Date | null = null;
+        let iterations = 0;
+        for (const occurrence of iterateOccurrences(billing.rule, billing.start)) {
+            // Payments before `nextPayment` were posted by earlier catch-ups
+            if (occurrence.getTime() < nextPayment.getTime()) continue;
+            if (occurrence.getTime() > now.getTime() || iterations >= MAX_CATCHUP) {
+                next = occurrence;
+                break;
+            }
+            post(subscription, occurrence);
+            iterations++;
+        }
+        if (!next) return;
+        result.subscriptions.push({
+            id: subscription.id,
+            previousNextPayment: nextPayment.getTime(),
+            nextPayment: next,
+            ...(!subscription.billingStart && { billingStart: billing.start.toISOString() }),
+        });
+    });
+
+    return result;
+};
+
+/**
+ * Move the subscriptions of a catch-up to their next payment (one-time ones become inactive).
+ * Subscriptions paused or edited since the catch-up was computed are left alone.
+ * Returns `subscriptions` itself when nothing changes.
+ */
+export const applySubscriptionCatchUp = (subscriptions: Subscription[], catchUp: SubscriptionCatchUp): Subscription[] => {
+    const advanced = new Map(catchUp.subscriptions.map(s => [s.id, s]));
+    let changed = false;
+    const next = subscriptions.map(subscription => {
+        const update = advanced.get(subscription.id);
+        if (!update || !subscription.isActive || new Date(subscription.nextPayment).getTime() !== update.previousNextPayment) {
+            return subscription;
+        }
+        changed = true;
+        return {
+            ...subscription,
+            nextPayment: new Date(update.nextPayment),
+            ...(update.billingStart && { billingStart: update.billingStart }),
+            ...(update.ended && { isActive: false }),
+        };
+    });
+    return changed ? next : subscriptions;
+};
+
+/**
+ * A subscription with `updates` applied:
+ * - a new price (cost or currency) is added to `priceHistory`
+ * - a new next payment or billing cycle starts a new cycle (the old anchor no longer applies)
+ * - on resume, the next payment moves to the first one from today, so the paused period is not charged
+ */
+export const applySubscriptionUpdates = (
+    subscription: Subscription,
+    updates: Partial<Subscription>,
+    now: Date = new Date()
+): Subscription => {
+    const next: Subscription = { ...subscription, ...updates };
+    const priceChanged = (updates.cost !== undefined && updates.cost !== subscription.cost)
+        || (updates.currency !== undefined && updates.currency !== subscription.currency);
+    if (priceChanged && updates.priceHistory === undefined) {
+        next.priceHistory = [...(subscription.priceHistory ?? []), {
+            date: now.toISOString(),
+            previousCost: subscription.cost,
+            previousCurrency: subscription.currency,
+            cost: next.cost,
+            currency: next.currency,
+        }];
+    }
+    const cycleChanged = (updates.nextPayment !== undefined && new Date(updates.nextPayment).getTime() !== new Date(subscription.nextPayment).getTime())
+        || (updates.billingCycle !== undefined && updates.billingCycle !== subscription.billingCycle);
+    if (cycleChanged && updates.billingStart === undefined) next.billingStart = undefined;
+
+    if (subscription.isActive || !next.isActive || cycleChanged) return next;
+    const billing = billingOf(next);
+    if (!billing?.rule || new Date(next.nextPayment).getTime() >= now.getTime()) return next;
+
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    for (const occurrence of iterateOccurrences(billing.rule, billing.start)) {
+        if (occurrence.getTime() >= today.getTime()) return { ...next, nextPayment: occurrence };
+    }
+    return next;
+};
@@ -0,0 +1,110 @@
+/**
+ * subscriptionInsights.ts
+ * Figures for the subscription manager: costs normalised to a month / year in one currency, per-category totals,
+ * free-trial status and cancel candidates (little use, or a recent price increase).
+ *
+ * Pure functions; currency conversion is passed in (CurrencyService.convert in the app).
+ */
+
+import { Subscription, SubscriptionPriceChange } from '../types/planner';
+import { toLocalYMD } from './rrule';
+
+type Convert = (amount: number, fromCurrency: string, toCurrency: string) => number;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Payments per year of each billing cycle; one-time purchases are not a running cost */
+export const PAYMENTS_PER_YEAR: Record<Subscription['billingCycle'], number> = {
+    daily: 365,
+    weekly: 52,
+    monthly: 12,
+    yearly: 1,
+    'one-time': 0,
+};
+
+export type CancelReason = 'lowUse' | 'priceIncrease';
+
+export interface CancelCandidate {
+    subscription: Subscription;
+    reasons: CancelReason[];
+}
+
+export interface SubscriptionTotals {
+    monthly: number;
+    annual: number;
+    /** Monthly cost per category */
+    byCategory: Record<string, number>;
+}
+
+/** Yearly cost of a subscription in `currency` */
+export const annualCost = (subscription: Subscription, currency: string, convert: Convert): number =>
+    convert(Math.abs(subscription.cost), subscription.currency, currency) * PAYMENTS_PER_YEAR[subscription.billingCycle];
+
+export const monthlyCost = (subscription: Subscription, currency: string, convert: Convert): number =>
+    annualCost(subscription, currency, convert) / 12;
+
+/**
+ * Monthly and annual totals of the active subscriptions in `currency`
+ */
+export const subscriptionTotals = (subscriptions: Subscription[], currency: string, convert: Convert): SubscriptionTotals => {
+    const totals: SubscriptionTotals = { monthly: 0, annual: 0, byCategory: {} };
+    subscriptions.filter(s => s.isActive).forEach(subscription => {
+        const annual = annualCost(subscription, currency, convert);
+        const category = subscription.category || 'other';
+        totals.annual += annual;
+        totals.monthly += annual / 12;
+        totals.byCategory[category] = (totals.byCategory[category] ?? 0) + annual / 12;
+    });
+    return totals;
+};
+
+/**
+ * Days left of the free trial (0 = ends today), or null when there is no trial running
+ */
+export const trialDaysLeft = (subscription: Subscription, now: Date = new Date()): number | null => {
+    if (!subscription.trialEndsAt) return null;
+    const today = toLocalYMD(now);
+    if (subscription.trialEndsAt < today) return null;
+    const [year, month, day] = subscription.trialEndsAt.split('-').map(Number);
+    const end = new Date(year, month - 1, day);
+    const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    return Math.round((end.getTime() - start.getTime()) / DAY_MS);
+};
+
+/**
+ * The latest price change within the last `days` that made the subscription more expensive, if any
+ */
+export const recentPriceIncrease = (
+    subscription: Subscription,
+    convert: Convert,
+    days = 90,
+    now: Date = new Date()
+): SubscriptionPriceChange | null => {
+    const since = now.getTime() - days * DAY_MS;
+    const changes = [...(subscription.priceHistory ?? [])].reverse();
+    return changes.find(change =>
+        new Date(change.date).getTime() >= since
+        && convert(change.cost, change.currency, change.previousCurrency) > change.previousCost
+    ) ?? null;
+};
+
+/**
+ * Active subscriptions worth a second look: not marked as used for `unusedDays` (counted from when they were
+ * added if never), or more expensive since a price change in the last `increaseDays`
+ */
+export const cancelCandidates = (
+    subscriptions: Subscription[],
+    convert: Convert,
+    { unusedDays = 30, increaseDays = 90 }: { unusedDays?: number; increaseDays?: number } = {},
+    now: Date = new Date()
+): CancelCandidate[] =>
+    subscriptions
+        .filter(s => s.isActive && s.billingCycle !== 'one-time')
+        .map(subscription => {
+            const reasons: CancelReason[] = [];
+            const lastUsed = new Date(subscription.lastUsedAt ?? subscription.createdAt).getTime();
+            if (now.getTime() - lastUsed > unusedDays * DAY_MS) reasons.push('lowUse');
+            if (recentPriceIncrease(subscription, convert, increaseDays, now)) reasons.push('priceIncrease');
+            return { subscription, reasons };
+        })
+        .filter(candidate => candidate.reasons.length > 0);
@@ -0,0 +1,91 @@
+/**
+ * syncMerge.ts
+ * Three-way merge of a synced payload (local vs. remote against the last synced base).
+ *
+ * Collections are merged record by record (by id); single objects such as budget settings are one record.
+ * Records changed on only one side merge silently. Records changed differently on both sides are resolved
+ * by timestamp (newer side wins) and reported, so the user can pick the other version from the conflict inbox.
+ */
+
+export type SyncSide = 'local' | 'remote';
+
+export interface MergeConflict {
+    /** null for single-object payloads */
+    recordId: string | null;
+    local: unknown;
+    remote: unknown;
+    winner: SyncSide;
+}
+
+export interface MergeResult {
+    merged: unknown;
+    conflicts: MergeConflict[];
+}
+
+type Row = { id: string } & Record<string, unknown>;
+
+export const sameJson = (a: unknown, b: unknown): boolean => {
+    if (a === b) return true;
+    try {
+        return JSON.stringify(a) === JSON.stringify(b);
+    } catch {
+        return false;
+    }
+};
+
+const isCollection = (value: unknown): value is Row[] =>
+    Array.isArray(value) && value.every(item => item && typeof item === 'object' && typeof (item as Row).id === 'string');
+
+const byId = (rows: Row[]) => new Map(rows.map(row => [row.id, row]));
+
+/**
+ * @param localChangedAt when this device last changed the payload (ISO)
+ * @param remoteUpdatedAt `user_data.updated_at` of the remote row (ISO)
+ */
+export const mergeSyncPayload = (
+    base: unknown,
+    local: unknown,
+    remote: unknown,
+    localChangedAt: string | null,
+    remoteUpdatedAt: string | null
+): MergeResult => {
+    const winner: SyncSide = localChangedAt && remoteUpdatedAt && Date.parse(localChangedAt) > Date.parse(remoteUpdatedAt)
+        ? 'local'
+        : 'remote';
+
+    if (!isCollection(local) || !isCollection(remote)) {
+        if (sameJson(local, remote) || sameJson(base, remote)) return { merged: local, conflicts: [] };
+        if (sameJson(base, local)) return { merged: remote, conflicts: [] };
+        return {
+            merged: winner === 'local' ? local : remote,
+            conflicts: [{ recordId: null, local, remote, winner }],
+        };
+    }
+
+    const baseRows = byId(isCollection(base) ? base : []);
+    const localRows = byId(local);
+    const remoteRows = byId(remote);
+    const conflicts: MergeConflict[] = [];
+
+    const pick = (id: string): Row | undefined => {
+        const b = baseRows.get(id);
+        const l = localRows.get(id);
+        const r = remoteRows.get(id);
+        if (sameJson(b, r) || sameJson(l, r)) return l;
+        if (sameJson(b, l)) return r;
+        conflicts.push({ recordId: id, local: l ?? null, remote: r ?? null, winner });
+        return winner === 'local' ? l : r;
+    };
+
+    // Keep the local order, then append records that only exist remotely
+    const merged: Row[] = [];
+    const seen = new Set<string>();
+    [...local, ...remote, ...(isCollection(base) ? base : [])].forEach(row => {
+        if (seen.has(row.id)) return;
+        seen.add(row.id);
+        const chosen = pick(row.id);
+        if (chosen) merged.push(chosen);
+    });
+
+    return { merged, conflicts };
+};
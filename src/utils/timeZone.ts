@@ -0,0 +1,163 @@
+/**
+ * timeZone.ts
+ * IANA time zone arithmetic on top of Intl.DateTimeFormat: the calendar day and wall-clock time of an instant in a
+ * zone, and the instant of a wall-clock time in a zone (DST gaps resolve forward, overlaps to the earlier instant).
+ *
+ * Pure functions; the configured zone lives in TimeZoneService.
+ * Day-level dates (plan days, transaction dates) stay "floating" browser-local calendar days - only which day is
+ * today and the instants of timed items (start / end times) depend on the zone.
+ */
+
+export interface ZonedParts {
+    year: number;
+    month: number; // 1-12
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+}
+
+/** Zones offered in Settings > General */
+export const SUPPORTED_TIME_ZONES = [
+    'UTC',
+    'Europe/Budapest',
+    'America/New_York',
+    'Europe/London',
+    'Europe/Berlin',
+    'Europe/Paris',
+    'Europe/Rome',
+    'America/Los_Angeles',
+] as const;
+
+export type SupportedTimeZone = typeof SUPPORTED_TIME_ZONES[number];
+
+const MINUTE_MS = 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string): Intl.DateTimeFormat => {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            second: 'numeric',
+        });
+        formatters.set(timeZone, formatter);
+    }
+    return formatter;
+};
+
+const pad2 = (n: number) => String(n).padStart(2, '0');
+
+/** The zone of the browser, e.g. Europe/Budapest (UTC when the runtime does not tell) */
+export const browserTimeZone = (): string => {
+    try {
+        return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+    } catch {
+        return 'UTC';
+    }
+};
+
+/** The browser's zone when it is one of the supported ones, UTC otherwise */
+export const defaultTimeZone = (): SupportedTimeZone => {
+    const zone = browserTimeZone();
+    return (SUPPORTED_TIME_ZONES as readonly string[]).includes(zone) ? zone as SupportedTimeZone : 'UTC';
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+    try {
+        formatterFor(timeZone);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Calendar day and wall-clock time of `date` in `timeZone`
+ */
+export const zonedParts = (date: Date, timeZone: string): ZonedParts => {
+    const parts: Record<string, number> = {};
+    formatterFor(timeZone).formatToParts(date).forEach(part => {
+        if (part.type !== 'literal') parts[part.type] = Number(part.value);
+    });
+    return {
+        year: parts.year,
+        month: parts.month,
+        day: parts.day,
+        hour: parts.hour === 24 ? 0 : parts.hour,
+        minute: parts.minute,
+        second: parts.second,
+    };
+};
+
+/** Offset of `timeZone` from UTC at `date`, in milliseconds (Budapest in summer: +2h) */
+export const zoneOffsetMs = (date: Date, timeZone: string): number => {
+    const p = zonedParts(date, timeZone);
+    const asUTC = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+    return asUTC - (date.getTime() - date.getMilliseconds());
+};
+
+/** YYYY-MM-DD of `date` in `timeZone` */
+export const toZonedYMD = (date: Date, timeZone: string): string => {
+    const p = zonedParts(date, timeZone);
+    return `${p.year}-${pad2(p.month)}-${pad2(p.day)}`;
+};
+
+/** HH:MM of `date` in `timeZone` */
+export const toZonedHM = (date: Date, timeZone: string): string => {
+    const p = zonedParts(date, timeZone);
+    return `${pad2(p.hour)}:${pad2(p.minute)}`;
+};
+
+/**
+ * The instant `ymd` (YYYY-MM-DD) at `hm` (HH:MM[:SS]) in `timeZone`
+ */
+export const zonedTimeToDate = (ymd: string, hm: string, timeZone: string, milliseconds = 0): Date => {
+    const [year, month, day] = ymd.split('-').map(Number);
+    const [hour = 0, minute = 0, second = 0] = hm.split(':').map(Number);
+    const wall = Date.UTC(year, month - 1, day, hour, minute, second, milliseconds);
+    // Offsets just before and after the wall time cover DST changes on that day
+    const before = zoneOffsetMs(new Date(wall - 12 * 60 * MINUTE_MS), timeZone);
+    const after = zoneOffsetMs(new Date(wall + 12 * 60 * MINUTE_MS), timeZone);
+    const candidates = [wall - before, wall - after].filter(t => zoneOffsetMs(new Date(t), timeZone) === wall - t);
+    // A gap (clocks moving forward) has no such instant: the wall time counts with the offset before it
+    return new Date(candidates.length > 0 ? Math.min(...candidates) : wall - before);
+};
+
+/**
+ * The same wall-clock time in `toZone` as `date` has in `fromZone` (09:00 in New York -> 09:00 in Budapest)
+ */
+export const reanchorDate = (date: Date, fromZone: string, toZone: string): Date => {
+    if (fromZone === toZone) return new Date(date);
+    const p = zonedParts(date, fromZone);
+    return zonedTimeToDate(
+        `${p.year}-${pad2(p.month)}-${pad2(p.day)}`,
+        `${pad2(p.hour)}:${pad2(p.minute)}:${pad2(p.second)}`,
+        toZone,
+        date.getMilliseconds()
+    );
+};
+
+/**
+ * The browser-local (floating) day of `ymd` at 00:00 and at 23:59:59.999
+ */
+export const localDayBounds = (ymd: string): { start: Date; end: Date } => {
+    const [year, month, day] = ymd.split('-').map(Number);
+    return {
+        start: new Date(year, month - 1, day),
+        end: new Date(year, month - 1, day, 23, 59, 59, 999),
+    };
+};
+
+/** The floating browser-local date of the calendar day `date` falls on in `timeZone` (noon, safe from DST) */
+export const zonedDayAsLocal = (date: Date, timeZone: string): Date => {
+    const p = zonedParts(date, timeZone);
+    return new Date(p.year, p.month - 1, p.day, 12);
+};
@@ -0,0 +1,109 @@
+/**
+ * trash.ts
+ * Soft delete helpers for the DataContext trash bin.
+ *
+ * Deleting a record only stamps `deletedAt`; it stays in its collection (and in storage, backups and sync)
+ * until it is restored or purged. Records deleted together with a parent — recurring history removed with
+ * its master transaction — share the parent's timestamp and are restored or purged as one bundle.
+ */
+
+import { JournalCollection, recordLabel } from './changeJournal';
+import { SoftDeletable } from '../types/planner';
+
+export type TrashCollection = Extract<JournalCollection,
+    'notes' | 'goals' | 'plans' | 'drawings' | 'transactions' | 'invoices' | 'clients' | 'companyProfiles' | 'workflows'>;
+
+export const TRASH_COLLECTIONS: TrashCollection[] = [
+    'notes', 'goals', 'plans', 'drawings', 'transactions', 'invoices', 'clients', 'companyProfiles', 'workflows',
+];
+
+export type { SoftDeletable };
+
+export interface TrashEntry {
+    collection: TrashCollection;
+    id: string;
+    label: string;
+    deletedAt: string;
+    /** Records bundled with this one (e.g. generated history of a recurring transaction) */
+    bundled: number;
+}
+
+/** Retention choices offered in the Trash view (0 = keep until purged by hand) */
+export const TRASH_RETENTION_OPTIONS = [0, 7, 14, 30, 60, 90];
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isTrashed = (item: SoftDeletable): boolean => !!item.deletedAt;
+
+export const withoutTrashed = <T extends SoftDeletable>(items: T[]): T[] => items.filter(item => !item.deletedAt);
+
+const originOf = (item: SoftDeletable): string | undefined => {
+    const origin = (item as unknown as { originId?: unknown }).originId;
+    return typeof origin === 'string' ? origin : undefined;
+};
+
+/**
+ * Ids of a trashed record and of the records deleted together with it
+ */
+export const bundleIds = (items: SoftDeletable[], id: string): Set<string> => {
+    const root = items.find(item => item.id === id);
+    const ids = new Set<string>();
+    if (!root?.deletedAt) return ids;
+    ids.add(root.id);
+    items.forEach(item => {
+        if (originOf(item) === root.id && item.deletedAt === root.deletedAt) ids.add(item.id);
+    });
+    return ids;
+};
+
+/**
+ * Stamp the given records as deleted. Already trashed records keep their original timestamp.
+ */
+export const moveToTrash = <T extends SoftDeletable>(items: T[], ids: Set<string>, deletedAt: string): T[] => {
+    if (!items.some(item => ids.has(item.id) && !item.deletedAt)) return items;
+    return items.map(item => (ids.has(item.id) && !item.deletedAt ? { ...item, deletedAt } : item));
+};
+
+export const restoreTrashed = <T extends SoftDeletable>(items: T[], ids: Set<string>): T[] => {
+    if (ids.size === 0) return items;
+    return items.map(item => {
+        if (!ids.has(item.id) || !item.deletedAt) return item;
+        const restored = { ...item };
+        delete restored.deletedAt;
+        return restored;
+    });
+};
+
+/**
+ * One entry per trashed record, newest first. Bundled records are folded into their parent's entry.
+ */
+export const collectTrash = (collections: Record<TrashCollection, SoftDeletable[]>): TrashEntry[] => {
+    const entries: TrashEntry[] = [];
+    TRASH_COLLECTIONS.forEach(collection => {
+        const items = collections[collection];
+        const trashed = items.filter(isTrashed);
+        const byId = new Map(trashed.map(item => [item.id, item]));
+        trashed.forEach(item => {
+            const parent = originOf(item) ? byId.get(originOf(item)!) : undefined;
+            if (parent && parent.deletedAt === item.deletedAt) return;
+            entries.push({
+                collection,
+                id: item.id,
+                label: recordLabel(item),
+                deletedAt: item.deletedAt!,
+                bundled: bundleIds(items, item.id).size - 1,
+            });
+        });
+    });
+    return entries.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+};
+
+/**
+ * True when a trashed record is older than the retention period
+ */
+export const isTrashExpired = (item: SoftDeletable, retentionDays: number, now: number = Date.now()): boolean => {
+    if (!item.deletedAt || retentionDays <= 0) return false;
+    const deletedAt = Date.parse(item.deletedAt);
+    return !Number.isNaN(deletedAt) && now - deletedAt >= retentionDays * DAY_MS;
+};
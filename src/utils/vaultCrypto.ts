@@ -0,0 +1,64 @@
+/**
+ * vaultCrypto.ts
+ * WebCrypto primitives for the local data vault: PBKDF2-SHA256 key derivation and AES-GCM payloads.
+ *
+ * Payload format: `vault:v1:<base64 iv>:<base64 ciphertext+tag>`
+ */
+
+import { ENCRYPTED_MARKER } from '../services/StorageService';
+
+export const PBKDF2_ITERATIONS = 600_000;
+const PAYLOAD_PREFIX = `${ENCRYPTED_MARKER}v1:`;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export const isVaultCryptoSupported = (): boolean =>
+    typeof crypto !== 'undefined' && !!crypto.subtle && typeof TextEncoder !== 'undefined';
+
+export const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    bytes.forEach(b => { binary += String.fromCharCode(b); });
+    return btoa(binary);
+};
+
+export const fromBase64 = (value: string): Uint8Array =>
+    Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+export const generateSalt = (): string => toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+
+/**
+ * Derive a non-extractable AES-256-GCM key from a passphrase
+ */
+export const deriveVaultKey = async (passphrase: string, salt: string, iterations = PBKDF2_ITERATIONS): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(passphrase),
+        'PBKDF2',
+        false,
+        ['deriveKey']
+    );
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+};
+
+export const encryptString = async (key: CryptoKey, plain: string): Promise<string> => {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const cipherText = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plain));
+    return `${PAYLOAD_PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(cipherText))}`;
+};
+
+/**
+ * Throws if the payload is malformed or the key is wrong (AES-GCM authentication fails)
+ */
+export const decryptString = async (key: CryptoKey, payload: string): Promise<string> => {
+    if (!payload.startsWith(PAYLOAD_PREFIX)) throw new Error('Unsupported vault payload');
+    const [iv, data] = payload.slice(PAYLOAD_PREFIX.length).split(':');
+    if (!iv || !data) throw new Error('Malformed vault payload');
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(data));
+    return new TextDecoder().decode(plain);
+};
@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+/** package.json version, injected by vite.config.ts */
+declare const __APP_VERSION__: string;
+
+interface ImportMetaEnv {
+  readonly VITE_GEMINI_API_KEY?: string;
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
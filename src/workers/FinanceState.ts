@@ -0,0 +1,73 @@
+/**
+ * FinanceState.ts
+ * The finance worker's state: a copy of the transactions plus cached report contributions.
+ * Runs inside the worker, and on the main thread when workers are unavailable.
+ */
+
+import { Transaction } from '../types/planner';
+import { ReportContribution, reportFromContributions, transactionContribution } from '../utils/financialReport';
+import { DatedRates, createRateLookup } from '../utils/rateHistory';
+import { catchUpRecurring } from '../utils/recurringCatchUp';
+import { FinanceRequest, FinanceResponse, TransactionDelta } from './financeProtocol';
+
+export class FinanceState {
+    private transactions = new Map<string, Transaction>();
+    private contributions = new Map<string, ReportContribution>();
+    /** Base currency and rates the cached contributions were converted with */
+    private contributionKey = '';
+    private rates: DatedRates | null = null;
+
+    handle(request: FinanceRequest): FinanceResponse {
+        try {
+            this.applyDelta(request.delta);
+            switch (request.type) {
+                case 'report':
+                    return { id: request.id, type: 'report', report: this.report(request.baseCurrency, request.rates) };
+                case 'recurring':
+                    return {
+                        id: request.id,
+                        type: 'recurring',
+                        catchUp: catchUpRecurring(this.transactions.values(), new Set(request.skips), new Date(request.now)),
+                    };
+            }
+        } catch (e) {
+            return { id: request.id, type: 'error', message: e instanceof Error ? e.message : String(e) };
+        }
+    }
+
+    private applyDelta(delta: TransactionDelta): void {
+        if (delta.reset) {
+            this.transactions.clear();
+            this.contributions.clear();
+        }
+        delta.removed.forEach(id => {
+            this.transactions.delete(id);
+            this.contributions.delete(id);
+        });
+        delta.upserts.forEach(t => {
+            this.transactions.set(t.id, t);
+            this.contributions.delete(t.id);
+        });
+    }
+
+    /**
+     * Only transactions without a cached contribution are converted; a currency or rate change invalidates all of them
+     * (a change to the rate history shows as a new `revision`)
+     */
+    private report(baseCurrency: string, changedRates?: DatedRates) {
+        if (changedRates) this.rates = changedRates;
+        const rates = this.rates;
+        if (!rates) throw new Error('No exchange rates received');
+        const key = `${baseCurrency}|${JSON.stringify(rates.current)}|${rates.revision}`;
+        if (key !== this.contributionKey) {
+            this.contributions.clear();
+            this.contributionKey = key;
+        }
+        const lookup = createRateLookup(rates);
+        this.transactions.forEach((t, id) => {
+            // Trashed transactions are kept for the recurring catch-up but do not count
+            if (!t.deletedAt && !this.contributions.has(id)) this.contributions.set(id, transactionContribution(t, baseCurrency, lookup));
+        });
+        return reportFromContributions(this.contributions.values());
+    }
+}
@@ -0,0 +1,14 @@
+/**
+ * finance.worker.ts
+ * Recurring-transaction catch-up and financial reports off the main thread (see FinanceWorkerService).
+ */
+
+import { FinanceState } from './FinanceState';
+import { FinanceRequest } from './financeProtocol';
+
+const state = new FinanceState();
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (event: MessageEvent<FinanceRequest>) => {
+    ctx.postMessage(state.handle(event.data));
+};
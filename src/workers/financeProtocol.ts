@@ -0,0 +1,30 @@
+/**
+ * financeProtocol.ts
+ * Typed messages between FinanceWorkerService (main thread) and finance.worker.ts.
+ *
+ * The worker keeps its own copy of the transactions. Each request carries only the records that were
+ * added, replaced or removed since the previous request, so neither side re-sends the whole ledger.
+ * Exchange rates are sent the same way: only when they changed.
+ */
+
+import { Transaction } from '../types/planner';
+import { FinancialReport } from '../utils/financialReport';
+import { DatedRates } from '../utils/rateHistory';
+import { RecurringCatchUp } from '../utils/recurringCatchUp';
+
+export interface TransactionDelta {
+    /** Drop every transaction the worker holds before applying `upserts` */
+    reset: boolean;
+    upserts: Transaction[];
+    removed: string[];
+}
+
+export type FinanceRequest =
+    /** `rates` only when they changed since the previous report request; the worker keeps the last ones */
+    | { id: number; type: 'report'; delta: TransactionDelta; baseCurrency: string; rates?: DatedRates }
+    | { id: number; type: 'recurring'; delta: TransactionDelta; skips: string[]; now: number };
+
+export type FinanceResponse =
+    | { id: number; type: 'report'; report: FinancialReport }
+    | { id: number; type: 'recurring'; catchUp: RecurringCatchUp }
+    | { id: number; type: 'error'; message: string };
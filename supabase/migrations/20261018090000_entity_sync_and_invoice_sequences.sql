@@ -0,0 +1,96 @@
+/*
+  # Sync every app entity and allocate invoice numbers on the server
+
+  1. Enum values
+    - `data_type_enum` gains: invoices, clients, company_profiles, workflows, workflow_templates,
+      habits, recurring_skips (stored in `user_data` like the existing data types, one row per type)
+
+  2. New Tables
+    - `invoice_sequences`
+      - `user_id` (uuid, references profiles)
+      - `company_id` (text, company profile id or 'default')
+      - `year` (integer)
+      - `last_number` (integer, last allocated sequence number)
+      - `updated_at` (timestamp)
+      - primary key (user_id, company_id, year)
+
+  3. Functions
+    - `allocate_invoice_number(p_company_id, p_year, p_min_number)` increments and returns the next
+      sequence number in a single statement. The row lock taken by the upsert serializes concurrent
+      callers, so two devices can never receive the same number.
+
+  4. Security
+    - RLS on `invoice_sequences`: users can only read and change their own sequences
+    - The function runs as the caller (SECURITY INVOKER), so RLS applies to it as well
+*/
+
+-- New data types (ADD VALUE cannot run inside a transaction block that also uses the value)
+ALTER TYPE data_type_enum ADD VALUE IF NOT EXISTS 'invoices';
+ALTER TYPE data_type_enum ADD VALUE IF NOT EXISTS 'clients';
+ALTER TYPE data_type_enum ADD VALUE IF NOT EXISTS 'company_profiles';
+ALTER TYPE data_type_enum ADD VALUE IF NOT EXISTS 'workflows';
+ALTER TYPE data_type_enum ADD VALUE IF NOT EXISTS 'workflow_templates';
+ALTER TYPE data_type_enum ADD VALUE IF NOT EXISTS 'habits';
+ALTER TYPE data_type_enum ADD VALUE IF NOT EXISTS 'recurring_skips';
+
+-- Create invoice_sequences table
+CREATE TABLE IF NOT EXISTS invoice_sequences (
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  company_id text NOT NULL DEFAULT 'default',
+  year integer NOT NULL CHECK (year BETWEEN 1900 AND 9999),
+  last_number integer NOT NULL DEFAULT 0 CHECK (last_number >= 0),
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, company_id, year)
+);
+
+-- Enable Row Level Security
+ALTER TABLE invoice_sequences ENABLE ROW LEVEL SECURITY;
+
+-- Invoice sequence policies
+CREATE POLICY "Users can view own invoice sequences"
+  ON invoice_sequences
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own invoice sequences"
+  ON invoice_sequences
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own invoice sequences"
+  ON invoice_sequences
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- Atomically allocate the next invoice number.
+-- p_min_number lets a device hand over numbers it already issued offline: the result is always above it.
+CREATE OR REPLACE FUNCTION allocate_invoice_number(
+  p_company_id text,
+  p_year integer,
+  p_min_number integer DEFAULT 0
+)
+RETURNS integer AS $$
+DECLARE
+  allocated integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  INSERT INTO invoice_sequences (user_id, company_id, year, last_number)
+  VALUES (auth.uid(), COALESCE(p_company_id, 'default'), p_year, GREATEST(COALESCE(p_min_number, 0), 0) + 1)
+  ON CONFLICT (user_id, company_id, year) DO UPDATE
+    SET last_number = GREATEST(invoice_sequences.last_number, COALESCE(p_min_number, 0)) + 1,
+        updated_at = now()
+  RETURNING last_number INTO allocated;
+
+  RETURN allocated;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+REVOKE ALL ON FUNCTION allocate_invoice_number(text, integer, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION allocate_invoice_number(text, integer, integer) TO authenticated;
@@ -0,0 +1,9 @@
+/*
+  # Sync budget goals
+
+  1. Enum values
+    - `data_type_enum` gains: budget_goals (stored in `user_data`, one row per type).
+      Goal progress is not stored; it is derived from the linked transactions.
+*/
+
+ALTER TYPE data_type_enum ADD VALUE IF NOT EXISTS 'budget_goals';